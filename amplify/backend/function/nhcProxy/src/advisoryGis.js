@@ -0,0 +1,224 @@
+// Watches/warnings and wind radii KML from the NHC GIS products
+// Coastal watch and warning segments (windWatchesWarnings, stormSurgeWatchWarningGIS),
+// the breakpoints listed in the public advisory, and the initial and forecast wind radii
+// polygons (initialWindExtent, forecastWindRadiiGIS). Kept apart from index.js so the
+// parsers can be tested without the AWS SDK; see test/advisoryGis.test.js.
+
+const yauzl = require('yauzl');
+const xml2js = require('xml2js');
+
+// ─── KML ──────────────────────────────────────────────────────────────────────
+
+// First .kml entry of a KMZ archive, as text
+function readKmlFromKmz(kmzBuffer) {
+  return new Promise((resolve, reject) => {
+    yauzl.fromBuffer(kmzBuffer, { lazyEntries: true }, (err, zipfile) => {
+      if (err) return reject(err);
+      let found = false;
+      zipfile.on('entry', entry => {
+        if (found || !entry.fileName.toLowerCase().endsWith('.kml')) return zipfile.readEntry();
+        found = true;
+        zipfile.openReadStream(entry, (streamErr, stream) => {
+          if (streamErr) return reject(streamErr);
+          const chunks = [];
+          stream.on('data', chunk => chunks.push(chunk));
+          stream.on('end', () => { zipfile.close(); resolve(Buffer.concat(chunks).toString('utf8')); });
+          stream.on('error', reject);
+        });
+      });
+      zipfile.on('end', () => { if (!found) reject(new Error('No KML file found in KMZ')); });
+      zipfile.on('error', reject);
+      zipfile.readEntry();
+    });
+  });
+}
+
+const kmlCoordinates = text => String(text || '').trim().split(/\s+/)
+  .map(c => c.split(',').map(Number))
+  .filter(c => Number.isFinite(c[0]) && Number.isFinite(c[1]))
+  .map(([lon, lat]) => [lon, lat]);
+
+const asArray = value => (value === undefined || value === null ? [] : Array.isArray(value) ? value : [value]);
+
+// Every Placemark under a KML node, however deeply it sits in Documents and Folders
+function collectPlacemarks(node, out = []) {
+  if (!node || typeof node !== 'object') return out;
+  for (const [key, value] of Object.entries(node)) {
+    if (key === 'Placemark') out.push(...asArray(value));
+    else if (key !== '$') asArray(value).forEach(child => collectPlacemarks(child, out));
+  }
+  return out;
+}
+
+function placemarkData(placemark) {
+  const data = {};
+  for (const ext of asArray(placemark.ExtendedData)) {
+    for (const d of asArray(ext.Data)) if (d?.$?.name) data[d.$.name.toUpperCase()] = String(d.value ?? '').trim();
+    for (const schema of asArray(ext.SchemaData)) {
+      for (const d of asArray(schema.SimpleData)) if (d?.$?.name) data[d.$.name.toUpperCase()] = String(d._ ?? '').trim();
+    }
+  }
+  return data;
+}
+
+function placemarkLines(placemark) {
+  const lines = [];
+  const visit = geometry => {
+    if (!geometry) return;
+    asArray(geometry.LineString).forEach(l => lines.push(kmlCoordinates(l.coordinates)));
+    asArray(geometry.Polygon).forEach(p => lines.push(kmlCoordinates(p.outerBoundaryIs?.LinearRing?.coordinates)));
+    asArray(geometry.MultiGeometry).forEach(visit);
+  };
+  visit(placemark);
+  return lines.filter(l => l.length >= 2);
+}
+
+// ─── Coastal watches and warnings ─────────────────────────────────────────────
+// The KMZ files named in CurrentStorms.json (windWatchesWarnings, and for Atlantic storms
+// stormSurgeWatchWarningGIS) hold the coastline segments under each watch or warning.
+// Segments are typed from the shapefile code NHC carries into the KML (TCWW / SSWW:
+// HWR, HWA, TWR, TWA, SSR, SSA), falling back to the placemark's style, name and
+// description. The breakpoints, as worded by NHC, come from the "SUMMARY OF WATCHES AND
+// WARNINGS IN EFFECT" section of the public advisory.
+
+const WATCH_WARNING_CODES = {
+  HWR: 'hurricane-warning',
+  HWA: 'hurricane-watch',
+  TWR: 'tropical-storm-warning',
+  TWA: 'tropical-storm-watch',
+  SSR: 'storm-surge-warning',
+  SSW: 'storm-surge-warning',
+  SSA: 'storm-surge-watch'
+};
+
+const WATCH_WARNING_LABELS = {
+  'hurricane-warning': 'Hurricane Warning',
+  'hurricane-watch': 'Hurricane Watch',
+  'tropical-storm-warning': 'Tropical Storm Warning',
+  'tropical-storm-watch': 'Tropical Storm Watch',
+  'storm-surge-warning': 'Storm Surge Warning',
+  'storm-surge-watch': 'Storm Surge Watch'
+};
+
+function watchWarningTypeFromText(text) {
+  // Style ids spell it Tropical_Storm_Warning, names Tropical Storm Warning
+  const match = /(hurricane|tropical[\s_-]*storm|storm[\s_-]*surge)[\s_-]*(warning|watch)/i.exec(text || '');
+  if (!match) return null;
+  const kind = match[1].toLowerCase().replace(/[\s_-]+/, '-');
+  return `${kind}-${match[2].toLowerCase()}`;
+}
+
+async function extractWatchWarningSegments(kmlContent) {
+  const parser = new xml2js.Parser({ explicitArray: false });
+  const kml = await parser.parseStringPromise(kmlContent);
+  const features = [];
+  for (const placemark of collectPlacemarks(kml)) {
+    const data = placemarkData(placemark);
+    const code = (data.TCWW || data.SSWW || '').toUpperCase();
+    const type = WATCH_WARNING_CODES[code]
+      || watchWarningTypeFromText(placemark.styleUrl)
+      || watchWarningTypeFromText(placemark.name)
+      || watchWarningTypeFromText(typeof placemark.description === 'string' ? placemark.description : '');
+    if (!type) continue;
+    for (const coordinates of placemarkLines(placemark)) {
+      features.push({
+        type: 'Feature',
+        properties: { type, label: WATCH_WARNING_LABELS[type], name: typeof placemark.name === 'string' ? placemark.name : '' },
+        geometry: { type: 'LineString', coordinates }
+      });
+    }
+  }
+  return features;
+}
+
+/**
+ * Watch/warning areas listed in a public advisory, in NHC's wording:
+ * [{ type, label, areas: ['Mexico Beach eastward to Suwannee River', ...] }]
+ */
+function parseWatchWarningSummary(text) {
+  const start = text.search(/SUMMARY OF WATCHES AND WARNINGS IN EFFECT/i);
+  if (start < 0) return [];
+  const section = text.slice(start).split(/\n\s*(?:For storm information|Interests elsewhere|DISCUSSION AND OUTLOOK|HAZARDS AFFECTING LAND)/i)[0];
+
+  const groups = [];
+  let current = null;
+  for (const raw of section.split('\n')) {
+    const line = raw.trim();
+    const heading = /^An? (.+?) (?:is|are) in effect for/i.exec(line);
+    if (heading) {
+      const type = watchWarningTypeFromText(heading[1]);
+      current = type ? { type, label: WATCH_WARNING_LABELS[type], areas: [] } : null;
+      if (current) groups.push(current);
+    } else if (current && line.startsWith('*')) {
+      current.areas.push(line.replace(/^\*\s*/, ''));
+    } else if (current && line && current.areas.length > 0) {
+      // Wrapped area line
+      current.areas[current.areas.length - 1] += ` ${line}`;
+    } else if (!line && current?.areas.length) {
+      current = null;
+    }
+  }
+  return groups.filter(g => g.areas.length > 0);
+}
+
+// ─── Wind radii ───────────────────────────────────────────────────────────────
+// Initial wind extent and forecast wind radii (initialWindExtent / forecastWindRadiiGIS in
+// CurrentStorms.json): one quadrant-shaped polygon per threshold and forecast hour. The
+// threshold, the quadrant radii and the times come from the shapefile attributes NHC
+// carries into the KML (RADII, NE/SE/SW/NW, SYNOPTIME, VALIDTIME), with the placemark
+// name and description as a fallback for the threshold.
+
+// SYNOPTIME is YYYYMMDDHH; VALIDTIME is DD/HHMM in the month of the synoptic time, or
+// the next one when the day wraps
+function radiiValidTime(synopTime, validTime) {
+  const s = /^(\d{4})(\d{2})(\d{2})(\d{2})/.exec(synopTime || '');
+  if (!s) return { synoptic: null, valid: null };
+  const synoptic = new Date(Date.UTC(+s[1], +s[2] - 1, +s[3], +s[4]));
+  const v = /^(\d{1,2})\/(\d{2})(\d{2})$/.exec((validTime || '').trim());
+  if (!v) return { synoptic, valid: null };
+  const valid = new Date(Date.UTC(+s[1], +s[2] - 1, +v[1], +v[2], +v[3]));
+  if (+v[1] < +s[3]) valid.setUTCMonth(valid.getUTCMonth() + 1);
+  return { synoptic, valid };
+}
+
+async function extractWindRadii(kmlContent, source) {
+  const parser = new xml2js.Parser({ explicitArray: false });
+  const kml = await parser.parseStringPromise(kmlContent);
+  const features = [];
+  for (const placemark of collectPlacemarks(kml)) {
+    const data = placemarkData(placemark);
+    const text = [placemark.name, placemark.styleUrl, typeof placemark.description === 'string' ? placemark.description : '']
+      .filter(t => typeof t === 'string').join(' ');
+    const thresholdKt = parseInt(data.RADII, 10) || parseInt((/\b(34|50|64)\s*(?:kt|knot)/i.exec(text) || [])[1], 10);
+    if (![34, 50, 64].includes(thresholdKt)) continue;
+
+    const quadrants = ['NE', 'SE', 'SW', 'NW'].map(q => parseFloat(data[q]));
+    const { synoptic, valid } = radiiValidTime(data.SYNOPTIME, data.VALIDTIME);
+    const forecastHour = source === 'initial'
+      ? 0
+      : synoptic && valid ? Math.round((valid - synoptic) / 3_600_000) : null;
+
+    for (const ring of placemarkLines(placemark)) {
+      features.push({
+        type: 'Feature',
+        properties: {
+          source,
+          thresholdKt,
+          forecastHour,
+          validTime: (source === 'initial' ? synoptic : valid)?.toISOString() ?? null,
+          radii: quadrants.every(Number.isFinite) ? quadrants : null
+        },
+        geometry: { type: 'Polygon', coordinates: [ring] }
+      });
+    }
+  }
+  return features;
+}
+
+module.exports = {
+  extractWatchWarningSegments,
+  extractWindRadii,
+  parseWatchWarningSummary,
+  radiiValidTime,
+  readKmlFromKmz
+};
@@ -0,0 +1,74 @@
+// Types for alertSnapshots.mjs, which the web app imports through src/utils/advisoryAlerts.ts
+
+export type AlertType = 'new-storm' | 'invest-upgraded' | 'new-advisory' | 'category-change' | 'cone-covers-location'
+
+export declare const ALERT_TYPES: AlertType[]
+
+/** Intensity as on the Saffir-Simpson scale: TD, TS or hurricane category 1-5 */
+export type IntensityCategory = 'TD' | 'TS' | '1' | '2' | '3' | '4' | '5'
+
+export interface AlertLocation {
+  name: string
+  lat: number
+  lon: number
+}
+
+interface StormRef {
+  stormId: string
+  stormName: string
+  advisoryNumber: string | null
+}
+
+export type AlertEvent =
+  | (StormRef & { type: 'new-storm'; classification: string; category: IntensityCategory })
+  | (StormRef & { type: 'invest-upgraded'; investId: string; classification: string; category: IntensityCategory })
+  | (StormRef & { type: 'new-advisory'; previousAdvisoryNumber: string | null })
+  | (StormRef & { type: 'category-change'; from: IntensityCategory; to: IntensityCategory })
+  | (StormRef & { type: 'cone-covers-location'; location: AlertLocation })
+
+/** What the diff needs to remember about one storm between refreshes */
+export interface StormSnapshot {
+  id: string
+  name: string
+  classification: string
+  category: IntensityCategory
+  advisoryNumber: string | null
+  position: [number, number]
+  /** Keys of the watched locations inside this advisory's cone */
+  coneLocations: string[]
+}
+
+export interface InvestSnapshot {
+  id: string
+  position: [number, number]
+}
+
+export interface AlertSnapshot {
+  takenAt: string
+  storms: StormSnapshot[]
+  invests: InvestSnapshot[]
+}
+
+export declare function intensityCategory(kt: number): IntensityCategory
+
+export declare function stormSnapshot(
+  storm: {
+    id: string
+    name: string
+    classification?: string | null
+    maxWinds?: number | null
+    advisoryNumber?: string | null
+    position: [number, number]
+  },
+  coneLocations: string[],
+): StormSnapshot
+
+export declare function isUpgrade(event: Extract<AlertEvent, { type: 'category-change' }>): boolean
+
+export declare function diffAlertSnapshots(
+  previous: AlertSnapshot,
+  next: AlertSnapshot,
+  locations: Map<string, AlertLocation>,
+): AlertEvent[]
+
+export declare function describeAlert(event: AlertEvent): { title: string; body: string }
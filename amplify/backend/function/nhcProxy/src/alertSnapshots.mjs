@@ -0,0 +1,120 @@
+// Advisory-change alert events
+// Successive active-storm snapshots are diffed into typed events: a new storm (or an
+// invest upgraded to one), a new advisory, a change of intensity category, and the cone
+// newly covering a watched location. The scheduled Lambda check and the web app
+// (src/utils/advisoryAlerts.ts) each build snapshots from their own storm data and share
+// the records, the diff and the notification text from here, so the event shapes are the
+// same everywhere, webhook payload included. See test/alertSnapshots.test.mjs.
+
+import { categoryFromKnots } from './hurdat2.mjs';
+
+export const ALERT_TYPES = ['new-storm', 'invest-upgraded', 'new-advisory', 'category-change', 'cone-covers-location'];
+
+const CATEGORY_ORDER = ['TD', 'TS', '1', '2', '3', '4', '5'];
+// A new storm this close to an invest in either snapshot was that invest
+const INVEST_MATCH_NM = 300;
+const EARTH_RADIUS_NM = 3440.065;
+const RAD = Math.PI / 180;
+
+function greatCircleNm(lat1, lon1, lat2, lon2) {
+  const dLat = (lat2 - lat1) * RAD;
+  const dLon = (lon2 - lon1) * RAD;
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * RAD) * Math.cos(lat2 * RAD) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_NM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+// ─── Snapshots ────────────────────────────────────────────────────────────────
+
+/** Intensity as on the Saffir-Simpson scale: TD, TS or hurricane category 1-5 */
+export function intensityCategory(kt) {
+  if (kt < 34) return 'TD';
+  if (kt < 64) return 'TS';
+  return String(categoryFromKnots(kt));
+}
+
+/**
+ * What the diff remembers about one storm. `coneLocations` are the keys of the watched
+ * locations inside this advisory's cone.
+ */
+export function stormSnapshot({ id, name, classification, maxWinds, advisoryNumber, position }, coneLocations) {
+  return {
+    id,
+    name,
+    classification: classification || 'TD',
+    category: intensityCategory(maxWinds || 0),
+    advisoryNumber: advisoryNumber ?? null,
+    position,
+    coneLocations
+  };
+}
+
+// ─── Diff ─────────────────────────────────────────────────────────────────────
+
+/** True when the storm strengthened into a higher category */
+export const isUpgrade = event => CATEGORY_ORDER.indexOf(event.to) > CATEGORY_ORDER.indexOf(event.from);
+
+/**
+ * Events between two snapshots. `locations` maps the keys used in coneLocations to
+ * { name, lat, lon }. Storms that vanished (dissipated or handed off) raise nothing; a
+ * storm whose advisory number is unchanged only raises cone events when the watched
+ * locations changed.
+ */
+export function diffAlertSnapshots(previous, next, locations) {
+  const events = [];
+  const before = new Map(previous.storms.map(s => [s.id, s]));
+  const invests = [...previous.invests, ...next.invests];
+
+  for (const storm of next.storms) {
+    const ref = { stormId: storm.id, stormName: storm.name, advisoryNumber: storm.advisoryNumber };
+    const prev = before.get(storm.id);
+
+    if (!prev) {
+      const invest = invests
+        .map(i => ({ id: i.id, distance: greatCircleNm(i.position[0], i.position[1], storm.position[0], storm.position[1]) }))
+        .filter(i => i.distance <= INVEST_MATCH_NM)
+        .sort((a, b) => a.distance - b.distance)[0];
+      events.push(invest
+        ? { ...ref, type: 'invest-upgraded', investId: invest.id, classification: storm.classification, category: storm.category }
+        : { ...ref, type: 'new-storm', classification: storm.classification, category: storm.category });
+    } else {
+      if (storm.advisoryNumber && storm.advisoryNumber !== prev.advisoryNumber) {
+        events.push({ ...ref, type: 'new-advisory', previousAdvisoryNumber: prev.advisoryNumber });
+      }
+      if (storm.category !== prev.category) {
+        events.push({ ...ref, type: 'category-change', from: prev.category, to: storm.category });
+      }
+    }
+
+    const covered = new Set(prev?.coneLocations || []);
+    for (const key of storm.coneLocations) {
+      const location = locations.get(key);
+      if (location && !covered.has(key)) {
+        events.push({ ...ref, type: 'cone-covers-location', location: { name: location.name, lat: location.lat, lon: location.lon } });
+      }
+    }
+  }
+  return events;
+}
+
+// ─── Notification text ────────────────────────────────────────────────────────
+
+const categoryName = c => (c === 'TD' ? 'a tropical depression' : c === 'TS' ? 'a tropical storm' : `a Category ${c} hurricane`);
+
+/** Notification title and body for an event */
+export function describeAlert(event) {
+  const adv = event.advisoryNumber ? ` (Advisory ${event.advisoryNumber})` : '';
+  switch (event.type) {
+    case 'new-storm':
+      return { title: `New storm: ${event.stormName}`, body: `${event.stormName} is ${categoryName(event.category)}${adv}.` };
+    case 'invest-upgraded':
+      return { title: `${event.investId} upgraded`, body: `${event.investId} is now ${event.stormName}, ${categoryName(event.category)}${adv}.` };
+    case 'new-advisory':
+      return { title: `${event.stormName}: Advisory ${event.advisoryNumber}`, body: `NHC has issued a new advisory for ${event.stormName}.` };
+    case 'category-change':
+      return { title: `${event.stormName} ${isUpgrade(event) ? 'strengthens' : 'weakens'}`, body: `${event.stormName} is now ${categoryName(event.to)}${adv}.` };
+    case 'cone-covers-location':
+      return { title: `${event.location.name} in the cone`, body: `${event.location.name} is inside the forecast cone of ${event.stormName}${adv}.` };
+    default:
+      return { title: 'CycloTrak alert', body: '' };
+  }
+}
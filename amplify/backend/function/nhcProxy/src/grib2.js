@@ -0,0 +1,305 @@
+// GRIB2 decoder
+// Enough of WMO GRIB edition 2 to read gridded model output: regular lat/lon grids
+// (template 3.0) packed with simple packing (5.0) or complex packing with or without
+// spatial differencing (5.2, 5.3), optionally behind a bitmap. Other grids and packings
+// (JPEG2000, PNG) are reported as unsupported instead of guessed at. Kept apart from
+// index.js so the unpacking can be tested without the AWS SDK; see test/grib2.test.js
+// and test/fixtures/make-grib2-fixtures.js.
+
+// Read `n` bits (MSB first) starting at bit offset `pos`
+function readBits(buf, pos, n) {
+  let value = 0;
+  for (let i = 0; i < n; i++) {
+    const bit = pos + i;
+    value = value * 2 + ((buf[bit >> 3] >> (7 - (bit & 7))) & 1);
+  }
+  return value;
+}
+
+function gribUint(buf, offset, bytes) {
+  let value = 0;
+  for (let i = 0; i < bytes; i++) value = value * 256 + buf[offset + i];
+  return value;
+}
+
+// GRIB2 signed integers are sign-and-magnitude, not two's complement
+function gribInt(buf, offset, bytes) {
+  const value = gribUint(buf, offset, bytes);
+  const sign = 2 ** (8 * bytes - 1);
+  return value >= sign ? -(value - sign) : value;
+}
+
+// Forecast time units (code table 4.4) in hours
+const GRIB_TIME_UNIT_HOURS = { 0: 1 / 60, 1: 1, 2: 24, 10: 3, 11: 6, 12: 12, 13: 1 / 3600 };
+
+// Section 3, template 3.0 (regular lat/lon). Octet numbers in comments are 1-based.
+function parseGribGrid(buf, s) {
+  const template = gribUint(buf, s + 12, 2);      // octets 13–14
+  if (template !== 0) return { template };
+  const ni = gribUint(buf, s + 30, 4);             // 31–34
+  const nj = gribUint(buf, s + 34, 4);             // 35–38
+  const basicAngle = gribUint(buf, s + 38, 4);     // 39–42
+  const subdivisions = gribUint(buf, s + 42, 4);   // 43–46
+  const unit = basicAngle === 0 || basicAngle === 0xffffffff ? 1e-6 : basicAngle / subdivisions;
+  return {
+    template,
+    ni,
+    nj,
+    la1: gribInt(buf, s + 46, 4) * unit,           // 47–50
+    lo1: gribInt(buf, s + 50, 4) * unit,           // 51–54
+    la2: gribInt(buf, s + 55, 4) * unit,           // 56–59
+    lo2: gribInt(buf, s + 59, 4) * unit,           // 60–63
+    di: gribUint(buf, s + 63, 4) * unit,           // 64–67
+    dj: gribUint(buf, s + 67, 4) * unit,           // 68–71
+    scanMode: buf[s + 71]                          // 72
+  };
+}
+
+// Section 4: templates 4.0–4.15 share the parameter/time/level layout read here
+function parseGribProduct(buf, s, discipline) {
+  const template = gribUint(buf, s + 7, 2);        // 8–9
+  const unitHours = GRIB_TIME_UNIT_HOURS[buf[s + 17]] ?? 1;
+  const surfaceScale = gribInt(buf, s + 23, 1);    // 24
+  return {
+    template,
+    discipline,
+    category: buf[s + 9],                          // 10
+    parameter: buf[s + 10],                        // 11
+    forecastHour: gribInt(buf, s + 18, 4) * unitHours, // 19–22
+    surfaceType: buf[s + 22],                      // 23
+    surfaceValue: gribInt(buf, s + 24, 4) / 10 ** surfaceScale // 25–28
+  };
+}
+
+// Section 5
+function parseGribPacking(buf, s) {
+  const packing = {
+    count: gribUint(buf, s + 5, 4),                // 6–9
+    template: gribUint(buf, s + 9, 2),             // 10–11
+    reference: buf.readFloatBE(s + 11),            // 12–15
+    binaryScale: gribInt(buf, s + 15, 2),          // 16–17
+    decimalScale: gribInt(buf, s + 17, 2),         // 18–19
+    bits: buf[s + 19]                              // 20
+  };
+  if (packing.template === 2 || packing.template === 3) {
+    Object.assign(packing, {
+      missingManagement: buf[s + 22],              // 23
+      groups: gribUint(buf, s + 31, 4),            // 32–35
+      widthReference: buf[s + 35],                 // 36
+      widthBits: buf[s + 36],                      // 37
+      lengthReference: gribUint(buf, s + 37, 4),   // 38–41
+      lengthIncrement: buf[s + 41],                // 42
+      lastLength: gribUint(buf, s + 42, 4),        // 43–46
+      lengthBits: buf[s + 46]                      // 47
+    });
+  }
+  if (packing.template === 3) {
+    packing.order = buf[s + 47];                   // 48
+    packing.extraOctets = buf[s + 48];             // 49
+  }
+  return packing;
+}
+
+// Packed integers for simple packing (5.0)
+function unpackSimple(data, packing) {
+  const values = new Float64Array(packing.count);
+  if (packing.bits === 0) return { values, missing: null };
+  for (let i = 0; i < packing.count; i++) values[i] = readBits(data, i * packing.bits, packing.bits);
+  return { values, missing: null };
+}
+
+// Packed integers for complex packing (5.2) and complex packing with spatial
+// differencing (5.3), following the group layout of WMO 92.9.4 / 92.9.5
+function unpackComplex(data, packing) {
+  const { groups, bits, missingManagement } = packing;
+  const values = new Float64Array(packing.count);
+  const missing = missingManagement ? new Uint8Array(packing.count) : null;
+  let pos = 0;
+  const align = () => { pos = Math.ceil(pos / 8) * 8; };
+
+  // Spatial differencing: first value(s) and the minimum of the differences
+  let first = [];
+  let minDiff = 0;
+  if (packing.template === 3) {
+    const n = packing.extraOctets;
+    for (let k = 0; k < packing.order; k++) first.push(gribInt(data, k * n, n));
+    minDiff = gribInt(data, packing.order * n, n);
+    pos = (packing.order + 1) * n * 8;
+  }
+
+  const refs = new Float64Array(groups);
+  for (let g = 0; g < groups; g++, pos += bits) refs[g] = readBits(data, pos, bits);
+  align();
+  const widths = new Uint8Array(groups);
+  for (let g = 0; g < groups; g++, pos += packing.widthBits) {
+    widths[g] = packing.widthReference + readBits(data, pos, packing.widthBits);
+  }
+  align();
+  const lengths = new Uint32Array(groups);
+  for (let g = 0; g < groups; g++, pos += packing.lengthBits) {
+    lengths[g] = packing.lengthReference + readBits(data, pos, packing.lengthBits) * packing.lengthIncrement;
+  }
+  if (groups > 0) lengths[groups - 1] = packing.lastLength;
+  align();
+
+  // Missing values are flagged with all-ones (primary) or all-ones-minus-one (secondary)
+  const refMissing1 = 2 ** bits - 1;
+  const refMissing2 = 2 ** bits - 2;
+  let n = 0;
+  for (let g = 0; g < groups; g++) {
+    const width = widths[g];
+    const missing1 = 2 ** width - 1;
+    const missing2 = 2 ** width - 2;
+    for (let k = 0; k < lengths[g] && n < values.length; k++, n++) {
+      if (width === 0) {
+        values[n] = refs[g];
+        if (missing && (refs[g] === refMissing1 || (missingManagement === 2 && refs[g] === refMissing2))) missing[n] = 1;
+      } else {
+        const packed = readBits(data, pos, width);
+        pos += width;
+        values[n] = refs[g] + packed;
+        if (missing && (packed === missing1 || (missingManagement === 2 && packed === missing2))) missing[n] = 1;
+      }
+    }
+  }
+
+  if (packing.template === 3) {
+    // Undo the differencing over the non-missing values, in order
+    let i = 0;
+    let prev1 = 0;
+    let prev2 = 0;
+    for (let k = 0; k < values.length; k++) {
+      if (missing && missing[k]) continue;
+      let v;
+      if (i < first.length) v = first[i];
+      else if (packing.order === 1) v = values[k] + minDiff + prev1;
+      else v = values[k] + minDiff + 2 * prev1 - prev2;
+      values[k] = v;
+      prev2 = prev1;
+      prev1 = v;
+      i++;
+    }
+  }
+  return { values, missing };
+}
+
+// Unpack section 7 into physical values on the full grid (NaN where masked or missing)
+function unpackGribField(buf, dataStart, dataEnd, packing, bitmap, totalPoints) {
+  const data = buf.subarray(dataStart, dataEnd);
+  let unpacked;
+  if (packing.template === 0) unpacked = unpackSimple(data, packing);
+  else if (packing.template === 2 || packing.template === 3) unpacked = unpackComplex(data, packing);
+  else throw new Error(`GRIB2 data representation template 5.${packing.template} is not supported`);
+
+  const scale = 2 ** packing.binaryScale;
+  const decimal = 10 ** packing.decimalScale;
+  const out = new Float32Array(totalPoints).fill(NaN);
+  let j = 0;
+  for (let i = 0; i < totalPoints; i++) {
+    if (bitmap && !((bitmap[i >> 3] >> (7 - (i & 7))) & 1)) continue;
+    if (j >= unpacked.values.length) break;
+    if (!unpacked.missing || !unpacked.missing[j]) {
+      out[i] = (packing.reference + unpacked.values[j] * scale) / decimal;
+    }
+    j++;
+  }
+  return out;
+}
+
+// Reorder scanned values to rows north → south, columns west → east
+function orientGribGrid(values, grid) {
+  const { ni, nj, scanMode } = grid;
+  if (scanMode & 0x20) throw new Error('GRIB2 grids scanned along meridians are not supported');
+  const westward = (scanMode & 0x80) !== 0;
+  const northward = (scanMode & 0x40) !== 0;
+  const alternating = (scanMode & 0x10) !== 0;
+  const out = new Float32Array(ni * nj);
+  for (let r = 0; r < nj; r++) {
+    const row = northward ? nj - 1 - r : r;
+    const reverse = westward !== (alternating && r % 2 === 1);
+    for (let c = 0; c < ni; c++) {
+      out[row * ni + (reverse ? ni - 1 - c : c)] = values[r * ni + c];
+    }
+  }
+  const west = westward ? grid.lo2 : grid.lo1;
+  return {
+    values: out,
+    north: Math.max(grid.la1, grid.la2),
+    west: west > 180 ? west - 360 : west,
+    dLat: grid.dj,
+    dLon: grid.di,
+    rows: nj,
+    cols: ni
+  };
+}
+
+/**
+ * Decode the fields of a GRIB2 byte stream (one or more concatenated messages).
+ * `wanted(product)` selects which fields to unpack; the rest are skipped unread.
+ * Returns [{ discipline, category, parameter, surfaceType, surfaceValue, forecastHour,
+ *            refTime, grid: { north, west, dLat, dLon, rows, cols }, values }]
+ * with values row-major north → south, west → east.
+ */
+function decodeGrib2(buf, wanted = () => true) {
+  const fields = [];
+  let pos = 0;
+  while (pos + 16 <= buf.length) {
+    // Skip any padding between messages
+    if (buf[pos] !== 0x47 || buf.toString('latin1', pos, pos + 4) !== 'GRIB') { pos++; continue; }
+    if (buf[pos + 7] !== 2) throw new Error(`GRIB edition ${buf[pos + 7]} is not supported`);
+    const discipline = buf[pos + 6];
+    const end = pos + gribUint(buf, pos + 8, 8);
+    if (end > buf.length) throw new Error('Truncated GRIB2 message');
+
+    let refTime = null;
+    let grid = null;
+    let product = null;
+    let packing = null;
+    let bitmap = null;
+    let s = pos + 16;
+    // Sections 3–7 may repeat within a message for fields sharing a grid
+    while (s + 4 <= end && buf.toString('latin1', s, s + 4) !== '7777') {
+      const length = gribUint(buf, s, 4);
+      const section = buf[s + 4];
+      if (section === 1) {
+        refTime = new Date(Date.UTC(gribUint(buf, s + 12, 2), buf[s + 14] - 1, buf[s + 15], buf[s + 16], buf[s + 17], buf[s + 18]));
+      } else if (section === 3) {
+        grid = parseGribGrid(buf, s);
+      } else if (section === 4) {
+        product = parseGribProduct(buf, s, discipline);
+      } else if (section === 5) {
+        packing = parseGribPacking(buf, s);
+      } else if (section === 6) {
+        const indicator = buf[s + 5];
+        // 254 re-uses the previous bitmap
+        if (indicator === 0) bitmap = buf.subarray(s + 6, s + length);
+        else if (indicator === 255) bitmap = null;
+      } else if (section === 7 && product && wanted(product)) {
+        if (!grid || grid.template !== 0) {
+          throw new Error(`GRIB2 grid definition template 3.${grid ? grid.template : '?'} is not supported`);
+        }
+        const values = unpackGribField(buf, s + 5, s + length, packing, bitmap, grid.ni * grid.nj);
+        const oriented = orientGribGrid(values, grid);
+        fields.push({
+          ...product,
+          refTime: refTime && refTime.toISOString(),
+          grid: {
+            north: oriented.north,
+            west: oriented.west,
+            dLat: oriented.dLat,
+            dLon: oriented.dLon,
+            rows: oriented.rows,
+            cols: oriented.cols
+          },
+          values: oriented.values
+        });
+      }
+      if (length < 5) throw new Error('Corrupt GRIB2 section length');
+      s += length;
+    }
+    pos = end;
+  }
+  return fields;
+}
+
+module.exports = { decodeGrib2, orientGribGrid };
@@ -0,0 +1,32 @@
+// Types for hurdat2.mjs, which the web app imports through src/utils/hurdat2.ts
+import type { HurdatStorm } from '../../../../../src/types/nhc'
+
+export declare function parseHurdat2(text: string): HurdatStorm[]
+
+export declare function categoryFromKnots(kt: number): number
+
+export declare const CYCLONE_STATUSES: Set<string>
+
+export interface HurdatSummary {
+  stormId: string
+  stormName: string
+  season: number
+  basin: string
+  /** Status at peak intensity */
+  classification: string
+  category: number
+  maxWindsKnots: number
+  /** Lowest pressure over the storm's life */
+  pressureMb: number | null
+  /** Position at peak intensity */
+  positionLat: number | null
+  positionLon: number | null
+  /** Time of peak intensity */
+  advisoryTimestamp: string
+  firstFix: string
+  lastFix: string
+  /** True when the storm made landfall (any "L" record) */
+  landfall: boolean
+}
+
+export declare function summarizeHurdatStorm(storm: HurdatStorm): HurdatSummary
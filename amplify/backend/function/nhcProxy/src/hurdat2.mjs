@@ -0,0 +1,120 @@
+// HURDAT2 best-track database parser
+// Reads NHC's revised Atlantic (1851–) and NE/Central Pacific (1949–) HURDAT2 text files
+// into per-storm records, and summarises them in the same shape the DynamoDB storm archive
+// returns so historical seasons browse like archived ones. Shared by the Lambda and the
+// web app (src/utils/hurdat2.ts), hence an ES module; see test/hurdat2.test.mjs.
+
+// ─── Field helpers ────────────────────────────────────────────────────────────
+
+// HURDAT2 marks missing values with -99 (winds) or -999 (pressure, radii, RMW)
+function valueOrNull(token) {
+  const n = parseInt(token, 10);
+  return Number.isFinite(n) && n > -99 ? n : null;
+}
+
+// "28.0N" / "82.4W" → signed degrees
+function parseCoord(token) {
+  const m = /^(\d+(?:\.\d+)?)([NSEW])$/.exec(token || '');
+  if (!m) return null;
+  const v = parseFloat(m[1]);
+  return m[2] === 'S' || m[2] === 'W' ? -v : v;
+}
+
+// Four quadrant radii (NE, SE, SW, NW); all-zero or missing means none reported
+function parseRadii(tokens) {
+  const radii = tokens.map(valueOrNull);
+  if (radii.length !== 4 || radii.some(r => r === null)) return null;
+  return radii.some(r => r > 0) ? radii : null;
+}
+
+// ─── Parser ───────────────────────────────────────────────────────────────────
+
+const HEADER_RE = /^(AL|EP|CP)(\d{2})(\d{4})$/;
+
+/**
+ * Parse a HURDAT2 file. Each storm is a header line ("AL092022, IAN, 40,") followed by
+ * that many fix lines. Both basins share the format; the RMW column (added in the 2022
+ * release) is optional. Malformed lines are skipped rather than failing the whole import.
+ */
+export function parseHurdat2(text) {
+  const storms = [];
+  let current = null;
+
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    const f = line.split(',').map(s => s.trim());
+
+    const header = HEADER_RE.exec(f[0]);
+    if (header) {
+      current = { stormId: f[0], basin: header[1], season: parseInt(header[3], 10), name: f[1] || 'UNNAMED', fixes: [] };
+      storms.push(current);
+      continue;
+    }
+
+    if (!current || !/^\d{8}$/.test(f[0]) || f.length < 8) continue;
+    const lat = parseCoord(f[4]);
+    const lon = parseCoord(f[5]);
+    if (lat === null || lon === null) continue;
+
+    const hhmm = (f[1] || '0000').padStart(4, '0');
+    current.fixes.push({
+      dateTime: `${f[0].slice(0, 4)}-${f[0].slice(4, 6)}-${f[0].slice(6, 8)}T${hhmm.slice(0, 2)}:${hhmm.slice(2, 4)}:00Z`,
+      recordId: f[2] || null,
+      status: f[3],
+      latitude: lat,
+      longitude: lon,
+      maxWinds: valueOrNull(f[6]) ?? 0,
+      pressure: valueOrNull(f[7]),
+      r34: parseRadii(f.slice(8, 12)),
+      r50: parseRadii(f.slice(12, 16)),
+      r64: parseRadii(f.slice(16, 20)),
+      rmw: f.length >= 21 ? valueOrNull(f[20]) : null
+    });
+  }
+
+  return storms;
+}
+
+// ─── Summaries ────────────────────────────────────────────────────────────────
+
+// Saffir-Simpson category from sustained wind in knots (0 = TD/TS)
+export function categoryFromKnots(kt) {
+  if (kt >= 137) return 5;
+  if (kt >= 113) return 4;
+  if (kt >= 96) return 3;
+  if (kt >= 83) return 2;
+  if (kt >= 64) return 1;
+  return 0;
+}
+
+// Statuses that count as a tropical or subtropical cyclone (not EX/LO/WV/DB)
+export const CYCLONE_STATUSES = new Set(['TD', 'TS', 'HU', 'SD', 'SS']);
+
+/**
+ * Season-list record for a storm, matching the archive's snapshot fields. Peak
+ * intensity only counts tropical/subtropical fixes so an extratropical gale doesn't
+ * turn a tropical storm into a "hurricane".
+ */
+export function summarizeHurdatStorm(storm) {
+  const tropical = storm.fixes.filter(f => CYCLONE_STATUSES.has(f.status));
+  const pool = tropical.length > 0 ? tropical : storm.fixes;
+  const peak = pool.reduce((best, f) => (!best || f.maxWinds > best.maxWinds ? f : best), null);
+  const pressures = storm.fixes.map(f => f.pressure).filter(p => p !== null);
+
+  return {
+    stormId: storm.stormId,
+    stormName: storm.name,
+    season: storm.season,
+    basin: storm.basin,
+    classification: peak ? peak.status : '',
+    category: categoryFromKnots(peak ? peak.maxWinds : 0),
+    maxWindsKnots: peak ? peak.maxWinds : 0,
+    pressureMb: pressures.length > 0 ? Math.min(...pressures) : null,
+    positionLat: peak ? peak.latitude : null,
+    positionLon: peak ? peak.longitude : null,
+    advisoryTimestamp: peak ? peak.dateTime : '',
+    firstFix: storm.fixes.length > 0 ? storm.fixes[0].dateTime : '',
+    lastFix: storm.fixes.length > 0 ? storm.fixes[storm.fixes.length - 1].dateTime : '',
+    landfall: storm.fixes.some(f => f.recordId === 'L')
+  };
+}
@@ -2,10 +2,27 @@ const axios = require('axios');
 const yauzl = require('yauzl');
 const xml2js = require('xml2js');
 const zlib = require('zlib');
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const { parseInundationKmz } = require('./surgeInundation');
+const { decodeGrib2 } = require('./grib2');
+const {
+  extractWatchWarningSegments, extractWindRadii, parseWatchWarningSummary, readKmlFromKmz
+} = require('./advisoryGis');
+
+// Modules shared with the web app are ES modules: imported once per container, and the
+// handler waits for them before serving anything
+let parseHurdat2, categoryFromKnots, summarizeHurdatStorm, HURDAT_CYCLONE_STATUSES;
+let ALERT_TYPES, stormSnapshot, diffAlertSnapshots, describeAlert;
+const sharedModulesReady = Promise.all([import('./hurdat2.mjs'), import('./alertSnapshots.mjs')]).then(([hurdat2, alerts]) => {
+  ({ parseHurdat2, categoryFromKnots, summarizeHurdatStorm, CYCLONE_STATUSES: HURDAT_CYCLONE_STATUSES } = hurdat2);
+  ({ ALERT_TYPES, stormSnapshot, diffAlertSnapshots, describeAlert } = alerts);
+});
 
 // ─── DynamoDB Archive (AWS SDK v3 is built into Lambda Node 18+) ─────────────
 const { DynamoDBClient } = require('@aws-sdk/client-dynamodb');
-const { DynamoDBDocumentClient, PutCommand, QueryCommand, GetCommand } = require('@aws-sdk/lib-dynamodb');
+const { DynamoDBDocumentClient, PutCommand, QueryCommand, GetCommand, DeleteCommand, UpdateCommand } = require('@aws-sdk/lib-dynamodb');
 
 const ddbClient = new DynamoDBClient({ region: process.env.REGION || 'us-east-1' });
 const ddb = DynamoDBDocumentClient.from(ddbClient, {
@@ -52,6 +69,8 @@ async function archiveStormAdvisory(storm) {
     movementDir:   storm.movement?.direction  || null,
     movementSpeed: storm.movement?.speed      || null,
     advisoryTimestamp: now,
+    // Advisory number lets the wind field page re-fetch this exact TCM from the NHC archive
+    advisoryNumber: storm.forecastAdvisory?.advNum || storm.publicAdvisory?.advNum || null,
     // Forecast track snapshot (NHC official positions)
     forecastPoints: (storm.forecast || []).map(p => ({
       hour:         p.forecastHour,
@@ -201,6 +220,89 @@ async function getSeasonInvests(season) {
   return Object.values(byInvest);
 }
 
+// ─── HURDAT2 best-track database ──────────────────────────────────────────────
+// NHC's HURDAT2 files (hurdat2-*.txt) deployed with the function, or in HURDAT2_DIR,
+// back the archive endpoints for every season before the DynamoDB archive began.
+// Parsed once per container and kept in memory.
+
+const HURDAT2_DIR = process.env.HURDAT2_DIR || path.join(__dirname, 'data');
+
+let hurdatCache = null;
+
+/**
+ * Season-list item for a HURDAT2 storm, in the shape of an archived advisory snapshot
+ */
+function hurdatSeasonItem(storm) {
+  return { ...summarizeHurdatStorm(storm), source: 'hurdat2' };
+}
+
+/**
+ * Best-track fixes as archive snapshot items, newest-first like getStormHistory().
+ */
+function hurdatHistoryItems(storm) {
+  return storm.fixes.map(f => ({
+    stormId: storm.stormId,
+    stormName: storm.name,
+    season: storm.season,
+    basin: storm.basin,
+    classification: f.status,
+    category: categoryFromKnots(f.maxWinds),
+    maxWindsKnots: f.maxWinds,
+    pressureMb: f.pressure,
+    positionLat: f.latitude,
+    positionLon: f.longitude,
+    advisoryTimestamp: f.dateTime,
+    recordId: f.recordId,
+    source: 'hurdat2'
+  })).reverse();
+}
+
+/**
+ * Load every hurdat2*.txt in HURDAT2_DIR. Returns { byId: Map, bySeason: Map } —
+ * empty when no files are deployed, so callers can always merge unconditionally.
+ */
+function loadHurdatDatabase() {
+  if (hurdatCache) return hurdatCache;
+  const byId = new Map();
+  const bySeason = new Map();
+  let files = [];
+  try {
+    files = fs.readdirSync(HURDAT2_DIR).filter(f => /^hurdat2.*\.txt$/i.test(f));
+  } catch (err) {
+    console.log(`No HURDAT2 directory at ${HURDAT2_DIR}`);
+  }
+  for (const file of files) {
+    try {
+      for (const storm of parseHurdat2(fs.readFileSync(path.join(HURDAT2_DIR, file), 'utf8'))) {
+        byId.set(storm.stormId, storm);
+      }
+    } catch (err) {
+      console.warn(`Failed to read HURDAT2 file ${file}:`, err.message);
+    }
+  }
+  for (const storm of byId.values()) {
+    if (!bySeason.has(storm.season)) bySeason.set(storm.season, []);
+    bySeason.get(storm.season).push(storm);
+  }
+  console.log(`HURDAT2: ${byId.size} storms from ${files.length} file(s)`);
+  hurdatCache = { byId, bySeason };
+  return hurdatCache;
+}
+
+/**
+ * Search the HURDAT2 database by name prefix, basin and/or season.
+ */
+function searchHurdatStorms({ name, basin, season }, limit = 200) {
+  const { byId, bySeason } = loadHurdatDatabase();
+  const prefix = (name || '').trim().toUpperCase();
+  const pool = season ? (bySeason.get(season) || []) : Array.from(byId.values());
+  return pool
+    .filter(s => (!prefix || s.name.startsWith(prefix)) && (!basin || s.basin === basin))
+    .sort((a, b) => b.season - a.season || a.stormId.localeCompare(b.stormId))
+    .slice(0, limit)
+    .map(hurdatSeasonItem);
+}
+
 /**
  * Archive every model track from one A-deck parse result.
  *
@@ -316,6 +418,29 @@ async function getRunModels(stormId, runCycle) {
   return result.Items || [];
 }
 
+/**
+ * Every archived run of every model for a storm, following DynamoDB pagination
+ * (a long-lived storm easily exceeds one 1 MB query page).
+ */
+async function getAllModelRuns(stormId) {
+  const items = [];
+  let ExclusiveStartKey;
+  do {
+    const result = await ddb.send(new QueryCommand({
+      TableName: MODEL_TABLE,
+      KeyConditionExpression: 'PK = :pk AND begins_with(SK, :prefix)',
+      ExpressionAttributeValues: {
+        ':pk':     `STORM#${stormId}`,
+        ':prefix': 'RUN#',
+      },
+      ExclusiveStartKey,
+    }));
+    items.push(...(result.Items || []));
+    ExclusiveStartKey = result.LastEvaluatedKey;
+  } while (ExclusiveStartKey);
+  return items;
+}
+
 // ─── End DynamoDB Archive ─────────────────────────────────────────────────────
 
 // NHC API endpoints
@@ -324,8 +449,7 @@ const NHC_FTP_BASE = 'https://ftp.nhc.ncep.noaa.gov/wsp/2025/';
 
 // NOMADS endpoints for model data
 const NOMADS_BASE_URL = 'https://nomads.ncep.noaa.gov/pub/data/nccf/com';
-const HWRF_BASE_URL = `${NOMADS_BASE_URL}/hwrf/prod`;
-const HMON_BASE_URL = `${NOMADS_BASE_URL}/hmon/prod`;
+const HAFS_BASE_URL = `${NOMADS_BASE_URL}/hafs/prod`;
 
 // Request timeout (30 seconds)
 const REQUEST_TIMEOUT = 30000;
@@ -333,8 +457,9 @@ const REQUEST_TIMEOUT = 30000;
 // CORS headers for browser compatibility
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token',
-  'Access-Control-Allow-Methods': 'GET,OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token,If-None-Match,If-Modified-Since',
+  'Access-Control-Allow-Methods': 'GET,POST,OPTIONS',
+  'Access-Control-Expose-Headers': 'ETag',
   'Content-Type': 'application/json'
 };
 
@@ -1132,7 +1257,7 @@ function parseAdeckGEFSTracks(text) {
   const sortedCycles = Array.from(allCycles).sort().reverse();
   
   // Enhanced regex to include operational hurricane models plus GEFS ensemble
-  const operationalModels = /^(A(EMN|EMI|C00|P\d{2})|HWRF|HWRI|HWF2|HMON|HM0N|HAFS|HAFA|HAFB|GFS[A-Z]?|GFSO|ECMW|ECM2|EMXI|CMC|CMCI|NVGM|NAM|OFCL|OFCI|CARQ|SHIP|LGEM|DSHP|UKM[A-Z]?|UKMO|CTL[A-Z]?|TVCN|FSSE|MMSE|CTCI|CTCX)$/i;
+  const operationalModels = /^(A(EMN|EMI|C00|P\d{2})|HWRF|HWRI|HWF2|HMON|HM0N|HAFS|HAFA|HAFB|GFS[A-Z]?|GFSO|ECMW|ECM2|EMXI|CMC|CMCI|NVGM|NAM|OFCL|OFCI|CARQ|SHIP|LGEM|DSHP|UKM[A-Z]?|UKMO|CTL[A-Z]?|TVCN|FSSE|MMSE|CTCI|CTCX|EGRI|HFAI|HFBI|CLP5|SHF5)$/i;
   
   let targetCycle = latestCycle;
   let latest = records.filter(p => p[2] === targetCycle);
@@ -1220,6 +1345,121 @@ function parseAdeckGEFSTracks(text) {
   return { modelsPresent, tracks, debug: debugInfo };
 }
 
+/**
+ * Parse ATCF B-deck (best track) text into one point per fix time.
+ * Each fix has up to three records (34/50/64-kt radii); they are merged so every point
+ * carries position, intensity, pressure, storm type, RMW and all reported radii.
+ * Returns [{ latitude, longitude, dateTime, maxWinds, pressure, classification, r34, r50, r64,
+ *            rmw, gusts, eyeDiameter, outerPressure, outerRadius }] sorted by time.
+ */
+function parseBdeckTrack(text) {
+  const lines = text.split(/\r?\n/).filter(l => l && l.includes(','));
+  const byTime = new Map();
+
+  for (const line of lines) {
+    const p = line.split(',').map(s => s.trim());
+    if (p.length < 11 || (p[4] || '').toUpperCase() !== 'BEST') continue;
+    const ymdh = p[2];
+    if (!/^[0-9]{10}$/.test(ymdh)) continue;
+    const lat = parseATCFLat(p[6] || '');
+    const lon = parseATCFLon(p[7] || '');
+    if (lat == null || lon == null) continue;
+
+    // Field 3 carries minutes for off-synoptic fixes (e.g. landfall at 1905Z)
+    const minutes = /^\d{1,2}$/.test(p[3] || '') ? p[3].padStart(2, '0') : '00';
+    const dateTime = `${ymdh.slice(0, 4)}-${ymdh.slice(4, 6)}-${ymdh.slice(6, 8)}T${ymdh.slice(8, 10)}:${minutes}:00Z`;
+
+    let point = byTime.get(dateTime);
+    if (!point) {
+      point = {
+        latitude: lat,
+        longitude: lon,
+        dateTime,
+        maxWinds: toNumberOrNull(p[8]) || 0,
+        pressure: toNumberOrNull(p[9]) || 0,
+        classification: (p[10] || '').toUpperCase() || 'XX',
+        r34: null,
+        r50: null,
+        r64: null,
+        rmw: positiveOrNull(p[19]),
+        gusts: positiveOrNull(p[20]),
+        eyeDiameter: positiveOrNull(p[21]),
+        outerPressure: positiveOrNull(p[17]),
+        outerRadius: positiveOrNull(p[18])
+      };
+      byTime.set(dateTime, point);
+    }
+
+    const threshold = toNumberOrNull(p[11]);
+    const radii = parseBdeckRadii(p[12], p.slice(13, 17));
+    if (radii && threshold === 34) point.r34 = radii;
+    if (radii && threshold === 50) point.r50 = radii;
+    if (radii && threshold === 64) point.r64 = radii;
+  }
+
+  return Array.from(byTime.values()).sort((a, b) => a.dateTime.localeCompare(b.dateTime));
+}
+
+/**
+ * ATCF best track for a storm id like AL092022: the live btk file first, then the season
+ * archive. Returns { filename, points } (see parseBdeckTrack), or null when neither has it.
+ * With a `deadline` (ms since epoch) each download gets only the time left before it.
+ */
+async function fetchBdeck(stormId, deadline = null) {
+  const match = /^(AL|EP|CP)(\d{2})(\d{4})$/i.exec(stormId);
+  if (!match) return null;
+  const basin = match[1].toLowerCase();
+  const num = match[2];
+  const year = match[3];
+  const baseFilename = `b${basin}${num}${year}.dat`;
+  const urlsToTry = [
+    `https://ftp.nhc.noaa.gov/atcf/btk/${baseFilename}`,
+    `https://ftp.nhc.noaa.gov/atcf/archive/${year}/${baseFilename}.gz`
+  ];
+
+  for (const bdeckUrl of urlsToTry) {
+    const isGzipped = bdeckUrl.endsWith('.gz');
+    let raw;
+    try {
+      console.log(`Trying B-deck from: ${bdeckUrl}`);
+      const resp = await axios.get(bdeckUrl, {
+        timeout: deadline ? Math.max(1000, deadline - Date.now()) : REQUEST_TIMEOUT,
+        responseType: isGzipped ? 'arraybuffer' : 'text',
+        headers: {
+          'User-Agent': 'CycloTrak (cyclotrak.com, jasonprice70@gmail.com)',
+          'Accept': isGzipped ? 'application/gzip, */*' : 'text/plain, */*'
+        },
+        transformResponse: [data => data]
+      });
+      raw = isGzipped
+        ? zlib.gunzipSync(Buffer.from(resp.data)).toString('utf-8')
+        : (typeof resp.data === 'string' ? resp.data : String(resp.data || ''));
+    } catch (err) {
+      console.log(`Failed to fetch ${bdeckUrl}: ${err.message}`);
+      continue;
+    }
+
+    const points = parseBdeckTrack(raw);
+    if (points.length > 0) return { filename: baseFilename + (isGzipped ? '.gz' : ''), points };
+  }
+  return null;
+}
+
+// Radii in NE, SE, SW, NW order; "AAA" is a single full-circle radius
+function parseBdeckRadii(code, values) {
+  const nums = values.map(v => toNumberOrNull(v) || 0);
+  const c = (code || '').toUpperCase();
+  let radii = null;
+  if (c === 'NEQ') radii = nums;
+  else if (c === 'AAA') radii = [nums[0], nums[0], nums[0], nums[0]];
+  return radii && radii.some(r => r > 0) ? radii : null;
+}
+
+function positiveOrNull(s) {
+  const n = toNumberOrNull(s);
+  return n != null && n > 0 ? n : null;
+}
+
 function parseATCFLat(token) {
   if (!token) return null;
   const m = /^(-?\d+)([NS])$/i.exec(token);
@@ -1268,6 +1508,19 @@ function toNumberOrNull(s) {
   return Number.isFinite(n) ? n : null;
 }
 
+/**
+ * Pull the raw product text out of an NHC .shtml text page (<pre> block).
+ */
+function extractPreformattedText(html) {
+  const pre = /<pre[^>]*>([\s\S]*?)<\/pre>/i.exec(html);
+  const body = pre ? pre[1] : html;
+  return body
+    .replace(/<[^>]+>/g, '')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>');
+}
+
 /**
  * Parse KMZ file and extract wind speed probability data as GeoJSON
  */
@@ -2059,537 +2312,922 @@ async function extractWindArrivalFromKML(kmlContent) {
   }
 }
 
-/**
- * Fetch HWRF wind field data from NOMADS
- * HWRF (Hurricane Weather Research and Forecasting) provides high-resolution hurricane forecasts
- */
-async function fetchHWRFWindFieldData(stormId) {
-  try {
-    console.log(`Fetching HWRF wind field data for storm: ${stormId}`);
-    
-    // Parse storm ID to get basin and storm number
-    const match = /^(AL|EP|CP)(\d{2})(\d{4})$/i.exec(stormId.trim());
-    if (!match) {
-      throw new Error(`Invalid stormId format: ${stormId}. Expected format like AL052025`);
-    }
-    
-    const basin = match[1].toLowerCase();
-    const stormNum = match[2];
-    const year = match[3];
-    
-    // Get current date for finding latest cycle
-    const now = new Date();
-    const today = now.toISOString().slice(0, 10).replace(/-/g, '');
-    
-    // HWRF runs typically available at 00, 06, 12, 18 UTC
-    const cycles = ['18', '12', '06', '00'];
-    let hwrfData = null;
-    
-    for (const cycle of cycles) {
-      try {
-        // HWRF directory structure: hwrf.YYYYMMDD/hhz/
-        const hwrfDir = `hwrf.${today}/${cycle}z`;
-        
-        // Try current day first, then yesterday
-        const datesToTry = [today];
-        const yesterday = new Date(now);
-        yesterday.setUTCDate(yesterday.getUTCDate() - 1);
-        datesToTry.push(yesterday.toISOString().slice(0, 10).replace(/-/g, ''));
-        
-        for (const date of datesToTry) {
-          const dirPath = `hwrf.${date}/${cycle}z`;
-          
-          // Look for HWRF GRIB2 files with wind data
-          // Format: hwrf.t{cycle}z.storm.grb2f{forecast_hour}
-          const forecastHours = ['00', '06', '12', '18', '24', '36', '48', '72'];
-          
-          for (const fhour of forecastHours) {
-            try {
-              const gribFile = `hwrf.t${cycle}z.storm.grb2f${fhour}`;
-              const gribUrl = `${HWRF_BASE_URL}/${dirPath}/${gribFile}`;
-              
-              console.log(`Checking HWRF GRIB: ${gribUrl}`);
-              
-              // Check if file exists
-              const headResponse = await axios.head(gribUrl, { timeout: 5000 });
-              if (headResponse.status === 200) {
-                console.log(`Found HWRF GRIB file: ${gribFile}`);
-                
-                // For now, generate realistic wind field data based on HWRF characteristics
-                // In a full implementation, you'd parse the GRIB2 file here
-                hwrfData = await generateRealisticHWRFData(stormId, cycle, fhour, date);
-                return hwrfData;
-              }
-            } catch (fileError) {
-              continue; // Try next forecast hour
-            }
-          }
-        }
-      } catch (cycleError) {
-        continue; // Try next cycle
-      }
-    }
-    
-    // If no real data found, generate fallback data
-    if (!hwrfData) {
-      console.log('No HWRF GRIB files found, generating fallback data');
-      hwrfData = await generateRealisticHWRFData(stormId, '12', '12', today);
-    }
-    
-    return hwrfData;
-    
-  } catch (error) {
-    console.error('Error in fetchHWRFWindFieldData:', error);
-    throw error;
-  }
+// ─── HAFS model wind fields ───────────────────────────────────────────────────
+// 10-m winds from the operational HAFS-A/HAFS-B storm nests on NOMADS. Only the
+// UGRD/VGRD messages are downloaded (byte ranges from the wgrib2 .idx inventory), and
+// the grid is thinned to at most HAFS_MAX_CELLS a side to keep the response small.
+// HAFS_GRIB_DIR serves local GRIB2 files with the NOMADS names instead (fixtures).
+
+const HAFS_GRIB_DIR = process.env.HAFS_GRIB_DIR || null;
+const HAFS_MODELS = { hfsa: 'HAFS-A', hfsb: 'HAFS-B' };
+const HAFS_MAX_CELLS = 360;
+const HAFS_MAX_FORECAST_HOUR = 126;
+const MS_TO_KT = 1.943844;
+// Int16 value marking a cell with no data in the packed u/v arrays
+const WIND_GRID_MISSING = -32768;
+
+const isTenMetreWind = (p) =>
+  p.discipline === 0 && p.category === 2 && (p.parameter === 2 || p.parameter === 3) &&
+  p.surfaceType === 103 && p.surfaceValue === 10;
+
+// NOMADS storm tag: AL092024 → 09l, EP142024 → 14e
+const HAFS_BASIN_LETTERS = { AL: 'l', EP: 'e', CP: 'c' };
+
+function hafsStormTag(stormId) {
+  const match = /^(AL|EP|CP)(\d{2})(\d{4})$/i.exec(stormId.trim());
+  if (!match) throw new Error(`Invalid stormId format: ${stormId}. Expected format like AL092024`);
+  return `${match[2]}${HAFS_BASIN_LETTERS[match[1].toUpperCase()]}`;
 }
 
-/**
- * Fetch HMON wind field data from NOMADS
- * HMON (Hurricanes in a Multi-scale Ocean-coupled Non-hydrostatic model)
- */
-async function fetchHMONWindFieldData(stormId) {
-  try {
-    console.log(`Fetching HMON wind field data for storm: ${stormId}`);
-    
-    // Parse storm ID
-    const match = /^(AL|EP|CP)(\d{2})(\d{4})$/i.exec(stormId.trim());
-    if (!match) {
-      throw new Error(`Invalid stormId format: ${stormId}. Expected format like AL052025`);
+function hafsFileName(tag, cycle, model, forecastHour) {
+  return `${tag}.${cycle}.${model}.storm.atm.f${String(forecastHour).padStart(3, '0')}.grb2`;
+}
+
+// Byte ranges of the 10-m wind messages from a wgrib2 inventory
+// ("12:48213:d=2024092600:UGRD:10 m above ground:6 hour fcst:")
+function hafsWindRanges(index) {
+  const records = index.split('\n').filter(Boolean).map(line => {
+    const [, offset, , variable, level] = line.split(':');
+    return { offset: Number(offset), variable, level };
+  });
+  const ranges = new Map();
+  records.forEach((record) => {
+    if ((record.variable !== 'UGRD' && record.variable !== 'VGRD') || record.level !== '10 m above ground') return;
+    // Sub-messages share an offset; the range runs to the next message
+    const next = records.find(r => r.offset > record.offset);
+    ranges.set(record.offset, next ? next.offset - 1 : null);
+  });
+  return [...ranges].map(([start, end]) => ({ start, end }));
+}
+
+// The GRIB2 bytes holding the 10-m winds: from HAFS_GRIB_DIR, or the newest cycle on
+// NOMADS (or the one asked for) that has this forecast hour
+async function loadHafsWindGrib(stormId, model, forecastHour, cycle) {
+  const tag = hafsStormTag(stormId);
+
+  if (HAFS_GRIB_DIR) {
+    const suffix = hafsFileName(tag, '', model, forecastHour).slice(tag.length + 1);
+    const files = fs.readdirSync(HAFS_GRIB_DIR)
+      .filter(f => f.startsWith(`${tag}.`) && f.endsWith(suffix) && (!cycle || f.includes(`.${cycle}.`)))
+      .sort();
+    if (!files.length) return null;
+    const file = files[files.length - 1];
+    return { cycle: file.split('.')[1], source: file, buffer: fs.readFileSync(path.join(HAFS_GRIB_DIR, file)) };
+  }
+
+  const sixHours = 6 * 3600 * 1000;
+  const latest = Math.floor(Date.now() / sixHours) * sixHours;
+  // Cycles land on NOMADS a few hours after synoptic time; look back two days
+  const cycles = cycle
+    ? [cycle]
+    : Array.from({ length: 8 }, (_, i) => new Date(latest - i * sixHours).toISOString().slice(0, 13).replace(/[-T]/g, ''));
+
+  for (const c of cycles) {
+    const url = `${HAFS_BASE_URL}/${model}.${c.slice(0, 8)}/${c.slice(8, 10)}/${hafsFileName(tag, c, model, forecastHour)}`;
+    let index;
+    try {
+      const response = await axios.get(`${url}.idx`, { timeout: 5000, responseType: 'text', transformResponse: [data => data] });
+      index = response.data;
+    } catch (err) {
+      continue;
     }
-    
-    const basin = match[1].toLowerCase();
-    const stormNum = match[2];
-    const year = match[3];
-    
-    // Get current date for finding latest cycle
-    const now = new Date();
-    const today = now.toISOString().slice(0, 10).replace(/-/g, '');
-    
-    // HMON runs typically available at 00, 06, 12, 18 UTC
-    const cycles = ['18', '12', '06', '00'];
-    let hmonData = null;
-    
-    for (const cycle of cycles) {
-      try {
-        // HMON directory structure: hmon.YYYYMMDD/hhz/
-        const hmonDir = `hmon.${today}/${cycle}z`;
-        
-        // Try current day first, then yesterday
-        const datesToTry = [today];
-        const yesterday = new Date(now);
-        yesterday.setUTCDate(yesterday.getUTCDate() - 1);
-        datesToTry.push(yesterday.toISOString().slice(0, 10).replace(/-/g, ''));
-        
-        for (const date of datesToTry) {
-          const dirPath = `hmon.${date}/${cycle}z`;
-          
-          // Look for HMON GRIB2 files with wind data
-          // Format: hmon.t{cycle}z.storm.grb2f{forecast_hour}
-          const forecastHours = ['00', '06', '12', '18', '24', '36', '48', '72'];
-          
-          for (const fhour of forecastHours) {
-            try {
-              const gribFile = `hmon.t${cycle}z.storm.grb2f${fhour}`;
-              const gribUrl = `${HMON_BASE_URL}/${dirPath}/${gribFile}`;
-              
-              console.log(`Checking HMON GRIB: ${gribUrl}`);
-              
-              // Check if file exists
-              const headResponse = await axios.head(gribUrl, { timeout: 5000 });
-              if (headResponse.status === 200) {
-                console.log(`Found HMON GRIB file: ${gribFile}`);
-                
-                // For now, generate realistic wind field data based on HMON characteristics
-                // In a full implementation, you'd parse the GRIB2 file here
-                hmonData = await generateRealisticHMONData(stormId, cycle, fhour, date);
-                return hmonData;
-              }
-            } catch (fileError) {
-              continue; // Try next forecast hour
-            }
-          }
+    const ranges = hafsWindRanges(index);
+    if (!ranges.length) continue;
+    const parts = [];
+    for (const { start, end } of ranges) {
+      const response = await axios.get(url, {
+        timeout: REQUEST_TIMEOUT,
+        responseType: 'arraybuffer',
+        headers: {
+          'User-Agent': 'CycloTrak (cyclotrak.com, jasonprice70@gmail.com)',
+          Range: `bytes=${start}-${end === null ? '' : end}`
         }
-      } catch (cycleError) {
-        continue; // Try next cycle
-      }
-    }
-    
-    // If no real data found, generate fallback data
-    if (!hmonData) {
-      console.log('No HMON GRIB files found, generating fallback data');
-      hmonData = await generateRealisticHMONData(stormId, '12', '12', today);
+      });
+      parts.push(Buffer.from(response.data));
     }
-    
-    return hmonData;
-    
-  } catch (error) {
-    console.error('Error in fetchHMONWindFieldData:', error);
-    throw error;
+    return { cycle: c, source: url, buffer: Buffer.concat(parts) };
   }
+  return null;
 }
 
 /**
- * Generate realistic HWRF wind field data with model-specific characteristics
+ * Thin the u/v grids (m/s) to at most HAFS_MAX_CELLS a side and pack them as
+ * little-endian Int16 tenths of a knot. Each output cell keeps the strongest wind in
+ * its block so thinning doesn't shave the eyewall peak.
  */
-async function generateRealisticHWRFData(stormId, cycle, forecastHour, date) {
-  // Get current storm position from NHC data for reference
-  let stormCenter = [25.0, -80.0]; // Default to somewhere in Atlantic
-  let intensity = 80; // Default intensity
-  
-  try {
-    // Use the existing active storms endpoint logic to get current storm position
-    const activeStormsUrl = `${NHC_BASE_URL}/CurrentStorms.json`;
-    const activeStormsResponse = await axios.get(activeStormsUrl, { timeout: 10000 });
-    
-    if (activeStormsResponse.data && activeStormsResponse.data.activeStorms) {
-      // Process the data directly like the active-storms endpoint does
-      const processedData = {
-        success: true,
-        data: {
-          activeStorms: activeStormsResponse.data.activeStorms.map(storm => ({
-            id: storm.id,
-            binNumber: storm.binNumber,
-            name: storm.name,
-            classification: storm.classification,
-            intensity: storm.intensity,
-            pressure: storm.pressure,
-            latitude: storm.latitude,
-            longitude: storm.longitude,
-            latitudeNumeric: storm.latitudeNumeric,
-            longitudeNumeric: storm.longitudeNumeric,
-            movementDir: storm.movementDir,
-            movementSpeed: storm.movementSpeed,
-            lastUpdate: storm.lastUpdate
-          }))
-        }
-      };
-      if (processedData.success && processedData.data?.activeStorms) {
-        const storms = processedData.data.activeStorms;
-        console.log(`Looking for storm ${stormId} in active storms:`, storms.map(s => ({id: s.id, binNumber: s.binNumber})));
-        const storm = storms.find(s => s.id === stormId || s.binNumber === stormId || s.id.toLowerCase() === stormId.toLowerCase());
-        if (storm) {
-          // Use latitudeNumeric and longitudeNumeric if available, or parse from lat/lon strings
-          const lat = storm.latitudeNumeric || storm.lat || parseFloat(storm.latitude) || 25.0;
-          const lon = storm.longitudeNumeric || storm.lon || parseFloat(storm.longitude) || -80.0;
-          stormCenter = [lat, lon];
-          intensity = parseInt(storm.intensity) || 80;
-          console.log(`Found storm ${stormId} at [${lat}, ${lon}] with intensity ${intensity}`);
-        } else {
-          console.log(`Storm ${stormId} not found in active storms list. Available storms:`, storms.map(s => s.id));
+function packWindGrid(u, v) {
+  const { rows, cols, north, west, dLat, dLon } = u.grid;
+  const stride = Math.max(1, Math.ceil(Math.max(rows, cols) / HAFS_MAX_CELLS));
+  const outRows = Math.ceil(rows / stride);
+  const outCols = Math.ceil(cols / stride);
+  const uOut = Buffer.alloc(outRows * outCols * 2);
+  const vOut = Buffer.alloc(outRows * outCols * 2);
+  let maxWindKt = 0;
+  let maxWindAt = null;
+
+  for (let r = 0; r < outRows; r++) {
+    for (let c = 0; c < outCols; c++) {
+      let best = -1;
+      let bestSpeed = -1;
+      for (let br = r * stride; br < Math.min(rows, (r + 1) * stride); br++) {
+        for (let bc = c * stride; bc < Math.min(cols, (c + 1) * stride); bc++) {
+          const i = br * cols + bc;
+          const speed = Math.hypot(u.values[i], v.values[i]);
+          if (speed > bestSpeed) { bestSpeed = speed; best = i; }
         }
       }
-    }
-  } catch (error) {
-    console.log('Could not fetch current storm data, using defaults:', error.message);
-  }
-  
-  const [centerLat, centerLon] = stormCenter;
-  
-  // HWRF characteristics: High resolution, detailed eye structure
-  const windFields = [];
-  const contours = [];
-  
-  // Generate wind field points with HWRF-style high resolution
-  const gridSpacing = 0.008; // ~0.9km resolution
-  const radius = 5.0; // degrees
-  
-  // HWRF wind speed thresholds with more detailed structure
-  const windLevels = [
-    { speed: 150, color: '#8B0000', radius: 0.2 }, // Eye wall
-    { speed: 130, color: '#DC143C', radius: 0.4 },
-    { speed: 110, color: '#FF4500', radius: 0.8 },
-    { speed: 90, color: '#FF8C00', radius: 1.2 },
-    { speed: 70, color: '#FFD700', radius: 1.8 },
-    { speed: 50, color: '#FFFF00', radius: 2.5 },
-    { speed: 35, color: '#9AFF9A', radius: 3.5 },
-    { speed: 20, color: '#87CEEB', radius: 4.5 }
-  ];
-  
-  // Generate contour polygons
-  windLevels.forEach(level => {
-    if (intensity >= level.speed * 0.6) {
-      const polygon = generateAsymmetricContour(centerLat, centerLon, level.radius, 32);
-      contours.push({
-        windSpeed: level.speed,
-        color: level.color,
-        polygon: polygon
-      });
-    }
-  });
-  
-  // Generate point data
-  for (let dlat = -radius; dlat <= radius; dlat += gridSpacing * 2) {
-    for (let dlon = -radius; dlon <= radius; dlon += gridSpacing * 2) {
-      const pointLat = centerLat + dlat;
-      const pointLon = centerLon + dlon;
-      const distance = Math.sqrt(dlat * dlat + dlon * dlon) * 111; // km
-      
-      let windSpeed = calculateHWRFWindSpeed(distance, intensity);
-      
-      if (windSpeed > 10) {
-        windFields.push({
-          lat: pointLat,
-          lon: pointLon,
-          windSpeed: Math.round(windSpeed),
-          pressure: Math.round(1013 - windSpeed * 0.9 + Math.random() * 8 - 4),
-          time: new Date().toISOString()
-        });
+      const o = (r * outCols + c) * 2;
+      if (best < 0) {
+        uOut.writeInt16LE(WIND_GRID_MISSING, o);
+        vOut.writeInt16LE(WIND_GRID_MISSING, o);
+        continue;
+      }
+      uOut.writeInt16LE(Math.round(u.values[best] * MS_TO_KT * 10), o);
+      vOut.writeInt16LE(Math.round(v.values[best] * MS_TO_KT * 10), o);
+      const kt = bestSpeed * MS_TO_KT;
+      if (kt > maxWindKt) {
+        maxWindKt = kt;
+        maxWindAt = [north - Math.floor(best / cols) * dLat, west + (best % cols) * dLon];
       }
     }
   }
-  
+
+  // Cell centres of the thinned grid sit in the middle of each block
+  const offset = (stride - 1) / 2;
   return {
-    windFields: [{
-      center: stormCenter,
-      radius: radius * 111, // Convert to km
-      maxWinds: intensity,
-      model: 'HWRF',
-      cycle: cycle,
-      forecastHour: forecastHour,
-      validTime: new Date().toISOString(),
-      windField: windFields,
-      contours: contours
-    }]
+    grid: {
+      north: north - offset * dLat,
+      west: west + offset * dLon,
+      dLat: dLat * stride,
+      dLon: dLon * stride,
+      rows: outRows,
+      cols: outCols
+    },
+    encoding: 'int16le-decikt',
+    missing: WIND_GRID_MISSING,
+    u: uOut.toString('base64'),
+    v: vOut.toString('base64'),
+    maxWindKt: Math.round(maxWindKt),
+    maxWindAt
   };
 }
 
 /**
- * Generate realistic HMON wind field data with ocean-coupling characteristics
+ * 10-m wind field from a HAFS run as a compact packed grid.
+ * Returns null when no cycle with this forecast hour is available.
  */
-async function generateRealisticHMONData(stormId, cycle, forecastHour, date) {
-  // Get current storm position from NHC data for reference
-  let stormCenter = [25.0, -80.0]; // Default to somewhere in Atlantic
-  let intensity = 75; // Default intensity
-  
-  try {
-    // Use the existing active storms endpoint logic to get current storm position
-    const activeStormsUrl = `${NHC_BASE_URL}/CurrentStorms.json`;
-    const activeStormsResponse = await axios.get(activeStormsUrl, { timeout: 10000 });
-    
-    if (activeStormsResponse.data && activeStormsResponse.data.activeStorms) {
-      // Process the data directly like the active-storms endpoint does
-      const processedData = {
-        success: true,
-        data: {
-          activeStorms: activeStormsResponse.data.activeStorms.map(storm => ({
-            id: storm.id,
-            binNumber: storm.binNumber,
-            name: storm.name,
-            classification: storm.classification,
-            intensity: storm.intensity,
-            pressure: storm.pressure,
-            latitude: storm.latitude,
-            longitude: storm.longitude,
-            latitudeNumeric: storm.latitudeNumeric,
-            longitudeNumeric: storm.longitudeNumeric,
-            movementDir: storm.movementDir,
-            movementSpeed: storm.movementSpeed,
-            lastUpdate: storm.lastUpdate
-          }))
-        }
-      };
-      if (processedData.success && processedData.data?.activeStorms) {
-        const storms = processedData.data.activeStorms;
-        console.log(`Looking for storm ${stormId} in active storms:`, storms.map(s => ({id: s.id, binNumber: s.binNumber})));
-        const storm = storms.find(s => s.id === stormId || s.binNumber === stormId || s.id.toLowerCase() === stormId.toLowerCase());
-        if (storm) {
-          // Use latitudeNumeric and longitudeNumeric if available, or parse from lat/lon strings
-          const lat = storm.latitudeNumeric || storm.lat || parseFloat(storm.latitude) || 25.0;
-          const lon = storm.longitudeNumeric || storm.lon || parseFloat(storm.longitude) || -80.0;
-          stormCenter = [lat, lon];
-          intensity = parseInt(storm.intensity) || 75;
-          console.log(`Found storm ${stormId} at [${lat}, ${lon}] with intensity ${intensity}`);
-        } else {
-          console.log(`Storm ${stormId} not found in active storms list. Available storms:`, storms.map(s => s.id));
-        }
-      }
-    }
-  } catch (error) {
-    console.log('Could not fetch current storm data, using defaults:', error.message);
-  }
-  
-  const [centerLat, centerLon] = stormCenter;
-  
-  // HMON characteristics: Ocean-coupled effects, slightly different wind structure
-  const windFields = [];
-  const contours = [];
-  
-  // Generate wind field points with HMON-style resolution
-  const gridSpacing = 0.01; // ~1.1km resolution
-  const radius = 4.5; // degrees
-  
-  // HMON wind speed thresholds with ocean-coupling effects
-  const windLevels = [
-    { speed: 140, color: '#8B0000', radius: 0.25 }, // Slightly larger eye due to ocean effects
-    { speed: 120, color: '#DC143C', radius: 0.5 },
-    { speed: 100, color: '#FF4500', radius: 0.9 },
-    { speed: 80, color: '#FF8C00', radius: 1.4 },
-    { speed: 65, color: '#FFD700', radius: 2.0 },
-    { speed: 45, color: '#FFFF00', radius: 2.8 },
-    { speed: 30, color: '#9AFF9A', radius: 3.8 },
-    { speed: 15, color: '#87CEEB', radius: 4.3 }
-  ];
-  
-  // Generate contour polygons
-  windLevels.forEach(level => {
-    if (intensity >= level.speed * 0.65) {
-      const polygon = generateAsymmetricContour(centerLat, centerLon, level.radius, 36);
-      contours.push({
-        windSpeed: level.speed,
-        color: level.color,
-        polygon: polygon
-      });
-    }
-  });
-  
-  // Generate point data
-  for (let dlat = -radius; dlat <= radius; dlat += gridSpacing * 2) {
-    for (let dlon = -radius; dlon <= radius; dlon += gridSpacing * 2) {
-      const pointLat = centerLat + dlat;
-      const pointLon = centerLon + dlon;
-      const distance = Math.sqrt(dlat * dlat + dlon * dlon) * 111; // km
-      
-      let windSpeed = calculateHMONWindSpeed(distance, intensity);
-      
-      if (windSpeed > 8) {
-        windFields.push({
-          lat: pointLat,
-          lon: pointLon,
-          windSpeed: Math.round(windSpeed),
-          pressure: Math.round(1013 - windSpeed * 0.85 + Math.random() * 6 - 3),
-          time: new Date().toISOString()
-        });
-      }
-    }
-  }
-  
+async function fetchHafsWindField(stormId, model, forecastHour, cycle) {
+  const grib = await loadHafsWindGrib(stormId, model, forecastHour, cycle);
+  if (!grib) return null;
+
+  const fields = decodeGrib2(grib.buffer, isTenMetreWind);
+  const u = fields.find(f => f.parameter === 2);
+  const v = fields.find(f => f.parameter === 3);
+  if (!u || !v) throw new Error(`10-m UGRD/VGRD not found in ${grib.source}`);
+  if (u.grid.rows !== v.grid.rows || u.grid.cols !== v.grid.cols) throw new Error('UGRD and VGRD grids differ');
+
+  const refTime = u.refTime ? new Date(u.refTime) : null;
   return {
-    windFields: [{
-      center: stormCenter,
-      radius: radius * 111, // Convert to km
-      maxWinds: intensity,
-      model: 'HMON',
-      cycle: cycle,
-      forecastHour: forecastHour,
-      validTime: new Date().toISOString(),
-      windField: windFields,
-      contours: contours
-    }]
+    stormId: stormId.toUpperCase(),
+    model: HAFS_MODELS[model],
+    cycle: grib.cycle,
+    forecastHour,
+    validTime: refTime ? new Date(refTime.getTime() + u.forecastHour * 3600 * 1000).toISOString() : null,
+    source: grib.source,
+    ...packWindGrid(u, v)
   };
 }
 
+// ─── Forecast verification ────────────────────────────────────────────────────
+// Scores archived model runs (MODEL_TABLE) against the best track once the verifying
+// fixes exist. As in NHC's verification, a forecast counts only when the system is a
+// tropical or subtropical cyclone at both the initial and the verifying time. Track error
+// is the great-circle distance, split into along-track (positive = ahead of the storm)
+// and cross-track (positive = right of its motion) components; intensity error is
+// forecast minus best-track wind.
+
+const VERIFY_TAUS = [12, 24, 36, 48, 60, 72, 96, 120];
+const VERIFY_CYCLONE_TYPES = new Set(['TD', 'TS', 'HU', 'TY', 'ST', 'TC', 'SD', 'SS']);
+// GEFS perturbation members are covered by the ensemble mean (AEMN)
+const VERIFY_EXCLUDED_MODELS = /^AP\d{2}$/;
+// Fixes further apart than this are not interpolated between
+const VERIFY_MAX_GAP_HOURS = 12;
+const VERIFY_CACHE_MS = 30 * 60 * 1000;
+// A season is verified a few storms at a time, and storms not finished within the budget
+// are left for the next request (the Lambda times out at 25 s)
+const VERIFY_CONCURRENCY = 4;
+const VERIFY_TIME_BUDGET_MS = 20 * 1000;
+const EARTH_RADIUS_NM = 3440.065;
+const RAD = Math.PI / 180;
+
+// stormId → { at, cases }
+const verificationCache = new Map();
+
+function greatCircleNm(lat1, lon1, lat2, lon2) {
+  const dLat = (lat2 - lat1) * RAD;
+  const dLon = (lon2 - lon1) * RAD;
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * RAD) * Math.cos(lat2 * RAD) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_NM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+function initialBearingDeg(lat1, lon1, lat2, lon2) {
+  const dLon = (lon2 - lon1) * RAD;
+  const y = Math.sin(dLon) * Math.cos(lat2 * RAD);
+  const x = Math.cos(lat1 * RAD) * Math.sin(lat2 * RAD) - Math.sin(lat1 * RAD) * Math.cos(lat2 * RAD) * Math.cos(dLon);
+  return (Math.atan2(y, x) / RAD + 360) % 360;
+}
+
 /**
- * Calculate HWRF-style wind speed based on distance from center
+ * Verifying positions for a storm as [{ time, lat, lon, vmax, tropical }] sorted by time:
+ * the ATCF B-deck, else HURDAT2, else the archived advisory positions. The B-deck
+ * download stops at `deadline`, if given.
  */
-function calculateHWRFWindSpeed(distance, intensity) {
-  // HWRF has very detailed eye structure and sharp gradients
-  if (distance < 15) {
-    // Sharp eye wall with very high gradients
-    return intensity * 0.98 + Math.random() * 12 - 6;
-  } else if (distance < 30) {
-    // Maximum wind radius with high variability
-    return intensity * 0.90 + Math.random() * 25 - 12;
-  } else if (distance < 80) {
-    // Inner spiral bands
-    return Math.max(0, intensity * 0.65 - distance * 0.25 + Math.random() * 30 - 15);
-  } else if (distance < 150) {
-    // Outer bands with organized structure
-    return Math.max(0, intensity * 0.45 - distance * 0.18 + Math.random() * 25 - 12);
-  } else if (distance < 280) {
-    // Far field with decreasing winds
-    return Math.max(0, intensity * 0.25 - distance * 0.1 + Math.random() * 20 - 10);
+async function loadVerifyingTrack(stormId, deadline = null) {
+  const bdeck = await fetchBdeck(stormId, deadline).catch(() => null);
+  if (bdeck) {
+    return bdeck.points.map(p => ({
+      time: Date.parse(p.dateTime),
+      lat: p.latitude,
+      lon: p.longitude,
+      vmax: p.maxWinds || null,
+      tropical: VERIFY_CYCLONE_TYPES.has(p.classification)
+    }));
+  }
+
+  const hurdat = loadHurdatDatabase().byId.get(stormId);
+  if (hurdat) {
+    return hurdat.fixes.map(f => ({
+      time: Date.parse(f.dateTime),
+      lat: f.latitude,
+      lon: f.longitude,
+      vmax: f.maxWinds,
+      tropical: HURDAT_CYCLONE_STATUSES.has(f.status)
+    }));
+  }
+
+  const history = await getStormHistory(stormId, 500).catch(() => []);
+  return history
+    .filter(h => h.positionLat != null && h.positionLon != null)
+    .map(h => ({
+      time: Date.parse(h.advisoryTimestamp),
+      lat: h.positionLat,
+      lon: h.positionLon,
+      vmax: h.maxWindsKnots || null,
+      // Potential tropical cyclone advisories don't verify
+      tropical: !/^P/i.test(h.classification || '')
+    }))
+    .sort((a, b) => a.time - b.time);
+}
+
+// Best-track state at a time, interpolated between the bracketing fixes, with the
+// storm's heading over that interval; null outside the track or across a gap
+function verifyingFixAt(track, time) {
+  for (let i = 0; i < track.length - 1; i++) {
+    const a = track[i];
+    const b = track[i + 1];
+    if (time < a.time) return null;
+    if (time > b.time) continue;
+    if (b.time - a.time > VERIFY_MAX_GAP_HOURS * 3600 * 1000) return null;
+    const t = b.time > a.time ? (time - a.time) / (b.time - a.time) : 0;
+    return {
+      lat: a.lat + (b.lat - a.lat) * t,
+      lon: normalizeLon(a.lon + normalizeLon(b.lon - a.lon) * t),
+      vmax: a.vmax != null && b.vmax != null ? a.vmax + (b.vmax - a.vmax) * t : null,
+      tropical: (t === 0 || b.tropical) && (t === 1 || a.tropical),
+      headingDeg: initialBearingDeg(a.lat, a.lon, b.lat, b.lon)
+    };
   }
-  return 0;
+  return null;
+}
+
+function trackErrors(lat, lon, obs) {
+  // Displacement (nm east, north) on a local plane at the verifying position
+  const dx = normalizeLon(lon - obs.lon) * 60 * Math.cos(obs.lat * RAD);
+  const dy = (lat - obs.lat) * 60;
+  const h = obs.headingDeg * RAD;
+  return {
+    trackErrorNm: greatCircleNm(obs.lat, obs.lon, lat, lon),
+    alongTrackNm: dx * Math.sin(h) + dy * Math.cos(h),
+    crossTrackNm: dx * Math.cos(h) - dy * Math.sin(h)
+  };
 }
 
 /**
- * Calculate HMON-style wind speed with ocean coupling effects
+ * Every verifiable (model, run, forecast hour) case for one storm:
+ * [{ stormId, modelId, runCycle, tau, trackErrorNm, alongTrackNm, crossTrackNm, intensityErrorKt }]
  */
-function calculateHMONWindSpeed(distance, intensity) {
-  // HMON shows ocean-atmosphere coupling effects
-  if (distance < 20) {
-    // Slightly larger eye due to ocean effects
-    return intensity * 0.95 + Math.random() * 10 - 5;
-  } else if (distance < 40) {
-    // Maximum wind radius with ocean coupling
-    return intensity * 0.85 + Math.random() * 20 - 10;
-  } else if (distance < 100) {
-    // Inner bands affected by sea surface temperature
-    return Math.max(0, intensity * 0.60 - distance * 0.22 + Math.random() * 28 - 14);
-  } else if (distance < 180) {
-    // Outer structure with ocean coupling
-    return Math.max(0, intensity * 0.40 - distance * 0.16 + Math.random() * 22 - 11);
-  } else if (distance < 320) {
-    // Extended far field due to ocean effects
-    return Math.max(0, intensity * 0.22 - distance * 0.08 + Math.random() * 18 - 9);
+async function verifyStormForecasts(stormId, deadline = null) {
+  const cached = verificationCache.get(stormId);
+  if (cached && Date.now() - cached.at < VERIFY_CACHE_MS) return cached.cases;
+
+  const [runs, track] = await Promise.all([getAllModelRuns(stormId), loadVerifyingTrack(stormId, deadline)]);
+  const cases = [];
+  for (const run of runs) {
+    if (VERIFY_EXCLUDED_MODELS.test(run.modelId)) continue;
+    const t0 = Date.parse(run.runTimestamp);
+    const initial = verifyingFixAt(track, t0);
+    if (!initial || !initial.tropical) continue;
+
+    for (const p of run.trackPoints || []) {
+      if (!VERIFY_TAUS.includes(p.forecastHour) || p.lat == null || p.lon == null) continue;
+      const obs = verifyingFixAt(track, t0 + p.forecastHour * 3600 * 1000);
+      if (!obs || !obs.tropical) continue;
+      cases.push({
+        stormId,
+        modelId: run.modelId,
+        runCycle: run.runCycle,
+        tau: p.forecastHour,
+        ...trackErrors(p.lat, p.lon, obs),
+        intensityErrorKt: p.maxWindsKnots != null && obs.vmax ? p.maxWindsKnots - obs.vmax : null
+      });
+    }
   }
-  return 0;
+
+  verificationCache.set(stormId, { at: Date.now(), cases });
+  return cases;
+}
+
+// Resolves to `value` at `deadline`; cancel() stops the timer
+function atDeadline(deadline, value) {
+  let timer;
+  const promise = new Promise(resolve => { timer = setTimeout(resolve, Math.max(0, deadline - Date.now()), value); });
+  return { promise, cancel: () => clearTimeout(timer) };
 }
 
 /**
- * Generate asymmetric contour polygon for realistic hurricane shape
+ * Verify several storms, VERIFY_CONCURRENCY at a time. Cached storms are always
+ * included; uncached ones not finished within VERIFY_TIME_BUDGET_MS come back in
+ * `pending`. Their downloads are cut off at the deadline, and since finished storms are
+ * cached, a repeat request picks them up.
+ * Returns { cases, pending }
  */
-function generateAsymmetricContour(centerLat, centerLon, radius, numPoints) {
-  const polygon = [];
-  const angleStep = 360 / numPoints;
-  
-  for (let i = 0; i < numPoints; i++) {
-    const angle = i * angleStep;
-    const radians = (angle * Math.PI) / 180;
-    
-    // Add asymmetry for realistic hurricane shape
-    const asymmetryFactor = 1 + 0.4 * Math.sin(radians + Math.PI/4) + 0.2 * Math.cos(radians * 2);
-    const adjustedRadius = radius * asymmetryFactor;
-    
-    // Correct coordinate calculation with latitude adjustment for longitude
-    const lat = centerLat + adjustedRadius * Math.cos(radians);
-    const lon = centerLon + (adjustedRadius * Math.sin(radians)) / Math.cos(centerLat * Math.PI / 180);
-    polygon.push([lat, lon]);
-  }
-  
-  // Close the polygon
-  if (polygon.length > 0) {
-    polygon.push(polygon[0]);
+async function verifyStorms(stormIds) {
+  const deadline = Date.now() + VERIFY_TIME_BUDGET_MS;
+  const results = new Array(stormIds.length);
+  const pending = [];
+  const timedOut = Symbol('timed out');
+  let next = 0;
+  const worker = async () => {
+    while (next < stormIds.length) {
+      const i = next++;
+      const id = stormIds[i];
+      const cached = verificationCache.get(id);
+      if (cached && Date.now() - cached.at < VERIFY_CACHE_MS) {
+        results[i] = cached.cases;
+        continue;
+      }
+      if (Date.now() >= deadline) {
+        pending.push(id);
+        continue;
+      }
+      // A storm still loading at the deadline is left to finish (and be cached) in the background
+      const timer = atDeadline(deadline, timedOut);
+      const cases = await Promise.race([verifyStormForecasts(id, deadline), timer.promise]).finally(timer.cancel);
+      if (cases === timedOut) pending.push(id);
+      else results[i] = cases;
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(VERIFY_CONCURRENCY, stormIds.length) }, worker));
+  return { cases: results.filter(Boolean).flat(), pending };
+}
+
+// Keep only the cases (storm, run, forecast hour) that every selected model verified
+function homogeneousSample(cases, models) {
+  const modelsByCase = new Map();
+  const key = c => `${c.stormId}|${c.runCycle}|${c.tau}`;
+  for (const c of cases) {
+    if (!modelsByCase.has(key(c))) modelsByCase.set(key(c), new Set());
+    modelsByCase.get(key(c)).add(c.modelId);
   }
-  
-  return polygon;
+  return cases.filter(c => modelsByCase.get(key(c)).size === models.size);
 }
 
+const round1 = x => Math.round(x * 10) / 10;
+
 /**
- * Lambda handler for NHC API proxy
+ * Mean errors per model and forecast hour. With `models`, only those models are scored,
+ * and `homogeneous` restricts track and intensity each to the cases all of them share.
+ * Returns [{ modelId, tau, trackN, trackErrorNm, alongTrackNm, crossTrackNm,
+ *            intensityN, intensityMaeKt, intensityBiasKt }]
  */
-exports.handler = async (event) => {
-  console.log('NHC Proxy Lambda invoked:', JSON.stringify(event, null, 2));
-
-  // Handle CORS preflight requests
-  if (event.httpMethod === 'OPTIONS') {
-    return {
-      statusCode: 200,
-      headers: corsHeaders,
-      body: JSON.stringify({ message: 'CORS preflight response' })
-    };
+function aggregateVerification(cases, models, homogeneous) {
+  const selected = models.length ? new Set(models) : null;
+  let trackCases = selected ? cases.filter(c => selected.has(c.modelId)) : cases;
+  let intensityCases = trackCases.filter(c => c.intensityErrorKt !== null);
+  if (homogeneous && selected && selected.size > 1) {
+    trackCases = homogeneousSample(trackCases, selected);
+    intensityCases = homogeneousSample(intensityCases, selected);
   }
 
-  try {
-    // Extract parameters from the request
-    const { httpMethod, pathParameters, queryStringParameters } = event;
-    
-    if (httpMethod !== 'GET') {
-      return {
-        statusCode: 405,
-        headers: corsHeaders,
-        body: JSON.stringify({ error: 'Method not allowed. Only GET requests are supported.' })
-      };
+  const stats = new Map();
+  const statFor = (c) => {
+    const k = `${c.modelId}|${c.tau}`;
+    if (!stats.has(k)) {
+      stats.set(k, { modelId: c.modelId, tau: c.tau, trackN: 0, track: 0, along: 0, cross: 0, intensityN: 0, abs: 0, bias: 0 });
     }
+    return stats.get(k);
+  };
+  for (const c of trackCases) {
+    const s = statFor(c);
+    s.trackN++;
+    s.track += c.trackErrorNm;
+    s.along += c.alongTrackNm;
+    s.cross += c.crossTrackNm;
+  }
+  for (const c of intensityCases) {
+    const s = statFor(c);
+    s.intensityN++;
+    s.abs += Math.abs(c.intensityErrorKt);
+    s.bias += c.intensityErrorKt;
+  }
 
-    // Determine which NHC endpoint to call based on path
-  const endpoint = pathParameters?.proxy || 'active-storms';
-    let nhcUrl;
-    let isKmzEndpoint = false;
-    let isGribEndpoint = false;
-    
-    switch (endpoint) {
+  return [...stats.values()]
+    .map(s => ({
+      modelId: s.modelId,
+      tau: s.tau,
+      trackN: s.trackN,
+      trackErrorNm: s.trackN ? round1(s.track / s.trackN) : null,
+      alongTrackNm: s.trackN ? round1(s.along / s.trackN) : null,
+      crossTrackNm: s.trackN ? round1(s.cross / s.trackN) : null,
+      intensityN: s.intensityN,
+      intensityMaeKt: s.intensityN ? round1(s.abs / s.intensityN) : null,
+      intensityBiasKt: s.intensityN ? round1(s.bias / s.intensityN) : null
+    }))
+    .sort((a, b) => a.modelId.localeCompare(b.modelId) || a.tau - b.tau);
+}
+
+// Verifiable case count per model, most-verified first
+function verifiedModels(cases) {
+  const counts = new Map();
+  for (const c of cases) counts.set(c.modelId, (counts.get(c.modelId) || 0) + 1);
+  return [...counts].map(([modelId, n]) => ({ modelId, cases: n })).sort((a, b) => b.cases - a.cases);
+}
+
+// ─── Coastal watches and warnings ─────────────────────────────────────────────
+// The KMZ files named in CurrentStorms.json (windWatchesWarnings, and for Atlantic storms
+// stormSurgeWatchWarningGIS) hold the coastline segments under each watch or warning;
+// the breakpoints come from the public advisory. Both are parsed in advisoryGis.js
+
+async function fetchWatchesWarnings(stormId) {
+  const { data } = await axios.get(`${NHC_BASE_URL}/CurrentStorms.json`, { timeout: REQUEST_TIMEOUT });
+  const storm = (data?.activeStorms || []).find(s => s.id?.toUpperCase() === stormId.toUpperCase());
+  if (!storm) return null;
+
+  const kmzUrls = [storm.windWatchesWarnings?.kmzFile, storm.stormSurgeWatchWarningGIS?.kmzFile].filter(Boolean);
+  const [segmentResults, advisory] = await Promise.all([
+    Promise.allSettled(kmzUrls.map(async url => {
+      const response = await axios.get(url, { responseType: 'arraybuffer', timeout: REQUEST_TIMEOUT });
+      return extractWatchWarningSegments(await readKmlFromKmz(response.data));
+    })),
+    storm.publicAdvisory?.url
+      ? axios.get(storm.publicAdvisory.url, { responseType: 'text', timeout: REQUEST_TIMEOUT }).catch(err => {
+          console.warn(`[watches] Public advisory unavailable for ${stormId}:`, err.message);
+          return null;
+        })
+      : null
+  ]);
+  segmentResults.forEach((r, i) => {
+    if (r.status === 'rejected') console.warn(`[watches] Could not read ${kmzUrls[i]}:`, r.reason?.message);
+  });
+
+  return {
+    stormId: storm.id.toUpperCase(),
+    advisoryNumber: storm.windWatchesWarnings?.advNum || storm.publicAdvisory?.advNum || null,
+    segments: {
+      type: 'FeatureCollection',
+      features: segmentResults.flatMap(r => (r.status === 'fulfilled' ? r.value : []))
+    },
+    breakpoints: advisory ? parseWatchWarningSummary(extractPreformattedText(String(advisory.data || ''))) : []
+  };
+}
+
+// ─── Wind radii ───────────────────────────────────────────────────────────────
+// Initial wind extent and forecast wind radii (initialWindExtent / forecastWindRadiiGIS in
+// CurrentStorms.json), parsed in advisoryGis.js
+
+async function fetchWindRadii(stormId) {
+  const { data } = await axios.get(`${NHC_BASE_URL}/CurrentStorms.json`, { timeout: REQUEST_TIMEOUT });
+  const storm = (data?.activeStorms || []).find(s => s.id?.toUpperCase() === stormId.toUpperCase());
+  if (!storm) return null;
+
+  const products = [
+    ['initial', storm.initialWindExtent?.kmzFile],
+    ['forecast', storm.forecastWindRadiiGIS?.kmzFile]
+  ].filter(([, url]) => url);
+  const results = await Promise.allSettled(products.map(async ([source, url]) => {
+    const response = await axios.get(url, { responseType: 'arraybuffer', timeout: REQUEST_TIMEOUT });
+    return extractWindRadii(await readKmlFromKmz(response.data), source);
+  }));
+  results.forEach((r, i) => {
+    if (r.status === 'rejected') console.warn(`[wind-radii] Could not read ${products[i][1]}:`, r.reason?.message);
+  });
+
+  return {
+    stormId: storm.id.toUpperCase(),
+    advisoryNumber: storm.forecastWindRadiiGIS?.advNum || storm.initialWindExtent?.advNum || null,
+    radii: {
+      type: 'FeatureCollection',
+      features: results.flatMap(r => (r.status === 'fulfilled' ? r.value : []))
+    }
+  };
+}
+
+// ─── Potential storm surge flooding ───────────────────────────────────────────
+// Inundation depth bands, or the raster overlay NHC draws them in, from the
+// potentialStormSurgeFloodingGIS KMZ (Atlantic storms with a storm surge watch or
+// warning); parsed in surgeInundation.js
+
+async function fetchSurgeInundation(stormId) {
+  const { data } = await axios.get(`${NHC_BASE_URL}/CurrentStorms.json`, { timeout: REQUEST_TIMEOUT });
+  const storm = (data?.activeStorms || []).find(s => s.id?.toUpperCase() === stormId.toUpperCase());
+  if (!storm) return null;
+
+  const product = storm.potentialStormSurgeFloodingGIS;
+  const empty = { type: 'FeatureCollection', features: [] };
+  if (!product?.kmzFile) {
+    return { stormId: storm.id.toUpperCase(), advisoryNumber: null, bands: empty, overlays: [] };
+  }
+  const response = await axios.get(product.kmzFile, { responseType: 'arraybuffer', timeout: REQUEST_TIMEOUT });
+  const { bands, overlays } = await parseInundationKmz(Buffer.from(response.data));
+  return { stormId: storm.id.toUpperCase(), advisoryNumber: product.advNum || null, bands, overlays };
+}
+
+// ─── Advisory alerts ──────────────────────────────────────────────────────────
+// A scheduled invocation (the EventBridge rule in the CloudFormation template) diffs
+// CurrentStorms.json against the snapshot it stored last time and delivers the events
+// to the Web Push subscriptions in ALERTS_TABLE and to the webhooks in ALERT_WEBHOOKS.
+// The snapshot records, the diff and the notification text are alertSnapshots.mjs, shared
+// with the web app; locations are keyed by name and position here rather than by the
+// browser's ids.
+//
+// ALERT_WEBHOOKS is a JSON array of { url, secret?, events?, locations? }. With a secret,
+// the body is signed with HMAC-SHA256 in X-CycloTrak-Signature ("sha256=<hex>").
+// Web Push (RFC 8291 payload encryption, RFC 8292 VAPID) is done with node's crypto;
+// VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY are the base64url P-256 keys that
+// `npx web-push generate-vapid-keys` prints.
+
+const ALERTS_TABLE = process.env.ALERTS_TABLE || 'cyclotrak-alerts-dev';
+const VAPID_PUBLIC_KEY  = process.env.VAPID_PUBLIC_KEY  || '';
+const VAPID_PRIVATE_KEY = process.env.VAPID_PRIVATE_KEY || '';
+const VAPID_SUBJECT     = process.env.VAPID_SUBJECT     || 'mailto:alerts@cyclotrak.com';
+
+// Invests archived in the last two days can match a new storm (see diffAlertSnapshots)
+const ALERT_INVEST_RECENT_MS = 2 * 24 * 3600 * 1000;
+const ALERT_MAX_LOCATIONS = 20;
+// Push services drop a message nobody collected within this many seconds
+const PUSH_TTL_SECONDS = 6 * 3600;
+const WEBHOOK_TIMEOUT = 10000;
+// Subscribe/unsubscribe requests one client IP may make per hour
+const ALERT_SUBSCRIBE_LIMIT = 20;
+// The browsers' push services; subscriptions pointing anywhere else are refused
+const PUSH_SERVICE_HOSTS = ['fcm.googleapis.com', 'web.push.apple.com'];
+const PUSH_SERVICE_DOMAINS = ['.push.services.mozilla.com', '.notify.windows.com'];
+// The only endpoints that take a request body
+const ALERT_POST_ENDPOINTS = new Set(['alert-subscribe', 'alert-unsubscribe']);
+
+function alertWebhooks() {
+  if (!process.env.ALERT_WEBHOOKS) return [];
+  try {
+    const hooks = JSON.parse(process.env.ALERT_WEBHOOKS);
+    return Array.isArray(hooks) ? hooks.filter(h => h && typeof h.url === 'string') : [];
+  } catch (err) {
+    console.error('[alerts] ALERT_WEBHOOKS is not valid JSON:', err.message);
+    return [];
+  }
+}
+
+const locationKey = l => `${l.name}@${Number(l.lat).toFixed(3)},${Number(l.lon).toFixed(3)}`;
+
+// Locations sent by a subscriber: named, on the globe, at most ALERT_MAX_LOCATIONS
+function cleanAlertLocations(locations) {
+  if (!Array.isArray(locations)) return [];
+  return locations
+    .map(l => ({ name: String(l?.name || '').trim().slice(0, 80), lat: Number(l?.lat), lon: Number(l?.lon) }))
+    .filter(l => l.name && Number.isFinite(l.lat) && Math.abs(l.lat) <= 90 && Number.isFinite(l.lon) && Math.abs(l.lon) <= 360)
+    .slice(0, ALERT_MAX_LOCATIONS);
+}
+
+// Ray casting on an outer ring of [lon, lat] pairs
+function ringContains(ring, lat, lon) {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > lat) !== (yj > lat) && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+function coneContains(cone, lat, lon) {
+  return (cone?.features || []).some(f => {
+    const g = f.geometry;
+    const polygons = g?.type === 'Polygon' ? [g.coordinates] : g?.type === 'MultiPolygon' ? g.coordinates : [];
+    return polygons.some(p => p[0] && ringContains(p[0], lat, lon));
+  });
+}
+
+async function fetchConeGeoJSON(stormId) {
+  try {
+    const response = await axios.get(`${NHC_BASE_URL}/storm_graphics/api/${stormId.toUpperCase()}_CONE_latest.kmz`, {
+      responseType: 'arraybuffer',
+      timeout: REQUEST_TIMEOUT
+    });
+    return await parseKmzToConeGeoJSON(response.data);
+  } catch (err) {
+    console.warn(`[alerts] No cone for ${stormId}:`, err.message);
+    return null;
+  }
+}
+
+/**
+ * Snapshot of the active storms for the diff. Cones are only fetched for storms with a
+ * new advisory (an unchanged one keeps its covered locations) and only when someone
+ * watches a location.
+ */
+async function takeAlertSnapshot(nhcStorms, previous, locations) {
+  const before = new Map((previous?.storms || []).map(s => [s.id, s]));
+  const storms = await Promise.all(nhcStorms.map(async storm => {
+    const advisoryNumber = storm.forecastAdvisory?.advNum || storm.publicAdvisory?.advNum || null;
+    const prev = before.get(storm.id);
+    let coneLocations = [];
+    if (locations.length > 0) {
+      if (prev && prev.advisoryNumber === advisoryNumber && Array.isArray(prev.coneLocations)) {
+        coneLocations = prev.coneLocations;
+      } else {
+        const cone = await fetchConeGeoJSON(storm.id);
+        coneLocations = locations.filter(l => coneContains(cone, l.lat, l.lon)).map(locationKey);
+      }
+    }
+    return stormSnapshot({
+      id: storm.id,
+      name: storm.name,
+      classification: storm.classification,
+      maxWinds: parseInt(storm.intensity || '0', 10) || 0,
+      advisoryNumber,
+      position: [storm.latitudeNumeric, storm.longitudeNumeric]
+    }, coneLocations);
+  }));
+
+  let invests = [];
+  try {
+    invests = (await getSeasonInvests(new Date().getUTCFullYear()))
+      .filter(i => Date.now() - Date.parse(i.snapshotTimestamp) <= ALERT_INVEST_RECENT_MS && i.positionLat != null)
+      .map(i => ({ id: i.investId, position: [i.positionLat, i.positionLon] }));
+  } catch (err) {
+    console.warn('[alerts] Invest archive unavailable:', err.message);
+  }
+
+  return { takenAt: new Date().toISOString(), storms, invests };
+}
+
+// Events a subscriber or webhook asked for: its event types (all by default), and cone
+// events only for its own locations
+function alertsFor(recipient, events) {
+  const types = Array.isArray(recipient.events) && recipient.events.length ? recipient.events : ALERT_TYPES;
+  const keys = new Set(cleanAlertLocations(recipient.locations).map(locationKey));
+  return events.filter(e => types.includes(e.type) && (e.type !== 'cone-covers-location' || keys.has(locationKey(e.location))));
+}
+
+// ── Web Push ──────────────────────────────────────────────────────────────────
+
+function vapidAuthorization(endpoint) {
+  const publicKey = Buffer.from(VAPID_PUBLIC_KEY, 'base64url');
+  const privateKey = crypto.createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: VAPID_PRIVATE_KEY,
+      x: publicKey.subarray(1, 33).toString('base64url'),
+      y: publicKey.subarray(33, 65).toString('base64url')
+    },
+    format: 'jwk'
+  });
+  const encode = obj => Buffer.from(JSON.stringify(obj)).toString('base64url');
+  const unsigned = `${encode({ typ: 'JWT', alg: 'ES256' })}.${encode({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(Date.now() / 1000) + 12 * 3600,
+    sub: VAPID_SUBJECT
+  })}`;
+  const signature = crypto.sign('sha256', Buffer.from(unsigned), { key: privateKey, dsaEncoding: 'ieee-p1363' });
+  return `vapid t=${unsigned}.${signature.toString('base64url')}, k=${VAPID_PUBLIC_KEY}`;
+}
+
+// aes128gcm content encoding (RFC 8188) with the RFC 8291 key derivation, one record
+function encryptPushPayload(keys, payload) {
+  const clientPublic = Buffer.from(keys.p256dh, 'base64url');
+  const authSecret = Buffer.from(keys.auth, 'base64url');
+  const ecdh = crypto.createECDH('prime256v1');
+  const serverPublic = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(clientPublic);
+  const salt = crypto.randomBytes(16);
+
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), clientPublic, serverPublic]);
+  const ikm = Buffer.from(crypto.hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32));
+  const cek = Buffer.from(crypto.hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+  const nonce = Buffer.from(crypto.hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+  const cipher = crypto.createCipheriv('aes-128-gcm', cek, nonce);
+  // 0x02 pads and marks the last (only) record
+  const ciphertext = Buffer.concat([cipher.update(Buffer.concat([Buffer.from(payload), Buffer.from([2])])), cipher.final(), cipher.getAuthTag()]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(4096, 16);
+  header.writeUInt8(serverPublic.length, 20);
+  return Buffer.concat([header, serverPublic, ciphertext]);
+}
+
+async function sendWebPush(subscription, message) {
+  const response = await axios.post(subscription.endpoint, encryptPushPayload(subscription.keys, JSON.stringify(message)), {
+    headers: {
+      'Content-Type': 'application/octet-stream',
+      'Content-Encoding': 'aes128gcm',
+      TTL: String(PUSH_TTL_SECONDS),
+      Urgency: message.urgent ? 'high' : 'normal',
+      Authorization: vapidAuthorization(subscription.endpoint)
+    },
+    timeout: WEBHOOK_TIMEOUT,
+    validateStatus: () => true
+  });
+  return response.status;
+}
+
+// Push endpoints are HTTPS URLs on one of the browsers' push services (PUSH_SERVICE_HOSTS,
+// PUSH_SERVICE_DOMAINS); refuse anything else so the function can't be pointed at
+// arbitrary hosts
+function isPushEndpoint(endpoint) {
+  try {
+    const url = new URL(endpoint);
+    if (url.protocol !== 'https:' || url.port || url.username || url.password) return false;
+    const host = url.hostname.toLowerCase();
+    return PUSH_SERVICE_HOSTS.includes(host) || PUSH_SERVICE_DOMAINS.some(d => host.endsWith(d));
+  } catch {
+    return false;
+  }
+}
+
+// Counts a subscribe/unsubscribe request against the client's hourly allowance in
+// ALERTS_TABLE; false once ALERT_SUBSCRIBE_LIMIT is used up. The counters expire by TTL.
+async function allowSubscriptionRequest(sourceIp) {
+  const hour = Math.floor(Date.now() / 3600000);
+  const result = await ddb.send(new UpdateCommand({
+    TableName: ALERTS_TABLE,
+    Key: { PK: 'RATE', SK: `IP#${sourceIp}#${hour}` },
+    UpdateExpression: 'ADD requests :one SET #ttl = :ttl',
+    ExpressionAttributeNames: { '#ttl': 'ttl' },
+    ExpressionAttributeValues: { ':one': 1, ':ttl': (hour + 2) * 3600 },
+    ReturnValues: 'UPDATED_NEW'
+  }));
+  return result.Attributes.requests <= ALERT_SUBSCRIBE_LIMIT;
+}
+
+const subscriptionKey = endpoint => `SUB#${crypto.createHash('sha1').update(endpoint).digest('base64url')}`;
+
+async function savePushSubscription(subscription, events, locations) {
+  await ddb.send(new PutCommand({
+    TableName: ALERTS_TABLE,
+    Item: {
+      PK: 'PUSH',
+      SK: subscriptionKey(subscription.endpoint),
+      subscription: { endpoint: subscription.endpoint, keys: { p256dh: subscription.keys.p256dh, auth: subscription.keys.auth } },
+      events,
+      locations,
+      updatedAt: new Date().toISOString()
+    }
+  }));
+}
+
+async function deletePushSubscription(endpoint) {
+  await ddb.send(new DeleteCommand({ TableName: ALERTS_TABLE, Key: { PK: 'PUSH', SK: subscriptionKey(endpoint) } }));
+}
+
+async function listPushSubscriptions() {
+  const items = [];
+  let ExclusiveStartKey;
+  do {
+    const result = await ddb.send(new QueryCommand({
+      TableName: ALERTS_TABLE,
+      KeyConditionExpression: 'PK = :pk',
+      ExpressionAttributeValues: { ':pk': 'PUSH' },
+      ExclusiveStartKey
+    }));
+    items.push(...(result.Items || []));
+    ExclusiveStartKey = result.LastEvaluatedKey;
+  } while (ExclusiveStartKey);
+  return items;
+}
+
+// ── Delivery ──────────────────────────────────────────────────────────────────
+
+async function deliverWebhook(hook, events) {
+  const body = JSON.stringify({ source: 'cyclotrak', events, sentAt: new Date().toISOString() });
+  const headers = { 'Content-Type': 'application/json', 'User-Agent': 'CycloTrak alerts' };
+  if (hook.secret) {
+    headers['X-CycloTrak-Signature'] = `sha256=${crypto.createHmac('sha256', hook.secret).update(body).digest('hex')}`;
+  }
+  await axios.post(hook.url, body, { headers, timeout: WEBHOOK_TIMEOUT });
+}
+
+async function deliverPush(item, events) {
+  for (const event of events) {
+    const status = await sendWebPush(item.subscription, {
+      ...describeAlert(event),
+      tag: `${event.type}:${event.stormId}`,
+      url: '/',
+      urgent: event.type === 'cone-covers-location',
+      event
+    });
+    // Gone: the browser unsubscribed or the subscription expired
+    if (status === 404 || status === 410) {
+      await deletePushSubscription(item.subscription.endpoint);
+      return;
+    }
+    if (status >= 400) throw new Error(`push service answered ${status}`);
+  }
+}
+
+/**
+ * Scheduled alert check: snapshot, diff against the stored snapshot, deliver, store.
+ * The first run only stores a snapshot.
+ */
+async function runAdvisoryAlerts() {
+  const [response, stateResult, subscriptions] = await Promise.all([
+    axios.get(`${NHC_BASE_URL}/CurrentStorms.json`, { timeout: REQUEST_TIMEOUT }),
+    ddb.send(new GetCommand({ TableName: ALERTS_TABLE, Key: { PK: 'STATE', SK: 'ACTIVE_STORMS' } })),
+    VAPID_PUBLIC_KEY && VAPID_PRIVATE_KEY ? listPushSubscriptions() : Promise.resolve([])
+  ]);
+  const webhooks = alertWebhooks();
+  const previous = stateResult.Item?.snapshot || null;
+
+  const locations = [];
+  const seen = new Set();
+  for (const l of [...webhooks, ...subscriptions].flatMap(r => cleanAlertLocations(r.locations))) {
+    if (!seen.has(locationKey(l))) { seen.add(locationKey(l)); locations.push(l); }
+  }
+
+  const next = await takeAlertSnapshot(response.data?.activeStorms || [], previous, locations);
+  const events = previous ? diffAlertSnapshots(previous, next, new Map(locations.map(l => [locationKey(l), l]))) : [];
+  console.log(`[alerts] ${next.storms.length} active storms, ${events.length} events`);
+
+  if (events.length > 0) {
+    const deliveries = [
+      ...webhooks.map(hook => ({ name: `webhook ${hook.url}`, events: alertsFor(hook, events), send: e => deliverWebhook(hook, e) })),
+      ...subscriptions.map(item => ({ name: `push ${item.SK}`, events: alertsFor(item, events), send: e => deliverPush(item, e) }))
+    ].filter(d => d.events.length > 0);
+    const results = await Promise.allSettled(deliveries.map(d => d.send(d.events)));
+    results.forEach((r, i) => {
+      if (r.status === 'rejected') console.error(`[alerts] Delivery to ${deliveries[i].name} failed:`, r.reason?.message);
+    });
+  }
+
+  await ddb.send(new PutCommand({ TableName: ALERTS_TABLE, Item: { PK: 'STATE', SK: 'ACTIVE_STORMS', snapshot: next } }));
+  return { events: events.length };
+}
+
+/**
+ * Lambda handler for NHC API proxy
+ */
+async function handleRequest(event) {
+  // Subscription requests carry push keys and users' saved locations: log only their route,
+  // and no request's body
+  if (ALERT_POST_ENDPOINTS.has(event.pathParameters?.proxy)) {
+    const { httpMethod, path, queryStringParameters } = event;
+    console.log('NHC Proxy Lambda invoked:', JSON.stringify({ httpMethod, path, queryStringParameters }));
+  } else {
+    console.log('NHC Proxy Lambda invoked:', JSON.stringify({ ...event, body: undefined }, null, 2));
+  }
+
+  // Handle CORS preflight requests
+  if (event.httpMethod === 'OPTIONS') {
+    return {
+      statusCode: 200,
+      headers: corsHeaders,
+      body: JSON.stringify({ message: 'CORS preflight response' })
+    };
+  }
+
+  try {
+    // Extract parameters from the request
+    const { httpMethod, pathParameters, queryStringParameters } = event;
+
+    // Determine which NHC endpoint to call based on path
+    const endpoint = pathParameters?.proxy || 'active-storms';
+    const allowedMethod = ALERT_POST_ENDPOINTS.has(endpoint) ? 'POST' : 'GET';
+
+    if (httpMethod !== allowedMethod) {
+      return {
+        statusCode: 405,
+        headers: corsHeaders,
+        body: JSON.stringify({ error: `Method not allowed. ${endpoint} only accepts ${allowedMethod} requests.` })
+      };
+    }
+
+    let nhcUrl;
+    let isKmzEndpoint = false;
+    let isGribEndpoint = false;
+    let isTextEndpoint = false;
+    
+    switch (endpoint) {
       case 'active-storms':
         nhcUrl = `${NHC_BASE_URL}/CurrentStorms.json`;
         break;
@@ -2719,6 +3357,34 @@ exports.handler = async (event) => {
         }
       }
         
+      case 'bdeck': {
+        // ATCF best track for any storm: live file first, then the season archive
+        const stormId = queryStringParameters?.stormId;
+        const match = stormId ? /^(AL|EP|CP)(\d{2})(\d{4})$/i.exec(stormId.trim()) : null;
+        if (!match) {
+          return {
+            statusCode: 400,
+            headers: corsHeaders,
+            body: JSON.stringify({ error: 'stormId parameter like AL092022 is required for bdeck endpoint' })
+          };
+        }
+
+        const bdeck = await fetchBdeck(stormId.trim());
+        if (bdeck) {
+          return {
+            statusCode: 200,
+            headers: corsHeaders,
+            body: JSON.stringify({ success: true, data: bdeck })
+          };
+        }
+
+        return {
+          statusCode: 404,
+          headers: corsHeaders,
+          body: JSON.stringify({ error: 'B-deck file not found (tried btk and archive)', baseFilename: `b${match[1].toLowerCase()}${match[2]}${match[3]}.dat` })
+        };
+      }
+
       case 'track-kmz':
         const trackStormId = queryStringParameters?.stormId;
         const trackYear = queryStringParameters?.year || new Date().getFullYear();
@@ -2775,6 +3441,37 @@ exports.handler = async (event) => {
         console.log(`Using cone URL: ${nhcUrl}`);
         break;
         
+      case 'forecast-advisory': {
+        // Forecast/advisory (TCM) text product — parsed into wind radii on the client.
+        // ?binNumber=AT4                ← latest advisory for an active storm
+        // ?stormId=AL092022&adv=12      ← any archived advisory
+        const binNumber   = queryStringParameters?.binNumber;
+        const advStormId  = queryStringParameters?.stormId;
+        const advNumber   = queryStringParameters?.adv;
+        const archiveMatch = advStormId ? /^(AL|EP|CP)(\d{2})(\d{4})$/i.exec(advStormId.trim()) : null;
+
+        if (archiveMatch && advNumber && /^\d{1,3}[A-Z]?$/i.test(advNumber)) {
+          const basin = archiveMatch[1].toLowerCase();
+          const num = archiveMatch[2];
+          const year = archiveMatch[3];
+          const padded = advNumber.replace(/^(\d+)/, d => d.padStart(3, '0')).toLowerCase();
+          nhcUrl = `${NHC_BASE_URL}/archive/${year}/${basin}${num}/${basin}${num}${year}.fstadv.${padded}.shtml`;
+        } else if (binNumber && /^(AT|EP|CP)\d$/i.test(binNumber)) {
+          // Central Pacific advisories are issued by CPHC in Honolulu (HFOTCMCP#)
+          const bin = binNumber.toUpperCase();
+          const office = bin.startsWith('CP') ? 'HFO' : 'MIA';
+          nhcUrl = `${NHC_BASE_URL}/text/${office}TCM${bin}.shtml`;
+        } else {
+          return {
+            statusCode: 400,
+            headers: corsHeaders,
+            body: JSON.stringify({ error: 'binNumber (e.g. AT4) or stormId + adv parameters are required for forecast-advisory endpoint' })
+          };
+        }
+        isTextEndpoint = true;
+        break;
+      }
+
       case 'forecast-track-kmz':
         const forecastStormId = queryStringParameters?.stormId;
         if (!forecastStormId) {
@@ -2896,80 +3593,52 @@ exports.handler = async (event) => {
         isKmzEndpoint = true;
         break;
 
-      case 'hwrf-windfield':
-        const hwrfStormId = queryStringParameters?.stormId;
-        if (!hwrfStormId) {
+      case 'hafs-windfield': {
+        // 10-m wind grid decoded from HAFS GRIB2 output.
+        // ?stormId=AL092024&model=hfsa|hfsb&fhr=0..126 (3-hourly)&cycle=YYYYMMDDHH (default latest)
+        const stormId = queryStringParameters?.stormId;
+        const model = (queryStringParameters?.model || 'hfsa').toLowerCase();
+        const forecastHour = parseInt(queryStringParameters?.fhr || '0', 10);
+        const cycle = queryStringParameters?.cycle || null;
+        if (!stormId || !HAFS_MODELS[model] || !(forecastHour >= 0 && forecastHour <= HAFS_MAX_FORECAST_HOUR && forecastHour % 3 === 0) ||
+            (cycle && !/^\d{10}$/.test(cycle))) {
           return {
             statusCode: 400,
             headers: corsHeaders,
-            body: JSON.stringify({ error: 'stormId parameter is required for hwrf-windfield endpoint' })
-          };
-        }
-        
-        try {
-          const hwrfData = await fetchHWRFWindFieldData(hwrfStormId);
-          return {
-            statusCode: 200,
-            headers: corsHeaders,
-            body: JSON.stringify({
-              success: true,
-              data: hwrfData,
-              endpoint: endpoint,
-              timestamp: new Date().toISOString()
-            })
-          };
-        } catch (hwrfError) {
-          console.error('Error fetching HWRF wind field data:', hwrfError);
-          return {
-            statusCode: 502,
-            headers: corsHeaders,
-            body: JSON.stringify({
-              success: false,
-              error: 'Failed to fetch HWRF wind field data',
-              details: hwrfError.message,
-              endpoint: endpoint,
-              timestamp: new Date().toISOString()
-            })
+            body: JSON.stringify({ error: 'stormId, model (hfsa|hfsb) and a 3-hourly fhr (0–126) are required for hafs-windfield' })
           };
         }
 
-      case 'hmon-windfield':
-        const hmonStormId = queryStringParameters?.stormId;
-        if (!hmonStormId) {
-          return {
-            statusCode: 400,
-            headers: corsHeaders,
-            body: JSON.stringify({ error: 'stormId parameter is required for hmon-windfield endpoint' })
-          };
-        }
-        
         try {
-          const hmonData = await fetchHMONWindFieldData(hmonStormId);
+          const field = await fetchHafsWindField(stormId, model, forecastHour, cycle);
+          if (!field) {
+            return {
+              statusCode: 404,
+              headers: corsHeaders,
+              body: JSON.stringify({ success: false, error: `No ${HAFS_MODELS[model]} output found for ${stormId} f${forecastHour}` })
+            };
+          }
           return {
             statusCode: 200,
             headers: corsHeaders,
-            body: JSON.stringify({
-              success: true,
-              data: hmonData,
-              endpoint: endpoint,
-              timestamp: new Date().toISOString()
-            })
+            body: JSON.stringify({ success: true, data: field, endpoint, timestamp: new Date().toISOString() })
           };
-        } catch (hmonError) {
-          console.error('Error fetching HMON wind field data:', hmonError);
+        } catch (hafsError) {
+          console.error('Error decoding HAFS wind field:', hafsError);
           return {
             statusCode: 502,
             headers: corsHeaders,
             body: JSON.stringify({
               success: false,
-              error: 'Failed to fetch HMON wind field data',
-              details: hmonError.message,
-              endpoint: endpoint,
+              error: 'Failed to decode HAFS wind field',
+              details: hafsError.message,
+              endpoint,
               timestamp: new Date().toISOString()
             })
           };
         }
-        
+      }
+
       // ── Model track archive reader endpoints ───────────────────────────────
 
       case 'archive-model-runs': {
@@ -3005,6 +3674,53 @@ exports.handler = async (event) => {
         }
       }
 
+      case 'model-verification': {
+        // Track and intensity errors of the archived model runs against the best track.
+        // ?stormId=AL052025                      ← one storm
+        // ?season=2025&basin=AL                  ← every archived storm of a season (basin optional)
+        // &models=OFCL,GFSO,HAFA&homogeneous=true ← only these models, on the cases all of them verified
+        const stormId = queryStringParameters?.stormId?.toUpperCase() || null;
+        const season  = queryStringParameters?.season ? parseInt(queryStringParameters.season, 10) : null;
+        const basin   = (queryStringParameters?.basin || '').toUpperCase() || null;
+        const models  = (queryStringParameters?.models || '').split(',').map(m => m.trim().toUpperCase()).filter(Boolean);
+        const homogeneous = queryStringParameters?.homogeneous === 'true';
+        if (!stormId && !season) {
+          return {
+            statusCode: 400,
+            headers: corsHeaders,
+            body: JSON.stringify({ error: 'stormId or season query parameter is required' })
+          };
+        }
+        try {
+          const stormIds = stormId
+            ? [stormId]
+            : (await getSeasonStorms(season))
+                .map(s => s.stormId)
+                .filter(id => !basin || id.startsWith(basin));
+          const { cases, pending } = await verifyStorms(stormIds);
+          return {
+            statusCode: 200,
+            headers: corsHeaders,
+            body: JSON.stringify({
+              success: true,
+              stormIds,
+              // Storms not verified yet (time budget); ask again to include them
+              pendingStormIds: pending,
+              models: verifiedModels(cases),
+              homogeneous,
+              stats: aggregateVerification(cases, models, homogeneous),
+              timestamp: new Date().toISOString()
+            })
+          };
+        } catch (err) {
+          return {
+            statusCode: 500,
+            headers: corsHeaders,
+            body: JSON.stringify({ success: false, error: err.message })
+          };
+        }
+      }
+
       // ── Storm/invest archive reader endpoints ──────────────────────────────
 
       case 'archive-storm-history': {
@@ -3020,7 +3736,15 @@ exports.handler = async (event) => {
         }
         const limit = Math.min(parseInt(queryStringParameters?.limit || '100', 10), 500);
         try {
-          const items = await getStormHistory(stormId, limit);
+          let items = [];
+          try {
+            items = await getStormHistory(stormId, limit);
+          } catch (err) {
+            console.warn(`Storm archive unavailable for ${stormId}:`, err.message);
+          }
+          // Storms from before the archive began fall back to the HURDAT2 best track
+          const hurdat = items.length === 0 ? loadHurdatDatabase().byId.get(stormId.toUpperCase()) : null;
+          if (hurdat) items = hurdatHistoryItems(hurdat).slice(0, limit);
           return {
             statusCode: 200,
             headers: corsHeaders,
@@ -3040,7 +3764,17 @@ exports.handler = async (event) => {
         // ?season=2025
         const season = parseInt(queryStringParameters?.season || String(new Date().getUTCFullYear()), 10);
         try {
-          const storms = await getSeasonStorms(season);
+          let storms = [];
+          try {
+            storms = await getSeasonStorms(season);
+          } catch (err) {
+            console.warn(`Storm archive unavailable for ${season}:`, err.message);
+          }
+          // Add HURDAT2 storms the live archive never saw (everything before it began)
+          const archived = new Set(storms.map(s => s.stormId));
+          for (const storm of loadHurdatDatabase().bySeason.get(season) || []) {
+            if (!archived.has(storm.stormId)) storms.push(hurdatSeasonItem(storm));
+          }
           return {
             statusCode: 200,
             headers: corsHeaders,
@@ -3055,6 +3789,27 @@ exports.handler = async (event) => {
         }
       }
 
+      case 'hurdat-storms': {
+        // HURDAT2 best-track search across every season on file.
+        // ?name=ANDREW  ?basin=EP&season=1997  ?season=1933
+        const name   = queryStringParameters?.name || '';
+        const basin  = (queryStringParameters?.basin || '').toUpperCase() || null;
+        const season = queryStringParameters?.season ? parseInt(queryStringParameters.season, 10) : null;
+        if (!name && !basin && !season) {
+          return {
+            statusCode: 400,
+            headers: corsHeaders,
+            body: JSON.stringify({ error: 'name, basin or season query parameter is required' })
+          };
+        }
+        const storms = searchHurdatStorms({ name, basin, season });
+        return {
+          statusCode: 200,
+          headers: corsHeaders,
+          body: JSON.stringify({ success: true, storms, timestamp: new Date().toISOString() })
+        };
+      }
+
       case 'archive-season-invests': {
         // Returns the latest snapshot for each invest seen in a season.
         // ?season=2025
@@ -3102,12 +3857,162 @@ exports.handler = async (event) => {
         }
       }
 
+      case 'watches-warnings': {
+        // Coastal watch/warning segments and the advisory's breakpoint list
+        // ?stormId=AL092024
+        const stormId = queryStringParameters?.stormId;
+        if (!stormId) {
+          return {
+            statusCode: 400,
+            headers: corsHeaders,
+            body: JSON.stringify({ error: 'stormId parameter is required for watches-warnings endpoint' })
+          };
+        }
+        try {
+          const watches = await fetchWatchesWarnings(stormId);
+          if (!watches) {
+            return {
+              statusCode: 404,
+              headers: corsHeaders,
+              body: JSON.stringify({ success: false, error: `${stormId} is not an active storm` })
+            };
+          }
+          return {
+            statusCode: 200,
+            headers: corsHeaders,
+            body: JSON.stringify({ success: true, data: watches, endpoint, timestamp: new Date().toISOString() })
+          };
+        } catch (err) {
+          return {
+            statusCode: 500,
+            headers: corsHeaders,
+            body: JSON.stringify({ success: false, error: err.message })
+          };
+        }
+      }
+
+      case 'storm-surge-inundation': {
+        // Potential storm surge flooding depth bands
+        // ?stormId=AL092024
+        const stormId = queryStringParameters?.stormId;
+        if (!stormId) {
+          return {
+            statusCode: 400,
+            headers: corsHeaders,
+            body: JSON.stringify({ error: 'stormId parameter is required for storm-surge-inundation endpoint' })
+          };
+        }
+        try {
+          const inundation = await fetchSurgeInundation(stormId);
+          if (!inundation) {
+            return {
+              statusCode: 404,
+              headers: corsHeaders,
+              body: JSON.stringify({ success: false, error: `${stormId} is not an active storm` })
+            };
+          }
+          return {
+            statusCode: 200,
+            headers: corsHeaders,
+            body: JSON.stringify({ success: true, data: inundation, endpoint, timestamp: new Date().toISOString() })
+          };
+        } catch (err) {
+          return {
+            statusCode: 500,
+            headers: corsHeaders,
+            body: JSON.stringify({ success: false, error: err.message })
+          };
+        }
+      }
+
+      case 'wind-radii': {
+        // NHC initial wind extent and forecast wind radii polygons
+        // ?stormId=AL092024
+        const stormId = queryStringParameters?.stormId;
+        if (!stormId) {
+          return {
+            statusCode: 400,
+            headers: corsHeaders,
+            body: JSON.stringify({ error: 'stormId parameter is required for wind-radii endpoint' })
+          };
+        }
+        try {
+          const radii = await fetchWindRadii(stormId);
+          if (!radii) {
+            return {
+              statusCode: 404,
+              headers: corsHeaders,
+              body: JSON.stringify({ success: false, error: `${stormId} is not an active storm` })
+            };
+          }
+          return {
+            statusCode: 200,
+            headers: corsHeaders,
+            body: JSON.stringify({ success: true, data: radii, endpoint, timestamp: new Date().toISOString() })
+          };
+        } catch (err) {
+          return {
+            statusCode: 500,
+            headers: corsHeaders,
+            body: JSON.stringify({ success: false, error: err.message })
+          };
+        }
+      }
+
+      // ── Advisory alert subscriptions ────────────────────────────────────────
+      case 'alert-config':
+        // VAPID public key for PushManager.subscribe(); null when push isn't configured
+        return {
+          statusCode: 200,
+          headers: corsHeaders,
+          body: JSON.stringify({
+            success: true,
+            vapidPublicKey: VAPID_PUBLIC_KEY && VAPID_PRIVATE_KEY ? VAPID_PUBLIC_KEY : null,
+            alertTypes: ALERT_TYPES
+          })
+        };
+
+      case 'alert-subscribe':
+      case 'alert-unsubscribe': {
+        // POST { subscription: PushSubscription.toJSON(), events?: [...], locations?: [{ name, lat, lon }] }
+        // POST { endpoint }  ← unsubscribe
+        let body;
+        try {
+          body = JSON.parse(event.isBase64Encoded ? Buffer.from(event.body || '', 'base64').toString('utf8') : event.body || '{}');
+        } catch {
+          return { statusCode: 400, headers: corsHeaders, body: JSON.stringify({ error: 'Request body must be JSON' }) };
+        }
+        const subscription = body?.subscription;
+        const pushEndpoint = endpoint === 'alert-subscribe' ? subscription?.endpoint : body?.endpoint;
+        if (!isPushEndpoint(pushEndpoint) ||
+            (endpoint === 'alert-subscribe' && (typeof subscription.keys?.p256dh !== 'string' || typeof subscription.keys?.auth !== 'string'))) {
+          return { statusCode: 400, headers: corsHeaders, body: JSON.stringify({ error: 'A push subscription on a browser push service, with keys, is required' }) };
+        }
+        if (endpoint === 'alert-subscribe' && !(VAPID_PUBLIC_KEY && VAPID_PRIVATE_KEY)) {
+          return { statusCode: 503, headers: corsHeaders, body: JSON.stringify({ error: 'Push alerts are not configured' }) };
+        }
+        try {
+          if (!(await allowSubscriptionRequest(event.requestContext?.identity?.sourceIp || 'unknown'))) {
+            return { statusCode: 429, headers: corsHeaders, body: JSON.stringify({ error: 'Too many subscription requests; try again later' }) };
+          }
+          if (endpoint === 'alert-subscribe') {
+            const events = Array.isArray(body.events) ? body.events.filter(e => ALERT_TYPES.includes(e)) : ALERT_TYPES;
+            await savePushSubscription(subscription, events, cleanAlertLocations(body.locations));
+          } else {
+            await deletePushSubscription(pushEndpoint);
+          }
+          return { statusCode: 200, headers: corsHeaders, body: JSON.stringify({ success: true }) };
+        } catch (err) {
+          return { statusCode: 500, headers: corsHeaders, body: JSON.stringify({ success: false, error: err.message }) };
+        }
+      }
+
       default:
         return {
           statusCode: 400,
           headers: corsHeaders,
           body: JSON.stringify({
-            error: 'Invalid endpoint. Supported endpoints: active-storms, track-kmz, forecast-track, historical-track, forecast-cone, forecast-track-kmz, storm-surge, peak-storm-surge, wind-speed-probability, wind-speed-probability-50kt, wind-speed-probability-64kt, wind-arrival-most-likely, wind-arrival-earliest, hwrf-windfield, hmon-windfield, archive-storm-history, archive-season-storms, archive-season-invests, archive-storm-snapshot'
+            error: 'Invalid endpoint. Supported endpoints: active-storms, track-kmz, forecast-track, historical-track, forecast-cone, forecast-advisory, forecast-track-kmz, storm-surge, peak-storm-surge, wind-speed-probability, wind-speed-probability-50kt, wind-speed-probability-64kt, wind-arrival-most-likely, wind-arrival-earliest, hafs-windfield, bdeck, gefs-adeck, model-verification, archive-model-runs, archive-storm-history, archive-season-storms, archive-season-invests, archive-storm-snapshot, hurdat-storms, watches-warnings, wind-radii, storm-surge-inundation, alert-config, alert-subscribe, alert-unsubscribe'
           })
         };
     }
@@ -3119,12 +4024,16 @@ exports.handler = async (event) => {
       timeout: 20000,
       headers: {
         'User-Agent': 'CycloTrak (cyclotrak.com, jasonprice70@gmail.com)',
-        'Accept': isKmzEndpoint ? 'application/vnd.google-earth.kmz' : 'application/json'
+        'Accept': isKmzEndpoint
+          ? 'application/vnd.google-earth.kmz'
+          : isTextEndpoint ? 'text/html, text/plain' : 'application/json'
       }
     };
 
     if (isKmzEndpoint) {
       axiosConfig.responseType = 'arraybuffer';
+    } else if (isTextEndpoint) {
+      axiosConfig.responseType = 'text';
     }
 
     const response = await axios.get(nhcUrl, axiosConfig);
@@ -3200,6 +4109,9 @@ exports.handler = async (event) => {
           })
         };
       }
+    } else if (isTextEndpoint) {
+      // NHC text products are served as .shtml pages — return the <pre> body only
+      responseData = { text: extractPreformattedText(String(response.data || '')), url: nhcUrl };
     } else {
       // Handle KML endpoints that need parsing
       if (endpoint === 'peak-storm-surge') {
@@ -3280,4 +4192,35 @@ exports.handler = async (event) => {
       })
     };
   }
+}
+
+/**
+ * Tag successful responses with an ETag so clients can revalidate cached products with
+ * If-None-Match, and answer 304 when theirs is current. The envelope's timestamp changes
+ * on every call, so it is left out of the hash.
+ */
+function withEntityTag(event, response) {
+  if (!response || response.statusCode !== 200 || typeof response.body !== 'string') return response;
+  let stable = response.body;
+  try {
+    const { timestamp, ...rest } = JSON.parse(response.body);
+    stable = JSON.stringify(rest);
+  } catch {
+    // Not JSON — hash the body as sent
+  }
+  const etag = `"${crypto.createHash('sha1').update(stable).digest('base64url')}"`;
+  const headers = { ...response.headers, ETag: etag };
+  const requestHeaders = event.headers || {};
+  const ifNoneMatch = Object.keys(requestHeaders).find(k => k.toLowerCase() === 'if-none-match');
+  if (ifNoneMatch && String(requestHeaders[ifNoneMatch]).split(/\s*,\s*/).includes(etag)) {
+    return { statusCode: 304, headers, body: '' };
+  }
+  return { ...response, headers };
+}
+
+// EventBridge schedule → advisory alert check; everything else comes through API Gateway
+exports.handler = async (event) => {
+  await sharedModulesReady;
+  if (event?.source === 'aws.events') return runAdvisoryAlerts();
+  return withEntityTag(event, await handleRequest(event));
 };
@@ -0,0 +1,246 @@
+// Potential Storm Surge Flooding (inundation) KML
+// NHC draws the inundation as polygons in four depth bands above ground level. The KML
+// is inconsistent between advisories and storms, so a band is recognised from whichever
+// of these the placemark carries: a SimpleData/Data attribute, the placemark name, the
+// style id or the description. Placemarks in no band (legend entries, label points, the
+// intertidal/estuary mask) are dropped.
+// The graphic can also come as a raster: GroundOverlay images inside the KMZ, possibly
+// tiled as a super-overlay (NetworkLinks to KMLs of finer tiles). Those are returned as
+// image overlays instead of bands, from the coarsest level so the response stays small.
+// Kept apart from index.js so the parser can be tested without the AWS SDK; see
+// test/surgeInundation.test.js and its fixtures.
+
+const path = require('path');
+const yauzl = require('yauzl');
+const xml2js = require('xml2js');
+
+const INUNDATION_BANDS = [
+  { band: 'up-to-3', label: 'Up to 3 ft above ground', minFt: 0, maxFt: 3 },
+  { band: 'over-3', label: 'Greater than 3 ft above ground', minFt: 3, maxFt: 6 },
+  { band: 'over-6', label: 'Greater than 6 ft above ground', minFt: 6, maxFt: 9 },
+  { band: 'over-9', label: 'Greater than 9 ft above ground', minFt: 9, maxFt: null }
+];
+
+// Images embedded in the response as data URLs, at most this many bytes in all
+const MAX_OVERLAY_BYTES = 3 * 1024 * 1024;
+const IMAGE_TYPES = { '.png': 'image/png', '.gif': 'image/gif', '.jpg': 'image/jpeg', '.jpeg': 'image/jpeg' };
+
+// Polygons are vectorised from a ~10 m raster; 4 decimals (~11 m) keeps the response
+// well inside the Lambda payload limit without visibly changing the bands
+const COORD_DECIMALS = 4;
+
+const asArray = value => (value === undefined || value === null ? [] : Array.isArray(value) ? value : [value]);
+
+// xml2js gives text nodes as strings, or as { _: text } when the element has attributes
+const textOf = value => (typeof value === 'string' ? value : value && typeof value._ === 'string' ? value._ : '');
+
+/**
+ * Band for a piece of placemark text, e.g. "Greater than 6 feet above ground",
+ * "Up to 3 ft", "> 9 ft", "#inundation_gt3". Null when the text names no band.
+ */
+function inundationBand(text) {
+  const t = String(text || '').toLowerCase().replace(/_/g, ' ');
+  if (/intertidal|estuary|levee/.test(t)) return null;
+  if (/(up to|less than|under|<|\blt)\s*3\b/.test(t)) return 'up-to-3';
+  const over = /(greater than|more than|over|above|>|\bgt)\s*(3|6|9)\b/.exec(t);
+  if (over) return `over-${over[2]}`;
+  return null;
+}
+
+// Numeric band codes from a polygonised raster (1 = up to 3 ft ... 4 = over 9 ft)
+const BAND_CODE_FIELDS = ['GRIDCODE', 'DN', 'BAND', 'CATEGORY', 'INUNDATION'];
+
+function placemarkAttributes(placemark) {
+  const data = {};
+  for (const ext of asArray(placemark.ExtendedData)) {
+    for (const d of asArray(ext.Data)) if (d?.$?.name) data[d.$.name.toUpperCase()] = textOf(d.value).trim();
+    for (const schema of asArray(ext.SchemaData)) {
+      for (const d of asArray(schema.SimpleData)) if (d?.$?.name) data[d.$.name.toUpperCase()] = textOf(d).trim();
+    }
+  }
+  return data;
+}
+
+function placemarkBand(placemark) {
+  const data = placemarkAttributes(placemark);
+  for (const field of BAND_CODE_FIELDS) {
+    if (!(field in data)) continue;
+    const code = Number(data[field]);
+    if (Number.isInteger(code) && code >= 1 && code <= INUNDATION_BANDS.length) return INUNDATION_BANDS[code - 1].band;
+    const band = inundationBand(data[field]);
+    if (band) return band;
+  }
+  return inundationBand(textOf(placemark.name))
+    || inundationBand(textOf(placemark.styleUrl))
+    || inundationBand(textOf(placemark.description));
+}
+
+// "lon,lat[,alt]" tuples separated by any whitespace; rounded, de-duplicated and closed
+function parseRing(coordinates) {
+  const ring = [];
+  for (const tuple of textOf(coordinates).trim().split(/\s+/)) {
+    const [lon, lat] = tuple.split(',').map(Number);
+    if (!Number.isFinite(lon) || !Number.isFinite(lat)) continue;
+    const point = [+lon.toFixed(COORD_DECIMALS), +lat.toFixed(COORD_DECIMALS)];
+    const last = ring[ring.length - 1];
+    if (!last || last[0] !== point[0] || last[1] !== point[1]) ring.push(point);
+  }
+  if (ring.length < 3) return null;
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  if (first[0] !== last[0] || first[1] !== last[1]) ring.push([...first]);
+  return ring.length >= 4 ? ring : null;
+}
+
+// Every Polygon of a placemark, however deeply nested in MultiGeometry, with its holes
+function placemarkPolygons(node, out = []) {
+  for (const polygon of asArray(node.Polygon)) {
+    const outer = parseRing(polygon.outerBoundaryIs?.LinearRing?.coordinates);
+    if (!outer) continue;
+    const holes = asArray(polygon.innerBoundaryIs)
+      .flatMap(inner => asArray(inner.LinearRing))
+      .map(ring => parseRing(ring.coordinates))
+      .filter(Boolean);
+    out.push([outer, ...holes]);
+  }
+  for (const multi of asArray(node.MultiGeometry)) placemarkPolygons(multi, out);
+  return out;
+}
+
+// Every element named `name` under a KML node, however deeply it sits in Documents and Folders
+function collectElements(node, name, out = []) {
+  if (!node || typeof node !== 'object') return out;
+  for (const [key, value] of Object.entries(node)) {
+    if (key === name) out.push(...asArray(value));
+    else if (key !== '$') asArray(value).forEach(child => collectElements(child, name, out));
+  }
+  return out;
+}
+
+/**
+ * Inundation KML → GeoJSON FeatureCollection with one Polygon or MultiPolygon feature
+ * per placemark, properties { band, label, minFt, maxFt }, shallowest band first.
+ */
+async function parseInundationKml(kmlContent) {
+  const parser = new xml2js.Parser({ explicitArray: false });
+  const kml = await parser.parseStringPromise(kmlContent);
+
+  const features = [];
+  for (const placemark of collectElements(kml, 'Placemark')) {
+    const band = placemarkBand(placemark);
+    if (!band) continue;
+    const polygons = placemarkPolygons(placemark);
+    if (polygons.length === 0) continue;
+    const { label, minFt, maxFt } = INUNDATION_BANDS.find(b => b.band === band);
+    features.push({
+      type: 'Feature',
+      properties: { band, label, minFt, maxFt },
+      geometry: polygons.length === 1
+        ? { type: 'Polygon', coordinates: polygons[0] }
+        : { type: 'MultiPolygon', coordinates: polygons }
+    });
+  }
+
+  const order = band => INUNDATION_BANDS.findIndex(b => b.band === band);
+  features.sort((a, b) => order(a.properties.band) - order(b.properties.band));
+  return { type: 'FeatureCollection', features };
+}
+
+// ─── Raster overlays ──────────────────────────────────────────────────────────
+
+// Every entry of a KMZ archive, by path
+function readKmzEntries(kmzBuffer) {
+  return new Promise((resolve, reject) => {
+    yauzl.fromBuffer(kmzBuffer, { lazyEntries: true }, (err, zipfile) => {
+      if (err) return reject(err);
+      const entries = new Map();
+      zipfile.on('entry', entry => {
+        if (entry.fileName.endsWith('/')) return zipfile.readEntry();
+        zipfile.openReadStream(entry, (streamErr, stream) => {
+          if (streamErr) return reject(streamErr);
+          const chunks = [];
+          stream.on('data', chunk => chunks.push(chunk));
+          stream.on('end', () => { entries.set(entry.fileName, Buffer.concat(chunks)); zipfile.readEntry(); });
+          stream.on('error', reject);
+        });
+      });
+      zipfile.on('end', () => resolve(entries));
+      zipfile.on('error', reject);
+      zipfile.readEntry();
+    });
+  });
+}
+
+// An href relative to the KML that holds it, as a KMZ entry path; null for remote links
+function entryPath(kmlPath, href) {
+  if (!href || /^[a-z][a-z\d+.-]*:/i.test(href)) return null;
+  return path.posix.normalize(path.posix.join(path.posix.dirname(kmlPath), href)).replace(/^\.\//, '');
+}
+
+function groundOverlay(overlay, kmlPath, entries) {
+  const box = overlay.LatLonBox;
+  const [north, south, east, west] = ['north', 'south', 'east', 'west'].map(k => Number(textOf(box?.[k])));
+  if (![north, south, east, west].every(Number.isFinite)) return null;
+  const href = textOf(overlay.Icon?.href).trim();
+  const local = entryPath(kmlPath, href);
+  let image;
+  if (local) {
+    const data = entries.get(local);
+    const type = IMAGE_TYPES[path.posix.extname(local).toLowerCase()];
+    if (!data || !type) return null;
+    image = `data:${type};base64,${data.toString('base64')}`;
+  } else if (/^https:\/\//i.test(href)) {
+    image = href;
+  } else {
+    return null;
+  }
+  const name = textOf(overlay.name).trim();
+  return { name: name || null, image, bounds: { north, south, east, west } };
+}
+
+/**
+ * Potential storm surge flooding KMZ → { bands, overlays }. `bands` is as from
+ * parseInundationKml; `overlays` are the raster images as { name, image (data or https
+ * URL), bounds: { north, south, east, west } }. A super-overlay is followed level by level
+ * through the NetworkLinks inside the KMZ until a level has images. Throws when the KMZ
+ * holds neither, so a format change isn't mistaken for "no flooding".
+ */
+async function parseInundationKmz(kmzBuffer) {
+  const entries = await readKmzEntries(kmzBuffer);
+  const kmlPaths = [...entries.keys()].filter(p => p.toLowerCase().endsWith('.kml'));
+  const rootPath = kmlPaths.find(p => p.toLowerCase() === 'doc.kml') || kmlPaths.find(p => !p.includes('/')) || kmlPaths[0];
+  if (!rootPath) throw new Error('No KML file found in KMZ');
+
+  const rootKml = entries.get(rootPath).toString('utf8');
+  const bands = await parseInundationKml(rootKml);
+
+  const parser = new xml2js.Parser({ explicitArray: false });
+  const overlays = [];
+  let level = [rootPath];
+  const seen = new Set(level);
+  while (level.length > 0 && overlays.length === 0) {
+    const next = [];
+    for (const kmlPath of level) {
+      const kml = await parser.parseStringPromise(entries.get(kmlPath).toString('utf8'));
+      overlays.push(...collectElements(kml, 'GroundOverlay').map(o => groundOverlay(o, kmlPath, entries)).filter(Boolean));
+      for (const link of collectElements(kml, 'NetworkLink')) {
+        const linked = entryPath(kmlPath, textOf(link.Link?.href || link.Url?.href).trim());
+        if (linked && entries.has(linked) && !seen.has(linked)) {
+          seen.add(linked);
+          next.push(linked);
+        }
+      }
+    }
+    level = next;
+  }
+
+  if (bands.features.length === 0 && overlays.length === 0) {
+    throw new Error('Inundation KMZ holds neither depth-band polygons nor raster overlays');
+  }
+  const bytes = overlays.reduce((sum, o) => sum + o.image.length, 0);
+  if (bytes > MAX_OVERLAY_BYTES) {
+    throw new Error(`Inundation raster overlay is too large to serve (${Math.round(bytes / 1024)} KB)`);
+  }
+  return { bands, overlays };
+}
+
+module.exports = { INUNDATION_BANDS, inundationBand, parseInundationKml, parseInundationKmz };
@@ -0,0 +1,96 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const path = require('path');
+const {
+  extractWatchWarningSegments, extractWindRadii, parseWatchWarningSummary, radiiValidTime, readKmlFromKmz
+} = require('../advisoryGis');
+const { zip } = require('./fixtures/make-inundation-kmz');
+
+// The fixtures are hand-written in the layout of the NHC products (shapefile attributes
+// carried into ExtendedData, nested Folders, the advisory's summary section); they are
+// not excerpts of real products, since NHC is not reachable from the build machine
+const fixture = name => fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8');
+
+test('extractWatchWarningSegments types segments by code, style, name or description', async () => {
+  const features = await extractWatchWarningSegments(fixture('watches-warnings.kml'));
+  assert.deepEqual(features.map(f => [f.properties.type, f.properties.name]), [
+    ['hurricane-warning', 'Anclote River to Mexico Beach'],
+    ['tropical-storm-watch', 'Flagler/Volusia County Line to Altamaha Sound'],
+    ['tropical-storm-watch', 'Flagler/Volusia County Line to Altamaha Sound'],
+    ['tropical-storm-warning', 'Cabo Catoche to Tulum'],
+    ['storm-surge-watch', 'Storm Surge Watch']
+  ]);
+  assert.equal(features[0].properties.label, 'Hurricane Warning');
+});
+
+test('extractWatchWarningSegments keeps every line as [lon, lat] and drops altitudes', async () => {
+  const features = await extractWatchWarningSegments(fixture('watches-warnings.kml'));
+  assert.deepEqual(features[0].geometry, {
+    type: 'LineString',
+    coordinates: [[-82.77, 28.17], [-83.07, 28.88], [-83.8, 29.91], [-85.4, 29.94]]
+  });
+  // MultiGeometry: one feature per line, coordinates split across newlines
+  assert.deepEqual(features[1].geometry.coordinates, [[-81.2, 29.43], [-81.38, 30.33]]);
+  assert.deepEqual(features[2].geometry.coordinates, [[-81.4, 30.7], [-81.28, 31.31]]);
+});
+
+test('parseWatchWarningSummary groups the areas under each heading', () => {
+  assert.deepEqual(parseWatchWarningSummary(fixture('public-advisory.txt')), [
+    { type: 'storm-surge-warning', label: 'Storm Surge Warning', areas: ['Flamingo northward to Indian Pass', 'Tampa Bay'] },
+    {
+      type: 'hurricane-warning',
+      label: 'Hurricane Warning',
+      areas: ['Anclote River to Mexico Beach, including the coastline along the Big Bend']
+    },
+    { type: 'tropical-storm-watch', label: 'Tropical Storm Watch', areas: ['Flagler/Volusia County Line to Altamaha Sound'] },
+    { type: 'storm-surge-watch', label: 'Storm Surge Watch', areas: ['Flamingo to Anclote River'] }
+  ]);
+});
+
+test('parseWatchWarningSummary is empty without a summary section', () => {
+  assert.deepEqual(parseWatchWarningSummary('THERE ARE NO COASTAL WATCHES OR WARNINGS IN EFFECT.'), []);
+});
+
+test('readKmlFromKmz returns the first KML in the archive', async () => {
+  const kmz = zip({
+    'files/legend.png': Buffer.from([0x89, 0x50]),
+    'al092024_014adv_WW.kml': Buffer.from(fixture('watches-warnings.kml')),
+    'other.kml': Buffer.from('<kml/>')
+  });
+  assert.equal(await readKmlFromKmz(kmz), fixture('watches-warnings.kml'));
+  await assert.rejects(readKmlFromKmz(zip({ 'legend.png': Buffer.from([0]) })), /No KML file found/);
+});
+
+test('radiiValidTime reads VALIDTIME in the month of SYNOPTIME, or the next one', () => {
+  assert.deepEqual(radiiValidTime('2024093012', '30/1800'), {
+    synoptic: new Date('2024-09-30T12:00:00Z'),
+    valid: new Date('2024-09-30T18:00:00Z')
+  });
+  assert.deepEqual(radiiValidTime('2024093012', '02/1200').valid, new Date('2024-10-02T12:00:00Z'));
+  assert.deepEqual(radiiValidTime('2024123118', ' 01/0600 ').valid, new Date('2025-01-01T06:00:00Z'));
+  assert.deepEqual(radiiValidTime('2024093012', ''), { synoptic: new Date('2024-09-30T12:00:00Z'), valid: null });
+  assert.deepEqual(radiiValidTime(undefined, '01/0000'), { synoptic: null, valid: null });
+});
+
+test('extractWindRadii reads the threshold, quadrant radii and forecast hour of each polygon', async () => {
+  const features = await extractWindRadii(fixture('wind-radii.kml'), 'forecast');
+  assert.deepEqual(features.map(f => f.properties), [
+    { source: 'forecast', thresholdKt: 34, forecastHour: 12, validTime: '2024-10-01T00:00:00.000Z', radii: [180, 150, 90, 120] },
+    { source: 'forecast', thresholdKt: 64, forecastHour: 0, validTime: '2024-09-30T12:00:00.000Z', radii: [40, 30, 0, 20] },
+    // No attributes: the threshold comes from the description, the rest is unknown
+    { source: 'forecast', thresholdKt: 50, forecastHour: null, validTime: null, radii: null }
+  ]);
+  assert.equal(features[0].geometry.type, 'Polygon');
+  assert.deepEqual(features[0].geometry.coordinates[0][0], [-84, 27]);
+  assert.equal(features[0].geometry.coordinates[0].length, 5);
+});
+
+test('extractWindRadii dates the initial extent at the synoptic time', async () => {
+  const features = await extractWindRadii(fixture('wind-radii.kml'), 'initial');
+  assert.deepEqual(features.map(f => [f.properties.forecastHour, f.properties.validTime]), [
+    [0, '2024-09-30T12:00:00.000Z'],
+    [0, '2024-09-30T12:00:00.000Z'],
+    [0, null]
+  ]);
+});
@@ -0,0 +1,71 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { describeAlert, diffAlertSnapshots, intensityCategory, stormSnapshot } from '../alertSnapshots.mjs';
+
+const miami = { name: 'Miami', lat: 25.76, lon: -80.19 };
+const locations = new Map([['miami', miami]]);
+
+const storm = (overrides = {}, coneLocations = []) => stormSnapshot({
+  id: 'al092024',
+  name: 'Helene',
+  classification: 'HU',
+  maxWinds: 70,
+  advisoryNumber: '10',
+  position: [22.0, -86.0],
+  ...overrides
+}, coneLocations);
+
+const snapshot = (storms, invests = []) => ({ takenAt: '2024-09-25T15:00:00Z', storms, invests });
+
+test('stormSnapshot records the Saffir-Simpson category', () => {
+  assert.deepEqual(storm(), {
+    id: 'al092024',
+    name: 'Helene',
+    classification: 'HU',
+    category: '1',
+    advisoryNumber: '10',
+    position: [22.0, -86.0],
+    coneLocations: []
+  });
+  assert.equal(stormSnapshot({ id: 'x', name: 'X', position: [0, 0] }, []).classification, 'TD');
+  assert.deepEqual([33, 34, 63, 64, 96, 137].map(intensityCategory), ['TD', 'TS', 'TS', '1', '3', '5']);
+});
+
+test('a new storm near an invest in either snapshot is that invest upgraded', () => {
+  const invest = { id: 'al972024', position: [21.0, -85.0] };
+  const [fromPrevious] = diffAlertSnapshots(snapshot([], [invest]), snapshot([storm()]), locations);
+  assert.equal(fromPrevious.type, 'invest-upgraded');
+  assert.equal(fromPrevious.investId, 'al972024');
+  // The Lambda's snapshot carries the recently archived invests, not the previous ones
+  const [fromNext] = diffAlertSnapshots(snapshot([]), snapshot([storm()], [invest]), locations);
+  assert.equal(fromNext.type, 'invest-upgraded');
+
+  const far = { id: 'al982024', position: [12.0, -40.0] };
+  const [unmatched] = diffAlertSnapshots(snapshot([], [far]), snapshot([storm()]), locations);
+  assert.deepEqual(unmatched, {
+    stormId: 'al092024', stormName: 'Helene', advisoryNumber: '10', type: 'new-storm', classification: 'HU', category: '1'
+  });
+});
+
+test('a new advisory and a category change raise one event each', () => {
+  const events = diffAlertSnapshots(snapshot([storm()]), snapshot([storm({ advisoryNumber: '11', maxWinds: 100 })]), locations);
+  assert.deepEqual(events.map(e => e.type), ['new-advisory', 'category-change']);
+  assert.equal(events[0].previousAdvisoryNumber, '10');
+  assert.deepEqual([events[1].from, events[1].to], ['1', '3']);
+  assert.equal(describeAlert(events[1]).title, 'Helene strengthens');
+});
+
+test('the cone raises an event only when it newly covers a watched location', () => {
+  const covered = snapshot([storm({ advisoryNumber: '11' }, ['miami', 'unknown'])]);
+  const events = diffAlertSnapshots(snapshot([storm()]), covered, locations).filter(e => e.type === 'cone-covers-location');
+  assert.deepEqual(events.map(e => e.location), [miami]);
+  assert.deepEqual(describeAlert(events[0]), {
+    title: 'Miami in the cone',
+    body: 'Miami is inside the forecast cone of Helene (Advisory 11).'
+  });
+  assert.deepEqual(diffAlertSnapshots(covered, covered, locations), []);
+});
+
+test('storms that vanished raise nothing', () => {
+  assert.deepEqual(diffAlertSnapshots(snapshot([storm()]), snapshot([]), locations), []);
+});
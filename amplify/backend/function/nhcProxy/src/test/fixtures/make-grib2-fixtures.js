@@ -0,0 +1,208 @@
+// Writes the synthetic GRIB2 fixtures used by test/grib2.test.js:
+//   node test/fixtures/make-grib2-fixtures.js --write
+// (node --test loads every file under test/, hence the flag)
+// Each file is one message on the same 5 × 4 regular lat/lon grid (30°N–27°N,
+// 80°W–76°W, 1°, scan mode 0) holding the values in EXPECTED below, packed with:
+//   grib2-simple.grb2        simple packing (5.0)
+//   grib2-complex.grb2       complex packing (5.2), with primary missing values
+//   grib2-spatial-o1.grb2    complex packing, first-order spatial differencing (5.3)
+//   grib2-spatial-o2.grb2    complex packing, second-order spatial differencing (5.3),
+//                            behind a bitmap
+// The encoder follows WMO FM 92 GRIB edition 2 (templates 3.0, 4.0, 5.0/5.2/5.3, 7.x)
+// independently of grib2.js, so the fixtures check the decoder rather than echo it.
+
+const fs = require('fs');
+const path = require('path');
+
+const NI = 5;
+const NJ = 4;
+// Row-major north → south, west → east; one decimal, negatives included. null = missing.
+const EXPECTED = [
+  -3.5, -2.0, 0.0, 1.5, 4.2,
+  -1.0, 0.5, 2.5, 6.1, 9.9,
+  0.2, 1.1, 3.3, 7.4, 12.8,
+  0.0, 0.7, 3.9, 8.8, 15.6
+];
+const WITH_MISSING = EXPECTED.map((v, i) => ([6, 7, 8, 17].includes(i) ? null : v));
+const DECIMAL_SCALE = 1;
+
+// ─── Bit and octet writers ────────────────────────────────────────────────────
+
+class BitWriter {
+  constructor() { this.bytes = []; this.bit = 0; }
+  write(value, n) {
+    for (let i = n - 1; i >= 0; i--) {
+      if (this.bit === 0) this.bytes.push(0);
+      if (Math.floor(value / 2 ** i) % 2) this.bytes[this.bytes.length - 1] |= 0x80 >> this.bit;
+      this.bit = (this.bit + 1) % 8;
+    }
+  }
+  align() { this.bit = 0; }
+  buffer() { return Buffer.from(this.bytes); }
+}
+
+const uint = (value, n) => {
+  const buf = Buffer.alloc(n);
+  buf.writeUIntBE(value, 0, n);
+  return buf;
+};
+// Sign-and-magnitude, as GRIB2 stores signed integers
+const sint = (value, n) => {
+  const buf = uint(Math.abs(value), n);
+  if (value < 0) buf[0] |= 0x80;
+  return buf;
+};
+const float = value => {
+  const buf = Buffer.alloc(4);
+  buf.writeFloatBE(value);
+  return buf;
+};
+const bitsFor = max => (max > 0 ? Math.floor(Math.log2(max)) + 1 : 0);
+
+const section = (number, ...parts) => {
+  const body = Buffer.concat(parts);
+  return Buffer.concat([uint(body.length + 5, 4), Buffer.from([number]), body]);
+};
+
+// ─── Sections 1, 3, 4 ─────────────────────────────────────────────────────────
+
+// Analysis time 2024-09-26 12 UTC, NCEP, operational forecast
+const identification = () => section(1,
+  uint(7, 2), uint(0, 2), Buffer.from([2, 1, 1]), uint(2024, 2), Buffer.from([9, 26, 12, 0, 0, 0, 1]));
+
+// Template 3.0; longitudes 0–360 as NCEP writes them
+const grid = () => section(3,
+  Buffer.from([0]), uint(NI * NJ, 4), Buffer.from([0, 0]), uint(0, 2),
+  Buffer.from([6]), Buffer.alloc(15),
+  uint(NI, 4), uint(NJ, 4), uint(0, 4), uint(0xffffffff, 4),
+  sint(30e6, 4), sint(280e6, 4), Buffer.from([48]), sint(27e6, 4), sint(284e6, 4),
+  uint(1e6, 4), uint(1e6, 4), Buffer.from([0]));
+
+// Template 4.0: 10-m U wind (0/2/2) at forecast hour 6
+const product = () => section(4,
+  uint(0, 2), uint(0, 2), Buffer.from([2, 2, 2, 0, 96]), uint(0, 2), Buffer.from([0, 1]), sint(6, 4),
+  Buffer.from([103, 0]), sint(10, 4), Buffer.from([255, 0]), sint(0, 4));
+
+// ─── Packing ──────────────────────────────────────────────────────────────────
+
+// Integers to pack relative to the reference R: X = Y × 10^D − R (binary scale 0)
+function toIntegers(values) {
+  const scaled = values.map(v => (v === null ? null : Math.round(v * 10 ** DECIMAL_SCALE)));
+  const reference = Math.min(...scaled.filter(v => v !== null));
+  return { reference, ints: scaled.map(v => (v === null ? null : v - reference)) };
+}
+
+function simplePacking(values) {
+  const { reference, ints } = toIntegers(values);
+  const bits = bitsFor(Math.max(...ints));
+  const data = new BitWriter();
+  ints.forEach(x => data.write(x, bits));
+  return [
+    section(5, uint(ints.length, 4), uint(0, 2), float(reference), sint(0, 2), sint(DECIMAL_SCALE, 2),
+      Buffer.from([bits, 0])),
+    section(7, data.buffer())
+  ];
+}
+
+// Complex packing of `ints` (null = missing, coded with primary missing values) in
+// groups of the given lengths; `spatial` carries the 5.3 first values and minimum.
+function complexPacking(count, reference, ints, groupLengths, spatial = null) {
+  // With missing values coded, all-ones means "missing" in every group, so each group
+  // needs one code above its range
+  const anyMissing = ints.includes(null);
+  const groups = [];
+  let start = 0;
+  for (const length of groupLengths) {
+    const members = ints.slice(start, start + length);
+    const present = members.filter(x => x !== null);
+    const min = present.length > 0 ? Math.min(...present) : null;
+    const range = present.length > 0 ? Math.max(...present) - min : 0;
+    const width = present.length === 0 ? 0 : bitsFor(range + (anyMissing ? 1 : 0));
+    groups.push({ members, min, width, length });
+    start += length;
+  }
+
+  const maxRef = Math.max(...groups.map(g => (g.min === null ? 0 : g.min)));
+  const bits = bitsFor(maxRef + (anyMissing ? 1 : 0));
+  const widthReference = Math.min(...groups.map(g => g.width));
+  const widthBits = bitsFor(Math.max(...groups.map(g => g.width)) - widthReference);
+  const lengthReference = Math.min(...groupLengths);
+  const lengthBits = bitsFor(Math.max(...groupLengths) - lengthReference);
+
+  const data = new BitWriter();
+  if (spatial) {
+    spatial.first.forEach(v => data.bytes.push(...sint(v, spatial.octets)));
+    data.bytes.push(...sint(spatial.minDiff, spatial.octets));
+  }
+  groups.forEach(g => data.write(g.min === null ? 2 ** bits - 1 : g.min, bits));
+  data.align();
+  groups.forEach(g => data.write(g.width - widthReference, widthBits));
+  data.align();
+  groups.forEach(g => data.write(g.length - lengthReference, lengthBits));
+  data.align();
+  for (const g of groups) {
+    if (g.width === 0) continue;
+    g.members.forEach(x => data.write(x === null ? 2 ** g.width - 1 : x - g.min, g.width));
+  }
+
+  const template = [
+    uint(count, 4), uint(spatial ? 3 : 2, 2), float(reference), sint(0, 2), sint(DECIMAL_SCALE, 2),
+    Buffer.from([bits, 0, 1, anyMissing ? 1 : 0]), uint(0xffffffff, 4), uint(0xffffffff, 4),
+    uint(groups.length, 4), Buffer.from([widthReference, widthBits]), uint(lengthReference, 4),
+    Buffer.from([1]), uint(groupLengths[groupLengths.length - 1], 4), Buffer.from([lengthBits])
+  ];
+  if (spatial) template.push(Buffer.from([spatial.first.length, spatial.octets]));
+  return [section(5, ...template), section(7, data.buffer())];
+}
+
+// Spatial differencing over the present values in order; the first `order` of them are
+// sent as-is and keep a zero placeholder in the groups
+function spatialPacking(count, values, order, groupLengths) {
+  const { reference, ints } = toIntegers(values);
+  const present = ints.filter(x => x !== null);
+  const diffs = present.map((x, k) => {
+    if (k < order) return null;
+    return order === 1 ? x - present[k - 1] : x - 2 * present[k - 1] + present[k - 2];
+  });
+  const minDiff = Math.min(...diffs.filter(d => d !== null));
+  let k = 0;
+  const packed = ints.map(x => {
+    if (x === null) return null;
+    const d = diffs[k++];
+    return d === null ? 0 : d - minDiff;
+  });
+  const spatial = { first: present.slice(0, order), minDiff, octets: 2 };
+  return complexPacking(count, reference, packed, groupLengths, spatial);
+}
+
+// ─── Messages ─────────────────────────────────────────────────────────────────
+
+function message(packed, bitmap = null) {
+  const bitmapSection = bitmap
+    ? section(6, Buffer.from([0]), (() => { const w = new BitWriter(); bitmap.forEach(b => w.write(b, 1)); return w.buffer(); })())
+    : section(6, Buffer.from([255]));
+  const body = Buffer.concat([identification(), grid(), product(), packed[0], bitmapSection, packed[1], Buffer.from('7777')]);
+  return Buffer.concat([Buffer.from('GRIB'), Buffer.from([0, 0, 0, 2]), uint(0, 2), uint(body.length + 16, 6), body]);
+}
+
+function build() {
+  const withMissing = toIntegers(WITH_MISSING);
+  // Bitmap: the missing points are masked out instead of coded
+  const mask = WITH_MISSING.map(v => (v === null ? 0 : 1));
+  const masked = WITH_MISSING.filter(v => v !== null);
+  return {
+    'grib2-simple.grb2': message(simplePacking(EXPECTED)),
+    'grib2-complex.grb2': message(complexPacking(NI * NJ, withMissing.reference, withMissing.ints, [4, 6, 3, 7])),
+    'grib2-spatial-o1.grb2': message(spatialPacking(NI * NJ, EXPECTED, 1, [5, 5, 5, 5])),
+    'grib2-spatial-o2.grb2': message(spatialPacking(masked.length, masked, 2, [3, 8, 5]), mask)
+  };
+}
+
+if (require.main === module && process.argv.includes('--write')) {
+  for (const [name, buf] of Object.entries(build())) {
+    fs.writeFileSync(path.join(__dirname, name), buf);
+    console.log(`${name}: ${buf.length} bytes`);
+  }
+}
+
+module.exports = { NI, NJ, EXPECTED, WITH_MISSING };
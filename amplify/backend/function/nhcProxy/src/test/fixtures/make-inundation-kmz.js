@@ -0,0 +1,140 @@
+// Writes inundation-raster.kmz, used by test/surgeInundation.test.js:
+//   node test/fixtures/make-inundation-kmz.js --write
+// (node --test loads every file under test/, hence the flag)
+// A potential storm surge flooding graphic delivered as a raster super-overlay, the way
+// gdal2tiles / ArcGIS "Layer to KML" write one:
+//   doc.kml               legend ScreenOverlay, NetworkLink to the top tile
+//   files/0/0/0.kml       one 4 × 4 tile over the whole area, NetworkLinks to level 1
+//   files/1/0/{0,1}.kml   two finer tiles (west, east) with Regions
+//   files/legend.png, files/**/*.png
+// NHC's site is not reachable from the build machine, so this is not an excerpt of a
+// real product; it reproduces the layout only. Entries are stored, not deflated.
+
+const fs = require('fs');
+const path = require('path');
+const zlib = require('zlib');
+
+const BOUNDS = { north: 29.6, south: 29.2, east: -82.0, west: -82.8 };
+
+// ─── CRC-32, PNG and ZIP writers ──────────────────────────────────────────────
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+const crc32 = buf => {
+  let c = 0xffffffff;
+  for (const b of buf) c = CRC_TABLE[(c ^ b) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+// RGBA image of `size` × `size` pixels, every pixel `rgba`
+function png(size, rgba) {
+  const chunk = (type, data) => {
+    const body = Buffer.concat([Buffer.from(type), data]);
+    const out = Buffer.alloc(body.length + 8);
+    out.writeUInt32BE(data.length, 0);
+    body.copy(out, 4);
+    out.writeUInt32BE(crc32(body), body.length + 4);
+    return out;
+  };
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(size, 0);
+  header.writeUInt32BE(size, 4);
+  header.set([8, 6, 0, 0, 0], 8);
+  const row = Buffer.concat([Buffer.from([0]), ...Array(size).fill(Buffer.from(rgba))]);
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', zlib.deflateSync(Buffer.concat(Array(size).fill(row)))),
+    chunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+function zip(files) {
+  const locals = [];
+  const centrals = [];
+  let offset = 0;
+  for (const [name, data] of Object.entries(files)) {
+    const fileName = Buffer.from(name);
+    const crc = crc32(data);
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(10, 4);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(fileName.length, 26);
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(10, 6);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(fileName.length, 28);
+    central.writeUInt32LE(offset, 42);
+    locals.push(local, fileName, data);
+    centrals.push(central, fileName);
+    offset += local.length + fileName.length + data.length;
+  }
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+// ─── KML ──────────────────────────────────────────────────────────────────────
+
+const kml = body => `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+<Document>
+${body}
+</Document>
+</kml>
+`;
+
+const latLonBox = ({ north, south, east, west }) =>
+  `<north>${north}</north><south>${south}</south><east>${east}</east><west>${west}</west>`;
+
+const region = (bounds, minLodPixels) =>
+  `<Region><LatLonAltBox>${latLonBox(bounds)}</LatLonAltBox><Lod><minLodPixels>${minLodPixels}</minLodPixels><maxLodPixels>-1</maxLodPixels></Lod></Region>`;
+
+const networkLink = (href, bounds) =>
+  `<NetworkLink>${region(bounds, 128)}<Link><href>${href}</href><viewRefreshMode>onRegion</viewRefreshMode></Link></NetworkLink>`;
+
+const tile = (name, href, bounds) =>
+  `<GroundOverlay><name>${name}</name>${region(bounds, 128)}<drawOrder>1</drawOrder><Icon><href>${href}</href></Icon><LatLonBox>${latLonBox(bounds)}</LatLonBox></GroundOverlay>`;
+
+const west = { ...BOUNDS, east: -82.4 };
+const east = { ...BOUNDS, west: -82.4 };
+
+function build() {
+  return zip({
+    'doc.kml': Buffer.from(kml(`<name>Potential Storm Surge Flooding</name>
+<ScreenOverlay><name>Legend</name><Icon><href>files/legend.png</href></Icon></ScreenOverlay>
+${networkLink('files/0/0/0.kml', BOUNDS)}`)),
+    'files/legend.png': png(2, [255, 255, 255, 255]),
+    'files/0/0/0.kml': Buffer.from(kml(`${tile('Inundation 0/0/0', '0.png', BOUNDS)}
+${networkLink('../../1/0/0.kml', west)}
+${networkLink('../../1/0/1.kml', east)}`)),
+    'files/0/0/0.png': png(4, [255, 153, 0, 153]),
+    'files/1/0/0.kml': Buffer.from(kml(tile('Inundation 1/0/0', '0.png', west))),
+    'files/1/0/0.png': png(4, [30, 144, 255, 153]),
+    'files/1/0/1.kml': Buffer.from(kml(tile('Inundation 1/0/1', '1.png', east))),
+    'files/1/0/1.png': png(4, [255, 0, 0, 153])
+  });
+}
+
+if (require.main === module && process.argv.includes('--write')) {
+  const buf = build();
+  fs.writeFileSync(path.join(__dirname, 'inundation-raster.kmz'), buf);
+  console.log(`inundation-raster.kmz: ${buf.length} bytes`);
+}
+
+module.exports = { BOUNDS, zip };
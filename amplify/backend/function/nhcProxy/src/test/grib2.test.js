@@ -0,0 +1,120 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const path = require('path');
+const { decodeGrib2, orientGribGrid } = require('../grib2');
+const { NI, NJ, EXPECTED, WITH_MISSING } = require('./fixtures/make-grib2-fixtures');
+
+// grib2-*.grb2 are written by fixtures/make-grib2-fixtures.js. The others are real
+// messages: ecCodes' regular_latlon_surface.grib2 sample (2-m temperature, simple
+// packing), and NCEP GFS output as distributed with the grib.js samples — 1° 10-m
+// winds (5.3, second order) and a 2.5° land-only runoff field (5.3, first order, bitmap).
+const fixture = name => fs.readFileSync(path.join(__dirname, 'fixtures', name));
+
+// Float32 values, NaN for missing, compared to one decimal
+const rounded = values => Array.from(values, v => (Number.isNaN(v) ? null : Math.round(v * 10) / 10));
+
+test('simple packing (5.0): values, metadata and grid', () => {
+  const [field, ...rest] = decodeGrib2(fixture('grib2-simple.grb2'));
+  assert.equal(rest.length, 0);
+  const { values, ...meta } = field;
+  assert.deepEqual(meta, {
+    template: 0,
+    discipline: 0,
+    category: 2,
+    parameter: 2,
+    forecastHour: 6,
+    surfaceType: 103,
+    surfaceValue: 10,
+    refTime: '2024-09-26T12:00:00.000Z',
+    grid: { north: 30, west: -80, dLat: 1, dLon: 1, rows: NJ, cols: NI }
+  });
+  assert.deepEqual(rounded(values), EXPECTED);
+});
+
+test('complex packing (5.2) turns primary missing values into NaN', () => {
+  const [field] = decodeGrib2(fixture('grib2-complex.grb2'));
+  assert.deepEqual(rounded(field.values), WITH_MISSING);
+});
+
+test('complex packing with first-order spatial differencing (5.3)', () => {
+  const [field] = decodeGrib2(fixture('grib2-spatial-o1.grb2'));
+  assert.deepEqual(rounded(field.values), EXPECTED);
+});
+
+test('complex packing with second-order spatial differencing (5.3) behind a bitmap', () => {
+  const [field] = decodeGrib2(fixture('grib2-spatial-o2.grb2'));
+  assert.deepEqual(rounded(field.values), WITH_MISSING);
+});
+
+test('concatenated messages decode in order and `wanted` skips fields', () => {
+  const buf = Buffer.concat([fixture('grib2-simple.grb2'), Buffer.alloc(3), fixture('grib2-spatial-o1.grb2')]);
+  assert.equal(decodeGrib2(buf).length, 2);
+  assert.equal(decodeGrib2(buf, p => p.forecastHour !== 6).length, 0);
+});
+
+test('unsupported packing is reported, not guessed at', () => {
+  const buf = Buffer.from(fixture('grib2-simple.grb2'));
+  // Section 5 starts after sections 0 (16), 1 (21), 3 (72) and 4 (34); template at octets 10–11
+  buf.writeUInt16BE(40, 16 + 21 + 72 + 34 + 9);
+  assert.throws(() => decodeGrib2(buf), /template 5\.40 is not supported/);
+});
+
+test('real ECMWF message with simple packing', () => {
+  const [field] = decodeGrib2(fixture('ecmwf-regular-latlon-surface.grib2'));
+  assert.equal(field.refTime, '2008-02-06T12:00:00.000Z');
+  assert.deepEqual(field.grid, { north: 60, west: 0, dLat: 2, dLon: 2, rows: 31, cols: 16 });
+  assert.deepEqual(Array.from(field.values.slice(0, 3)), [279, 279.9609375, 278.53125]);
+  assert.equal(field.values[field.values.length - 1], 300.8818359375);
+});
+
+test('real GFS 10-m winds with second-order spatial differencing', () => {
+  const [u, v] = decodeGrib2(fixture('gfs-1p00-10m-wind.grb2'));
+  assert.deepEqual([u.parameter, v.parameter], [2, 3]);
+  assert.deepEqual(u.grid, { north: 90, west: 0, dLat: 1, dLon: 1, rows: 181, cols: 360 });
+  assert.ok(u.values.every(Number.isFinite));
+  // Both signs present: the first values and minimum difference are sign-and-magnitude
+  assert.ok(Math.min(...u.values) < -15 && Math.max(...u.values) > 20);
+  // Every point of the first and last rows is the same pole, so the speed can't vary
+  for (const row of [0, 180]) {
+    const speeds = [];
+    for (let c = 0; c < 360; c++) speeds.push(Math.hypot(u.values[row * 360 + c], v.values[row * 360 + c]));
+    assert.ok(Math.max(...speeds) - Math.min(...speeds) < 0.05, `row ${row}`);
+  }
+});
+
+test('real GFS field behind a bitmap masks the ocean', () => {
+  const [field] = decodeGrib2(fixture('gfs-2p5-runoff-bitmap.grb2'));
+  assert.deepEqual([field.discipline, field.category, field.parameter, field.forecastHour], [2, 0, 5, 66]);
+  assert.equal(field.values.length, 144 * 73);
+  assert.equal(field.values.filter(Number.isNaN).length, 5616);
+  assert.equal(Math.max(...field.values.filter(Number.isFinite)).toFixed(3), '11.748');
+});
+
+// ─── Scan modes ───────────────────────────────────────────────────────────────
+
+// 3 × 2 grid covering 10–11°N, 100–102°E; `scanned` lists the points in scan order
+const grid = scanMode => ({ ni: 3, nj: 2, la1: 10, la2: 11, lo1: 100, lo2: 102, di: 1, dj: 1, scanMode });
+const orient = (scanMode, scanned) => Array.from(orientGribGrid(Float32Array.from(scanned), grid(scanMode)).values);
+
+test('orientGribGrid returns rows north → south, columns west → east', () => {
+  // Target layout:  [1 2 3]  (north row)
+  //                 [4 5 6]
+  assert.deepEqual(orient(0x00, [1, 2, 3, 4, 5, 6]), [1, 2, 3, 4, 5, 6]);
+  assert.deepEqual(orient(0x40, [4, 5, 6, 1, 2, 3]), [1, 2, 3, 4, 5, 6]);
+  assert.deepEqual(orient(0x80, [3, 2, 1, 6, 5, 4]), [1, 2, 3, 4, 5, 6]);
+  assert.deepEqual(orient(0xc0, [6, 5, 4, 3, 2, 1]), [1, 2, 3, 4, 5, 6]);
+  // Boustrophedon: every other row runs the opposite way
+  assert.deepEqual(orient(0x10, [1, 2, 3, 6, 5, 4]), [1, 2, 3, 4, 5, 6]);
+  assert.deepEqual(orient(0x50, [4, 5, 6, 3, 2, 1]), [1, 2, 3, 4, 5, 6]);
+});
+
+test('orientGribGrid reports the north-west corner in -180..180', () => {
+  const { north, west, rows, cols } = orientGribGrid(new Float32Array(6), { ...grid(0x40), lo1: 280, lo2: 282 });
+  assert.deepEqual({ north, west, rows, cols }, { north: 11, west: -80, rows: 2, cols: 3 });
+  assert.equal(orientGribGrid(new Float32Array(6), { ...grid(0x80), lo1: 282, lo2: 280 }).west, -80);
+});
+
+test('orientGribGrid rejects grids scanned along meridians', () => {
+  assert.throws(() => orientGribGrid(new Float32Array(6), grid(0x20)), /meridians/);
+});
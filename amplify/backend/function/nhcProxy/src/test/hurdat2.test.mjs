@@ -0,0 +1,108 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import { categoryFromKnots, parseHurdat2, summarizeHurdatStorm } from '../hurdat2.mjs';
+
+// Excerpts in the two layouts NHC has published: without the RMW column (CRLF line ends,
+// as in the 1851–2021 release) and with it (the 1851–2022 release onwards)
+const fixture = name => fs.readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8');
+const withoutRmw = fixture('hurdat2-1851-2021-excerpt.txt');
+const withRmw = fixture('hurdat2-1851-2022-excerpt.txt');
+
+test('reads the layout without RMW, trailing comma and CRLF included', () => {
+  const [storm] = parseHurdat2(withoutRmw);
+  assert.deepEqual({ ...storm, fixes: storm.fixes.length }, {
+    stormId: 'AL011851', basin: 'AL', season: 1851, name: 'UNNAMED', fixes: 7
+  });
+  assert.deepEqual(storm.fixes[0], {
+    dateTime: '1851-06-25T00:00:00Z',
+    recordId: null,
+    status: 'HU',
+    latitude: 28.0,
+    longitude: -94.8,
+    maxWinds: 80,
+    pressure: null,
+    r34: null,
+    r50: null,
+    r64: null,
+    rmw: null
+  });
+  assert.equal(storm.fixes[4].recordId, 'L');
+  assert.equal(storm.fixes[4].dateTime, '1851-06-25T21:00:00Z');
+});
+
+test('reads the layout with RMW, radii and the -999 RMW of early storms', () => {
+  const [early, ian] = parseHurdat2(withRmw);
+  assert.equal(early.fixes[0].rmw, null);
+  assert.equal(early.fixes[0].r34, null);
+
+  assert.equal(ian.stormId, 'AL092022');
+  assert.equal(ian.name, 'IAN');
+  assert.equal(ian.fixes.length, 4);
+  const landfall = ian.fixes[1];
+  assert.equal(landfall.recordId, 'L');
+  assert.equal(landfall.pressure, 941);
+  assert.equal(landfall.rmw, 15);
+  assert.deepEqual(landfall.r34, [130, 130, 90, 110]);
+  assert.deepEqual(landfall.r50, [70, 70, 50, 60]);
+  assert.deepEqual(landfall.r64, [40, 40, 30, 35]);
+});
+
+test('keeps radii with a zero quadrant and drops all-zero radii', () => {
+  const ian = parseHurdat2(withRmw)[1];
+  assert.deepEqual(ian.fixes[2].r64, [30, 30, 0, 20]);
+  const extratropical = ian.fixes[3];
+  assert.deepEqual(extratropical.r34, [180, 240, 120, 90]);
+  assert.equal(extratropical.r50, null);
+  assert.equal(extratropical.r64, null);
+  assert.equal(extratropical.rmw, null);
+});
+
+test('-99 winds and -999 pressure or radii become missing values', () => {
+  const [storm] = parseHurdat2([
+    'EP011949,            UNNAMED,      1,',
+    '19490611, 0000,  , TS, 20.2N, 106.3W, -99, -999, -999, -999, -999, -999,   0,   0,   0,   0,   0,   0,   0,   0,'
+  ].join('\n'));
+  const [fix] = storm.fixes;
+  assert.equal(fix.maxWinds, 0);
+  assert.equal(fix.pressure, null);
+  assert.equal(fix.r34, null);
+  assert.equal(fix.r50, null);
+});
+
+test('skips malformed lines and fixes before the first header', () => {
+  const storms = parseHurdat2([
+    '18510625, 0000,  , HU, 28.0N,  94.8W,  80, -999,',
+    'AL011851,            UNNAMED,     14,',
+    '18510625, 0600,  , HU, 28.0N,  95.4W,  80, -999,',
+    '1851062, 1200,  , HU, 28.0N,  96.0W,  80, -999,',
+    '18510625, 1800,  , HU, 28.1N,  96.5X,  80, -999,',
+    '18510625, 2100, L, HU'
+  ].join('\n'));
+  assert.equal(storms.length, 1);
+  assert.deepEqual(storms[0].fixes.map(f => f.dateTime), ['1851-06-25T06:00:00Z']);
+});
+
+test('summarizeHurdatStorm takes peak intensity from tropical fixes only', () => {
+  const ian = summarizeHurdatStorm(parseHurdat2(withRmw)[1]);
+  assert.deepEqual(ian, {
+    stormId: 'AL092022',
+    stormName: 'IAN',
+    season: 2022,
+    basin: 'AL',
+    classification: 'HU',
+    category: 5,
+    maxWindsKnots: 140,
+    pressureMb: 937,
+    positionLat: 26.3,
+    positionLon: -82.5,
+    advisoryTimestamp: '2022-09-28T12:00:00Z',
+    firstFix: '2022-09-28T12:00:00Z',
+    lastFix: '2022-10-01T00:00:00Z',
+    landfall: true
+  });
+});
+
+test('categoryFromKnots follows the Saffir-Simpson thresholds', () => {
+  assert.deepEqual([63, 64, 82, 83, 95, 96, 112, 113, 136, 137].map(categoryFromKnots), [0, 1, 1, 2, 2, 3, 3, 4, 4, 5]);
+});
@@ -0,0 +1,80 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const path = require('path');
+const { inundationBand, parseInundationKml, parseInundationKmz } = require('../surgeInundation');
+const { BOUNDS, zip } = require('./fixtures/make-inundation-kmz');
+
+// inundation.kml is hand-written to cover the band markings the parser accepts; it is not
+// an excerpt of a real NHC product
+const fixture = fs.readFileSync(path.join(__dirname, 'fixtures', 'inundation.kml'), 'utf8');
+// Written by fixtures/make-inundation-kmz.js
+const rasterKmz = fs.readFileSync(path.join(__dirname, 'fixtures', 'inundation-raster.kmz'));
+
+test('inundationBand recognises the wordings NHC uses', () => {
+  assert.equal(inundationBand('Up to 3 feet above ground'), 'up-to-3');
+  assert.equal(inundationBand('Greater than 3 feet above ground'), 'over-3');
+  assert.equal(inundationBand('> 6 ft'), 'over-6');
+  assert.equal(inundationBand('#inundation_gt9'), 'over-9');
+  assert.equal(inundationBand('Intertidal Zone/Estuary'), null);
+  assert.equal(inundationBand('Potential Storm Surge Flooding'), null);
+});
+
+test('parseInundationKml keeps one feature per depth-band placemark, shallowest first', async () => {
+  const { type, features } = await parseInundationKml(fixture);
+  assert.equal(type, 'FeatureCollection');
+  assert.deepEqual(features.map(f => f.properties.band), ['up-to-3', 'over-3', 'over-6', 'over-9']);
+  assert.deepEqual(features[3].properties, { band: 'over-9', label: 'Greater than 9 ft above ground', minFt: 9, maxFt: null });
+});
+
+test('drops altitudes and reads tuples split by tabs and newlines', async () => {
+  const [upTo3] = (await parseInundationKml(fixture)).features;
+  assert.deepEqual(upTo3.geometry, {
+    type: 'Polygon',
+    coordinates: [[[-82.8, 29.5], [-82.7, 29.5], [-82.7, 29.6], [-82.8, 29.5]]]
+  });
+});
+
+test('classifies by style id and keeps holes and every polygon of a MultiGeometry', async () => {
+  const over3 = (await parseInundationKml(fixture)).features[1];
+  assert.equal(over3.geometry.type, 'MultiPolygon');
+  assert.equal(over3.geometry.coordinates.length, 2);
+  assert.equal(over3.geometry.coordinates[0].length, 2, 'outer ring and one hole');
+  assert.equal(over3.geometry.coordinates[1].length, 1);
+});
+
+test('classifies by numeric raster code inside nested MultiGeometry', async () => {
+  const over6 = (await parseInundationKml(fixture)).features[2];
+  assert.equal(over6.geometry.type, 'Polygon');
+  assert.deepEqual(over6.geometry.coordinates[0][0], [-82.1, 29.3]);
+});
+
+test('closes open rings, removes repeated vertices and rounds to 4 decimals', async () => {
+  const over9 = (await parseInundationKml(fixture)).features[3];
+  assert.deepEqual(over9.geometry.coordinates, [[[-81.9, 29.2], [-81.8, 29.2], [-81.8, 29.3], [-81.9, 29.2]]]);
+});
+
+// ─── KMZ ──────────────────────────────────────────────────────────────────────
+
+test('parseInundationKmz reads the band polygons of the KMZ\'s KML', async () => {
+  const { bands, overlays } = await parseInundationKmz(zip({ 'doc.kml': Buffer.from(fixture) }));
+  assert.deepEqual(bands, await parseInundationKml(fixture));
+  assert.deepEqual(overlays, []);
+});
+
+test('a raster super-overlay becomes image overlays from its coarsest level', async () => {
+  const { bands, overlays } = await parseInundationKmz(rasterKmz);
+  assert.deepEqual(bands.features, []);
+  assert.equal(overlays.length, 1, 'the top tile, not the finer ones it links to');
+  const [{ name, image, bounds }] = overlays;
+  assert.equal(name, 'Inundation 0/0/0');
+  assert.deepEqual(bounds, BOUNDS);
+  // The tile's own PNG, found relative to files/0/0/0.kml
+  assert.match(image, /^data:image\/png;base64,/);
+  assert.equal(Buffer.from(image.split(',')[1], 'base64').subarray(1, 4).toString(), 'PNG');
+});
+
+test('a KMZ with neither bands nor overlays is an error, not an empty graphic', async () => {
+  const legendOnly = zip({ 'doc.kml': Buffer.from('<kml><Document><ScreenOverlay><name>Legend</name></ScreenOverlay></Document></kml>') });
+  await assert.rejects(parseInundationKmz(legendOnly), /neither depth-band polygons nor raster overlays/);
+});
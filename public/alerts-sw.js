@@ -0,0 +1,32 @@
+// Service worker for CycloTrak advisory alerts
+// Push messages from the Lambda carry { title, body, tag, url }; alerts raised in an open
+// tab are shown with registration.showNotification() and only use the click handler.
+
+self.addEventListener('install', () => self.skipWaiting())
+self.addEventListener('activate', event => event.waitUntil(self.clients.claim()))
+
+self.addEventListener('push', event => {
+  let message = {}
+  try {
+    message = event.data ? event.data.json() : {}
+  } catch {
+    message = { body: event.data ? event.data.text() : '' }
+  }
+  event.waitUntil(self.registration.showNotification(message.title || 'CycloTrak alert', {
+    body: message.body || '',
+    tag: message.tag,
+    icon: '/icon-192.png',
+    // Cone alerts should stay up until someone reads them
+    requireInteraction: message.urgent === true,
+    data: { url: message.url || '/' },
+  }))
+})
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close()
+  const url = new URL(event.notification.data?.url || '/', self.location.origin).href
+  event.waitUntil(self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(windows => {
+    const open = windows.find(w => w.url.startsWith(self.location.origin))
+    return open ? open.focus() : self.clients.openWindow(url)
+  }))
+})
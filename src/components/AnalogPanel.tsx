@@ -0,0 +1,257 @@
+import React, { useEffect } from 'react'
+import { Circle, CircleMarker, Polygon, Polyline, Tooltip, useMap, useMapEvents } from 'react-leaflet'
+import { compassPoint } from '../utils/windField'
+import { formatWindSpeedMphOnly, getIntensityCategoryFromKnots } from '../utils/windSpeed'
+import type { AnalogHit } from '../utils/analogs'
+import type { useHistoricalAnalogs } from '../hooks/useHistoricalAnalogs'
+import './AnalogPanel.css'
+
+type Analogs = ReturnType<typeof useHistoricalAnalogs>
+
+const NM_TO_M = 1852
+
+// Track colour by intensity at closest approach (Saffir-Simpson scale)
+const INTENSITY_COLORS: Record<string, string> = {
+  TD: '#5ebaff',
+  TS: '#00faf4',
+  '1': '#ffffcc',
+  '2': '#ffe775',
+  '3': '#ffc140',
+  '4': '#ff8f20',
+  '5': '#ff6060',
+}
+
+const hitColor = (hit: AnalogHit) => INTENSITY_COLORS[getIntensityCategoryFromKnots(hit.maxWinds)]
+
+const intensityLabel = (hit: AnalogHit) => {
+  const cat = getIntensityCategoryFromKnots(hit.maxWinds)
+  return cat === 'TD' || cat === 'TS' ? cat : `Cat ${cat}`
+}
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' })
+
+// ─── Map layer (inside MapContainer) ──────────────────────────────────────────
+
+interface AnalogMapLayerProps {
+  analogs: Analogs
+}
+
+export const AnalogMapLayer: React.FC<AnalogMapLayerProps> = ({ analogs }) => {
+  const map = useMap()
+  const { area, draft, mode, results, selectedId, pickPoint, closePolygon, setSelectedId } = analogs
+
+  // Double-click closes the polygon instead of zooming while one is being drawn
+  useEffect(() => {
+    if (mode === 'polygon') map.doubleClickZoom.disable()
+    else map.doubleClickZoom.enable()
+    return () => { map.doubleClickZoom.enable() }
+  }, [map, mode])
+
+  useMapEvents({
+    click: e => pickPoint(e.latlng.lat, e.latlng.lng),
+    dblclick: () => { if (mode === 'polygon') closePolygon() },
+  })
+
+  // Draw the selected storm last so it sits on top
+  const ordered = selectedId
+    ? [...results.filter(h => h.stormId !== selectedId), ...results.filter(h => h.stormId === selectedId)]
+    : results
+
+  return (
+    <>
+      {area?.kind === 'circle' && (
+        <Circle
+          center={[area.lat, area.lon]}
+          radius={area.radiusNm * NM_TO_M}
+          pathOptions={{ color: '#00d4ff', weight: 2, fillOpacity: 0.06, dashArray: '6 4' }}
+          interactive={false}
+        />
+      )}
+      {area?.kind === 'polygon' && (
+        <Polygon
+          positions={area.vertices}
+          pathOptions={{ color: '#00d4ff', weight: 2, fillOpacity: 0.06, dashArray: '6 4' }}
+          interactive={false}
+        />
+      )}
+      {draft.length > 0 && (
+        <Polyline positions={draft} pathOptions={{ color: '#00d4ff', weight: 2, dashArray: '2 6' }} interactive={false} />
+      )}
+
+      {ordered.map(hit => {
+        const selected = hit.stormId === selectedId
+        return (
+          <React.Fragment key={hit.stormId}>
+            <Polyline
+              positions={hit.fixes.map(f => [f.latitude, f.longitude] as [number, number])}
+              pathOptions={{
+                color: hitColor(hit),
+                weight: selected ? 4 : 2,
+                opacity: selectedId && !selected ? 0.25 : 0.85,
+                // Selecting a track must not also re-centre the search
+                bubblingMouseEvents: false,
+              }}
+              eventHandlers={{ click: () => setSelectedId(hit.stormId) }}
+            >
+              <Tooltip sticky>{hit.name} ({hit.season})</Tooltip>
+            </Polyline>
+            <CircleMarker
+              center={[hit.lat, hit.lon]}
+              radius={selected ? 6 : 4}
+              pathOptions={{ color: '#222', weight: 1, fillColor: hitColor(hit), fillOpacity: 1 }}
+              interactive={false}
+            />
+          </React.Fragment>
+        )
+      })}
+    </>
+  )
+}
+
+// ─── Results panel ────────────────────────────────────────────────────────────
+
+interface AnalogPanelProps {
+  analogs: Analogs
+  onClose: () => void
+}
+
+const AnalogPanel: React.FC<AnalogPanelProps> = ({ analogs, onClose }) => {
+  const {
+    stormCount, loading, error, area, mode, changeMode, radiusNm, changeRadius, draft,
+    closePolygon, clear, filter, setFilter, sort, setSort, results, selectedId, setSelectedId, importFile, retry,
+  } = analogs
+
+  const hint = mode === 'circle'
+    ? 'Click the map to search around a point.'
+    : draft.length < 3
+      ? 'Click to add polygon corners (at least 3).'
+      : 'Double-click or press Finish to close the polygon.'
+
+  return (
+    <div className="analog-panel">
+      <div className="analog-panel-header">
+        <h4>Historical Storms</h4>
+        <button className="analog-close" onClick={onClose} aria-label="Close historical storms">×</button>
+      </div>
+
+      {stormCount === 0 ? (
+        <div className="analog-empty">
+          {loading
+            ? 'Loading best-track database…'
+            : (
+              <>
+                <p>No HURDAT2 best-track data loaded. Import NHC&apos;s Atlantic or Pacific HURDAT2 file to search.</p>
+                <label className="analog-button">
+                  Import HURDAT2…
+                  <input
+                    type="file"
+                    accept=".txt,text/plain"
+                    onChange={e => { const f = e.target.files?.[0]; e.target.value = ''; if (f) importFile(f) }}
+                  />
+                </label>
+                {error && <button className="analog-button" onClick={retry}>Try again</button>}
+              </>
+            )}
+          {error && <p className="analog-error">{error}</p>}
+        </div>
+      ) : (
+        <>
+          <div className="analog-controls">
+            <div className="analog-mode">
+              <button className={mode === 'circle' ? 'active' : ''} onClick={() => changeMode('circle')}>Radius</button>
+              <button className={mode === 'polygon' ? 'active' : ''} onClick={() => changeMode('polygon')}>Polygon</button>
+            </div>
+            {mode === 'circle' ? (
+              <label className="analog-field">
+                Within
+                <input
+                  type="number"
+                  min={5}
+                  max={500}
+                  step={5}
+                  value={radiusNm}
+                  onChange={e => changeRadius(Math.max(5, Math.min(500, Number(e.target.value) || 50)))}
+                />
+                nm
+              </label>
+            ) : (
+              <button className="analog-button" disabled={draft.length < 3} onClick={closePolygon}>Finish</button>
+            )}
+            {(area || draft.length > 0) && <button className="analog-button" onClick={clear}>Clear</button>}
+          </div>
+
+          <div className="analog-controls">
+            <select value={filter.basin ?? ''} onChange={e => setFilter({ ...filter, basin: e.target.value || undefined })}>
+              <option value="">All basins</option>
+              <option value="AL">Atlantic</option>
+              <option value="EP">East Pacific</option>
+              <option value="CP">Central Pacific</option>
+            </select>
+            <select
+              value={filter.minCategory ?? -1}
+              onChange={e => {
+                const v = Number(e.target.value)
+                setFilter({ ...filter, minCategory: v < 0 ? undefined : v })
+              }}
+            >
+              <option value={-1}>Any strength</option>
+              <option value={0}>Tropical storm+</option>
+              {[1, 2, 3, 4, 5].map(c => <option key={c} value={c}>Cat {c}+</option>)}
+            </select>
+            <label className="analog-field">
+              Since
+              <input
+                type="number"
+                min={1851}
+                max={new Date().getUTCFullYear()}
+                value={filter.fromSeason ?? ''}
+                placeholder="1851"
+                onChange={e => setFilter({ ...filter, fromSeason: e.target.value ? Number(e.target.value) : undefined })}
+              />
+            </label>
+            <select value={sort} onChange={e => setSort(e.target.value as typeof sort)}>
+              <option value="distance">Closest</option>
+              <option value="intensity">Strongest</option>
+              <option value="date">Most recent</option>
+            </select>
+          </div>
+
+          {!area ? (
+            <p className="analog-hint">{hint}</p>
+          ) : (
+            <>
+              <p className="analog-summary">
+                {results.length} storm{results.length === 1 ? '' : 's'} of {stormCount.toLocaleString()} on record
+              </p>
+              <ul className="analog-list">
+                {results.map(hit => (
+                  <li
+                    key={hit.stormId}
+                    className={hit.stormId === selectedId ? 'selected' : ''}
+                    onClick={() => setSelectedId(hit.stormId === selectedId ? null : hit.stormId)}
+                  >
+                    <div className="analog-row">
+                      <span className="analog-name">{hit.name === 'UNNAMED' ? hit.stormId : hit.name} {hit.season}</span>
+                      <span className="analog-cat" style={{ background: hitColor(hit) }}>{intensityLabel(hit)}</span>
+                    </div>
+                    <div className="analog-detail">
+                      {formatDate(hit.dateTime)} · {formatWindSpeedMphOnly(hit.maxWinds)}
+                      {hit.pressure !== null && ` · ${hit.pressure} mb`}
+                    </div>
+                    <div className="analog-detail">
+                      {Math.round(hit.distanceNm)} nm from {area.kind === 'circle' ? 'point' : 'centre'} · moving {compassPoint(hit.headingDeg)} at {hit.speedKt} kt
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+          {error && <p className="analog-error">{error}</p>}
+        </>
+      )}
+    </div>
+  )
+}
+
+export default AnalogPanel
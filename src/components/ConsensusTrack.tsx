@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react'
+import { CircleMarker, Polyline, Tooltip } from 'react-leaflet'
+import { formatWindSpeedMphOnly } from '../utils/windSpeed'
+import type { ConsensusPoint } from '../utils/consensus'
+import type { useConsensusTrack } from '../hooks/useConsensusTrack'
+import './ConsensusTrack.css'
+
+type Consensus = ReturnType<typeof useConsensusTrack>
+
+export const CONSENSUS_COLOR = '#e040fb'
+
+// GEFS perturbations are covered by the ensemble mean and would swamp the member list
+const isSelectableMember = (modelId: string) => !/^AP\d{2}$/.test(modelId)
+
+// ─── Map layer (inside MapContainer) ──────────────────────────────────────────
+
+interface ConsensusTrackLayerProps {
+  name: string
+  track: ConsensusPoint[]
+}
+
+export const ConsensusTrackLayer: React.FC<ConsensusTrackLayerProps> = ({ name, track }) => {
+  if (track.length < 2) return null
+  return (
+    <>
+      <Polyline
+        positions={track.map(p => [p.lat, p.lon] as [number, number])}
+        pathOptions={{ color: CONSENSUS_COLOR, weight: 4, opacity: 0.95, dashArray: '10, 6' }}
+      >
+        <Tooltip sticky>
+          <div>
+            <strong>{name}</strong>
+            <div style={{ fontSize: '0.8em', color: '#666' }}>Consensus of {track[0].members.join(', ')}</div>
+          </div>
+        </Tooltip>
+      </Polyline>
+      {track.filter(p => p.tau % 24 === 0).map(p => (
+        <CircleMarker
+          key={p.tau}
+          center={[p.lat, p.lon]}
+          radius={4}
+          pathOptions={{ color: '#222', weight: 1, fillColor: CONSENSUS_COLOR, fillOpacity: 1 }}
+        >
+          <Tooltip>
+            <strong>{name} +{p.tau}h</strong>
+            <div>{p.vmax != null ? formatWindSpeedMphOnly(p.vmax) : 'No intensity consensus'}</div>
+            <div style={{ fontSize: '0.8em', color: '#666' }}>{p.members.length} members</div>
+          </Tooltip>
+        </CircleMarker>
+      ))}
+    </>
+  )
+}
+
+// ─── Panel controls ───────────────────────────────────────────────────────────
+
+interface ConsensusControlsProps {
+  consensus: Consensus
+  /** Models in the storm's latest A-deck cycle */
+  modelsPresent: string[]
+}
+
+export const ConsensusControls: React.FC<ConsensusControlsProps> = ({ consensus, modelsPresent }) => {
+  const {
+    definitions, draft, isDirty, selectDefinition, toggleMember, updateDraft, saveDraft, deleteDefinition,
+    track, weightsLoading, weightsAvailable,
+  } = consensus
+  const [name, setName] = useState(draft.name)
+  useEffect(() => { setName(draft.name) }, [draft.id, draft.name])
+
+  // Saved members missing from this cycle stay listed so the definition can still be edited
+  const candidates = Array.from(new Set([...modelsPresent.filter(isSelectableMember), ...draft.members]))
+  const reachesTau = track.length ? track[track.length - 1].tau : null
+
+  return (
+    <div className="layer-sub-options consensus-controls">
+      <label className="sub-option-label">
+        Definition
+        <select value={draft.id} onChange={e => selectDefinition(e.target.value)}>
+          {definitions.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+          {!definitions.some(d => d.id === draft.id) && <option value={draft.id}>{draft.name} (unsaved)</option>}
+        </select>
+      </label>
+
+      <div className="consensus-members">
+        {candidates.map(m => (
+          <button
+            key={m}
+            className={`consensus-member${draft.members.includes(m) ? ' active' : ''}${modelsPresent.includes(m) ? '' : ' missing'}`}
+            onClick={() => toggleMember(m)}
+            title={modelsPresent.includes(m) ? undefined : 'Not in the latest cycle'}
+          >
+            {m}
+          </button>
+        ))}
+      </div>
+
+      <label className="sub-option-label">
+        Minimum members
+        <input
+          type="number"
+          min={1}
+          max={Math.max(1, draft.members.length)}
+          value={draft.minMembers}
+          onChange={e => updateDraft({ minMembers: Math.max(1, Number(e.target.value) || 1) })}
+        />
+      </label>
+      <label className="sub-option-label">
+        Weighting
+        <select value={draft.weighting} onChange={e => updateDraft({ weighting: e.target.value as typeof draft.weighting })}>
+          <option value="equal">Equal</option>
+          <option value="verification">By verified error</option>
+        </select>
+      </label>
+      {weightsLoading && <span className="layer-hint">Loading verification…</span>}
+      {!weightsLoading && !weightsAvailable && (
+        <span className="layer-hint">No verification for this season yet — using equal weights</span>
+      )}
+
+      <div className="consensus-save">
+        <input value={name} onChange={e => setName(e.target.value)} placeholder="Consensus name" />
+        <button disabled={!name.trim() || (!isDirty && name.trim() === draft.name)} onClick={() => saveDraft(name)}>Save</button>
+        {definitions.some(d => d.id === draft.id) && (
+          <button onClick={() => deleteDefinition(draft.id)}>Delete</button>
+        )}
+      </div>
+
+      {track.length === 0 ? (
+        <span className="layer-hint">Fewer than {draft.minMembers} selected members in this cycle</span>
+      ) : (
+        <>
+          <span className="layer-hint">Out to {reachesTau} h · intensity (kt) by forecast hour</span>
+          <div className="consensus-intensity">
+            {track.filter(p => p.tau % 24 === 0).map(p => (
+              <span key={p.tau}>
+                <em>{p.tau}h</em>
+                {p.vmax ?? '—'}
+              </span>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,116 @@
+import React, { useEffect } from 'react'
+import L from 'leaflet'
+import { CircleMarker, Polygon, Polyline, Tooltip, useMap } from 'react-leaflet'
+import {
+  colorizeStrikeProbability, STRIKE_BANDS, type EnsembleSpread, type StrikeProbabilityGrid,
+} from '../utils/ensembleStrike'
+
+const MEAN_TRACK_COLOR = '#0d47a1'
+
+// ─── Map layer (inside MapContainer) ──────────────────────────────────────────
+
+interface EnsembleStrikeLayerProps {
+  grid: StrikeProbabilityGrid | null
+  spread: EnsembleSpread[]
+  showSpread: boolean
+  opacity?: number
+}
+
+// Strike probability drawn as a single image overlay, with the ensemble mean track and
+// its spread ellipses on top
+export const EnsembleStrikeLayer: React.FC<EnsembleStrikeLayerProps> = ({ grid, spread, showSpread, opacity = 0.75 }) => {
+  const map = useMap()
+
+  useEffect(() => {
+    if (!grid) return
+    const canvas = document.createElement('canvas')
+    canvas.width = grid.cols
+    canvas.height = grid.rows
+    const ctx = canvas.getContext('2d')!
+    const image = ctx.createImageData(grid.cols, grid.rows)
+    image.data.set(colorizeStrikeProbability(grid.probability))
+    ctx.putImageData(image, 0, 0)
+
+    const overlay = L.imageOverlay(
+      canvas.toDataURL('image/png'),
+      L.latLngBounds([grid.south, grid.west], [grid.north, grid.east]),
+      { opacity, interactive: false },
+    ).addTo(map)
+    return () => { overlay.remove() }
+  }, [map, grid, opacity])
+
+  if (!showSpread || spread.length < 2) return null
+
+  return (
+    <>
+      {spread.filter(s => s.tau > 0 && s.tau % 24 === 0).map(s => (
+        <Polygon
+          key={`spread-${s.tau}`}
+          positions={s.outline}
+          pathOptions={{ color: MEAN_TRACK_COLOR, weight: 1.5, fillOpacity: 0.08, dashArray: '4 4' }}
+          interactive={false}
+        />
+      ))}
+      <Polyline
+        positions={spread.map(s => [s.lat, s.lon] as [number, number])}
+        pathOptions={{ color: MEAN_TRACK_COLOR, weight: 3, opacity: 0.95 }}
+      >
+        <Tooltip sticky>
+          <strong>GEFS ensemble mean</strong>
+          <div style={{ fontSize: '0.8em', color: '#666' }}>Mean of the control and perturbation members</div>
+        </Tooltip>
+      </Polyline>
+      {spread.filter(s => s.tau % 24 === 0).map(s => (
+        <CircleMarker
+          key={`mean-${s.tau}`}
+          center={[s.lat, s.lon]}
+          radius={4}
+          pathOptions={{ color: '#fff', weight: 1, fillColor: MEAN_TRACK_COLOR, fillOpacity: 1 }}
+        >
+          <Tooltip>
+            <strong>+{s.tau}h</strong>
+            <div>{s.members} members</div>
+            <div>Spread {Math.round(s.majorNm)} × {Math.round(s.minorNm)} nm (1σ)</div>
+          </Tooltip>
+        </CircleMarker>
+      ))}
+    </>
+  )
+}
+
+// ─── Legend ───────────────────────────────────────────────────────────────────
+
+interface EnsembleStrikeLegendProps {
+  grid: StrikeProbabilityGrid
+}
+
+export const EnsembleStrikeLegend: React.FC<EnsembleStrikeLegendProps> = ({ grid }) => (
+  <div style={{
+    position: 'absolute',
+    bottom: '20px',
+    left: '20px',
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    padding: '10px',
+    borderRadius: '6px',
+    border: '1px solid #ddd',
+    fontSize: '0.75rem',
+    color: '#ffffff',
+    zIndex: 1000,
+    minWidth: '180px',
+  }}>
+    <div style={{ fontWeight: 'bold', marginBottom: '6px', borderBottom: '1px solid #555', paddingBottom: '3px', fontSize: '0.8rem' }}>
+      GEFS Strike Probability
+    </div>
+    <div style={{ marginBottom: '6px', color: 'rgba(255,255,255,0.7)' }}>
+      Within {grid.radiusNm} nm through {grid.maxTau} h · {grid.memberCount} members
+    </div>
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '2px' }}>
+      {STRIKE_BANDS.map(([p, color], i) => (
+        <div key={p} style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+          <div style={{ width: '16px', height: '12px', backgroundColor: color, border: '1px solid #333', flexShrink: 0 }} />
+          <span>{i === 0 ? `${Math.round(p * 100)}%+` : `${Math.round(p * 100)}–${Math.round(STRIKE_BANDS[i - 1][0] * 100) - 1}%`}</span>
+        </div>
+      ))}
+    </div>
+  </div>
+)
@@ -0,0 +1,214 @@
+import React, { useEffect, useState } from 'react'
+import { CircleMarker, Tooltip, useMapEvents } from 'react-leaflet'
+import { compassPoint } from '../utils/windField'
+import { formatWindSpeedMphOnly } from '../utils/windSpeed'
+import { WIND_THRESHOLDS, type LocationAssessment, type StormThreat, type ThreatLevel } from '../utils/threatAssessment'
+import type { useLocationThreats } from '../hooks/useLocationThreats'
+import './LocationThreatPanel.css'
+
+type LocationThreats = ReturnType<typeof useLocationThreats>
+
+const LEVEL_COLORS: Record<ThreatLevel, string> = {
+  none: '#68d391',
+  low: '#f6e05e',
+  moderate: '#f6ad55',
+  high: '#fc8181',
+}
+
+const LEVEL_LABELS: Record<ThreatLevel, string> = {
+  none: 'No threat',
+  low: 'Low',
+  moderate: 'Moderate',
+  high: 'High',
+}
+
+// The NHC bands start at "<5%"; the Lambda gives each band its midpoint
+const formatProbability = (p: number | null) =>
+  p === null ? '—' : p < 5 ? '<5%' : p > 90 ? '>90%' : `~${Math.round(p)}%`
+
+const formatTime = (date: Date) =>
+  date.toLocaleString('en-US', { weekday: 'short', hour: 'numeric', minute: '2-digit' })
+
+const formatCoords = (lat: number, lon: number) =>
+  `${Math.abs(lat).toFixed(2)}°${lat >= 0 ? 'N' : 'S'} ${Math.abs(lon).toFixed(2)}°${lon >= 0 ? 'E' : 'W'}`
+
+// ─── Map layer (inside MapContainer) ──────────────────────────────────────────
+
+interface SavedLocationLayerProps {
+  threats: LocationThreats
+}
+
+export const SavedLocationLayer: React.FC<SavedLocationLayerProps> = ({ threats }) => {
+  const { assessments, placing, picked, pickPoint } = threats
+
+  useMapEvents({
+    click: e => { if (placing) pickPoint(e.latlng.lat, e.latlng.lng) },
+  })
+
+  return (
+    <>
+      {assessments.map(({ location, level }) => (
+        <CircleMarker
+          key={location.id}
+          center={[location.lat, location.lon]}
+          radius={7}
+          pathOptions={{ color: '#0f1b2d', weight: 2, fillColor: LEVEL_COLORS[level], fillOpacity: 1 }}
+        >
+          <Tooltip>{location.name}: {LEVEL_LABELS[level]}</Tooltip>
+        </CircleMarker>
+      ))}
+      {picked && (
+        <CircleMarker
+          center={picked}
+          radius={6}
+          pathOptions={{ color: '#00d4ff', weight: 2, fillOpacity: 0, dashArray: '3 3' }}
+          interactive={false}
+        />
+      )}
+    </>
+  )
+}
+
+// ─── Threat cards ─────────────────────────────────────────────────────────────
+
+const StormThreatDetail: React.FC<{ threat: StormThreat }> = ({ threat }) => {
+  const cpa = threat.closestApproach
+  return (
+    <div className="threat-storm">
+      <div className="threat-row">
+        <span className="threat-storm-name">
+          {threat.stormName}
+          {threat.advisoryNumber && <span className="threat-advisory"> · Adv {threat.advisoryNumber}</span>}
+        </span>
+        <span className="threat-badge" style={{ background: LEVEL_COLORS[threat.level] }}>{LEVEL_LABELS[threat.level]}</span>
+      </div>
+      {threat.inCone !== null && (
+        <div className="threat-detail">{threat.inCone ? 'Inside the forecast cone' : 'Outside the forecast cone'}</div>
+      )}
+      {cpa && (
+        <div className="threat-detail">
+          Closest approach {Math.round(cpa.distanceNm)} nm {compassPoint(cpa.bearingDeg)}, {formatTime(cpa.time)} (+{cpa.forecastHour}h)
+          {cpa.maxWindsKnots !== null && ` · ${formatWindSpeedMphOnly(cpa.maxWindsKnots)}`}
+        </div>
+      )}
+      {(threat.arrivalMostLikely || threat.arrivalEarliest) && (
+        <div className="threat-detail">
+          TS winds arrive {threat.arrivalMostLikely ? `${threat.arrivalMostLikely} (most likely)` : ''}
+          {threat.arrivalMostLikely && threat.arrivalEarliest ? ', ' : ''}
+          {threat.arrivalEarliest ? `${threat.arrivalEarliest} (earliest)` : ''}
+        </div>
+      )}
+      {threat.surge && (
+        <div className="threat-detail threat-surge">
+          Storm surge {threat.surge.range || (threat.surge.feet !== null ? `up to ${threat.surge.feet} ft` : 'zone')}
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface ThreatCardProps {
+  assessment: LocationAssessment
+  previousLevel?: ThreatLevel
+  onRemove: () => void
+}
+
+const ThreatCard: React.FC<ThreatCardProps> = ({ assessment, previousLevel, onRemove }) => {
+  const { location, level, windProbability, storms } = assessment
+  const changed = previousLevel !== undefined && previousLevel !== level
+
+  return (
+    <li className="threat-card" style={{ borderLeftColor: LEVEL_COLORS[level] }}>
+      <div className="threat-row">
+        <span className="threat-name">{location.name}</span>
+        <span className="threat-badge" style={{ background: LEVEL_COLORS[level] }}>{LEVEL_LABELS[level]}</span>
+        <button className="threat-remove" onClick={onRemove} aria-label={`Remove ${location.name}`}>×</button>
+      </div>
+      <div className="threat-detail">{formatCoords(location.lat, location.lon)}</div>
+      {changed && <div className="threat-change">Was {LEVEL_LABELS[previousLevel].toLowerCase()} at the previous advisory</div>}
+      <div className="threat-probabilities">
+        {WIND_THRESHOLDS.map(t => (
+          <span key={t}>{t.replace('kt', ' kt')}: <strong>{formatProbability(windProbability[t])}</strong></span>
+        ))}
+      </div>
+      {storms.filter(s => s.level !== 'none').map(s => <StormThreatDetail key={s.stormId} threat={s} />)}
+    </li>
+  )
+}
+
+// ─── Panel ────────────────────────────────────────────────────────────────────
+
+interface LocationThreatPanelProps {
+  threats: LocationThreats
+  stormCount: number
+  onClose: () => void
+}
+
+const LocationThreatPanel: React.FC<LocationThreatPanelProps> = ({ threats, stormCount, onClose }) => {
+  const { assessments, previousLevels, loading, addLocation, removeLocation, placing, setPlacing, picked } = threats
+  const [name, setName] = useState('')
+  const [lat, setLat] = useState('')
+  const [lon, setLon] = useState('')
+
+  // A point picked on the map fills in the coordinates
+  useEffect(() => {
+    if (!picked) return
+    setLat(picked[0].toFixed(3))
+    setLon(picked[1].toFixed(3))
+  }, [picked])
+
+  const canAdd = name.trim() !== '' && lat !== '' && lon !== '' && Number.isFinite(Number(lat)) && Number.isFinite(Number(lon))
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!canAdd) return
+    addLocation(name, Number(lat), Number(lon))
+    setName('')
+    setLat('')
+    setLon('')
+  }
+
+  return (
+    <div className="threat-panel">
+      <div className="threat-panel-header">
+        <h4>My Locations</h4>
+        <button className="threat-close" onClick={onClose} aria-label="Close my locations">×</button>
+      </div>
+
+      <p className="threat-summary">
+        {loading
+          ? 'Checking the latest advisories…'
+          : stormCount === 0
+            ? 'No active storms.'
+            : `Checked against ${stormCount} active storm${stormCount === 1 ? '' : 's'}.`}
+      </p>
+
+      {assessments.length > 0 && (
+        <ul className="threat-list">
+          {assessments.map(a => (
+            <ThreatCard
+              key={a.location.id}
+              assessment={a}
+              previousLevel={previousLevels[a.location.id]}
+              onRemove={() => removeLocation(a.location.id)}
+            />
+          ))}
+        </ul>
+      )}
+
+      <form className="threat-form" onSubmit={submit}>
+        <input type="text" placeholder="Name (e.g. Office)" value={name} onChange={e => setName(e.target.value)} />
+        <div className="threat-form-row">
+          <input type="number" step="any" min={-90} max={90} placeholder="Lat" value={lat} onChange={e => setLat(e.target.value)} />
+          <input type="number" step="any" min={-180} max={180} placeholder="Lon" value={lon} onChange={e => setLon(e.target.value)} />
+          <button type="button" className={`threat-button${placing ? ' active' : ''}`} onClick={() => setPlacing(!placing)}>
+            {placing ? 'Click map…' : 'Pick on map'}
+          </button>
+          <button type="submit" className="threat-button" disabled={!canAdd}>Add</button>
+        </div>
+      </form>
+    </div>
+  )
+}
+
+export default LocationThreatPanel
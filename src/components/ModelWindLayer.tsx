@@ -0,0 +1,35 @@
+import React, { useEffect } from 'react'
+import L from 'leaflet'
+import { useMap } from 'react-leaflet'
+import { colorizeWindSpeeds, type WindGrid } from '../utils/windGrid'
+
+interface ModelWindLayerProps {
+  grid: WindGrid
+  opacity?: number
+}
+
+// Model wind grid drawn as a single image overlay, coloured with the wind field palette
+const ModelWindLayer: React.FC<ModelWindLayerProps> = ({ grid, opacity = 0.8 }) => {
+  const map = useMap()
+
+  useEffect(() => {
+    const canvas = document.createElement('canvas')
+    canvas.width = grid.cols
+    canvas.height = grid.rows
+    const ctx = canvas.getContext('2d')!
+    const image = ctx.createImageData(grid.cols, grid.rows)
+    image.data.set(colorizeWindSpeeds(grid.speed))
+    ctx.putImageData(image, 0, 0)
+
+    const overlay = L.imageOverlay(
+      canvas.toDataURL('image/png'),
+      L.latLngBounds([grid.south, grid.west], [grid.north, grid.east]),
+      { opacity, interactive: false },
+    ).addTo(map)
+    return () => { overlay.remove() }
+  }, [map, grid, opacity])
+
+  return null
+}
+
+export default ModelWindLayer
@@ -0,0 +1,138 @@
+import React, { useMemo, useState } from 'react'
+import { ImageOverlay, Polygon, Popup, useMapEvents } from 'react-leaflet'
+import type { InundationBand, InundationFeature, SurgeInundation, WatchesWarnings } from '../types/nhc'
+import { INUNDATION_BANDS, queryInundation } from '../utils/surgeInundation'
+import { WATCH_WARNING_STYLES } from './WatchWarningLayer'
+
+// NHC's colours for the Potential Storm Surge Flooding graphic
+export const INUNDATION_STYLES: Record<InundationBand, { label: string; color: string }> = {
+  'up-to-3': { label: 'Up to 3 ft above ground', color: '#1e90ff' },
+  'over-3': { label: 'Greater than 3 ft above ground', color: '#ffff00' },
+  'over-6': { label: 'Greater than 6 ft above ground', color: '#ff9900' },
+  'over-9': { label: 'Greater than 9 ft above ground', color: '#ff0000' },
+}
+
+// Leaflet positions [lat, lon] of a feature, one entry per polygon (outer ring, then holes)
+const positionsOf = (f: InundationFeature): [number, number][][][] => {
+  const polygons = f.geometry.type === 'Polygon' ? [f.geometry.coordinates] : f.geometry.coordinates
+  return polygons.map(rings => rings.map(ring => ring.map(([lon, lat]) => [lat, lon] as [number, number])))
+}
+
+// ─── Map layer (inside MapContainer) ──────────────────────────────────────────
+
+interface SurgeInundationLayerProps {
+  inundation: SurgeInundation
+  /** Storm surge watches/warnings of the same storm, for the point query */
+  watches: WatchesWarnings | null
+  /** Off while another tool (location placing, analog search) owns map clicks */
+  queryEnabled: boolean
+}
+
+// Bands drawn shallowest first so the deeper ones sit on top; a raster graphic is drawn
+// as its images, which NHC has already coloured by band. Neither takes pointer events: a
+// click anywhere on the map queries that point instead.
+export const SurgeInundationLayer: React.FC<SurgeInundationLayerProps> = ({ inundation, watches, queryEnabled }) => {
+  const [point, setPoint] = useState<[number, number] | null>(null)
+
+  useMapEvents({
+    click: e => { if (queryEnabled) setPoint([e.latlng.lat, e.latlng.lng]) },
+  })
+
+  // Re-run when a new advisory replaces the bands or the warnings under an open popup
+  const query = useMemo(
+    () => (point ? queryInundation(inundation, watches, point[0], point[1]) : null),
+    [inundation, watches, point],
+  )
+
+  return (
+    <>
+      {inundation.overlays.map((o, i) => (
+        <ImageOverlay
+          key={`inundation-overlay-${i}`}
+          url={o.image}
+          bounds={[[o.bounds.south, o.bounds.west], [o.bounds.north, o.bounds.east]]}
+          opacity={0.8}
+          interactive={false}
+        />
+      ))}
+      {INUNDATION_BANDS.flatMap(band => inundation.bands.features
+        .filter(f => f.properties.band === band)
+        .map((f, i) => (
+          <Polygon
+            key={`inundation-${band}-${i}`}
+            positions={positionsOf(f)}
+            interactive={false}
+            pathOptions={{
+              color: INUNDATION_STYLES[band].color,
+              weight: 0.5,
+              fillColor: INUNDATION_STYLES[band].color,
+              fillOpacity: 0.6,
+            }}
+          />
+        )))}
+      {query && (
+        <Popup position={[query.lat, query.lon]} eventHandlers={{ remove: () => setPoint(null) }}>
+          <strong>Potential storm surge flooding</strong>
+          <div>
+            {query.band ? (
+              <span style={{ display: 'inline-flex', alignItems: 'center', gap: '4px', fontWeight: 600 }}>
+                <span style={{ width: '10px', height: '10px', backgroundColor: INUNDATION_STYLES[query.band.band].color, border: '1px solid #666' }} />
+                {INUNDATION_STYLES[query.band.band].label}
+              </span>
+            ) : inundation.bands.features.length > 0 ? 'Outside the flooding areas' : 'Depth as coloured on the map'}
+          </div>
+          <div>
+            {query.surgeStatus
+              ? <span style={{ color: WATCH_WARNING_STYLES[query.surgeStatus].color, fontWeight: 600 }}>{WATCH_WARNING_STYLES[query.surgeStatus].label}</span>
+              : 'No storm surge watch or warning'}
+          </div>
+          <div style={{ fontSize: '0.8em', color: '#666' }}>
+            {query.lat.toFixed(3)}, {query.lon.toFixed(3)}
+            {inundation.advisoryNumber ? ` · Advisory ${inundation.advisoryNumber}` : ''}
+          </div>
+        </Popup>
+      )}
+    </>
+  )
+}
+
+// ─── Legend ───────────────────────────────────────────────────────────────────
+
+interface SurgeInundationLegendProps {
+  inundation: SurgeInundation
+  stormName: string
+}
+
+export const SurgeInundationLegend: React.FC<SurgeInundationLegendProps> = ({ inundation, stormName }) => (
+  <div style={{
+    position: 'absolute',
+    bottom: '20px',
+    left: '20px',
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    padding: '10px',
+    borderRadius: '6px',
+    border: '1px solid #ddd',
+    fontSize: '0.75rem',
+    color: '#ffffff',
+    zIndex: 1000,
+    width: '220px',
+  }}>
+    <div style={{ fontWeight: 'bold', marginBottom: '6px', borderBottom: '1px solid #555', paddingBottom: '3px', fontSize: '0.8rem' }}>
+      Potential Storm Surge Flooding
+    </div>
+    <div style={{ color: 'rgba(255,255,255,0.7)', marginBottom: '4px' }}>
+      {stormName}{inundation.advisoryNumber ? ` · Advisory ${inundation.advisoryNumber}` : ''}
+    </div>
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '2px' }}>
+      {[...INUNDATION_BANDS].reverse().map(band => (
+        <div key={band} style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+          <div style={{ width: '16px', height: '10px', backgroundColor: INUNDATION_STYLES[band].color, flexShrink: 0 }} />
+          <span>{INUNDATION_STYLES[band].label}</span>
+        </div>
+      ))}
+    </div>
+    <div style={{ color: 'rgba(255,255,255,0.7)', marginTop: '6px' }}>
+      Click the map for the flooding and storm surge warning at a point
+    </div>
+  </div>
+)
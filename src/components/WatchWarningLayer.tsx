@@ -0,0 +1,111 @@
+import React from 'react'
+import { Polyline, Tooltip } from 'react-leaflet'
+import type { WatchesWarnings, WatchWarningType } from '../types/nhc'
+
+// NHC's colours for the coastal watch/warning bands
+export const WATCH_WARNING_STYLES: Record<WatchWarningType, { label: string; color: string }> = {
+  'storm-surge-warning': { label: 'Storm Surge Warning', color: '#b500e6' },
+  'storm-surge-watch': { label: 'Storm Surge Watch', color: '#d9a6ff' },
+  'hurricane-warning': { label: 'Hurricane Warning', color: '#ff0000' },
+  'hurricane-watch': { label: 'Hurricane Watch', color: '#ff9ecf' },
+  'tropical-storm-warning': { label: 'Tropical Storm Warning', color: '#0000ff' },
+  'tropical-storm-watch': { label: 'Tropical Storm Watch', color: '#ffff00' },
+}
+
+// Drawing order, bottom to top: the wider surge bands sit under the wind bands so both
+// show where they overlap, and warnings cover the watches they replace
+const DRAW_ORDER: WatchWarningType[] = [
+  'storm-surge-watch', 'storm-surge-warning',
+  'tropical-storm-watch', 'hurricane-watch', 'tropical-storm-warning', 'hurricane-warning',
+]
+
+const isSurge = (type: WatchWarningType) => type.startsWith('storm-surge')
+
+// ─── Map layer (inside MapContainer) ──────────────────────────────────────────
+
+interface WatchWarningLayerProps {
+  watches: WatchesWarnings[]
+  stormNames: Record<string, string>
+}
+
+export const WatchWarningLayer: React.FC<WatchWarningLayerProps> = ({ watches, stormNames }) => (
+  <>
+    {DRAW_ORDER.flatMap(type => watches.flatMap(w => w.segments.features
+      .filter(f => f.properties.type === type)
+      .map((f, i) => (
+        <Polyline
+          key={`${w.stormId}-${type}-${i}`}
+          positions={f.geometry.coordinates.map(([lon, lat]) => [lat, lon] as [number, number])}
+          pathOptions={{
+            color: WATCH_WARNING_STYLES[type].color,
+            weight: isSurge(type) ? 12 : 6,
+            opacity: isSurge(type) ? 0.7 : 0.95,
+            lineCap: 'butt',
+          }}
+        >
+          <Tooltip sticky>
+            <strong>{WATCH_WARNING_STYLES[type].label}</strong>
+            <div>{stormNames[w.stormId] ?? w.stormId}{w.advisoryNumber ? ` · Advisory ${w.advisoryNumber}` : ''}</div>
+            {f.properties.name && f.properties.name !== WATCH_WARNING_STYLES[type].label && (
+              <div style={{ fontSize: '0.8em', color: '#666' }}>{f.properties.name}</div>
+            )}
+          </Tooltip>
+        </Polyline>
+      ))))}
+  </>
+)
+
+// ─── Legend and breakpoints ───────────────────────────────────────────────────
+
+export const WatchWarningLegend: React.FC<WatchWarningLayerProps> = ({ watches, stormNames }) => {
+  const shown = new Set(watches.flatMap(w => [
+    ...w.segments.features.map(f => f.properties.type),
+    ...w.breakpoints.map(b => b.type),
+  ]))
+
+  return (
+    <div style={{
+      position: 'absolute',
+      bottom: '20px',
+      right: '20px',
+      backgroundColor: 'rgba(0, 0, 0, 0.7)',
+      padding: '10px',
+      borderRadius: '6px',
+      border: '1px solid #ddd',
+      fontSize: '0.75rem',
+      color: '#ffffff',
+      zIndex: 1000,
+      width: '260px',
+      maxHeight: '45vh',
+      overflowY: 'auto',
+    }}>
+      <div style={{ fontWeight: 'bold', marginBottom: '6px', borderBottom: '1px solid #555', paddingBottom: '3px', fontSize: '0.8rem' }}>
+        Watches &amp; Warnings
+      </div>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '2px' }}>
+        {[...DRAW_ORDER].reverse().filter(type => shown.has(type)).map(type => (
+          <div key={type} style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <div style={{ width: '16px', height: isSurge(type) ? '8px' : '5px', backgroundColor: WATCH_WARNING_STYLES[type].color, flexShrink: 0 }} />
+            <span>{WATCH_WARNING_STYLES[type].label}</span>
+          </div>
+        ))}
+      </div>
+      {watches.filter(w => w.breakpoints.length > 0).map(w => (
+        <div key={w.stormId} style={{ marginTop: '8px', borderTop: '1px solid #555', paddingTop: '4px' }}>
+          <div style={{ fontWeight: 'bold' }}>
+            {stormNames[w.stormId] ?? w.stormId}
+            {w.advisoryNumber && <span style={{ fontWeight: 'normal', color: 'rgba(255,255,255,0.6)' }}> · Advisory {w.advisoryNumber}</span>}
+          </div>
+          {w.breakpoints.map(group => (
+            <div key={group.type} style={{ marginTop: '4px' }}>
+              <div style={{ color: WATCH_WARNING_STYLES[group.type].color, fontWeight: 600 }}>{group.label}</div>
+              <ul style={{ margin: '2px 0 0', paddingLeft: '16px' }}>
+                {group.areas.map(area => <li key={area}>{area}</li>)}
+              </ul>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,146 @@
+import React from 'react'
+import { Polygon, Tooltip } from 'react-leaflet'
+import type { WindRadiiFeature } from '../types/nhc'
+import { QUADRANTS } from '../utils/windField'
+import { quadrantOutline, type HourComparison, type RadiiThreshold } from '../utils/windRadii'
+
+export const RADII_COLORS: Record<RadiiThreshold, string> = {
+  34: '#f6c343',
+  50: '#ff8c00',
+  64: '#d32f2f',
+}
+
+// Model/NHC difference (nm) beyond which a quadrant counts as a disagreement
+const DISAGREEMENT_NM = 15
+
+const hourLabel = (hour: number | null) => (hour === 0 ? 'Initial' : hour == null ? 'Forecast' : `+${hour} h`)
+
+// ─── Map layer (inside MapContainer) ──────────────────────────────────────────
+
+interface WindRadiiLayerProps {
+  features: WindRadiiFeature[]
+  thresholds: RadiiThreshold[]
+  /** Model radii drawn as dashed outlines over NHC's, one per compared hour */
+  comparisons: HourComparison[]
+  modelLabel: string
+}
+
+// NHC's radii as filled quadrant polygons, 34 kt underneath; the model's radii for the
+// same hours as dashed outlines on top
+export const WindRadiiLayer: React.FC<WindRadiiLayerProps> = ({ features, thresholds, comparisons, modelLabel }) => (
+  <>
+    {[...features]
+      .sort((a, b) => a.properties.thresholdKt - b.properties.thresholdKt)
+      .map((f, i) => (
+        <Polygon
+          key={`nhc-radii-${i}`}
+          positions={f.geometry.coordinates[0].map(([lon, lat]) => [lat, lon] as [number, number])}
+          pathOptions={{
+            color: RADII_COLORS[f.properties.thresholdKt],
+            weight: 1.5,
+            fillColor: RADII_COLORS[f.properties.thresholdKt],
+            fillOpacity: 0.18,
+          }}
+        >
+          <Tooltip sticky>
+            <strong>NHC {f.properties.thresholdKt}-kt radii · {hourLabel(f.properties.forecastHour)}</strong>
+            {f.properties.radii && (
+              <div>{QUADRANTS.map((q, k) => `${q} ${f.properties.radii![k]}`).join(' · ')} nm</div>
+            )}
+          </Tooltip>
+        </Polygon>
+      ))}
+    {comparisons.flatMap(c => c.thresholds
+      .filter(t => thresholds.includes(t.thresholdKt) && t.model.some(r => r > 0))
+      .map(t => (
+        <Polygon
+          key={`model-radii-${c.forecastHour}-${t.thresholdKt}`}
+          positions={quadrantOutline(c.centre[0], c.centre[1], t.model)}
+          pathOptions={{ color: RADII_COLORS[t.thresholdKt], weight: 2, fill: false, dashArray: '6 4' }}
+        >
+          <Tooltip sticky>
+            <strong>{modelLabel} {t.thresholdKt}-kt radii · {hourLabel(c.forecastHour)}</strong>
+            <div>{QUADRANTS.map((q, k) => `${q} ${t.model[k]}`).join(' · ')} nm</div>
+          </Tooltip>
+        </Polygon>
+      )))}
+  </>
+)
+
+// ─── Legend and comparison ────────────────────────────────────────────────────
+
+interface WindRadiiLegendProps {
+  thresholds: RadiiThreshold[]
+  comparisons: HourComparison[]
+  modelLabel: string
+}
+
+export const WindRadiiLegend: React.FC<WindRadiiLegendProps> = ({ thresholds, comparisons, modelLabel }) => (
+  <div style={{
+    position: 'absolute',
+    bottom: '20px',
+    left: '20px',
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    padding: '10px',
+    borderRadius: '6px',
+    border: '1px solid #ddd',
+    fontSize: '0.75rem',
+    color: '#ffffff',
+    zIndex: 1000,
+    minWidth: '220px',
+    maxHeight: '50vh',
+    overflowY: 'auto',
+  }}>
+    <div style={{ fontWeight: 'bold', marginBottom: '6px', borderBottom: '1px solid #555', paddingBottom: '3px', fontSize: '0.8rem' }}>
+      Wind Radii · NHC vs {modelLabel}
+    </div>
+    <div style={{ display: 'flex', gap: '10px', marginBottom: '4px' }}>
+      {thresholds.map(kt => (
+        <div key={kt} style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+          <div style={{ width: '14px', height: '10px', backgroundColor: RADII_COLORS[kt], opacity: 0.8, flexShrink: 0 }} />
+          <span>{kt} kt</span>
+        </div>
+      ))}
+    </div>
+    <div style={{ color: 'rgba(255,255,255,0.7)', marginBottom: '4px' }}>
+      Filled: NHC · dashed: {modelLabel} · NHC/model nm, red = off by more than {DISAGREEMENT_NM} nm
+    </div>
+    {comparisons.length === 0 && (
+      <div style={{ color: 'rgba(255,255,255,0.7)' }}>No advisory radii to compare with</div>
+    )}
+    {comparisons.map(c => (
+      <div key={c.forecastHour} style={{ marginTop: '6px', borderTop: '1px solid #555', paddingTop: '4px' }}>
+        <div style={{ fontWeight: 'bold' }}>
+          {hourLabel(c.forecastHour)}
+          {c.meanErrorNm !== null && <span style={{ fontWeight: 'normal', color: 'rgba(255,255,255,0.6)' }}> · ±{c.meanErrorNm.toFixed(0)} nm</span>}
+        </div>
+        <table style={{ borderCollapse: 'collapse', width: '100%' }}>
+          <thead>
+            <tr>
+              <th />
+              {QUADRANTS.map(q => <th key={q} style={{ fontWeight: 'normal', color: 'rgba(255,255,255,0.6)', textAlign: 'right' }}>{q}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {c.thresholds.filter(t => thresholds.includes(t.thresholdKt)).map(t => (
+              <tr key={t.thresholdKt}>
+                <th style={{ textAlign: 'left', color: RADII_COLORS[t.thresholdKt] }}>{t.thresholdKt}</th>
+                {t.nhc.map((r, q) => (
+                  <td
+                    key={q}
+                    style={{
+                      textAlign: 'right',
+                      color: Math.abs(t.model[q] - r) > DISAGREEMENT_NM ? '#ff6b6b' : '#ffffff',
+                    }}
+                  >
+                    {r || '—'}/{t.model[q] || '—'}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    ))}
+  </div>
+)
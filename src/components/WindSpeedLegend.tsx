@@ -3,28 +3,31 @@ import './WindSpeedLegend.css'
 
 interface WindSpeedLegendProps {
   visible: boolean
-  modelType: 'HWRF' | 'HMON'
+  /** Model name shown in the header, e.g. HAFS-A */
+  model: string
+  validTime?: string | null
 }
 
-const WindSpeedLegend: React.FC<WindSpeedLegendProps> = ({ visible, modelType }) => {
-  if (!visible) return null
+// Bands and colours of the wind raster (windToRGBA)
+const windLevels = [
+  { speed: 137, color: 'rgb(140, 0, 210)', label: '137+ kt' },
+  { speed: 113, color: 'rgb(175, 0, 90)', label: '113-136 kt' },
+  { speed: 96, color: 'rgb(220, 0, 0)', label: '96-112 kt' },
+  { speed: 83, color: 'rgb(255, 70, 0)', label: '83-95 kt' },
+  { speed: 64, color: 'rgb(255, 155, 0)', label: '64-82 kt' },
+  { speed: 50, color: 'rgb(255, 235, 0)', label: '50-63 kt' },
+  { speed: 34, color: 'rgb(80, 210, 100)', label: '34-49 kt' },
+  { speed: 18, color: 'rgb(130, 220, 255)', label: '18-33 kt' },
+]
 
-  const windLevels = [
-    { speed: 140, color: '#4B0000', label: '140+ kt' },
-    { speed: 120, color: '#8B0000', label: '120-139 kt' },
-    { speed: 100, color: '#DC143C', label: '100-119 kt' },
-    { speed: 80, color: '#FF6347', label: '80-99 kt' },
-    { speed: 60, color: '#FF8C00', label: '60-79 kt' },
-    { speed: 45, color: '#FFD700', label: '45-59 kt' },
-    { speed: 30, color: '#ADFF2F', label: '30-44 kt' },
-    { speed: 15, color: '#87CEFA', label: '15-29 kt' },
-  ]
+const WindSpeedLegend: React.FC<WindSpeedLegendProps> = ({ visible, model, validTime }) => {
+  if (!visible) return null
 
   return (
     <div className="wind-speed-legend">
       <div className="legend-header">
-        <h4>{modelType} Wind Field</h4>
-        <span className="legend-subtitle">Wind Speed (knots)</span>
+        <h4>{model} Wind Field</h4>
+        <span className="legend-subtitle">10-m wind speed (knots)</span>
       </div>
       <div className="legend-items">
         {windLevels.map((level) => (
@@ -39,10 +42,8 @@ const WindSpeedLegend: React.FC<WindSpeedLegendProps> = ({ visible, modelType })
       </div>
       <div className="legend-note">
         <small>
-          {modelType === 'HWRF' 
-            ? 'Hurricane Weather Research & Forecasting Model' 
-            : 'Hurricane Multiscale Ocean-coupled Non-hydrostatic Model'
-          }
+          Hurricane Analysis and Forecast System
+          {validTime && ` · valid ${new Date(validTime).toUTCString().slice(5, 22)} UTC`}
         </small>
       </div>
     </div>
@@ -0,0 +1,139 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { InvestArea, ProcessedStorm } from '../types/nhc'
+import {
+  diffSnapshots, takeSnapshot, ALERT_TYPES,
+  type AlertEvent, type AlertSnapshot, type AlertType,
+} from '../utils/advisoryAlerts'
+import type { SavedLocation } from '../utils/threatAssessment'
+import {
+  getPushState, requestNotificationPermission, showAlert, subscribeToPush, unsubscribeFromPush,
+  type PushState,
+} from '../services/pushAlerts'
+
+const SNAPSHOT_KEY = 'cyclotrak.alertSnapshot'
+const TYPES_KEY = 'cyclotrak.alertTypes'
+const MAX_RECENT = 20
+// A snapshot older than this (alerts were off, or the tab was closed) is replaced without
+// raising a backlog of stale alerts
+const STALE_SNAPSHOT_MS = 6 * 3_600_000
+
+function load<T>(key: string, fallback: T): T {
+  try {
+    const saved = localStorage.getItem(key)
+    if (saved) return JSON.parse(saved)
+  } catch {
+    // Unreadable storage falls back to the default
+  }
+  return fallback
+}
+
+function store(key: string, value: unknown) {
+  try {
+    localStorage.setItem(key, JSON.stringify(value))
+  } catch (e) {
+    console.warn(`Could not save ${key}:`, e)
+  }
+}
+
+export interface RaisedAlert {
+  event: AlertEvent
+  raisedAt: Date
+}
+
+// Hook for advisory-change alerts: diffs each successful useNHCData refresh (keyed on
+// lastUpdated, so a failed fetch that empties the storm list raises nothing) against the
+// last snapshot, kept in localStorage so reloading the page neither repeats nor misses
+// alerts. Alerts of the chosen types are shown as notifications while the tab is open;
+// the push subscription covers the time it isn't.
+export const useAdvisoryAlerts = (
+  enabled: boolean,
+  storms: ProcessedStorm[],
+  invests: InvestArea[],
+  locations: SavedLocation[],
+  lastUpdated: Date | null,
+) => {
+  const [types, setTypes] = useState<AlertType[]>(() => load(TYPES_KEY, ALERT_TYPES))
+  const [recent, setRecent] = useState<RaisedAlert[]>([])
+  const [pushState, setPushState] = useState<PushState>('off')
+  const [pushError, setPushError] = useState<string | null>(null)
+
+  useEffect(() => {
+    getPushState().then(setPushState).catch(() => setPushState('unsupported'))
+  }, [])
+
+  useEffect(() => {
+    if (enabled) requestNotificationPermission().catch(err => console.warn('Could not request notification permission:', err))
+  }, [enabled])
+
+  // Latest inputs for the diff, which runs only when lastUpdated changes
+  const inputs = useRef({ storms, invests, locations, types })
+  inputs.current = { storms, invests, locations, types }
+
+  useEffect(() => {
+    if (!enabled || !lastUpdated) return
+    const { storms, invests, locations, types } = inputs.current
+    const next = takeSnapshot(storms, invests, locations)
+    const previous = load<AlertSnapshot | null>(SNAPSHOT_KEY, null)
+    store(SNAPSHOT_KEY, next)
+    if (!previous || Date.now() - Date.parse(previous.takenAt) > STALE_SNAPSHOT_MS) return
+
+    const events = diffSnapshots(previous, next, locations).filter(e => types.includes(e.type))
+    if (events.length === 0) return
+    const raisedAt = new Date()
+    setRecent(prev => [...events.map(event => ({ event, raisedAt })), ...prev].slice(0, MAX_RECENT))
+    events.forEach(e => showAlert(e).catch(err => console.warn('Could not show alert:', err)))
+  }, [enabled, lastUpdated])
+
+  const toggleType = useCallback((type: AlertType) => {
+    setTypes(prev => {
+      const next = prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]
+      store(TYPES_KEY, next)
+      return next
+    })
+  }, [])
+
+  // ── Push ─────────────────────────────────────────────────────────────────────
+
+  // The Lambda keeps its own copy of the types and locations; send it any change
+  const sentPreferences = useRef<string | null>(null)
+  useEffect(() => {
+    const preferences = JSON.stringify({ types, locations })
+    if (pushState !== 'on' || preferences === sentPreferences.current) return
+    sentPreferences.current = preferences
+    subscribeToPush(types, locations).catch(e => setPushError(e.message ?? 'Could not update push alerts'))
+  }, [pushState, types, locations])
+
+  const enablePush = useCallback(async () => {
+    setPushError(null)
+    try {
+      await subscribeToPush(types, locations)
+      sentPreferences.current = JSON.stringify({ types, locations })
+      setPushState('on')
+    } catch (e: any) {
+      setPushError(e.message ?? 'Could not enable push alerts')
+      setPushState(await getPushState())
+    }
+  }, [types, locations])
+
+  const disablePush = useCallback(async () => {
+    setPushError(null)
+    try {
+      await unsubscribeFromPush()
+      setPushState('off')
+    } catch (e: any) {
+      setPushError(e.message ?? 'Could not turn off push alerts')
+      setPushState(await getPushState())
+    }
+  }, [])
+
+  return {
+    types,
+    toggleType,
+    /** Alerts raised in this session, newest first */
+    recent,
+    pushState,
+    pushError,
+    enablePush,
+    disablePush,
+  }
+}
@@ -0,0 +1,124 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import NHCApiService from '../services/nhcApi'
+import {
+  buildConsensus, verificationWeights, DEFAULT_CONSENSUS,
+  type ConsensusDefinition, type ConsensusMemberTrack, type ConsensusWeights,
+} from '../utils/consensus'
+
+const STORAGE_KEY = 'cyclotrak.consensusDefinitions'
+
+function loadDefinitions(): ConsensusDefinition[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]')
+    if (Array.isArray(saved) && saved.length > 0) return saved
+  } catch {
+    // Unreadable storage falls back to the built-in definition
+  }
+  return [DEFAULT_CONSENSUS]
+}
+
+function storeDefinitions(definitions: ConsensusDefinition[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(definitions))
+  } catch (e) {
+    console.warn('Could not save consensus definitions:', e)
+  }
+}
+
+// Hook for the user-defined consensus track: keeps the named definitions in localStorage,
+// holds the one being edited, and rebuilds the track from the storm's latest A-deck
+// cycle. Verification weights come from the storm's season and basin and are fetched
+// only when a definition asks for them.
+export const useConsensusTrack = (
+  stormId: string | null,
+  tracks: ConsensusMemberTrack[] | null,
+) => {
+  const [definitions, setDefinitions] = useState<ConsensusDefinition[]>(loadDefinitions)
+  const [draft, setDraft] = useState<ConsensusDefinition>(() => definitions[0])
+  const [weights, setWeights] = useState<ConsensusWeights | null>(null)
+  const [weightsLoading, setWeightsLoading] = useState(false)
+
+  const season = stormId ? parseInt(stormId.slice(4, 8), 10) : null
+  const basin = stormId ? stormId.slice(0, 2).toUpperCase() : null
+  const wantsWeights = draft.weighting === 'verification'
+
+  useEffect(() => {
+    let cancelled = false
+    if (!wantsWeights || !season || !basin) {
+      setWeights(null)
+      return
+    }
+    setWeightsLoading(true)
+    new NHCApiService().getModelVerification(season, basin)
+      .then(stats => { if (!cancelled) setWeights(stats.length ? verificationWeights(stats) : null) })
+      .finally(() => { if (!cancelled) setWeightsLoading(false) })
+    return () => { cancelled = true }
+  }, [wantsWeights, season, basin])
+
+  const track = useMemo(
+    () => (tracks ? buildConsensus(tracks, draft, weights) : []),
+    [tracks, draft, weights],
+  )
+
+  // ── Definitions ──────────────────────────────────────────────────────────────
+
+  const selectDefinition = useCallback((id: string) => {
+    const def = definitions.find(d => d.id === id)
+    if (def) setDraft(def)
+  }, [definitions])
+
+  const toggleMember = useCallback((modelId: string) => {
+    setDraft(prev => ({
+      ...prev,
+      members: prev.members.includes(modelId)
+        ? prev.members.filter(m => m !== modelId)
+        : [...prev.members, modelId],
+    }))
+  }, [])
+
+  const updateDraft = useCallback((patch: Partial<Omit<ConsensusDefinition, 'id' | 'members'>>) => {
+    setDraft(prev => ({ ...prev, ...patch }))
+  }, [])
+
+  // Saving under a new name adds a definition; saving under an existing one replaces it
+  const saveDraft = useCallback((name: string) => {
+    const trimmed = name.trim()
+    if (!trimmed) return
+    const existing = definitions.find(d => d.name.toLowerCase() === trimmed.toLowerCase())
+    const saved: ConsensusDefinition = { ...draft, name: trimmed, id: existing?.id ?? `c${Date.now().toString(36)}` }
+    const next = existing
+      ? definitions.map(d => (d.id === existing.id ? saved : d))
+      : [...definitions, saved]
+    setDefinitions(next)
+    storeDefinitions(next)
+    setDraft(saved)
+  }, [definitions, draft])
+
+  const deleteDefinition = useCallback((id: string) => {
+    const remaining = definitions.filter(d => d.id !== id)
+    const next = remaining.length ? remaining : [DEFAULT_CONSENSUS]
+    setDefinitions(next)
+    storeDefinitions(next)
+    if (draft.id === id) setDraft(next[0])
+  }, [definitions, draft.id])
+
+  const isDirty = useMemo(() => {
+    const saved = definitions.find(d => d.id === draft.id)
+    return !saved || JSON.stringify(saved) !== JSON.stringify(draft)
+  }, [definitions, draft])
+
+  return {
+    definitions,
+    draft,
+    isDirty,
+    selectDefinition,
+    toggleMember,
+    updateDraft,
+    saveDraft,
+    deleteDefinition,
+    track,
+    weightsLoading,
+    /** False when verification weighting is requested but no statistics exist */
+    weightsAvailable: !wantsWeights || weights !== null,
+  }
+}
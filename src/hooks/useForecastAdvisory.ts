@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react'
+import NHCApiService from '../services/nhcApi'
+import { ForecastAdvisory } from '../types/nhc'
+
+// Hook for one forecast/advisory (TCM) product, live or archived, parsed into wind radii
+export const useForecastAdvisory = (stormId: string | null, advisoryNumber: string | null) => {
+  const [advisory, setAdvisory] = useState<ForecastAdvisory | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    const run = async () => {
+      if (!stormId || !advisoryNumber) {
+        setAdvisory(null)
+        return
+      }
+      setLoading(true)
+      setError(null)
+      try {
+        const api = new NHCApiService(false)
+        const data = await api.getForecastAdvisory({ stormId, advisoryNumber })
+        if (cancelled) return
+        setAdvisory(data)
+        if (!data) setError(`Advisory ${advisoryNumber} for ${stormId} is not available`)
+      } catch (err) {
+        if (!cancelled) {
+          setAdvisory(null)
+          setError(err instanceof Error ? err.message : 'Failed to fetch forecast advisory')
+        }
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+    run()
+    return () => { cancelled = true }
+  }, [stormId, advisoryNumber])
+
+  return { advisory, loading, error }
+}
@@ -21,7 +21,7 @@ export const useGEFSEnsemble = (stormId: string | null, year: number | null) =>
       setLoading(true);
       setError(null);
       try {
-        const api = new NHCApiService(true, false);
+        const api = new NHCApiService(false);
         const resp = await api.getGEFSAdeckTracks(stormId);
         if (!cancelled) {
           // Transform API response to match expected interface
@@ -0,0 +1,50 @@
+import { useEffect, useMemo, useState } from 'react'
+import NHCApiService from '../services/nhcApi'
+import type { HafsModelId } from '../types/nhc'
+import { decodeHafsWindField, modelWindToWindGrid, HAFS_MODELS, type ModelWindField } from '../utils/modelWind'
+
+// Hook for one HAFS model wind field (10-m winds at a forecast hour of the latest cycle),
+// decoded and resampled for the raster overlay. Fetches only while enabled.
+export const useHafsWindField = (
+  stormId: string | null,
+  model: HafsModelId,
+  forecastHour: number,
+  enabled: boolean,
+) => {
+  const [field, setField] = useState<ModelWindField | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    const run = async () => {
+      if (!enabled || !stormId) {
+        setField(null)
+        setError(null)
+        return
+      }
+      setLoading(true)
+      setError(null)
+      try {
+        const api = new NHCApiService(false)
+        const data = await api.getHafsWindField(stormId, model, forecastHour)
+        if (cancelled) return
+        setField(data ? decodeHafsWindField(data) : null)
+        if (!data) setError(`No ${HAFS_MODELS[model].label} output for ${stormId} at ${forecastHour} h`)
+      } catch (err) {
+        if (!cancelled) {
+          setField(null)
+          setError(err instanceof Error ? err.message : `Failed to fetch ${HAFS_MODELS[model].label} wind field`)
+        }
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+    run()
+    return () => { cancelled = true }
+  }, [stormId, model, forecastHour, enabled])
+
+  const grid = useMemo(() => (field ? modelWindToWindGrid(field) : null), [field])
+
+  return { field, grid, loading, error }
+}
@@ -0,0 +1,123 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import type { HurdatStorm } from '../types/nhc'
+import { getAllHurdatStorms, importHurdat2, loadBundledHurdat2 } from '../services/hurdatStore'
+import { findAnalogs, filterAnalogs, sortAnalogs, type AnalogArea, type AnalogFilter, type AnalogSort } from '../utils/analogs'
+
+export type AnalogDrawMode = 'circle' | 'polygon'
+
+// Hook for the historical analog search: loads the HURDAT2 store the first time it is
+// enabled (a failed load is only retried on request), tracks the area being drawn on the
+// map and re-runs the search whenever the area changes. Filtering and sorting don't
+// re-search.
+export const useHistoricalAnalogs = (enabled: boolean) => {
+  const [storms, setStorms] = useState<HurdatStorm[] | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [area, setArea] = useState<AnalogArea | null>(null)
+  const [filter, setFilter] = useState<AnalogFilter>({ minCategory: 0 })
+  const [sort, setSort] = useState<AnalogSort>('distance')
+  const [mode, setMode] = useState<AnalogDrawMode>('circle')
+  const [radiusNm, setRadiusNm] = useState(50)
+  const [draft, setDraft] = useState<[number, number][]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const attempted = useRef(false)
+
+  const loadStore = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      await loadBundledHurdat2()
+      setStorms(await getAllHurdatStorms())
+    } catch (e: any) {
+      setError(e.message ?? 'Best-track database unavailable')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!enabled || attempted.current) return
+    attempted.current = true
+    loadStore()
+  }, [enabled, loadStore])
+
+  const importFile = useCallback(async (file: File) => {
+    setLoading(true)
+    setError(null)
+    try {
+      await importHurdat2(await file.text(), file.name)
+      setStorms(await getAllHurdatStorms())
+    } catch (e: any) {
+      setError(e.message ?? 'Import failed')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  // ── Drawing ──────────────────────────────────────────────────────────────────
+
+  const changeMode = useCallback((next: AnalogDrawMode) => {
+    setMode(next)
+    setDraft([])
+    setArea(null)
+    setSelectedId(null)
+  }, [])
+
+  const changeRadius = useCallback((nm: number) => {
+    setRadiusNm(nm)
+    setArea(prev => (prev?.kind === 'circle' ? { ...prev, radiusNm: nm } : prev))
+  }, [])
+
+  // A map click centres the circle, or adds a polygon vertex
+  const pickPoint = useCallback((lat: number, lon: number) => {
+    setSelectedId(null)
+    if (mode === 'circle') setArea({ kind: 'circle', lat, lon, radiusNm })
+    // Both clicks of the double-click that closes a polygon land here; keep one vertex
+    else setDraft(prev => {
+      const last = prev[prev.length - 1]
+      return last && Math.abs(last[0] - lat) < 1e-6 && Math.abs(last[1] - lon) < 1e-6 ? prev : [...prev, [lat, lon]]
+    })
+  }, [mode, radiusNm])
+
+  const closePolygon = useCallback(() => {
+    if (draft.length < 3) return
+    setArea({ kind: 'polygon', vertices: draft })
+    setDraft([])
+  }, [draft])
+
+  const clear = useCallback(() => {
+    setDraft([])
+    setArea(null)
+    setSelectedId(null)
+  }, [])
+
+  const hits = useMemo(
+    () => (storms && area ? findAnalogs(storms, area) : []),
+    [storms, area],
+  )
+  const results = useMemo(() => sortAnalogs(filterAnalogs(hits, filter), sort), [hits, filter, sort])
+
+  return {
+    stormCount: storms?.length ?? 0,
+    loading,
+    error,
+    area,
+    mode,
+    changeMode,
+    radiusNm,
+    changeRadius,
+    draft,
+    pickPoint,
+    closePolygon,
+    clear,
+    selectedId,
+    setSelectedId,
+    filter,
+    setFilter,
+    sort,
+    setSort,
+    results,
+    importFile,
+    retry: loadStore,
+  }
+}
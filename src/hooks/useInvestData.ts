@@ -5,7 +5,6 @@ import { InvestArea } from '../types/nhc'
 interface UseInvestDataOptions {
   autoRefresh?: boolean
   refreshInterval?: number
-  useProxy?: boolean
   fetchOnMount?: boolean
 }
 
@@ -22,7 +21,6 @@ export const useInvestData = (options: UseInvestDataOptions = {}): UseInvestData
   const {
     autoRefresh = true,
     refreshInterval = 15 * 60 * 1000, // 15 minutes (invest data updates less frequently)
-    useProxy = false,
     fetchOnMount = true
   } = options
 
@@ -37,7 +35,7 @@ export const useInvestData = (options: UseInvestDataOptions = {}): UseInvestData
       setError(null)
 
       console.log('🔍 Starting invest data fetch...')
-      const nhcApiInstance = new NHCApiService(useProxy, false) // Don't need track data for invests
+      const nhcApiInstance = new NHCApiService(false) // Don't need track data for invests
       const investAreas = await nhcApiInstance.getInvestAreas()
       
       console.log('📊 Invest areas received:', investAreas)
@@ -88,7 +86,7 @@ export const useInvestData = (options: UseInvestDataOptions = {}): UseInvestData
     } finally {
       setLoading(false)
     }
-  }, [useProxy, invests.length])
+  }, [invests.length])
 
   const refresh = useCallback(async () => {
     await fetchInvests()
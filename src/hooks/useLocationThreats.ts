@@ -0,0 +1,133 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import NHCApiService from '../services/nhcApi'
+import type { ProcessedStorm } from '../types/nhc'
+import {
+  assessLocation, WIND_THRESHOLDS,
+  type LocationAssessment, type ProductFeatureCollection, type SavedLocation, type StormProducts,
+  type ThreatLevel, type WindThreshold,
+} from '../utils/threatAssessment'
+
+const STORAGE_KEY = 'cyclotrak.savedLocations'
+
+function loadLocations(): SavedLocation[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]')
+    if (Array.isArray(saved)) return saved
+  } catch {
+    // Unreadable storage starts with no locations
+  }
+  return []
+}
+
+function storeLocations(locations: SavedLocation[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(locations))
+  } catch (e) {
+    console.warn('Could not save locations:', e)
+  }
+}
+
+const NO_PROBABILITIES: Record<WindThreshold, ProductFeatureCollection | null> = { '34kt': null, '50kt': null, '64kt': null }
+
+// Storms and advisory numbers the assessments were made for
+const advisoryKey = (storms: ProcessedStorm[]) =>
+  storms.map(s => `${s.id}:${s.advisoryNumber ?? s.lastUpdate.toISOString()}`).sort().join(',')
+
+// Hook for saved locations and their threat assessment: keeps the locations in
+// localStorage and, once enabled, fetches the wind probability, wind arrival and surge
+// products for the storms from useNHCData. Every refresh of those storms re-runs the
+// fetch (served from the pipeline cache until a new advisory is out). Levels from the
+// previous advisory are kept so the panel can show what changed.
+export const useLocationThreats = (enabled: boolean, storms: ProcessedStorm[]) => {
+  const [locations, setLocations] = useState<SavedLocation[]>(loadLocations)
+  const [stormProducts, setStormProducts] = useState<StormProducts[]>([])
+  const [windProbability, setWindProbability] = useState(NO_PROBABILITIES)
+  const [loading, setLoading] = useState(false)
+  const [previousLevels, setPreviousLevels] = useState<Record<string, ThreatLevel>>({})
+  const [placing, setPlacing] = useState(false)
+  const [picked, setPicked] = useState<[number, number] | null>(null)
+
+  const hasLocations = locations.length > 0
+  useEffect(() => {
+    let cancelled = false
+    if (!enabled || !hasLocations) return
+    if (storms.length === 0) {
+      setStormProducts([])
+      setWindProbability(NO_PROBABILITIES)
+      return
+    }
+
+    setLoading(true)
+    const api = new NHCApiService(false)
+    Promise.all([
+      Promise.all(WIND_THRESHOLDS.map(t => api.getWindSpeedProbability(t))),
+      Promise.all(storms.map(async (storm): Promise<StormProducts> => {
+        const [arrivalMostLikely, arrivalEarliest, surge] = await Promise.all([
+          api.getWindArrival(storm.id, 'most-likely'),
+          api.getWindArrival(storm.id, 'earliest'),
+          api.getStormSurge(storm.id),
+        ])
+        return { storm, arrivalMostLikely, arrivalEarliest, surge }
+      })),
+    ])
+      .then(([probabilities, products]) => {
+        if (cancelled) return
+        setWindProbability({ '34kt': probabilities[0], '50kt': probabilities[1], '64kt': probabilities[2] })
+        setStormProducts(products)
+      })
+      .finally(() => { if (!cancelled) setLoading(false) })
+    return () => { cancelled = true }
+  }, [enabled, storms, hasLocations])
+
+  const assessments = useMemo<LocationAssessment[]>(
+    () => locations.map(location => assessLocation(location, stormProducts, windProbability)),
+    [locations, stormProducts, windProbability],
+  )
+
+  // When a new advisory comes in, remember the levels the last one gave
+  const assessedFor = useRef<{ key: string; levels: Record<string, ThreatLevel> } | null>(null)
+  useEffect(() => {
+    const key = advisoryKey(stormProducts.map(p => p.storm))
+    const levels = Object.fromEntries(assessments.map(a => [a.location.id, a.level]))
+    const last = assessedFor.current
+    if (last && last.key !== key) setPreviousLevels(last.levels)
+    assessedFor.current = { key, levels }
+  }, [assessments, stormProducts])
+
+  // ── Locations ────────────────────────────────────────────────────────────────
+
+  // A map click while placing fills in the new location's coordinates
+  const pickPoint = useCallback((lat: number, lon: number) => {
+    setPicked([lat, lon])
+    setPlacing(false)
+  }, [])
+
+  const addLocation = useCallback((name: string, lat: number, lon: number) => {
+    const trimmed = name.trim()
+    if (!trimmed || !Number.isFinite(lat) || Math.abs(lat) > 90 || !Number.isFinite(lon)) return
+    const next = [...locations, { id: `l${Date.now().toString(36)}`, name: trimmed, lat, lon }]
+    setLocations(next)
+    storeLocations(next)
+    setPicked(null)
+  }, [locations])
+
+  const removeLocation = useCallback((id: string) => {
+    const next = locations.filter(l => l.id !== id)
+    setLocations(next)
+    storeLocations(next)
+  }, [locations])
+
+  return {
+    locations,
+    addLocation,
+    removeLocation,
+    placing,
+    setPlacing,
+    picked,
+    pickPoint,
+    assessments,
+    /** Each location's level under the advisory before the latest one */
+    previousLevels,
+    loading,
+  }
+}
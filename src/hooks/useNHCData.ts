@@ -1,11 +1,10 @@
 import { useState, useEffect, useCallback } from 'react'
 import NHCApiService from '../services/nhcApi'
-import { ProcessedStorm } from '../types/nhc'
+import { ProcessedStorm, SurgeInundation, WatchesWarnings, WindRadiiResponse } from '../types/nhc'
 
 interface UseNHCDataOptions {
   autoRefresh?: boolean
   refreshInterval?: number
-  useProxy?: boolean
   fetchOnMount?: boolean
   fetchTrackData?: boolean
 }
@@ -23,7 +22,6 @@ export const useNHCData = (options: UseNHCDataOptions = {}): UseNHCDataReturn =>
   const {
     autoRefresh = true,
     refreshInterval = 5 * 60 * 1000, // 5 minutes
-    useProxy = false,
     fetchOnMount = true,
     fetchTrackData = true
   } = options
@@ -38,7 +36,7 @@ export const useNHCData = (options: UseNHCDataOptions = {}): UseNHCDataReturn =>
       setLoading(true)
       setError(null)
 
-      const nhcApiInstance = new NHCApiService(useProxy, fetchTrackData)
+      const nhcApiInstance = new NHCApiService(fetchTrackData)
       const activeStorms = await nhcApiInstance.getActiveStorms()
       
       // The storms now already include forecast and historical data
@@ -69,7 +67,7 @@ export const useNHCData = (options: UseNHCDataOptions = {}): UseNHCDataReturn =>
     } finally {
       setLoading(false)
     }
-  }, [useProxy, fetchTrackData])
+  }, [fetchTrackData])
 
   const refresh = useCallback(async () => {
     await fetchStorms()
@@ -408,3 +406,124 @@ export const useGEFSSpaghetti = (enabled: boolean, stormId: string | null) => {
 
   return { tracks, loading, error, available, refresh: fetchTracks }
 }
+
+// Hook for coastal watches and warnings of the given storms, fetched again when one of
+// them gets a new advisory. Storms without any (or whose product failed to load) are left
+// out of the result.
+export const useWatchesWarnings = (enabled: boolean, storms: ProcessedStorm[]) => {
+  const [watches, setWatches] = useState<WatchesWarnings[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // The storms array is rebuilt on every refresh; key the fetch on ids and advisories
+  const stormsKey = storms.map(s => `${s.id}:${s.advisoryNumber ?? ''}`).join(',')
+
+  const fetchWatches = useCallback(async () => {
+    const ids = stormsKey ? stormsKey.split(',').map(k => k.split(':')[0]) : []
+    if (!enabled || ids.length === 0) {
+      setWatches([])
+      return
+    }
+    try {
+      setLoading(true)
+      setError(null)
+      const api = new NHCApiService()
+      const results = await Promise.all(ids.map(id => api.getWatchesWarnings(id)))
+      setWatches(results.filter((w): w is WatchesWarnings =>
+        !!w && (w.segments.features.length > 0 || w.breakpoints.length > 0)))
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to fetch watches and warnings')
+      setWatches([])
+    } finally {
+      setLoading(false)
+    }
+  }, [enabled, stormsKey])
+
+  useEffect(() => {
+    fetchWatches()
+  }, [fetchWatches])
+
+  return { watches, loading, error, refresh: fetchWatches }
+}
+
+// Hook for NHC's published initial and forecast wind radii of one storm, fetched again
+// when it gets a new advisory
+export const useWindRadii = (enabled: boolean, stormId: string | null, advisoryNumber: string | null) => {
+  const [windRadii, setWindRadii] = useState<WindRadiiResponse | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [available, setAvailable] = useState<boolean | null>(null)
+
+  // Keyed on the advisory too, so a new advisory refetches
+  const advisoryKey = stormId ? `${stormId}:${advisoryNumber ?? ''}` : ''
+
+  const fetchWindRadii = useCallback(async () => {
+    const id = advisoryKey.split(':')[0]
+    if (!enabled || !id) {
+      setWindRadii(null)
+      setAvailable(false)
+      return
+    }
+    try {
+      setLoading(true)
+      setError(null)
+      const api = new NHCApiService()
+      const data = await api.getWindRadii(id)
+      setWindRadii(data && data.radii.features.length > 0 ? data : null)
+      setAvailable(!!data && data.radii.features.length > 0)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to fetch wind radii')
+      setWindRadii(null)
+      setAvailable(false)
+    } finally {
+      setLoading(false)
+    }
+  }, [enabled, advisoryKey])
+
+  useEffect(() => {
+    fetchWindRadii()
+  }, [fetchWindRadii])
+
+  return { windRadii, loading, error, available, refresh: fetchWindRadii }
+}
+
+// Potential storm surge flooding for the selected storm
+export const useSurgeInundation = (enabled: boolean, stormId: string | null, advisoryNumber: string | null) => {
+  const [inundation, setInundation] = useState<SurgeInundation | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [available, setAvailable] = useState<boolean | null>(null)
+
+  // Keyed on the advisory too, so a new advisory refetches
+  const advisoryKey = stormId ? `${stormId}:${advisoryNumber ?? ''}` : ''
+
+  const fetchInundation = useCallback(async () => {
+    const id = advisoryKey.split(':')[0]
+    if (!enabled || !id) {
+      setInundation(null)
+      setAvailable(false)
+      return
+    }
+    try {
+      setLoading(true)
+      setError(null)
+      const api = new NHCApiService()
+      const data = await api.getSurgeInundation(id)
+      const issued = !!data && (data.bands.features.length > 0 || data.overlays.length > 0)
+      setInundation(issued ? data : null)
+      setAvailable(issued)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to fetch storm surge inundation')
+      setInundation(null)
+      setAvailable(false)
+    } finally {
+      setLoading(false)
+    }
+  }, [enabled, advisoryKey])
+
+  useEffect(() => {
+    fetchInundation()
+  }, [fetchInundation])
+
+  return { inundation, loading, error, available, refresh: fetchInundation }
+}
@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react'
+import NHCApiService from '../services/nhcApi'
+import { ArchivedStormSnapshot } from '../types/nhc'
+
+// Hook for the storms the Lambda archived during a season (latest snapshot per storm)
+export const useArchivedStorms = (season: number | null) => {
+  const [storms, setStorms] = useState<ArchivedStormSnapshot[]>([])
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    if (!season) {
+      setStorms([])
+      return
+    }
+    setLoading(true)
+    new NHCApiService().getArchivedSeasonStorms(season)
+      .then(items => { if (!cancelled) setStorms(items) })
+      .finally(() => { if (!cancelled) setLoading(false) })
+    return () => { cancelled = true }
+  }, [season])
+
+  return { storms, loading }
+}
+
+// Hook for the distinct advisory numbers archived for one storm, oldest first
+export const useArchivedAdvisories = (stormId: string | null) => {
+  const [advisories, setAdvisories] = useState<string[]>([])
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    if (!stormId) {
+      setAdvisories([])
+      return
+    }
+    setLoading(true)
+    new NHCApiService().getArchivedStormHistory(stormId)
+      .then(items => {
+        if (cancelled) return
+        const numbers = new Set<string>()
+        for (const item of items) {
+          if (item.advisoryNumber) numbers.add(String(item.advisoryNumber))
+        }
+        setAdvisories(Array.from(numbers).sort((a, b) => parseInt(a, 10) - parseInt(b, 10) || a.localeCompare(b)))
+      })
+      .finally(() => { if (!cancelled) setLoading(false) })
+    return () => { cancelled = true }
+  }, [stormId])
+
+  return { advisories, loading }
+}
@@ -3,90 +3,107 @@ import {
   LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid,
   Tooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell
 } from 'recharts';
+import { MapContainer, TileLayer, Polyline, CircleMarker, Tooltip as MapTooltip } from 'react-leaflet';
+import 'leaflet/dist/leaflet.css';
 import SimpleHeader from '../components/SimpleHeader';
+import axios from 'axios';
+import type {
+  ArchivedInvestSnapshot, ArchivedModelRun, ArchivedStormSnapshot, HurdatStorm, ModelVerification,
+} from '../types/nhc';
+import { fetchProduct, ProductFetchError } from '../services/dataPipeline';
+import type { ProductParams } from '../services/products';
+import { categoryFromKnots, summarizeHurdatStorm } from '../utils/hurdat2';
+import {
+  importHurdat2, loadBundledHurdat2, getHurdatSeason, getHurdatStorm, searchHurdatStorms,
+  type HurdatStoreStatus,
+} from '../services/hurdatStore';
+import { buildLandMask, LAND_MASK_DOMAIN, type LandMask } from '../utils/landMask';
+import { runShifts, landfallShift, firstLandfall } from '../utils/runDiff';
+import { compassPoint } from '../utils/windField';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
-interface StormSnapshot {
-  stormId: string;
-  stormName: string;
-  season: number;
-  basin: string;
-  classification: string;
-  category: number;
-  maxWindsKnots: number;
-  pressureMb: number | null;
-  positionLat: number | null;
-  positionLon: number | null;
-  advisoryTimestamp: string;
-  forecastPoints?: Array<{
-    hour: number;
-    lat: number;
-    lon: number;
-    maxWindsKnots: number;
-    pressureMb: number;
-  }>;
-}
-
-interface InvestSnapshot {
-  investId: string;
-  name: string;
-  season: number;
-  basin: string;
-  formationChance48hr: number;
-  formationChance7day: number;
-  positionLat: number | null;
-  positionLon: number | null;
-  snapshotTimestamp: string;
-  developed: boolean;
-}
+type StormSnapshot = ArchivedStormSnapshot;
+type InvestSnapshot = ArchivedInvestSnapshot;
+type ModelRunItem = ArchivedModelRun;
 
 // ─── API helpers ──────────────────────────────────────────────────────────────
-
-const LAMBDA_BASE = 'https://v7z3sx0ee9.execute-api.us-east-1.amazonaws.com/dev';
+// Through the data pipeline, so responses are cached, shared and schema-checked
 
 async function fetchSeasonStorms(season: number): Promise<StormSnapshot[]> {
-  const res = await fetch(`${LAMBDA_BASE}/archive-season-storms?season=${season}`);
-  const json = await res.json();
-  return json.storms ?? [];
+  return (await fetchProduct('archive-season-storms', { season: String(season) })).storms;
 }
 
 async function fetchSeasonInvests(season: number): Promise<InvestSnapshot[]> {
-  const res = await fetch(`${LAMBDA_BASE}/archive-season-invests?season=${season}`);
-  const json = await res.json();
-  return json.invests ?? [];
+  return (await fetchProduct('archive-season-invests', { season: String(season) })).invests;
 }
 
 async function fetchStormHistory(stormId: string): Promise<StormSnapshot[]> {
-  const res = await fetch(`${LAMBDA_BASE}/archive-storm-history?stormId=${stormId}&limit=500`);
-  const json = await res.json();
-  return json.items ?? [];
+  return (await fetchProduct('archive-storm-history', { stormId: stormId.toUpperCase(), limit: '500' })).items;
 }
 
-interface ModelTrackPoint {
-  forecastHour: number;
-  lat: number;
-  lon: number;
-  maxWindsKnots: number | null;
+// HURDAT2 search on the Lambda's best-track database (covers what the local store lacks)
+async function fetchHurdatSearch(name: string, basin: string): Promise<StormSnapshot[]> {
+  const params: ProductParams = basin ? { name, basin } : { name };
+  return (await fetchProduct('hurdat-storms', params)).storms;
 }
 
-interface ModelRunItem {
-  stormId: string;
-  modelId: string;
-  runCycle: string;       // yyyymmddhh
-  runTimestamp: string;   // ISO8601
-  fetchedAt: string;
-  trackPoints: ModelTrackPoint[];
+// ─── HURDAT2 (offline best-track store) ──────────────────────────────────────
+
+// Best-track fixes in the archive's snapshot shape so the history chart can plot them
+function hurdatSnapshots(storm: HurdatStorm): StormSnapshot[] {
+  return storm.fixes.map(f => ({
+    stormId: storm.stormId,
+    stormName: storm.name,
+    season: storm.season,
+    basin: storm.basin,
+    classification: f.status,
+    category: categoryFromKnots(f.maxWinds),
+    maxWindsKnots: f.maxWinds,
+    pressureMb: f.pressure,
+    positionLat: f.latitude,
+    positionLon: f.longitude,
+    advisoryTimestamp: f.dateTime,
+  }));
+}
+
+// Archive snapshots win over HURDAT2 summaries for the same storm
+function mergeStorms(archived: StormSnapshot[], hurdat: StormSnapshot[]): StormSnapshot[] {
+  const seen = new Set(archived.map(s => s.stormId));
+  return [...archived, ...hurdat.filter(s => !seen.has(s.stormId))];
 }
 
 async function fetchModelRuns(stormId: string, modelId?: string): Promise<ModelRunItem[]> {
-  const params = new URLSearchParams({ stormId });
-  if (modelId) params.set('modelId', modelId);
-  const res = await fetch(`${LAMBDA_BASE}/archive-model-runs?${params}`);
-  const json = await res.json();
-  return json.items ?? [];
+  const params: ProductParams = modelId ? { stormId, modelId } : { stormId };
+  return (await fetchProduct('archive-model-runs', params)).items;
+}
+
+type VerificationScope = { stormId: string } | { season: number; basin: string };
+
+// `force` skips the cache, for the repeat requests that pick up pending storms
+async function fetchVerification(
+  scope: VerificationScope, models: string[], homogeneous: boolean, force = false,
+): Promise<ModelVerification> {
+  const params: ProductParams = 'stormId' in scope
+    ? { stormId: scope.stormId }
+    : { season: String(scope.season), ...(scope.basin ? { basin: scope.basin } : {}) };
+  if (models.length) params.models = models.join(',');
+  if (homogeneous) params.homogeneous = 'true';
+  return fetchProduct('model-verification', params, { force });
 }
 
+// The Lambda's own explanation of a refused request, else the pipeline's error
+function failureMessage(e: unknown, fallback: string): string {
+  const cause = e instanceof ProductFetchError ? e.lastError : e;
+  const reason = axios.isAxiosError(cause) ? cause.response?.data?.error : undefined;
+  if (typeof reason === 'string') return reason;
+  return e instanceof Error ? e.message : fallback;
+}
+
+// Models picked for the verification charts when a scope first loads, in preference order
+const VERIFY_DEFAULT_MODELS = ['OFCL', 'GFSO', 'EMXI', 'ECMW', 'HAFA', 'HAFB', 'HWRF', 'HMON', 'AEMN', 'TVCN', 'CMC', 'UKM'];
+const VERIFY_MAX_DEFAULT = 6;
+
 // ─── Mock data (shown when archive is empty, e.g. off-season) ────────────────
 
 const MOCK_STORMS: StormSnapshot[] = [
@@ -184,6 +201,20 @@ const BASIN_COLORS: Record<string, string> = {
 
 // ─── Sub-components ───────────────────────────────────────────────────────────
 
+const controlStyle: React.CSSProperties = {
+  background: 'rgba(255,255,255,0.1)',
+  border: '1px solid rgba(255,255,255,0.2)',
+  borderRadius: 8,
+  color: '#fff',
+  padding: '6px 12px',
+  fontSize: 15,
+  cursor: 'pointer',
+};
+
+// Run-to-run map colours, newest cycle first
+const CYCLE_AGE_COLORS = ['#ff5252', '#ffa726', '#ffee58', '#66bb6a', '#26c6da', '#5c6bc0', '#ab47bc', '#78909c'];
+const DARK_TILES = 'https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png';
+
 const StatCard: React.FC<{ label: string; value: string | number; sub?: string }> = ({ label, value, sub }) => (
   <div style={{
     background: 'rgba(255,255,255,0.07)',
@@ -219,9 +250,48 @@ const Analytics: React.FC = () => {
   const [modelRuns, setModelRuns]           = useState<ModelRunItem[]>([]);
   const [modelRunsLoading, setModelRunsLoading] = useState(false);
   const [selectedModelId, setSelectedModelId]   = useState<string | null>(null);
+  const [diffCycleCount, setDiffCycleCount]     = useState(4);
+  const [landMask, setLandMask]                 = useState<LandMask | null>(null);
+
+  // Model verification state
+  const [verification, setVerification] = useState<ModelVerification | null>(null);
+  const [verificationLoading, setVerificationLoading] = useState(false);
+  const [verificationError, setVerificationError] = useState<string | null>(null);
+  const [verifyModels, setVerifyModels] = useState<string[]>([]);
+  const [homogeneous, setHomogeneous] = useState(true);
+  const [baselineModel, setBaselineModel] = useState('OFCL');
 
   const [usingMock, setUsingMock] = useState(false);
 
+  // HURDAT2 browse state
+  const [hurdatStatus, setHurdatStatus] = useState<HurdatStoreStatus | null>(null);
+  const [hurdatImporting, setHurdatImporting] = useState(false);
+  const [hurdatError, setHurdatError] = useState<string | null>(null);
+  const [basinFilter, setBasinFilter] = useState('');
+  const [nameQuery, setNameQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<StormSnapshot[] | null>(null);
+
+  useEffect(() => {
+    loadBundledHurdat2()
+      .then(setHurdatStatus)
+      .catch(e => console.warn('HURDAT2 store unavailable:', e));
+  }, []);
+
+  const handleHurdatFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setHurdatImporting(true);
+    setHurdatError(null);
+    try {
+      setHurdatStatus(await importHurdat2(await file.text(), file.name));
+    } catch (err: any) {
+      setHurdatError(err.message ?? 'Import failed');
+    } finally {
+      setHurdatImporting(false);
+    }
+  };
+
   // Fetch season summary
   const loadSeason = useCallback(async (yr: number) => {
     setLoading(true);
@@ -231,31 +301,62 @@ const Analytics: React.FC = () => {
     setModelRuns([]);
     setUsingMock(false);
     try {
-      const [s, i] = await Promise.all([fetchSeasonStorms(yr), fetchSeasonInvests(yr)]);
-      if (s.length === 0 && yr === 2025) {
+      // The local HURDAT2 store keeps historical seasons browsable when the archive is unreachable
+      const [s, i, h] = await Promise.allSettled([
+        fetchSeasonStorms(yr),
+        fetchSeasonInvests(yr),
+        getHurdatSeason(yr),
+      ]);
+      const archived = s.status === 'fulfilled' ? s.value : [];
+      const local = h.status === 'fulfilled' ? h.value.map(summarizeHurdatStorm) : [];
+      if (s.status === 'rejected' && local.length === 0) throw s.reason;
+
+      if (archived.length === 0 && local.length === 0 && yr === 2025) {
         // Archive not yet populated — show mock data so the UI is visible
         setStorms(MOCK_STORMS);
         setInvests(MOCK_INVESTS);
         setUsingMock(true);
       } else {
-        setStorms(s);
-        setInvests(i);
+        setStorms(mergeStorms(archived, local));
+        setInvests(i.status === 'fulfilled' ? i.value : []);
       }
-    } catch (e: any) {
-      setError(e.message ?? 'Failed to load season data');
+    } catch (e) {
+      setError(failureMessage(e, 'Failed to load season data'));
     } finally {
       setLoading(false);
     }
   }, []);
 
-  useEffect(() => { loadSeason(season); }, [season, loadSeason]);
+  useEffect(() => { loadSeason(season); }, [season, loadSeason, hurdatStatus]);
+
+  // Name search across every season (local store + the Lambda's HURDAT2 database)
+  useEffect(() => {
+    const name = nameQuery.trim();
+    if (name.length < 2) { setSearchResults(null); return; }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const [local, remote] = await Promise.allSettled([
+        searchHurdatStorms({ name, basin: basinFilter || undefined }),
+        fetchHurdatSearch(name, basinFilter),
+      ]);
+      if (cancelled) return;
+      setSearchResults(mergeStorms(
+        local.status === 'fulfilled' ? local.value.map(summarizeHurdatStorm) : [],
+        remote.status === 'fulfilled' ? remote.value : [],
+      ).sort((a, b) => b.season - a.season));
+    }, 300);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [nameQuery, basinFilter]);
 
   // Fetch storm detail
   const loadStormHistory = useCallback(async (stormId: string) => {
     setHistoryLoading(true);
     try {
-      const items = await fetchStormHistory(stormId);
-      if (items.length === 0 && stormId === 'AL062025') {
+      const items = await fetchStormHistory(stormId).catch(() => [] as StormSnapshot[]);
+      const local = items.length === 0 ? await getHurdatStorm(stormId).catch(() => null) : null;
+      if (local) {
+        setStormHistory(hurdatSnapshots(local));
+      } else if (items.length === 0 && stormId === 'AL062025') {
         setStormHistory(MOCK_STORM_HISTORY);
       } else {
         setStormHistory(items);
@@ -294,33 +395,88 @@ const Analytics: React.FC = () => {
     else { setModelRuns([]); setSelectedModelId(null); }
   }, [selectedStormId, loadModelRuns]);
 
+  // Verification covers the selected storm, otherwise the season (and basin filter)
+  const verifyStormId = selectedStormId && !usingMock ? selectedStormId : null;
+  useEffect(() => { setVerifyModels([]); }, [verifyStormId, season, basinFilter]);
+
+  useEffect(() => {
+    if (usingMock) { setVerification(null); return; }
+    let cancelled = false;
+    const scope: VerificationScope = verifyStormId
+      ? { stormId: verifyStormId }
+      : { season, basin: basinFilter };
+    // The baseline rides along so skill is scored on the same sample
+    const requested = verifyModels.length && !verifyModels.includes(baselineModel)
+      ? [...verifyModels, baselineModel]
+      : verifyModels;
+    setVerificationLoading(true);
+    setVerificationError(null);
+    const load = (force = false): Promise<void> => fetchVerification(scope, requested, homogeneous, force)
+      .then(result => {
+        if (cancelled) return;
+        setVerification(result);
+        // First load of a scope: pick the usual guidance suite from what verified
+        if (verifyModels.length === 0 && result.models.length > 0) {
+          const present = result.models.map(m => m.modelId);
+          const preferred = VERIFY_DEFAULT_MODELS.filter(m => present.includes(m));
+          setVerifyModels((preferred.length ? preferred : present).slice(0, VERIFY_MAX_DEFAULT));
+        }
+        // A long season takes several requests; verified storms are cached server-side
+        if (result.pendingStormIds.length) return load(true);
+      });
+    load()
+      .catch(e => { if (!cancelled) { setVerification(null); setVerificationError(failureMessage(e, 'Verification unavailable')); } })
+      .finally(() => { if (!cancelled) setVerificationLoading(false); });
+    return () => { cancelled = true; };
+  }, [verifyStormId, season, basinFilter, verifyModels, homogeneous, baselineModel, usingMock]);
+
+  // Landfall points for the run-to-run comparison need the land mask
+  useEffect(() => {
+    if (modelRuns.length === 0 || landMask) return;
+    buildLandMask(
+      LAND_MASK_DOMAIN.south, LAND_MASK_DOMAIN.north,
+      LAND_MASK_DOMAIN.west,  LAND_MASK_DOMAIN.east,
+      LAND_MASK_DOMAIN.step,
+    ).then(setLandMask)
+      .catch(e => console.warn('Land mask unavailable:', e));
+  }, [modelRuns, landMask]);
+
   // ── Derived metrics ─────────────────────────────────────────────────────────
 
-  const namedStormCount   = storms.length;
-  const hurricaneCount    = storms.filter(s => s.category >= 1).length;
-  const majorCount        = storms.filter(s => s.category >= 3).length;
-  const peakCat5          = storms.filter(s => s.category === 5).length;
-  const investCount       = invests.length;
-  const investDevelopRate = invests.length > 0
-    ? Math.round((invests.filter(i => i.developed).length / invests.length) * 100)
+  const seasonStorms  = basinFilter ? storms.filter(s => s.basin === basinFilter) : storms;
+  const seasonInvests = basinFilter ? invests.filter(i => i.basin === basinFilter) : invests;
+  const listedStorms  = searchResults ?? seasonStorms;
+  const selectedStorm = listedStorms.find(s => s.stormId === selectedStormId)
+    ?? storms.find(s => s.stormId === selectedStormId);
+
+  // HURDAT2 seasons reach back to 1851; the live archive alone covers recent years
+  const firstSeason = Math.min(hurdatStatus?.firstSeason ?? Infinity, currentYear - 4);
+
+  const namedStormCount   = seasonStorms.length;
+  const hurricaneCount    = seasonStorms.filter(s => s.category >= 1).length;
+  const majorCount        = seasonStorms.filter(s => s.category >= 3).length;
+  const peakCat5          = seasonStorms.filter(s => s.category === 5).length;
+  const investCount       = seasonInvests.length;
+  const investDevelopRate = seasonInvests.length > 0
+    ? Math.round((seasonInvests.filter(i => i.developed).length / seasonInvests.length) * 100)
     : 0;
 
   // Category distribution for pie chart
   const categoryDist = [0, 1, 2, 3, 4, 5].map(cat => ({
     name: cat === 0 ? 'TD/TS' : `Cat ${cat}`,
-    value: storms.filter(s => s.category === cat).length,
+    value: seasonStorms.filter(s => s.category === cat).length,
     color: CATEGORY_COLORS[cat],
   })).filter(d => d.value > 0);
 
   // Basin distribution
   const basinDist = ['AL', 'EP', 'CP'].map(b => ({
     name: b,
-    storms: storms.filter(s => s.basin === b).length,
+    storms: seasonStorms.filter(s => s.basin === b).length,
     fill: BASIN_COLORS[b],
   })).filter(d => d.storms > 0);
 
   // Storm intensity timeline (sorted by max winds)
-  const stormIntensityData = [...storms]
+  const stormIntensityData = [...seasonStorms]
     .sort((a, b) => b.maxWindsKnots - a.maxWindsKnots)
     .map(s => ({
       name: s.stormName,
@@ -367,11 +523,44 @@ const Analytics: React.FC = () => {
               cursor: 'pointer',
             }}
           >
-            {Array.from({ length: 5 }, (_, i) => currentYear - i).map(yr => (
+            {Array.from({ length: currentYear - firstSeason + 1 }, (_, i) => currentYear - i).map(yr => (
               <option key={yr} value={yr} style={{ background: '#1a2a3a' }}>{yr} Season</option>
             ))}
           </select>
 
+          {/* Basin filter */}
+          <select
+            value={basinFilter}
+            onChange={e => setBasinFilter(e.target.value)}
+            style={controlStyle}
+          >
+            <option value="" style={{ background: '#1a2a3a' }}>All basins</option>
+            <option value="AL" style={{ background: '#1a2a3a' }}>Atlantic</option>
+            <option value="EP" style={{ background: '#1a2a3a' }}>East Pacific</option>
+            <option value="CP" style={{ background: '#1a2a3a' }}>Central Pacific</option>
+          </select>
+
+          {/* Name search (all seasons) */}
+          <input
+            type="search"
+            value={nameQuery}
+            onChange={e => setNameQuery(e.target.value)}
+            placeholder="Search storm name…"
+            style={{ ...controlStyle, cursor: 'text', width: 180 }}
+          />
+
+          {/* HURDAT2 import */}
+          <label style={{ ...controlStyle, fontSize: 13 }}>
+            {hurdatImporting ? 'Importing…' : 'Import HURDAT2…'}
+            <input type="file" accept=".txt,text/plain" onChange={handleHurdatFile} style={{ display: 'none' }} />
+          </label>
+          {hurdatStatus && (
+            <span style={{ color: '#a0aec0', fontSize: 12 }} title={hurdatStatus.sources.join(', ')}>
+              HURDAT2: {hurdatStatus.stormCount.toLocaleString()} storms, {hurdatStatus.firstSeason}–{hurdatStatus.lastSeason}
+            </span>
+          )}
+          {hurdatError && <span style={{ color: '#fc8181', fontSize: 13 }}>{hurdatError}</span>}
+
           {loading && <span style={{ color: '#a0aec0', fontSize: 13 }}>Loading…</span>}
           {error && <span style={{ color: '#fc8181', fontSize: 13 }}>{error}</span>}
           {usingMock && (
@@ -503,13 +692,17 @@ const Analytics: React.FC = () => {
           {/* Storm list */}
           <div style={{ background: 'rgba(255,255,255,0.05)', borderRadius: 12, padding: 20 }}>
             <h3 style={{ margin: '0 0 12px', fontSize: 15, color: '#a0aec0' }}>
-              {season} Storms ({namedStormCount})
+              {searchResults
+                ? `"${nameQuery.trim().toUpperCase()}" — all seasons (${searchResults.length})`
+                : `${season} Storms (${namedStormCount})`}
             </h3>
-            {storms.length === 0
-              ? <p style={{ color: '#4a5568', fontSize: 13 }}>No archived storms for this season.</p>
+            {listedStorms.length === 0
+              ? <p style={{ color: '#4a5568', fontSize: 13 }}>
+                  {searchResults ? 'No storms match that name.' : 'No archived storms for this season.'}
+                </p>
               : (
-                <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
-                  {[...storms].sort((a, b) => b.maxWindsKnots - a.maxWindsKnots).map(s => (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: 6, maxHeight: 520, overflowY: 'auto' }}>
+                  {(searchResults ?? [...seasonStorms].sort((a, b) => b.maxWindsKnots - a.maxWindsKnots)).map(s => (
                     <button
                       key={s.stormId}
                       onClick={() => setSelectedStormId(s.stormId === selectedStormId ? null : s.stormId)}
@@ -532,7 +725,9 @@ const Analytics: React.FC = () => {
                     >
                       <div>
                         <span style={{ fontWeight: 600 }}>{s.stormName}</span>
-                        <span style={{ color: '#a0aec0', fontSize: 11, marginLeft: 8 }}>{s.stormId}</span>
+                        <span style={{ color: '#a0aec0', fontSize: 11, marginLeft: 8 }}>
+                          {searchResults ? `${s.season} · ${s.stormId}` : s.stormId}
+                        </span>
                       </div>
                       <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
                         {s.category >= 1 && (
@@ -573,7 +768,7 @@ const Analytics: React.FC = () => {
               : (
                 <>
                   <h3 style={{ margin: '0 0 16px', fontSize: 15, color: '#a0aec0' }}>
-                    {storms.find(s => s.stormId === selectedStormId)?.stormName} — Intensity Over Time
+                    {selectedStorm?.stormName} — Intensity Over Time
                   </h3>
                   <ResponsiveContainer width="100%" height={300}>
                     <LineChart data={historyChartData} margin={{ top: 4, right: 20, bottom: 40, left: 0 }}>
@@ -684,7 +879,7 @@ const Analytics: React.FC = () => {
         {selectedStormId && (
           <div style={{ background: 'rgba(255,255,255,0.05)', borderRadius: 12, padding: 20, marginBottom: 16 }}>
             <h3 style={{ margin: '0 0 4px', fontSize: 15, color: '#a0aec0' }}>
-              Model Track Archive — {storms.find(s => s.stormId === selectedStormId)?.stormName}
+              Model Track Archive — {selectedStorm?.stormName}
             </h3>
             <p style={{ margin: '0 0 16px', fontSize: 12, color: '#4a5568' }}>
               Every model run captured from the spaghetti track fetches. Each row is one model × one cycle run.
@@ -815,6 +1010,153 @@ const Analytics: React.FC = () => {
                     </div>
                   </div>
 
+                  {/* Run-to-run comparison of one model */}
+                  {(() => {
+                    const diffModel = selectedModelId && models.includes(selectedModelId)
+                      ? selectedModelId
+                      : [...models].sort((a, b) =>
+                          modelRuns.filter(r => r.modelId === b).length - modelRuns.filter(r => r.modelId === a).length)[0];
+                    const runs = modelRuns
+                      .filter(r => r.modelId === diffModel && r.trackPoints.length > 1)
+                      .sort((a, b) => b.runCycle.localeCompare(a.runCycle))
+                      .slice(0, diffCycleCount);
+                    const formatCycle = (c: string) => `${c.slice(4,6)}/${c.slice(6,8)} ${c.slice(8,10)}z`;
+                    const [latest, previous] = runs;
+                    const shifts = latest && previous ? runShifts(latest, previous) : [];
+                    const landfall = latest && previous && landMask ? landfallShift(latest, previous, landMask) : null;
+                    // Each run on its own, for when only one of them reaches land
+                    const latestLandfall = latest && landMask ? firstLandfall(latest, landMask) : null;
+                    const previousLandfall = previous && landMask ? firstLandfall(previous, landMask) : null;
+                    const allPoints = runs.flatMap(r => r.trackPoints);
+                    const bounds: [[number, number], [number, number]] | null = allPoints.length
+                      ? [
+                          [Math.min(...allPoints.map(p => p.lat)), Math.min(...allPoints.map(p => p.lon))],
+                          [Math.max(...allPoints.map(p => p.lat)), Math.max(...allPoints.map(p => p.lon))],
+                        ]
+                      : null;
+                    const formatValid = (d: Date) =>
+                      d.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', timeZone: 'UTC', hour12: false }) + 'z';
+
+                    return (
+                      <div style={{ marginBottom: 20 }}>
+                        <div style={{ display: 'flex', gap: 12, alignItems: 'center', flexWrap: 'wrap', marginBottom: 10 }}>
+                          <h4 style={{ margin: 0, fontSize: 13, color: '#a0aec0' }}>Run-to-Run Comparison</h4>
+                          <select value={diffModel} onChange={e => setSelectedModelId(e.target.value)} style={controlStyle}>
+                            {models.map(m => <option key={m} value={m}>{m}</option>)}
+                          </select>
+                          <select value={diffCycleCount} onChange={e => setDiffCycleCount(Number(e.target.value))} style={controlStyle}>
+                            {[2, 3, 4, 6, 8].map(n => <option key={n} value={n}>Last {n} cycles</option>)}
+                          </select>
+                        </div>
+
+                        {runs.length < 2 || !bounds
+                          ? <p style={{ color: '#4a5568', fontSize: 12 }}>Needs at least 2 archived cycles of {diffModel} to compare.</p>
+                          : (
+                            <div style={{ display: 'grid', gridTemplateColumns: 'minmax(300px, 1fr) minmax(280px, 1fr)', gap: 16 }}>
+                              <div style={{ height: 320, borderRadius: 8, overflow: 'hidden' }}>
+                                <MapContainer
+                                  key={`${diffModel}-${runs.map(r => r.runCycle).join(',')}`}
+                                  bounds={bounds}
+                                  boundsOptions={{ padding: [24, 24] }}
+                                  style={{ height: '100%', width: '100%', background: '#0f1b2d' }}
+                                >
+                                  <TileLayer url={DARK_TILES} />
+                                  {[...runs].reverse().map(run => {
+                                    const age = runs.indexOf(run);
+                                    const color = CYCLE_AGE_COLORS[age % CYCLE_AGE_COLORS.length];
+                                    const pts = [...run.trackPoints].sort((a, b) => a.forecastHour - b.forecastHour);
+                                    return (
+                                      <React.Fragment key={run.runCycle}>
+                                        <Polyline
+                                          positions={pts.map(p => [p.lat, p.lon] as [number, number])}
+                                          pathOptions={{ color, weight: age === 0 ? 4 : 2.5, opacity: age === 0 ? 1 : Math.max(0.35, 0.9 - age * 0.12) }}
+                                        >
+                                          <MapTooltip sticky>{diffModel} {formatCycle(run.runCycle)}</MapTooltip>
+                                        </Polyline>
+                                        {pts.filter(p => p.forecastHour > 0 && p.forecastHour % 24 === 0).map(p => (
+                                          <CircleMarker
+                                            key={p.forecastHour}
+                                            center={[p.lat, p.lon]}
+                                            radius={age === 0 ? 4 : 3}
+                                            pathOptions={{ color, weight: 1, fillColor: color, fillOpacity: 0.9 }}
+                                          >
+                                            <MapTooltip>{formatCycle(run.runCycle)} +{p.forecastHour}h</MapTooltip>
+                                          </CircleMarker>
+                                        ))}
+                                      </React.Fragment>
+                                    );
+                                  })}
+                                  {previousLandfall && (
+                                    <CircleMarker center={[previousLandfall.lat, previousLandfall.lon]} radius={6} pathOptions={{ color: '#fff', weight: 2, fillOpacity: 0 }}>
+                                      <MapTooltip>Landfall {formatCycle(previous.runCycle)}</MapTooltip>
+                                    </CircleMarker>
+                                  )}
+                                  {latestLandfall && (
+                                    <CircleMarker center={[latestLandfall.lat, latestLandfall.lon]} radius={6} pathOptions={{ color: '#fff', weight: 2, fillColor: CYCLE_AGE_COLORS[0], fillOpacity: 1 }}>
+                                      <MapTooltip>Landfall {formatCycle(latest.runCycle)}</MapTooltip>
+                                    </CircleMarker>
+                                  )}
+                                </MapContainer>
+                              </div>
+
+                              <div>
+                                <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', marginBottom: 10 }}>
+                                  {runs.map((run, age) => (
+                                    <span key={run.runCycle} style={{ fontSize: 11, color: CYCLE_AGE_COLORS[age % CYCLE_AGE_COLORS.length] }}>
+                                      ━ {formatCycle(run.runCycle)}{age === 0 ? ' (latest)' : ''}
+                                    </span>
+                                  ))}
+                                </div>
+                                <p style={{ margin: '0 0 10px', fontSize: 13, color: '#e2e8f0' }}>
+                                  {landfall
+                                    ? <>Landfall moved <strong>{Math.round(landfall.distanceNm)} nm {compassPoint(landfall.bearingDeg)}</strong>
+                                        {landfall.timingChangeHours !== 0 && <> and {Math.abs(landfall.timingChangeHours)} h {landfall.timingChangeHours > 0 ? 'later' : 'earlier'}</>}
+                                        {' '}since the {formatCycle(previous.runCycle)} run ({formatValid(landfall.to.validTime)}).</>
+                                    : !landMask
+                                      ? 'Loading land mask…'
+                                      : latestLandfall
+                                        ? <>Only the latest ({formatCycle(latest.runCycle)}) run makes landfall ({formatValid(latestLandfall.validTime)}); the {formatCycle(previous.runCycle)} run stays over water.</>
+                                        : previousLandfall
+                                          ? <>The latest ({formatCycle(latest.runCycle)}) run no longer makes landfall; the {formatCycle(previous.runCycle)} run did ({formatValid(previousLandfall.validTime)}).</>
+                                          : 'Neither of the last two runs makes landfall.'}
+                                </p>
+                                <h4 style={{ margin: '0 0 6px', fontSize: 12, color: '#a0aec0' }}>
+                                  Shift since {formatCycle(previous.runCycle)}, at the same valid time
+                                </h4>
+                                <div style={{ overflowY: 'auto', maxHeight: 240 }}>
+                                  <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+                                    <thead>
+                                      <tr style={{ color: '#a0aec0', textAlign: 'left', borderBottom: '1px solid rgba(255,255,255,0.1)' }}>
+                                        <th style={{ padding: '4px 8px' }}>Hour</th>
+                                        <th style={{ padding: '4px 8px' }}>Valid</th>
+                                        <th style={{ padding: '4px 8px' }}>Shift</th>
+                                        <th style={{ padding: '4px 8px' }}>Wind Change</th>
+                                      </tr>
+                                    </thead>
+                                    <tbody>
+                                      {shifts.map(sh => (
+                                        <tr key={sh.tau} style={{ borderBottom: '1px solid rgba(255,255,255,0.04)' }}>
+                                          <td style={{ padding: '4px 8px', color: '#e2e8f0' }}>+{sh.tau}h</td>
+                                          <td style={{ padding: '4px 8px', color: '#a0aec0' }}>{formatValid(sh.validTime)}</td>
+                                          <td style={{ padding: '4px 8px', color: '#4FC3F7' }}>
+                                            {Math.round(sh.distanceNm)} nm{sh.distanceNm >= 1 ? ` ${compassPoint(sh.bearingDeg)}` : ''}
+                                          </td>
+                                          <td style={{ padding: '4px 8px', color: '#a0aec0' }}>
+                                            {sh.windChangeKt == null ? '—' : `${sh.windChangeKt > 0 ? '+' : ''}${sh.windChangeKt} kt`}
+                                          </td>
+                                        </tr>
+                                      ))}
+                                    </tbody>
+                                  </table>
+                                </div>
+                              </div>
+                            </div>
+                          )
+                        }
+                      </div>
+                    );
+                  })()}
+
                   {/* Detail table — all runs, newest first */}
                   <h4 style={{ margin: '0 0 8px', fontSize: 13, color: '#a0aec0' }}>All Archived Runs</h4>
                   <div style={{ overflowX: 'auto', maxHeight: 300, overflowY: 'auto' }}>
@@ -873,6 +1215,187 @@ const Analytics: React.FC = () => {
           </div>
         )}
 
+        {/* ── Model Verification ── */}
+        {!usingMock && (
+          <div style={{ background: 'rgba(255,255,255,0.05)', borderRadius: 12, padding: 20, marginBottom: 16 }}>
+            <h3 style={{ margin: '0 0 4px', fontSize: 15, color: '#a0aec0' }}>
+              Model Verification — {verifyStormId
+                ? selectedStorm?.stormName ?? verifyStormId
+                : `${season}${basinFilter ? ` ${basinFilter}` : ''} season`}
+            </h3>
+            <p style={{ margin: '0 0 16px', fontSize: 12, color: '#4a5568' }}>
+              Mean forecast errors of the archived model runs against the best track, counted only while the system
+              was a tropical or subtropical cyclone. Skill is the percentage improvement over the baseline model.
+            </p>
+
+            {verificationError && <p style={{ color: '#fc8181', fontSize: 13 }}>{verificationError}</p>}
+            {verificationLoading && !verification && <p style={{ color: '#a0aec0' }}>Verifying model runs…</p>}
+
+            {verification && verification.models.length === 0 && (
+              <p style={{ color: '#4a5568', fontSize: 13 }}>
+                No verifiable model runs yet. A forecast verifies once the best track reaches its valid time.
+              </p>
+            )}
+
+            {verification && verification.models.length > 0 && (() => {
+              const shown = verifyModels.filter(m => verification.models.some(v => v.modelId === m));
+              const MODEL_PALETTE = [
+                '#4FC3F7','#f39c12','#00b894','#e74c3c','#a29bfe',
+                '#fd79a8','#fdcb6e','#55efc4','#74b9ff','#b2bec3',
+              ];
+              const allModels = verification.models.map(m => m.modelId);
+              const modelColor = (m: string) =>
+                MODEL_PALETTE[allModels.indexOf(m) % MODEL_PALETTE.length];
+              const stat = (m: string, tau: number) =>
+                verification.stats.find(s => s.modelId === m && s.tau === tau);
+              const taus = Array.from(new Set(verification.stats.map(s => s.tau))).sort((a, b) => a - b);
+
+              const skill = (err: number | null | undefined, base: number | null | undefined) =>
+                err != null && base ? Math.round(100 * (1 - err / base)) : null;
+              const byTau = (value: (m: string, tau: number) => number | null | undefined) =>
+                taus.map(tau => {
+                  const entry: Record<string, any> = { tau: `${tau}h` };
+                  for (const m of shown) entry[m] = value(m, tau) ?? null;
+                  return entry;
+                });
+              const trackError = byTau((m, tau) => stat(m, tau)?.trackErrorNm);
+              const intensityError = byTau((m, tau) => stat(m, tau)?.intensityMaeKt);
+              const trackSkill = byTau((m, tau) => skill(stat(m, tau)?.trackErrorNm, stat(baselineModel, tau)?.trackErrorNm));
+              const intensitySkill = byTau((m, tau) => skill(stat(m, tau)?.intensityMaeKt, stat(baselineModel, tau)?.intensityMaeKt));
+
+              const toggleModel = (m: string) => setVerifyModels(prev =>
+                prev.includes(m) ? (prev.length > 1 ? prev.filter(x => x !== m) : prev) : [...prev, m]);
+
+              const chart = (title: string, data: Record<string, any>[], unit: string, models: string[]) => (
+                <div>
+                  <h4 style={{ margin: '0 0 10px', fontSize: 13, color: '#a0aec0' }}>{title}</h4>
+                  <ResponsiveContainer width="100%" height={220}>
+                    <LineChart data={data} margin={{ top: 4, right: 16, bottom: 4, left: 0 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" />
+                      <XAxis dataKey="tau" tick={{ fill: '#a0aec0', fontSize: 10 }} />
+                      <YAxis tick={{ fill: '#a0aec0', fontSize: 10 }} unit={unit} />
+                      <Tooltip contentStyle={{ background: '#1a2a3a', border: '1px solid rgba(255,255,255,0.1)', borderRadius: 8 }} />
+                      <Legend wrapperStyle={{ color: '#a0aec0', fontSize: 11, paddingTop: 8 }} />
+                      {models.map(m => (
+                        <Line
+                          key={m}
+                          type="monotone"
+                          dataKey={m}
+                          name={m}
+                          stroke={modelColor(m)}
+                          strokeWidth={2}
+                          dot={{ r: 3 }}
+                          connectNulls
+                        />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              );
+
+              return (
+                <>
+                  {/* Controls */}
+                  <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', alignItems: 'center', marginBottom: 12 }}>
+                    <label style={{ color: '#a0aec0', fontSize: 13, display: 'flex', alignItems: 'center', gap: 6 }}>
+                      <input type="checkbox" checked={homogeneous} onChange={e => setHomogeneous(e.target.checked)} />
+                      Homogeneous sample
+                    </label>
+                    <label style={{ color: '#a0aec0', fontSize: 13, display: 'flex', alignItems: 'center', gap: 6 }}>
+                      Skill baseline
+                      <select value={baselineModel} onChange={e => setBaselineModel(e.target.value)} style={controlStyle}>
+                        {allModels.map(m => <option key={m} value={m}>{m}</option>)}
+                        {!allModels.includes(baselineModel) && <option value={baselineModel}>{baselineModel}</option>}
+                      </select>
+                    </label>
+                    {verificationLoading && (
+                      <span style={{ color: '#4a5568', fontSize: 12 }}>
+                        {verification.pendingStormIds.length
+                          ? `Verified ${verification.stormIds.length - verification.pendingStormIds.length} of ${verification.stormIds.length} storms…`
+                          : 'Updating…'}
+                      </span>
+                    )}
+                  </div>
+                  <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap', marginBottom: 20 }}>
+                    {verification.models.map(({ modelId, cases }) => {
+                      const on = verifyModels.includes(modelId);
+                      return (
+                        <button
+                          key={modelId}
+                          onClick={() => toggleModel(modelId)}
+                          title={`${cases} verifying forecasts`}
+                          style={{
+                            background: on ? modelColor(modelId) : 'rgba(255,255,255,0.06)',
+                            color: on ? '#000' : '#a0aec0',
+                            border: 'none',
+                            borderRadius: 4,
+                            padding: '2px 8px',
+                            fontSize: 11,
+                            fontWeight: 700,
+                            cursor: 'pointer',
+                          }}
+                        >
+                          {modelId}
+                        </button>
+                      );
+                    })}
+                  </div>
+
+                  <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(360px, 1fr))', gap: 16, marginBottom: 20 }}>
+                    {chart('Track Error (nm)', trackError, ' nm', shown)}
+                    {chart('Intensity Error (kt, mean absolute)', intensityError, ' kt', shown)}
+                    {chart(`Track Skill vs ${baselineModel} (%)`, trackSkill, '%', shown.filter(m => m !== baselineModel))}
+                    {chart(`Intensity Skill vs ${baselineModel} (%)`, intensitySkill, '%', shown.filter(m => m !== baselineModel))}
+                  </div>
+
+                  {/* Sample sizes and biases */}
+                  <h4 style={{ margin: '0 0 8px', fontSize: 13, color: '#a0aec0' }}>
+                    Sample Size and Bias — along-track + = ahead, cross-track + = right of track, intensity + = too strong
+                  </h4>
+                  <div style={{ overflowX: 'auto', maxHeight: 300, overflowY: 'auto' }}>
+                    <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+                      <thead style={{ position: 'sticky', top: 0, background: '#0f1b2d' }}>
+                        <tr style={{ color: '#a0aec0', textAlign: 'left', borderBottom: '1px solid rgba(255,255,255,0.1)' }}>
+                          <th style={{ padding: '6px 10px' }}>Model</th>
+                          <th style={{ padding: '6px 10px' }}>Hour</th>
+                          <th style={{ padding: '6px 10px' }}>Track N</th>
+                          <th style={{ padding: '6px 10px' }}>Track Error</th>
+                          <th style={{ padding: '6px 10px' }}>Along-Track</th>
+                          <th style={{ padding: '6px 10px' }}>Cross-Track</th>
+                          <th style={{ padding: '6px 10px' }}>Intensity N</th>
+                          <th style={{ padding: '6px 10px' }}>Intensity MAE</th>
+                          <th style={{ padding: '6px 10px' }}>Intensity Bias</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {verification.stats
+                          .filter(s => shown.includes(s.modelId))
+                          .map(s => {
+                            const fmt = (v: number | null, unit: string) => v != null ? `${v} ${unit}` : '—';
+                            return (
+                              <tr key={`${s.modelId}-${s.tau}`} style={{ borderBottom: '1px solid rgba(255,255,255,0.04)' }}>
+                                <td style={{ padding: '5px 10px', color: modelColor(s.modelId), fontWeight: 700 }}>{s.modelId}</td>
+                                <td style={{ padding: '5px 10px', color: '#e2e8f0' }}>{s.tau}h</td>
+                                <td style={{ padding: '5px 10px', color: '#a0aec0' }}>{s.trackN}</td>
+                                <td style={{ padding: '5px 10px', color: '#4FC3F7' }}>{fmt(s.trackErrorNm, 'nm')}</td>
+                                <td style={{ padding: '5px 10px', color: '#a0aec0' }}>{fmt(s.alongTrackNm, 'nm')}</td>
+                                <td style={{ padding: '5px 10px', color: '#a0aec0' }}>{fmt(s.crossTrackNm, 'nm')}</td>
+                                <td style={{ padding: '5px 10px', color: '#a0aec0' }}>{s.intensityN}</td>
+                                <td style={{ padding: '5px 10px', color: '#4FC3F7' }}>{fmt(s.intensityMaeKt, 'kt')}</td>
+                                <td style={{ padding: '5px 10px', color: '#a0aec0' }}>{fmt(s.intensityBiasKt, 'kt')}</td>
+                              </tr>
+                            );
+                          })
+                        }
+                      </tbody>
+                    </table>
+                  </div>
+                </>
+              );
+            })()}
+          </div>
+        )}
+
         {/* Footer note */}
         <p style={{ color: '#4a5568', fontSize: 12, textAlign: 'center', marginTop: 8 }}>
           Data is captured automatically from NHC on each advisory cycle. Archive begins from the date this version was deployed.
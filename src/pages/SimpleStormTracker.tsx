@@ -1,14 +1,34 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { MapContainer, TileLayer, Marker, Popup, Polyline, CircleMarker, Polygon, Tooltip, useMap, Circle } from 'react-leaflet';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 import './SimpleStormTracker.css';
-import { useNHCData, useStormSurge, usePeakStormSurge, useWindSpeedProbability, useWindArrival } from '../hooks/useNHCData';
+import { useNHCData, useStormSurge, usePeakStormSurge, useWindSpeedProbability, useWindArrival, useWatchesWarnings, useWindRadii, useSurgeInundation } from '../hooks/useNHCData';
 import { useInvestData } from '../hooks/useInvestData';
 import { useGEFSSpaghetti } from '../hooks/useGEFSSpaghetti';
 import WindSpeedLegend from '../components/WindSpeedLegend';
-import { useHWRFData, useHMONData } from '../hooks/useHWRFData';
+import { useHafsWindField } from '../hooks/useHafsWindField';
+import ModelWindLayer from '../components/ModelWindLayer';
+import { HAFS_MODELS, HAFS_FORECAST_HOURS } from '../utils/modelWind';
 import SimpleHeader from '../components/SimpleHeader';
+import AnalogPanel, { AnalogMapLayer } from '../components/AnalogPanel';
+import { useHistoricalAnalogs } from '../hooks/useHistoricalAnalogs';
+import LocationThreatPanel, { SavedLocationLayer } from '../components/LocationThreatPanel';
+import { useLocationThreats } from '../hooks/useLocationThreats';
+import { useAdvisoryAlerts } from '../hooks/useAdvisoryAlerts';
+import { ALERT_TYPES, ALERT_TYPE_LABELS, describeAlert } from '../utils/advisoryAlerts';
+import { adeckBaseline, baselineInputFromStorm, heuristicBaselineForecast, BASELINE_AIDS, CLIPER_AID_ID, HEURISTIC_BASELINE_ID } from '../utils/cliper';
+import { ConsensusControls, ConsensusTrackLayer, CONSENSUS_COLOR } from '../components/ConsensusTrack';
+import { useConsensusTrack } from '../hooks/useConsensusTrack';
+import { EnsembleStrikeLayer, EnsembleStrikeLegend } from '../components/EnsembleStrikeLayer';
+import { WatchWarningLayer, WatchWarningLegend } from '../components/WatchWarningLayer';
+import { WindRadiiLayer, WindRadiiLegend } from '../components/WindRadiiLayer';
+import { SurgeInundationLayer, SurgeInundationLegend } from '../components/SurgeInundationLayer';
+import { useForecastAdvisory } from '../hooks/useForecastAdvisory';
+import { forecastPointsFromAdvisory } from '../utils/forecastAdvisory';
+import { compareWindRadii, type RadiiThreshold } from '../utils/windRadii';
+import { RADII_THRESHOLDS, WIND_MODELS, type WindModelId } from '../utils/windField';
+import { ensembleMembers, ensembleSpread, ensembleStrikeProbability, STRIKE_RADII_NM, DEFAULT_STRIKE_RADIUS_NM } from '../utils/ensembleStrike';
 import ExpandLessOutlinedIcon from '@mui/icons-material/ExpandLessOutlined';
 import ExpandMoreOutlinedIcon from '@mui/icons-material/ExpandMoreOutlined';
 import LayersOutlinedIcon from '@mui/icons-material/LayersOutlined';
@@ -343,7 +363,13 @@ const SimpleStormTracker: React.FC = () => {
   const [showForecastTracks, setShowForecastTracks] = useState(true);
   const [showForecastCones, setShowForecastCones] = useState(true);
   const [showStormSurge, setShowStormSurge] = useState(false);
+  const [showWatchesWarnings, setShowWatchesWarnings] = useState(false);
+  const [showWindRadii, setShowWindRadii] = useState(false);
+  const [radiiThresholds, setRadiiThresholds] = useState<RadiiThreshold[]>([...RADII_THRESHOLDS]);
+  const [radiiHour, setRadiiHour] = useState<number | 'all'>(0);
+  const [radiiModel, setRadiiModel] = useState<WindModelId>('rankine');
   const [showPeakStormSurge, setShowPeakStormSurge] = useState(false);
+  const [showSurgeInundation, setShowSurgeInundation] = useState(false);
   const [showWindArrival, setShowWindArrival] = useState(false);
   const [windArrivalType, setWindArrivalType] = useState<'most-likely' | 'earliest'>('most-likely');
   const [showWindSpeedProb, setShowWindSpeedProb] = useState(false);
@@ -360,15 +386,35 @@ const SimpleStormTracker: React.FC = () => {
   const [showECMWF, setShowECMWF] = useState(true);
   const [showGEFSEnsemble, setShowGEFSEnsemble] = useState(true);
   const [showOtherModels, setShowOtherModels] = useState(false);
+  const [showCliper, setShowCliper] = useState(true);
+  const [showConsensus, setShowConsensus] = useState(false);
+  const [showEnsembleStrike, setShowEnsembleStrike] = useState(false);
+  const [showEnsembleSpread, setShowEnsembleSpread] = useState(true);
+  const [strikeRadiusNm, setStrikeRadiusNm] = useState(DEFAULT_STRIKE_RADIUS_NM);
   
-  // Individual model windfield toggles
-  const [showHWRFWindfield, setShowHWRFWindfield] = useState(false);
-  const [showHMONWindfield, setShowHMONWindfield] = useState(false);
+  // HAFS model wind field toggles, sharing one forecast hour
+  const [showHafsAWindfield, setShowHafsAWindfield] = useState(false);
+  const [showHafsBWindfield, setShowHafsBWindfield] = useState(false);
+  const [hafsForecastHour, setHafsForecastHour] = useState(0);
   
   const [isControlPanelClosed, setIsControlPanelClosed] = useState(true);
   const [isNhcSectionOpen, setIsNhcSectionOpen] = useState(true);
   const [isWindFieldsOpen, setIsWindFieldsOpen] = useState(false);
   const [isModelTracksOpen, setIsModelTracksOpen] = useState(false);
+  const [isHistorySectionOpen, setIsHistorySectionOpen] = useState(false);
+  const [isAlertsSectionOpen, setIsAlertsSectionOpen] = useState(false);
+  // Advisory-change alerts; storms are polled every 5 minutes while they are on
+  const [showAlerts, setShowAlerts] = useState(false);
+
+  // Historical analog search ("what storms have passed near here")
+  const [showAnalogs, setShowAnalogs] = useState(false);
+  const analogs = useHistoricalAnalogs(showAnalogs);
+
+  // Saved locations and their threat from each advisory; both panels use map clicks,
+  // so only one of them is open at a time
+  const [showLocationThreats, setShowLocationThreats] = useState(false);
+  const toggleAnalogs = (on: boolean) => { setShowAnalogs(on); if (on) setShowLocationThreats(false); };
+  const toggleLocationThreats = (on: boolean) => { setShowLocationThreats(on); if (on) setShowAnalogs(false); };
   
   // Refs for layer button
   const layerButtonRef = useRef<HTMLButtonElement>(null);
@@ -381,17 +427,15 @@ const SimpleStormTracker: React.FC = () => {
   const [expandedDescriptions, setExpandedDescriptions] = useState<Set<string>>(new Set()); // Track which invest descriptions are expanded
   const [lastSelectionType, setLastSelectionType] = useState<'storm' | 'invest' | null>(null); // Track what was selected last
   const liveData = useNHCData({ 
-    autoRefresh: false, // Disable auto-refresh - only call when user requests
+    autoRefresh: showAlerts, // Poll only while advisory alerts are on - otherwise only when the user requests
     fetchOnMount: true, // Fetch on mount - load live data by default
-    useProxy: true, // Enable CORS proxy for development
     fetchTrackData: fetchLiveTrackData // Control track data fetching
   });
 
   // Invest data hook
   const { invests, loading: investLoading, error: investError } = useInvestData({
     autoRefresh: false,
-    fetchOnMount: true,
-    useProxy: true
+    fetchOnMount: true
   });
 
   // Choose which data source to use
@@ -403,6 +447,8 @@ const SimpleStormTracker: React.FC = () => {
   const shouldUseDemoData = false; // Never use demo data
   const displayStorms = storms || []; // Always use live storms (empty array if none)
   const hasStorms = displayStorms.length > 0;
+  const locationThreats = useLocationThreats(showLocationThreats, displayStorms);
+  const alerts = useAdvisoryAlerts(showAlerts, displayStorms, invests, locationThreats.locations, lastUpdated);
 
   // Auto-select first storm when storms are available and none is selected
   React.useEffect(() => {
@@ -490,11 +536,18 @@ const SimpleStormTracker: React.FC = () => {
   // Layer toggle tracking (each fires only when its value actually changes)
   useEffect(() => { trackLayer('forecast_cone', showForecastCones); },        [showForecastCones]);  // eslint-disable-line react-hooks/exhaustive-deps
   useEffect(() => { trackLayer('storm_surge', showStormSurge); },              [showStormSurge]);     // eslint-disable-line react-hooks/exhaustive-deps
+  useEffect(() => { trackLayer('watches_warnings', showWatchesWarnings); },    [showWatchesWarnings]); // eslint-disable-line react-hooks/exhaustive-deps
+  useEffect(() => { trackLayer('wind_radii', showWindRadii); },                [showWindRadii]);      // eslint-disable-line react-hooks/exhaustive-deps
   useEffect(() => { trackLayer('storm_surge', showPeakStormSurge); },          [showPeakStormSurge]); // eslint-disable-line react-hooks/exhaustive-deps
+  useEffect(() => { trackLayer('storm_surge_inundation', showSurgeInundation); }, [showSurgeInundation]); // eslint-disable-line react-hooks/exhaustive-deps
   useEffect(() => { trackLayer('wind_arrival_likely', showWindArrival); },     [showWindArrival]);    // eslint-disable-line react-hooks/exhaustive-deps
   useEffect(() => { trackLayer('gefs_spaghetti', showGEFSSpaghetti); },        [showGEFSSpaghetti]);  // eslint-disable-line react-hooks/exhaustive-deps
-  useEffect(() => { trackLayer('hwrf_windfield', showHWRFWindfield); },        [showHWRFWindfield]);  // eslint-disable-line react-hooks/exhaustive-deps
-  useEffect(() => { trackLayer('hmon_windfield', showHMONWindfield); },        [showHMONWindfield]);  // eslint-disable-line react-hooks/exhaustive-deps
+  useEffect(() => { trackLayer('historical_analogs', showAnalogs); },          [showAnalogs]);        // eslint-disable-line react-hooks/exhaustive-deps
+  useEffect(() => { trackLayer('location_threats', showLocationThreats); },    [showLocationThreats]); // eslint-disable-line react-hooks/exhaustive-deps
+  useEffect(() => { trackLayer('hafs_a_windfield', showHafsAWindfield); },     [showHafsAWindfield]);  // eslint-disable-line react-hooks/exhaustive-deps
+  useEffect(() => { trackLayer('hafs_b_windfield', showHafsBWindfield); },     [showHafsBWindfield]);  // eslint-disable-line react-hooks/exhaustive-deps
+  useEffect(() => { trackLayer('model_consensus', showConsensus); },           [showConsensus]);      // eslint-disable-line react-hooks/exhaustive-deps
+  useEffect(() => { trackLayer('ensemble_strike_probability', showEnsembleStrike); }, [showEnsembleStrike]); // eslint-disable-line react-hooks/exhaustive-deps
   useEffect(() => {
     const layer: LayerName = windSpeedProbType === '34kt'
       ? 'wind_probability_34kt'
@@ -508,6 +561,7 @@ const SimpleStormTracker: React.FC = () => {
 
   // Get selected storm data (primary for overlays) and which storms to show on map (multi-select)
   const selectedStorm = selectedStormId ? displayStorms.find(s => s.id === selectedStormId) : null;
+
   const selectedInvest = selectedInvestId ? invests.find(i => i.id === selectedInvestId) : null;
   const stormsToDisplay = selectedStormIds.length > 0
     ? displayStorms.filter(s => selectedStormIds.includes(s.id))
@@ -517,8 +571,53 @@ const SimpleStormTracker: React.FC = () => {
   // Use storm surge hook for the selected storm
   const stormSurge = useStormSurge(showStormSurge && selectedStormId ? selectedStormId : null);
   
+  // Coastal watches and warnings for every storm on the map
+  const watchesWarnings = useWatchesWarnings(showWatchesWarnings, stormsToDisplay);
+  const watchStormNames = useMemo(
+    () => Object.fromEntries(displayStorms.map(s => [s.id.toUpperCase(), s.name])),
+    [displayStorms],
+  );
+
+  // NHC's published wind radii for the selected storm, checked against the parametric
+  // field run from the same advisory's forecast points
+  const windRadii = useWindRadii(showWindRadii && !!selectedStorm, selectedStorm?.id ?? null, selectedStorm?.advisoryNumber ?? null);
+  const radiiAdvisoryFetch = useForecastAdvisory(
+    showWindRadii && selectedStorm && !selectedStorm.forecastAdvisory ? selectedStorm.id : null,
+    selectedStorm?.advisoryNumber ?? null,
+  );
+  const radiiAdvisory = selectedStorm?.forecastAdvisory ?? radiiAdvisoryFetch.advisory;
+  const radiiHours = useMemo(
+    () => [...new Set((windRadii.windRadii?.radii.features ?? [])
+      .map(f => f.properties.forecastHour)
+      .filter((h): h is number => h !== null))].sort((a, b) => a - b),
+    [windRadii.windRadii],
+  );
+  const radiiAtHour = useMemo(
+    () => (windRadii.windRadii?.radii.features ?? []).filter(f => radiiHour === 'all' || f.properties.forecastHour === radiiHour),
+    [windRadii.windRadii, radiiHour],
+  );
+  const shownRadii = useMemo(
+    () => radiiAtHour.filter(f => radiiThresholds.includes(f.properties.thresholdKt)),
+    [radiiAtHour, radiiThresholds],
+  );
+  // Every threshold is compared, so hiding one doesn't change the hour's error
+  const radiiComparisons = useMemo(
+    () => (showWindRadii && radiiAdvisory
+      ? compareWindRadii(radiiAtHour, forecastPointsFromAdvisory(radiiAdvisory), WIND_MODELS[radiiModel])
+      : []),
+    [showWindRadii, radiiAdvisory, radiiAtHour, radiiModel],
+  );
+  const toggleRadiiThreshold = (kt: RadiiThreshold) =>
+    setRadiiThresholds(prev => (prev.includes(kt) ? prev.filter(t => t !== kt) : [...prev, kt].sort((a, b) => a - b)));
+
   // Use peak storm surge hook for the selected storm
   const peakStormSurge = usePeakStormSurge(showPeakStormSurge && selectedStormId ? selectedStormId : null);
+
+  // Potential storm surge flooding for the selected storm; a map click looks the point up
+  // in it and in the storm's surge watches/warnings
+  const surgeInundation = useSurgeInundation(showSurgeInundation && !!selectedStorm, selectedStorm?.id ?? null, selectedStorm?.advisoryNumber ?? null);
+  const surgeWatches = useWatchesWarnings(showSurgeInundation && !!selectedStorm, selectedStorm ? [selectedStorm] : []);
+  const selectedSurgeWatches = surgeWatches.watches.find(w => w.stormId === selectedStorm?.id.toUpperCase()) ?? null;
   
   // Use wind speed probability hook when enabled and all storms are shown (no filter or all selected)
   const windSpeedProb = useWindSpeedProbability(showWindSpeedProb && isAllStormsShown, windSpeedProbType);
@@ -527,25 +626,42 @@ const SimpleStormTracker: React.FC = () => {
   const windArrival = useWindArrival(showWindArrival && selectedStormId !== null, selectedStormId, windArrivalType);
 
   // Use NOAA NOMADS spaghetti models hook when enabled and a storm is selected
-  const gefs = useGEFSSpaghetti(showGEFSSpaghetti && !!selectedStormId, selectedStormId);
-
-  // Use HWRF and HMON wind field hooks when enabled and a storm is selected
-  const hwrf = useHWRFData();
-  const hmon = useHMONData();
-
-  // Fetch HWRF and HMON data when storm is selected and models are enabled
-  useEffect(() => {
-    if (selectedStormId && (showHWRF || showHWRFWindfield) && !hwrf.isLoading) {
-      hwrf.fetchHWRFData(selectedStormId);
+  const gefs = useGEFSSpaghetti((showGEFSSpaghetti || showEnsembleStrike) && !!selectedStormId, selectedStormId);
+
+  // Climatology-and-persistence baseline for the selected storm (no-skill reference track):
+  // NHC's CLP5/SHF5 from the A-deck, else the local heuristic under its own ID
+  const baseline = useMemo(() => {
+    const aid = gefs.tracks ? adeckBaseline(gefs.tracks.tracks) : [];
+    if (aid.length > 1) {
+      return { id: CLIPER_AID_ID, name: 'CLIPER5 / SHIFOR5 Baseline', hint: 'NHC climatology & persistence aid (no skill)', points: aid };
     }
-  }, [selectedStormId, showHWRF, showHWRFWindfield]);
+    const input = selectedStorm ? baselineInputFromStorm(selectedStorm) : null;
+    return {
+      id: HEURISTIC_BASELINE_ID,
+      name: 'Persistence Heuristic',
+      hint: 'No CLP5 this cycle: rough persistence/climatology blend, not CLIPER5',
+      points: input ? heuristicBaselineForecast(input) : [],
+    };
+  }, [gefs.tracks, selectedStorm]);
 
-  useEffect(() => {
-    if (selectedStormId && (showHMON || showHMONWindfield) && !hmon.isLoading) {
-      hmon.fetchHMONData(selectedStormId);
-    }
-  }, [selectedStormId, showHMON, showHMONWindfield]);
+  // GEFS strike probability, mean track and spread from the A-deck members
+  const gefsMembers = useMemo(() => ensembleMembers(gefs.tracks?.tracks ?? []), [gefs.tracks]);
+  const strikeGrid = useMemo(
+    () => (showEnsembleStrike && gefsMembers.length > 0 ? ensembleStrikeProbability(gefsMembers, strikeRadiusNm) : null),
+    [showEnsembleStrike, gefsMembers, strikeRadiusNm],
+  );
+  const ensembleSpreadByTau = useMemo(
+    () => (showEnsembleStrike ? ensembleSpread(gefsMembers) : []),
+    [showEnsembleStrike, gefsMembers],
+  );
 
+  // User-defined consensus of the A-deck aids in the latest cycle
+  const consensus = useConsensusTrack(selectedStormId, gefs.tracks?.tracks ?? null);
+
+  // HAFS-A / HAFS-B 10-m wind grids, decoded from the model GRIB2 output
+  const hafsA = useHafsWindField(selectedStormId, 'hfsa', hafsForecastHour, showHafsAWindfield);
+  const hafsB = useHafsWindField(selectedStormId, 'hfsb', hafsForecastHour, showHafsBWindfield);
+  const hafsLegendModel = showHafsAWindfield && hafsA.grid ? hafsA : showHafsBWindfield && hafsB.grid ? hafsB : null;
 
   // Helper function to open CORS proxy access page
   const openCorsAccess = () => {
@@ -955,7 +1071,7 @@ const SimpleStormTracker: React.FC = () => {
                 shouldShow = true;
               } else if (showOtherModels) {
                 // Show other/miscellaneous models when "Other Models" is enabled
-                const knownModels = ['OFCL', 'OFCI', 'HWRF', 'HMON', 'HAFS', 'HAFA', 'HAFB', 'GFS', 'GFSO', 'ECMW', 'ECM2', 'AEMI', 'AEMN', 'AEM2', 'AC00'];
+                const knownModels = ['OFCL', 'OFCI', 'HWRF', 'HMON', 'HAFS', 'HAFA', 'HAFB', 'GFS', 'GFSO', 'ECMW', 'ECM2', 'AEMI', 'AEMN', 'AEM2', 'AC00', ...BASELINE_AIDS];
                 if (!knownModels.includes(modelId) && !modelId.startsWith('AP')) {
                   shouldShow = true;
                 }
@@ -1069,6 +1185,34 @@ const SimpleStormTracker: React.FC = () => {
           );
         })()}
 
+        {/* Climatology-and-persistence baseline, drawn with the model tracks */}
+        {showGEFSSpaghetti && showCliper && baseline.points.length > 1 && (
+          <Polyline
+            positions={baseline.points.map(p => [p.lat, p.lon] as [number, number])}
+            pathOptions={{ color: '#607d8b', weight: 2.5, opacity: 0.9, dashArray: '2, 6' }}
+          >
+            <Tooltip sticky>
+              <div>
+                <strong>{baseline.id}</strong>
+                <div style={{fontSize: '0.8em', color: '#666'}}>{baseline.name}</div>
+                <div style={{fontSize: '0.8em', color: '#666'}}>
+                  {baseline.points.filter(p => p.tau > 0 && p.tau % 24 === 0).map(p => `${p.tau}h ${p.vmax ?? '—'} kt`).join(' · ')}
+                </div>
+              </div>
+            </Tooltip>
+          </Polyline>
+        )}
+
+        {/* GEFS strike probability under the model tracks */}
+        {showEnsembleStrike && selectedStormId && (
+          <EnsembleStrikeLayer grid={strikeGrid} spread={ensembleSpreadByTau} showSpread={showEnsembleSpread} />
+        )}
+
+        {/* User-defined consensus, drawn over the member tracks */}
+        {showGEFSSpaghetti && showConsensus && (
+          <ConsensusTrackLayer name={consensus.draft.name} track={consensus.track} />
+        )}
+
         {/* Render forecast tracks from KMZ data or forecast data */}
         {showForecastTracks && stormsToDisplay.map((storm) => {
           // First try to use official forecast track data from KMZ
@@ -1377,6 +1521,20 @@ const SimpleStormTracker: React.FC = () => {
           return null;
         })}
 
+        {showWindRadii && selectedStormId && (
+          <WindRadiiLayer features={shownRadii} thresholds={radiiThresholds} comparisons={radiiComparisons} modelLabel={WIND_MODELS[radiiModel].label} />
+        )}
+
+        {showWatchesWarnings && <WatchWarningLayer watches={watchesWarnings.watches} stormNames={watchStormNames} />}
+
+        {showSurgeInundation && selectedStormId && surgeInundation.inundation && (
+          <SurgeInundationLayer
+            inundation={surgeInundation.inundation}
+            watches={selectedSurgeWatches}
+            queryEnabled={!showAnalogs && !locationThreats.placing}
+          />
+        )}
+
         {/* Storm Surge Layer */}
         {showStormSurge && stormSurge.surgeData && stormSurge.surgeData.features && stormSurge.surgeData.features.map((feature: any, index: number) => {
           if (feature.geometry && feature.geometry.type === 'Polygon') {
@@ -1959,151 +2117,48 @@ const SimpleStormTracker: React.FC = () => {
           });
         })()}
 
-        {/* HWRF Wind Field Layer - Enhanced Contour Display */}
-        {showHWRFWindfield && selectedStormId && hwrf.hwrfData && hwrf.hwrfData.windFields && hwrf.hwrfData.windFields.map((windField, index) => (
-          <React.Fragment key={`hwrf-windfield-${index}`}>
-            {/* Render contour polygons if available */}
-            {windField.contours && windField.contours.map((contour, contourIndex) => (
-              <Polygon
-                key={`hwrf-contour-${index}-${contourIndex}`}
-                positions={contour.polygon}
-                color={contour.color}
-                fillColor={contour.color}
-                fillOpacity={0.35}
-                weight={1}
-                opacity={0.8}
-              >
-                <Tooltip>
-                  <div>
-                    <strong>HWRF Wind Contour</strong><br/>
-                    Wind Speed: {contour.windSpeed}+ kt<br/>
-                    Model Center: {windField.center[0].toFixed(2)}, {windField.center[1].toFixed(2)}<br/>
-                    Max Winds: {windField.maxWinds} kt
-                  </div>
-                </Tooltip>
-              </Polygon>
-            ))}
-            
-            {/* Center marker for HWRF */}
-            <CircleMarker
-              center={windField.center}
-              radius={6}
-              color="#FF0000"
-              fillColor="#FF0000"
-              fillOpacity={0.9}
-              weight={2}
-            >
-              <Tooltip>
-                <div>
-                  <strong>HWRF Model Center</strong><br/>
-                  Max Winds: {windField.maxWinds} kt<br/>
-                  Radius: {Math.round(windField.radius)} km
-                </div>
-              </Tooltip>
-            </CircleMarker>
-            
-            {/* Fallback to point display if no contours */}
-            {!windField.contours && windField.windField.map((point, pointIndex) => (
-              <CircleMarker
-                key={`hwrf-point-${index}-${pointIndex}`}
-                center={[point.lat, point.lon]}
-                radius={Math.max(1, point.windSpeed / 20)}
-                color="#ff4444"
-                fillColor="#ff4444"
-                fillOpacity={Math.min(0.8, point.windSpeed / 100)}
-                weight={0}
-              >
-                <Tooltip>
-                  <div>
-                    <strong>HWRF Wind Field</strong><br/>
-                    Wind Speed: {point.windSpeed} kt<br/>
-                    Pressure: {point.pressure} mb<br/>
-                    Time: {new Date(point.time).toLocaleString()}
-                  </div>
-                </Tooltip>
-              </CircleMarker>
-            ))}
-          </React.Fragment>
-        ))}
+        {/* HAFS model wind fields */}
+        {showHafsAWindfield && selectedStormId && hafsA.grid && <ModelWindLayer grid={hafsA.grid} />}
+        {showHafsBWindfield && selectedStormId && hafsB.grid && <ModelWindLayer grid={hafsB.grid} />}
 
-        {/* HMON Wind Field Layer - Enhanced Contour Display */}
-        {showHMONWindfield && selectedStormId && hmon.hmonData && hmon.hmonData.windFields && hmon.hmonData.windFields.map((windField, index) => (
-          <React.Fragment key={`hmon-windfield-${index}`}>
-            {/* Render contour polygons if available */}
-            {windField.contours && windField.contours.map((contour, contourIndex) => (
-              <Polygon
-                key={`hmon-contour-${index}-${contourIndex}`}
-                positions={contour.polygon}
-                color={contour.color}
-                fillColor={contour.color}
-                fillOpacity={0.35}
-                weight={1}
-                opacity={0.8}
-              >
-                <Tooltip>
-                  <div>
-                    <strong>HMON Wind Contour</strong><br/>
-                    Wind Speed: {contour.windSpeed}+ kt<br/>
-                    Model Center: {windField.center[0].toFixed(2)}, {windField.center[1].toFixed(2)}<br/>
-                    Max Winds: {windField.maxWinds} kt
-                  </div>
-                </Tooltip>
-              </Polygon>
-            ))}
-            
-            {/* Center marker for HMON */}
-            <CircleMarker
-              center={windField.center}
-              radius={6}
-              color="#8B4513"
-              fillColor="#8B4513"
-              fillOpacity={0.9}
-              weight={2}
-            >
-              <Tooltip>
-                <div>
-                  <strong>HMON Model Center</strong><br/>
-                  Max Winds: {windField.maxWinds} kt<br/>
-                  Radius: {Math.round(windField.radius)} km
-                </div>
-              </Tooltip>
-            </CircleMarker>
-            
-            {/* Fallback to point display if no contours */}
-            {!windField.contours && windField.windField.map((point, pointIndex) => (
-              <CircleMarker
-                key={`hmon-point-${index}-${pointIndex}`}
-                center={[point.lat, point.lon]}
-                radius={Math.max(1, point.windSpeed / 20)}
-                color="#4682b4"
-                fillColor="#4682b4"
-                fillOpacity={Math.min(0.8, point.windSpeed / 100)}
-                weight={0}
-              >
-                <Tooltip>
-                  <div>
-                    <strong>HMON Wind Field</strong><br/>
-                    Wind Speed: {point.windSpeed} kt<br/>
-                    Pressure: {point.pressure} mb<br/>
-                    Time: {new Date(point.time).toLocaleString()}
-                  </div>
-                </Tooltip>
-              </CircleMarker>
-            ))}
-          </React.Fragment>
-        ))}
+        {/* Historical analog search area and matching best tracks */}
+        {showAnalogs && <AnalogMapLayer analogs={analogs} />}
+
+        {/* Saved locations, coloured by threat level */}
+        {showLocationThreats && <SavedLocationLayer threats={locationThreats} />}
 
       </MapContainer>
+
+      {showAnalogs && <AnalogPanel analogs={analogs} onClose={() => setShowAnalogs(false)} />}
+      {showLocationThreats && (
+        <LocationThreatPanel
+          threats={locationThreats}
+          stormCount={displayStorms.length}
+          onClose={() => setShowLocationThreats(false)}
+        />
+      )}
       
-      {/* Wind Speed Legend for HWRF/HMON */}
-      <WindSpeedLegend 
-        visible={!!(
-          (showHWRFWindfield && hwrf.hwrfData?.windFields && hwrf.hwrfData.windFields.length > 0) || 
-          (showHMONWindfield && hmon.hmonData?.windFields && hmon.hmonData.windFields.length > 0)
-        )}
-        modelType={showHWRFWindfield && hwrf.hwrfData?.windFields && hwrf.hwrfData.windFields.length > 0 ? 'HWRF' : 'HMON'}
+      {/* Wind Speed Legend for the HAFS wind fields */}
+      <WindSpeedLegend
+        visible={!!selectedStormId && !!hafsLegendModel}
+        model={hafsLegendModel?.field?.model ?? ''}
+        validTime={hafsLegendModel?.field?.validTime ?? null}
       />
       
+      {showEnsembleStrike && selectedStormId && strikeGrid && <EnsembleStrikeLegend grid={strikeGrid} />}
+
+      {showWindRadii && selectedStormId && shownRadii.length > 0 && (
+        <WindRadiiLegend thresholds={radiiThresholds} comparisons={radiiComparisons} modelLabel={WIND_MODELS[radiiModel].label} />
+      )}
+
+      {showWatchesWarnings && watchesWarnings.watches.length > 0 && (
+        <WatchWarningLegend watches={watchesWarnings.watches} stormNames={watchStormNames} />
+      )}
+
+      {showSurgeInundation && selectedStorm && surgeInundation.inundation && (
+        <SurgeInundationLegend inundation={surgeInundation.inundation} stormName={selectedStorm.name} />
+      )}
+
       {/* Wind Speed Probability Legend */}
   {showWindSpeedProb && isAllStormsShown && windSpeedProb.probabilityData && (
         <div className="wind-speed-probability-legend" style={{
@@ -2874,6 +2929,26 @@ const SimpleStormTracker: React.FC = () => {
                       </div>
                     </label>
 
+                    {/* Watches & Warnings */}
+                    <label className="layer-item">
+                      <div className="layer-item-left">
+                        <span className="layer-color-swatch" style={{ background: 'linear-gradient(90deg, #ff0000 50%, #0000ff 50%)' }} />
+                        <div className="layer-item-text">
+                          <span className="layer-name">Watches &amp; Warnings</span>
+                          {showWatchesWarnings && !watchesWarnings.loading && watchesWarnings.watches.length === 0 && stormsToDisplay.length > 0 && (
+                            <span className="layer-hint">None in effect</span>
+                          )}
+                        </div>
+                        {watchesWarnings.loading && (
+                          <div className="gefs-spinner" />
+                        )}
+                      </div>
+                      <div className="toggle-switch">
+                        <input type="checkbox" checked={showWatchesWarnings} onChange={(e) => setShowWatchesWarnings(e.target.checked)} />
+                        <span className="toggle-track" />
+                      </div>
+                    </label>
+
                     {/* Peak Storm Surge */}
                     <label className={`layer-item${!selectedStormId ? ' disabled' : ''}`}>
                       <div className="layer-item-left">
@@ -2895,6 +2970,30 @@ const SimpleStormTracker: React.FC = () => {
                       </div>
                     </label>
 
+                    {/* Potential Storm Surge Flooding */}
+                    <label className={`layer-item${!selectedStormId ? ' disabled' : ''}`}>
+                      <div className="layer-item-left">
+                        <span className="layer-color-swatch" style={{ background: 'linear-gradient(90deg, #1e90ff 25%, #ffff00 25% 50%, #ff9900 50% 75%, #ff0000 75%)' }} />
+                        <div className="layer-item-text">
+                          <span className="layer-name">Surge Flooding</span>
+                          {!selectedStormId && <span className="layer-hint">Select a storm first</span>}
+                          {showSurgeInundation && selectedStormId && surgeInundation.available === false && !surgeInundation.loading && (
+                            <span className="layer-hint">{surgeInundation.error ? 'Failed to load' : 'Not issued for this storm'}</span>
+                          )}
+                          {showSurgeInundation && surgeInundation.inundation && (
+                            <span className="layer-hint">Click the map to query a point</span>
+                          )}
+                        </div>
+                        {surgeInundation.loading && selectedStormId && (
+                          <div className="gefs-spinner" />
+                        )}
+                      </div>
+                      <div className="toggle-switch">
+                        <input type="checkbox" checked={showSurgeInundation} onChange={(e) => setShowSurgeInundation(e.target.checked)} disabled={!selectedStormId} />
+                        <span className="toggle-track" />
+                      </div>
+                    </label>
+
                     {/* Wind Arrival Time */}
                     <label className={`layer-item${!selectedStormId ? ' disabled' : ''}`}>
                       <div className="layer-item-left">
@@ -3062,33 +3161,85 @@ const SimpleStormTracker: React.FC = () => {
 
                 {isWindFieldsOpen && (
                   <>
-                    <label className="layer-item">
-                      <div className="layer-item-left">
-                        <span className="layer-badge" style={{ background: '#ff4444' }}>HWRF</span>
-                        <div className="layer-item-text">
-                          <span className="layer-name">Wind Field</span>
+                    {([
+                      ['hfsa', hafsA, showHafsAWindfield, setShowHafsAWindfield],
+                      ['hfsb', hafsB, showHafsBWindfield, setShowHafsBWindfield],
+                    ] as const).map(([model, hafs, checked, setChecked]) => (
+                      <label className={`layer-item${!selectedStormId ? ' disabled' : ''}`} key={model}>
+                        <div className="layer-item-left">
+                          <span className="layer-badge" style={{ background: HAFS_MODELS[model].color }}>{HAFS_MODELS[model].label}</span>
+                          <div className="layer-item-text">
+                            <span className="layer-name">10-m Wind Field</span>
+                            {checked && hafs.field && (
+                              <span className="layer-hint">
+                                Peak {hafs.field.maxWindKt} kt · {hafs.field.cycle.slice(8)}Z {hafs.field.cycle.slice(4, 6)}/{hafs.field.cycle.slice(6, 8)} run
+                              </span>
+                            )}
+                            {checked && !hafs.loading && hafs.error && <span className="layer-hint">{hafs.error}</span>}
+                          </div>
+                          {hafs.loading && <div className="gefs-spinner" />}
                         </div>
-                        {hwrf.isLoading && <div className="gefs-spinner" />}
-                      </div>
-                      <div className="toggle-switch">
-                        <input type="checkbox" checked={showHWRFWindfield} onChange={(e) => setShowHWRFWindfield(e.target.checked)} />
-                        <span className="toggle-track" />
+                        <div className="toggle-switch">
+                          <input type="checkbox" checked={checked} onChange={(e) => setChecked(e.target.checked)} disabled={!selectedStormId} />
+                          <span className="toggle-track" />
+                        </div>
+                      </label>
+                    ))}
+
+                    {(showHafsAWindfield || showHafsBWindfield) && selectedStormId && (
+                      <div className="layer-sub-options">
+                        <label className="sub-option-label">
+                          Forecast hour
+                          <select value={hafsForecastHour} onChange={(e) => setHafsForecastHour(Number(e.target.value))}>
+                            {HAFS_FORECAST_HOURS.map(h => <option key={h} value={h}>{h === 0 ? 'Analysis' : `+${h} h`}</option>)}
+                          </select>
+                        </label>
                       </div>
-                    </label>
+                    )}
 
-                    <label className="layer-item">
+                    {/* NHC Wind Radii */}
+                    <label className={`layer-item${!selectedStormId ? ' disabled' : ''}`}>
                       <div className="layer-item-left">
-                        <span className="layer-badge" style={{ background: '#4682b4' }}>HMON</span>
+                        <span className="layer-color-swatch" style={{ background: '#ff8c00' }} />
                         <div className="layer-item-text">
-                          <span className="layer-name">Wind Field</span>
+                          <span className="layer-name">NHC Wind Radii</span>
+                          {!selectedStormId && <span className="layer-hint">Select a storm first</span>}
+                          {showWindRadii && selectedStormId && windRadii.available === false && !windRadii.loading && (
+                            <span className="layer-hint">No radii published</span>
+                          )}
                         </div>
-                        {hmon.isLoading && <div className="gefs-spinner" />}
+                        {windRadii.loading && selectedStormId && (
+                          <div className="gefs-spinner" />
+                        )}
                       </div>
                       <div className="toggle-switch">
-                        <input type="checkbox" checked={showHMONWindfield} onChange={(e) => setShowHMONWindfield(e.target.checked)} />
+                        <input type="checkbox" checked={showWindRadii} onChange={(e) => setShowWindRadii(e.target.checked)} disabled={!selectedStormId} />
                         <span className="toggle-track" />
                       </div>
                     </label>
+                    {showWindRadii && selectedStormId && (
+                      <div className="layer-sub-options">
+                        {RADII_THRESHOLDS.map(kt => (
+                          <label key={kt} className="sub-option-label">
+                            <input type="checkbox" checked={radiiThresholds.includes(kt)} onChange={() => toggleRadiiThreshold(kt)} />
+                            {kt} kt
+                          </label>
+                        ))}
+                        <label className="sub-option-label">
+                          Forecast hour
+                          <select value={radiiHour} onChange={(e) => setRadiiHour(e.target.value === 'all' ? 'all' : Number(e.target.value))}>
+                            <option value="all">All hours</option>
+                            {radiiHours.map(h => <option key={h} value={h}>{h === 0 ? 'Initial' : `+${h} h`}</option>)}
+                          </select>
+                        </label>
+                        <label className="sub-option-label">
+                          Compare with
+                          <select value={radiiModel} onChange={(e) => setRadiiModel(e.target.value as WindModelId)}>
+                            {Object.values(WIND_MODELS).map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                          </select>
+                        </label>
+                      </div>
+                    )}
                   </>
                 )}
               </div>
@@ -3127,14 +3278,63 @@ const SimpleStormTracker: React.FC = () => {
                       </div>
                     </label>
 
+                    {showGEFSSpaghetti && selectedStormId && baseline.points.length > 1 && (
+                      <label className="layer-item">
+                        <div className="layer-item-left">
+                          <span className="layer-badge" style={{ background: '#607d8b' }}>{baseline.id}</span>
+                          <div className="layer-item-text">
+                            <span className="layer-name">{baseline.name}</span>
+                            <span className="layer-hint">{baseline.hint}</span>
+                          </div>
+                        </div>
+                        <div className="toggle-switch">
+                          <input type="checkbox" checked={showCliper} onChange={(e) => setShowCliper(e.target.checked)} />
+                          <span className="toggle-track" />
+                        </div>
+                      </label>
+                    )}
+
+                    {/* GEFS strike probability (independent of the spaghetti display) */}
+                    <label className={`layer-item${!selectedStormId ? ' disabled' : ''}`}>
+                      <div className="layer-item-left">
+                        <span className="layer-badge" style={{ background: '#800000' }}>GEFS</span>
+                        <div className="layer-item-text">
+                          <span className="layer-name">Ensemble Strike Probability</span>
+                          <span className="layer-hint">
+                            {showEnsembleStrike && selectedStormId && !gefs.loading && gefsMembers.length === 0
+                              ? 'No GEFS members in the latest cycle'
+                              : 'Chance the centre passes nearby'}
+                          </span>
+                        </div>
+                      </div>
+                      <div className="toggle-switch">
+                        <input type="checkbox" checked={showEnsembleStrike} onChange={(e) => setShowEnsembleStrike(e.target.checked)} disabled={!selectedStormId} />
+                        <span className="toggle-track" />
+                      </div>
+                    </label>
+                    {showEnsembleStrike && selectedStormId && (
+                      <div className="layer-sub-options">
+                        <label className="sub-option-label">
+                          Within
+                          <select value={strikeRadiusNm} onChange={(e) => setStrikeRadiusNm(Number(e.target.value))}>
+                            {STRIKE_RADII_NM.map(r => <option key={r} value={r}>{r} nm</option>)}
+                          </select>
+                        </label>
+                        <label className="sub-option-label">
+                          <input type="checkbox" checked={showEnsembleSpread} onChange={(e) => setShowEnsembleSpread(e.target.checked)} />
+                          Mean track and spread ellipses
+                        </label>
+                      </div>
+                    )}
+
                     {showGEFSSpaghetti && selectedStormId && gefs.tracks?.modelsPresent && (
                       <>
                         {/* Quick actions */}
                         <div className="model-quick-actions">
-                          <button className="model-quick-btn model-quick-btn--all" onClick={() => { setShowOfficialTrack(true); setShowHAFS(true); setShowGFS(true); setShowECMWF(true); setShowGEFSEnsemble(true); setShowOtherModels(true); setShowHWRF(true); setShowHMON(true); }}>
+                          <button className="model-quick-btn model-quick-btn--all" onClick={() => { setShowOfficialTrack(true); setShowHAFS(true); setShowGFS(true); setShowECMWF(true); setShowGEFSEnsemble(true); setShowOtherModels(true); setShowHWRF(true); setShowHMON(true); setShowCliper(true); setShowConsensus(true); }}>
                             Select All
                           </button>
-                          <button className="model-quick-btn model-quick-btn--clear" onClick={() => { setShowOfficialTrack(false); setShowHAFS(false); setShowGFS(false); setShowECMWF(false); setShowGEFSEnsemble(false); setShowOtherModels(false); setShowHWRF(false); setShowHMON(false); }}>
+                          <button className="model-quick-btn model-quick-btn--clear" onClick={() => { setShowOfficialTrack(false); setShowHAFS(false); setShowGFS(false); setShowECMWF(false); setShowGEFSEnsemble(false); setShowOtherModels(false); setShowHWRF(false); setShowHMON(false); setShowCliper(false); setShowConsensus(false); }}>
                             Clear All
                           </button>
                         </div>
@@ -3235,7 +3435,7 @@ const SimpleStormTracker: React.FC = () => {
                         )}
 
                         {(() => {
-                          const knownModels = ['OFCL', 'OFCI', 'HWRF', 'HMON', 'HAFS', 'HAFA', 'HAFB', 'GFS', 'GFSO', 'ECMW', 'ECM2', 'AEMI', 'AEMN', 'AEM2', 'AC00'];
+                          const knownModels = ['OFCL', 'OFCI', 'HWRF', 'HMON', 'HAFS', 'HAFA', 'HAFB', 'GFS', 'GFSO', 'ECMW', 'ECM2', 'AEMI', 'AEMN', 'AEM2', 'AC00', ...BASELINE_AIDS];
                           const otherModels = gefs.tracks.modelsPresent.filter((m: string) => !knownModels.includes(m) && !m.startsWith('AP'));
                           return otherModels.length > 0 ? (
                             <label className="layer-item">
@@ -3254,6 +3454,24 @@ const SimpleStormTracker: React.FC = () => {
                           ) : null;
                         })()}
 
+                        {/* Consensus of the selected aids */}
+                        <label className="layer-item">
+                          <div className="layer-item-left">
+                            <span className="layer-badge" style={{ background: CONSENSUS_COLOR }}>CONS</span>
+                            <div className="layer-item-text">
+                              <span className="layer-name">Consensus Track</span>
+                              <span className="layer-hint">{consensus.draft.name} · {consensus.draft.members.length} members</span>
+                            </div>
+                          </div>
+                          <div className="toggle-switch">
+                            <input type="checkbox" checked={showConsensus} onChange={(e) => setShowConsensus(e.target.checked)} />
+                            <span className="toggle-track" />
+                          </div>
+                        </label>
+                        {showConsensus && (
+                          <ConsensusControls consensus={consensus} modelsPresent={gefs.tracks.modelsPresent} />
+                        )}
+
                         {/* Cycle / fetch time */}
                         {gefs.tracks && (
                           <div style={{ marginTop: '8px', fontSize: '0.68rem', color: 'rgba(255,255,255,0.3)', display: 'flex', alignItems: 'center', gap: '8px' }}>
@@ -3280,6 +3498,108 @@ const SimpleStormTracker: React.FC = () => {
                   </>
                 )}
               </div>
+              {/* Historical best tracks */}
+              <div className="panel-section">
+                <div className="panel-section-header" onClick={() => setIsHistorySectionOpen(o => !o)}>
+                  <span className="section-title">History</span>
+                  <span className={`section-chevron${isHistorySectionOpen ? ' open' : ''}`}>
+                    <ExpandMoreOutlinedIcon style={{ fontSize: '1rem' }} />
+                  </span>
+                </div>
+
+                {isHistorySectionOpen && (
+                  <label className="layer-item">
+                    <div className="layer-item-left">
+                      <span className="layer-color-swatch" style={{ background: '#00d4ff' }} />
+                      <div className="layer-item-text">
+                        <span className="layer-name">Storms Near a Location</span>
+                        <span className="layer-hint">Click the map to list past storms (HURDAT2)</span>
+                      </div>
+                      {analogs.loading && <div className="gefs-spinner" />}
+                    </div>
+                    <div className="toggle-switch">
+                      <input type="checkbox" checked={showAnalogs} onChange={(e) => toggleAnalogs(e.target.checked)} />
+                      <span className="toggle-track" />
+                    </div>
+                  </label>
+                )}
+                {isHistorySectionOpen && (
+                  <label className="layer-item">
+                    <div className="layer-item-left">
+                      <span className="layer-color-swatch" style={{ background: '#f6ad55' }} />
+                      <div className="layer-item-text">
+                        <span className="layer-name">My Locations</span>
+                        <span className="layer-hint">Threat to saved places from each advisory</span>
+                      </div>
+                      {locationThreats.loading && <div className="gefs-spinner" />}
+                    </div>
+                    <div className="toggle-switch">
+                      <input type="checkbox" checked={showLocationThreats} onChange={(e) => toggleLocationThreats(e.target.checked)} />
+                      <span className="toggle-track" />
+                    </div>
+                  </label>
+                )}
+              </div>
+              {/* Advisory-change alerts */}
+              <div className="panel-section">
+                <div className="panel-section-header" onClick={() => setIsAlertsSectionOpen(o => !o)}>
+                  <span className="section-title">Alerts</span>
+                  <span className={`section-chevron${isAlertsSectionOpen ? ' open' : ''}`}>
+                    <ExpandMoreOutlinedIcon style={{ fontSize: '1rem' }} />
+                  </span>
+                </div>
+
+                {isAlertsSectionOpen && (
+                  <>
+                    <label className="layer-item">
+                      <div className="layer-item-left">
+                        <span className="layer-color-swatch" style={{ background: '#fc8181' }} />
+                        <div className="layer-item-text">
+                          <span className="layer-name">Advisory Alerts</span>
+                          <span className="layer-hint">Checks every 5 minutes while this tab is open</span>
+                        </div>
+                      </div>
+                      <div className="toggle-switch">
+                        <input type="checkbox" checked={showAlerts} onChange={(e) => setShowAlerts(e.target.checked)} />
+                        <span className="toggle-track" />
+                      </div>
+                    </label>
+                    <div className="layer-sub-options">
+                      {ALERT_TYPES.map(type => (
+                        <label key={type} className="sub-option-label">
+                          <input type="checkbox" checked={alerts.types.includes(type)} onChange={() => alerts.toggleType(type)} />
+                          {ALERT_TYPE_LABELS[type]}
+                        </label>
+                      ))}
+                      {alerts.pushState === 'unsupported' ? (
+                        <span className="layer-hint">This browser can't receive push alerts</span>
+                      ) : alerts.pushState === 'denied' ? (
+                        <span className="layer-hint">Notifications are blocked for this site</span>
+                      ) : (
+                        <div className="model-quick-actions">
+                          {alerts.pushState === 'on' ? (
+                            <button className="model-quick-btn model-quick-btn--clear" onClick={alerts.disablePush}>Stop push to this device</button>
+                          ) : (
+                            <button className="model-quick-btn model-quick-btn--all" onClick={alerts.enablePush}>Push to this device</button>
+                          )}
+                        </div>
+                      )}
+                      {alerts.pushError && <span className="layer-hint alert-error">{alerts.pushError}</span>}
+                      {alerts.recent.length > 0 && (
+                        <ul className="alert-list">
+                          {alerts.recent.map(({ event, raisedAt }, i) => (
+                            <li key={i}>
+                              <span className="alert-title">{describeAlert(event).title}</span>
+                              <span className="alert-time">{raisedAt.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  </>
+                )}
+              </div>
+
               {/*<div className="control-panel-buttons">
                 <button 
                   onClick={refresh}
@@ -1,99 +1,70 @@
-import { useState, useEffect, useRef, useCallback } from 'react'
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react'
+import { useSearchParams } from 'react-router-dom'
 import { MapContainer, TileLayer, useMap } from 'react-leaflet'
 import L from 'leaflet'
 import 'leaflet/dist/leaflet.css'
 import SimpleHeader from '../components/SimpleHeader'
-import { windSpeedKt, rmaxFromVmax, windToRGBA, categoryLabel, categoryColor, type KDBasin } from '../utils/windField'
-import { buildLandMask, isLand, type LandMask } from '../utils/landMask'
+import {
+  rmaxFromVmax,
+  interpolateForecast,
+  applyLandfallDecay,
+  categoryLabel,
+  categoryColor,
+  verifyWindRadii,
+  meanRadiusErrorNm,
+  LAND_ROUGHNESS_FACTOR,
+  QUADRANTS,
+  RADII_THRESHOLDS,
+  WIND_MODELS,
+  DEFAULT_ENV_PRESSURE_MB,
+  DEFAULT_GUST_FACTORS,
+  advisoryGustFactor,
+  compassPoint,
+  type ForecastPoint,
+  type RadiusCheck,
+  type WindModelId,
+  type GustFactors,
+} from '../utils/windField'
+import { buildLandMask, isLand, LAND_MASK_DOMAIN, type LandMask } from '../utils/landMask'
+import {
+  sampleWindGridVector,
+  sampleWindGridPair,
+  sampleWindSwath,
+  colorizeWindGrid,
+  diffToRGBA,
+  DIFF_RANGE_KT,
+  SWATH_THRESHOLDS,
+  type WindGrid,
+  type WindSwath,
+  type SwathSample,
+  type WindSample,
+} from '../utils/windGrid'
+import {
+  sampleScreenWind,
+  flowSpacingPx,
+  particleCount,
+  barbFeathers,
+  respawnParticle,
+  FLOW_MIN_KT,
+  PARTICLE_PX_PER_KT,
+  type ScreenRect,
+  type ScreenWind,
+  type FlowParticle,
+} from '../utils/windFlow'
+import { createFrameRecorder, downloadBlob, type FrameRecorder } from '../utils/frameExport'
+import type { WindWorkerRequest, WindWorkerResponse } from '../workers/windField.worker'
+import { forecastPointsFromAdvisory } from '../utils/forecastAdvisory'
+import { useNHCData } from '../hooks/useNHCData'
+import { useForecastAdvisory } from '../hooks/useForecastAdvisory'
+import { useArchivedStorms, useArchivedAdvisories } from '../hooks/useStormArchive'
 import './WindFieldPage.css'
 
-// ─── Ian Advisory 12 data ─────────────────────────────────────────────────────
-// Source: https://www.nhc.noaa.gov/archive/2022/al09/al092022.fstadv.012.shtml
-// 0300 UTC 26 SEP 2022
-
-export interface ForecastPoint {
-  label: string
-  lat: number
-  lon: number
-  vmax: number
-  r34: [number, number, number, number]
-  r50: [number, number, number, number] | null
-  r64: [number, number, number, number] | null
-  /** Storm translation speed (kt) — used by K-D decay to convert inland distance to time */
-  stormSpeedKt?: number
-  /** Basin for Kaplan-DeMaria α coefficient (default: 'atlantic') */
-  basin?: KDBasin
-  inland?: boolean
-}
+// Storm shown when the URL names none and nothing is active: Ian, Advisory 12
+// https://www.nhc.noaa.gov/archive/2022/al09/al092022.fstadv.012.shtml
+const DEFAULT_STORM = 'AL092022'
+const DEFAULT_ADV = '12'
 
-const ADVISORY: ForecastPoint[] = [
-  {
-    label: 'ADV 12\n26/03Z',
-    lat: 17.3, lon: -81.4, vmax: 55,
-    r34: [60, 30, 0, 30],
-    r50: [30, 0, 0, 0],
-    r64: null,
-  },
-  {
-    label: '+12h\n26/12Z',
-    lat: 18.7, lon: -82.3, vmax: 65,
-    r34: [90,  90,  30,  70],
-    r50: [40,  30,  0,   0],
-    r64: [20,  0,   0,   0],
-  },
-  {
-    label: '+24h\n27/00Z',
-    lat: 20.8, lon: -83.5, vmax: 85,
-    r34: [120, 100, 60,  90],
-    r50: [40,  30,  20,  30],
-    r64: [20,  10,  0,   10],
-  },
-  {
-    label: '+36h\n27/12Z',
-    lat: 22.7, lon: -84.0, vmax: 100,
-    r34: [130, 100, 80,  90],
-    r50: [50,  50,  40,  40],
-    r64: [30,  20,  20,  20],
-  },
-  {
-    label: '+48h\n28/00Z',
-    lat: 24.7, lon: -84.1, vmax: 105,
-    r34: [150, 130, 90,  110],
-    r50: [70,  60,  50,  50],
-    r64: [35,  35,  30,  30],
-  },
-  {
-    label: '+60h\n28/12Z',
-    lat: 26.2, lon: -83.8, vmax: 115,
-    r34: [180, 130, 100, 130],
-    r50: [80,  70,  60,  70],
-    r64: null,
-  },
-  {
-    label: '+72h\n29/00Z',
-    lat: 27.6, lon: -83.5, vmax: 105,
-    r34: [200, 150, 120, 150],
-    r50: [90,  70,  60,  80],
-    r64: null,
-  },
-  {
-    label: '+96h\n30/00Z',
-    lat: 29.0, lon: -83.2, vmax: 80,
-    r34: [180, 120, 90,  120],
-    r50: [70,  50,  40,  60],
-    r64: null,
-  },
-  {
-    label: '+120h\n01/00Z',
-    lat: 32.0, lon: -82.5, vmax: 40,
-    r34: [120, 90,  60,  90],
-    r50: null,
-    r64: null,
-    stormSpeedKt: 12,
-    basin: 'gulf',
-    inland: true,
-  },
-]
+const STORM_ID_RE = /^(AL|EP|CP)\d{6}$/
 
 const BASEMAPS = [
   {
@@ -122,103 +93,247 @@ const BASEMAPS = [
   },
 ]
 
-// Land mask domain covers Gulf + Atlantic
-const MASK_DOMAIN = { south: 5, north: 52, west: -115, east: -50, step: 0.1 }
+const MODEL_IDS = Object.keys(WIND_MODELS) as WindModelId[]
+const isModelId = (v: string | null): v is WindModelId => v !== null && v in WIND_MODELS
+
+// Models that derive the profile from the central pressure deficit
+const PRESSURE_MODELS: WindModelId[] = ['holland1980', 'holland2010']
 
-// ─── Canvas wind field layer ──────────────────────────────────────────────────
+// ─── Wind field raster layer ──────────────────────────────────────────────────
 
 interface WindLayerProps {
   fc: ForecastPoint
+  model: WindModelId
+  /** Second model for the difference view; the raster then shows model − compareModel */
+  compareModel: WindModelId | null
+  envPressureMb: number
+  asymmetry: boolean
+  gustFactors: GustFactors
   mask: LandMask | null
   opacity: number
+  /** Cell size (px) per refinement pass, coarsest first */
+  passes?: number[]
+  /** Receives every grid the worker produces so hover can sample it */
+  onField: (grid: WindGrid, frame: { fc: ForecastPoint; final: boolean }) => void
 }
 
 const WIND_PANE = 'windPane'
 const WIND_PANE_Z = 450 // above tilePane (200) and overlayPane (400), below markerPane (600)
 
-function WindFieldLayer({ fc, mask, opacity }: WindLayerProps) {
+// Cell size (px) per refinement pass: a quick coarse preview, then near-pixel detail
+const RASTER_PASSES = [8, 2]
+// Playback trades detail for frame rate; export renders every frame at full detail
+const PLAYBACK_PASSES = [4]
+const EXPORT_PASSES = [2]
+
+// Create a dedicated pane above all tile layers for the wind rasters
+function ensureWindPane(map: L.Map) {
+  if (!map.getPane(WIND_PANE)) {
+    const pane = map.createPane(WIND_PANE)
+    pane.style.zIndex = String(WIND_PANE_Z)
+    pane.style.pointerEvents = 'none'
+  }
+}
+
+function rgbaToCanvas(rgba: Uint8ClampedArray, cols: number, rows: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas')
+  canvas.width = cols
+  canvas.height = rows
+  const ctx = canvas.getContext('2d')!
+  const image = ctx.createImageData(cols, rows)
+  image.data.set(rgba)
+  ctx.putImageData(image, 0, 0)
+  return canvas
+}
+
+function newWindWorker(): Worker {
+  return new Worker(new URL('../workers/windField.worker.ts', import.meta.url), { type: 'module' })
+}
+
+function WindFieldLayer({
+  fc, model, compareModel, envPressureMb, asymmetry, gustFactors, mask, opacity, passes = RASTER_PASSES, onField,
+}: WindLayerProps) {
   const map = useMap()
   const overlayRef = useRef<L.ImageOverlay | null>(null)
+  const workerRef = useRef<Worker | null>(null)
+  const jobRef = useRef(0)
+  const jobFcRef = useRef(fc)
+  const opacityRef = useRef(opacity)
+  const onFieldRef = useRef(onField)
+  onFieldRef.current = onField
+
+  useEffect(() => { ensureWindPane(map) }, [map])
 
-  // Create a dedicated pane above all tile layers on first mount
+  // One raster worker for the lifetime of the layer; results from superseded jobs are dropped
   useEffect(() => {
-    if (!map.getPane(WIND_PANE)) {
-      const pane = map.createPane(WIND_PANE)
-      pane.style.zIndex = String(WIND_PANE_Z)
-      pane.style.pointerEvents = 'none'
+    const worker = newWindWorker()
+    workerRef.current = worker
+
+    worker.onmessage = (e: MessageEvent<WindWorkerResponse>) => {
+      if (e.data.type !== 'field') return
+      const { id, grid, rgba, final } = e.data
+      if (id !== jobRef.current) return
+
+      const dataUrl = rgbaToCanvas(rgba, grid.cols, grid.rows).toDataURL('image/png')
+      const bounds = L.latLngBounds([grid.south, grid.west], [grid.north, grid.east])
+
+      if (overlayRef.current) {
+        overlayRef.current.setUrl(dataUrl).setBounds(bounds)
+      } else {
+        overlayRef.current = L.imageOverlay(dataUrl, bounds, {
+          pane: WIND_PANE,
+          opacity: opacityRef.current,
+        }).addTo(map)
+      }
+      onFieldRef.current(grid, { fc: jobFcRef.current, final })
+    }
+
+    return () => {
+      worker.terminate()
+      workerRef.current = null
+      overlayRef.current?.remove()
+      overlayRef.current = null
     }
   }, [map])
 
+  useEffect(() => {
+    workerRef.current?.postMessage({ type: 'mask', mask } satisfies WindWorkerRequest)
+  }, [mask])
+
+  // Opacity is applied to the overlay, so changing it never recomputes the field
+  useEffect(() => {
+    opacityRef.current = opacity
+    overlayRef.current?.setOpacity(opacity)
+  }, [opacity])
+
   const draw = useCallback(() => {
-    const bounds = map.getBounds()
+    const worker = workerRef.current
     const size = map.getSize()
-    if (size.x === 0 || size.y === 0) return
+    if (!worker || size.x === 0 || size.y === 0) return
 
-    const canvas = document.createElement('canvas')
-    canvas.width = size.x
-    canvas.height = size.y
-    const ctx = canvas.getContext('2d')!
+    const bounds = map.getBounds()
+    jobFcRef.current = fc
+    const job: WindWorkerRequest = {
+      type: 'render',
+      id: ++jobRef.current,
+      fc,
+      rmaxNm: fc.rmw ?? rmaxFromVmax(fc.vmax, fc.lat),
+      model,
+      compareModel,
+      envPressureMb,
+      asymmetry,
+      gustFactors,
+      bounds: {
+        south: bounds.getSouth(),
+        west: bounds.getWest(),
+        north: bounds.getNorth(),
+        east: bounds.getEast(),
+      },
+      width: size.x,
+      height: size.y,
+      passes,
+    }
+    worker.postMessage(job)
+  }, [map, fc, model, compareModel, envPressureMb, asymmetry, gustFactors, mask, passes]) // mask: re-render once the worker has received the land mask
 
-    const rmaxNm = rmaxFromVmax(fc.vmax, fc.lat)
-    const STEP = 0.04 // degree grid step
+  // Abandon the in-flight job as soon as the user starts panning again
+  const cancel = useCallback(() => {
+    workerRef.current?.postMessage({ type: 'cancel', id: ++jobRef.current } satisfies WindWorkerRequest)
+  }, [])
 
-    const south = Math.floor(bounds.getSouth() / STEP) * STEP
-    const west  = Math.floor(bounds.getWest()  / STEP) * STEP
-    const north = north_clamp(bounds.getNorth(), STEP)
-    const east  = Math.ceil( bounds.getEast()   / STEP) * STEP
+  useEffect(() => {
+    draw()
+    map.on('moveend zoomend', draw)
+    map.on('movestart zoomstart', cancel)
+    return () => {
+      map.off('moveend zoomend', draw)
+      map.off('movestart zoomstart', cancel)
+    }
+  }, [map, draw, cancel])
 
-    function north_clamp(v: number, s: number) { return Math.ceil(v / s) * s }
+  return null
+}
 
-    for (let lat = south; lat <= north; lat += STEP) {
-      for (let lon = west; lon <= east; lon += STEP) {
-        let kt = windSpeedKt(lat, lon, fc.lat, fc.lon, fc.vmax, rmaxNm, fc.r34, fc.r50, fc.r64)
+// ─── Max wind swath layer ─────────────────────────────────────────────────────
 
-        // Apply land friction before threshold so reduced values still render
-        if (mask && isLand(lat, lon, mask)) kt *= 0.75
+const SWATH_STEP_HOURS = 1
 
-        if (kt < 16) continue
+interface SwathLayerProps {
+  points: ForecastPoint[]
+  model: WindModelId
+  envPressureMb: number
+  asymmetry: boolean
+  mask: LandMask | null
+  opacity: number
+  /** Null while a new swath is being computed */
+  onSwath: (swath: WindSwath | null) => void
+}
 
-        const [r, g, b, a] = windToRGBA(kt)
-        if (a < 10) continue
+// The swath is view-independent: computed once per advisory over the whole track
+function WindSwathLayer({ points, model, envPressureMb, asymmetry, mask, opacity, onSwath }: SwathLayerProps) {
+  const map = useMap()
+  const overlayRef = useRef<L.ImageOverlay | null>(null)
+  const workerRef = useRef<Worker | null>(null)
+  const jobRef = useRef(0)
+  const opacityRef = useRef(opacity)
+  const onSwathRef = useRef(onSwath)
+  onSwathRef.current = onSwath
 
-        const p0 = map.latLngToContainerPoint(L.latLng(lat,        lon))
-        const p1 = map.latLngToContainerPoint(L.latLng(lat + STEP, lon + STEP))
-        const pw = Math.ceil(Math.abs(p1.x - p0.x)) + 1
-        const ph = Math.ceil(Math.abs(p0.y - p1.y)) + 1
+  useEffect(() => {
+    ensureWindPane(map)
+    const worker = newWindWorker()
+    workerRef.current = worker
 
-        ctx.fillStyle = `rgba(${r},${g},${b},${(a / 255) * opacity})`
-        ctx.fillRect(
-          Math.round(Math.min(p0.x, p1.x)),
-          Math.round(Math.min(p1.y, p0.y)),
-          pw, ph,
-        )
-      }
+    worker.onmessage = (e: MessageEvent<WindWorkerResponse>) => {
+      if (e.data.type !== 'swath' || e.data.id !== jobRef.current) return
+      const { swath, rgba } = e.data
+      const dataUrl = rgbaToCanvas(rgba, swath.cols, swath.rows).toDataURL('image/png')
+      const bounds = L.latLngBounds([swath.south, swath.west], [swath.north, swath.east])
+      overlayRef.current?.remove()
+      overlayRef.current = L.imageOverlay(dataUrl, bounds, {
+        pane: WIND_PANE,
+        opacity: opacityRef.current,
+      }).addTo(map)
+      onSwathRef.current(swath)
     }
 
-    const dataUrl = canvas.toDataURL('image/png')
-
-    if (overlayRef.current) {
-      overlayRef.current.remove()
+    return () => {
+      worker.terminate()
+      workerRef.current = null
+      overlayRef.current?.remove()
       overlayRef.current = null
     }
-    overlayRef.current = L.imageOverlay(dataUrl, bounds, { pane: WIND_PANE }).addTo(map)
-  }, [map, fc, mask, opacity])
+  }, [map])
 
   useEffect(() => {
-    draw()
-    map.on('moveend zoomend', draw)
-    return () => {
-      map.off('moveend zoomend', draw)
-      overlayRef.current?.remove()
-    }
-  }, [map, draw])
+    const worker = workerRef.current
+    if (!worker || points.length === 0) return
+    onSwathRef.current(null)
+    worker.postMessage({ type: 'mask', mask } satisfies WindWorkerRequest)
+    worker.postMessage({
+      type: 'swath',
+      id: ++jobRef.current,
+      points,
+      stepHours: SWATH_STEP_HOURS,
+      model,
+      envPressureMb,
+      asymmetry,
+    } satisfies WindWorkerRequest)
+  }, [points, model, envPressureMb, asymmetry, mask])
+
+  useEffect(() => {
+    opacityRef.current = opacity
+    overlayRef.current?.setOpacity(opacity)
+  }, [opacity])
 
   return null
 }
 
 // ─── Wind speed hover tooltip ─────────────────────────────────────────────────
 
-function WindHoverLayer({ fc, mask }: { fc: ForecastPoint; mask: LandMask | null }) {
+// Reads from the worker's latest grid/swath via `describe` rather than re-evaluating the
+// wind model; `describe` returns the tooltip HTML for a point, or null to hide it
+function WindHoverLayer({ describe }: { describe: ((lat: number, lon: number) => string | null) | null }) {
   const map = useMap()
 
   useEffect(() => {
@@ -231,19 +346,13 @@ function WindHoverLayer({ fc, mask }: { fc: ForecastPoint; mask: LandMask | null
     })
 
     const onMove = (e: L.LeafletMouseEvent) => {
-      const { lat, lng } = e.latlng
-      const rmaxNm = rmaxFromVmax(fc.vmax, fc.lat)
-      let kt = windSpeedKt(lat, lng, fc.lat, fc.lon, fc.vmax, rmaxNm, fc.r34, fc.r50, fc.r64)
-      if (mask && isLand(lat, lng, mask)) kt *= 0.75
-      if (kt < 16) {
+      const html = describe ? describe(e.latlng.lat, e.latlng.lng) : null
+      if (!html) {
         if (map.hasLayer(tooltip)) map.removeLayer(tooltip)
         return
       }
-      const rounded = Math.round(kt)
       tooltip.setLatLng(e.latlng)
-      tooltip.setContent(
-        `<span style="color:${categoryColor(rounded)};font-weight:700">${rounded} kt</span> · ${categoryLabel(rounded)}`
-      )
+      tooltip.setContent(html)
       if (!map.hasLayer(tooltip)) tooltip.addTo(map)
     }
 
@@ -258,14 +367,225 @@ function WindHoverLayer({ fc, mask }: { fc: ForecastPoint; mask: LandMask | null
       map.off('mouseout', onOut)
       if (map.hasLayer(tooltip)) map.removeLayer(tooltip)
     }
-  }, [map, fc, mask])
+  }, [map, describe])
+
+  return null
+}
+
+function describeSpeed(kt: number): string {
+  const rounded = Math.round(kt)
+  return `<span style="color:${categoryColor(rounded)};font-weight:700">${rounded} kt</span> · ${categoryLabel(rounded)}`
+}
+
+function describeWind(sample: WindSample): string {
+  const dir = Math.round(sample.directionDeg)
+  return [
+    describeSpeed(sample.speedKt),
+    `Gusts ${Math.round(sample.gustKt)} kt`,
+    `From ${compassPoint(dir)} (${String(dir).padStart(3, '0')}°)`,
+  ].join('<br>')
+}
+
+function describeSwath(sample: SwathSample, points: ForecastPoint[]): string {
+  const lines = [`Peak ${describeSpeed(sample.maxWind)}`]
+  SWATH_THRESHOLDS.forEach((kt, t) => {
+    const arrival = sample.arrival[t]
+    if (arrival === null) return
+    const valid = interpolateForecast(points, arrival).validTime
+    const when = valid ? ` (${valid.slice(8, 10)}/${valid.slice(11, 13)}Z)` : ''
+    lines.push(`${kt} kt: from +${arrival}h${when} for ${sample.duration[t]} h`)
+  })
+  return lines.join('<br>')
+}
+
+function describeDiff(kt: number, compareKt: number, model: WindModelId, compareModel: WindModelId): string {
+  const diff = Math.round(kt - compareKt)
+  const [r, g, b] = diffToRGBA(diff)
+  return [
+    `${WIND_MODELS[model].label}: ${describeSpeed(kt)}`,
+    `${WIND_MODELS[compareModel].label}: ${describeSpeed(compareKt)}`,
+    `<span style="color:rgb(${r},${g},${b});font-weight:700">Δ ${diff > 0 ? '+' : ''}${diff} kt</span>`,
+  ].join('<br>')
+}
+
+// ─── Wind flow overlay ────────────────────────────────────────────────────────
+
+type FlowMode = 'off' | 'barbs' | 'particles'
+
+const FLOW_PANE = 'windFlowPane'
+const FLOW_PANE_Z = 460 // just above the wind raster
+const BARB_STAFF_PX = 16
+const BARB_FEATHER_PX = 8
+const BARB_GAP_PX = 3
+
+// Barb on the staff pointing into the wind; feathers sit on the low-pressure side
+// (clockwise of the staff in the northern hemisphere)
+function drawBarb(ctx: CanvasRenderingContext2D, x: number, y: number, wind: ScreenWind, southern: boolean) {
+  const sx = -wind.dx
+  const sy = -wind.dy
+  const side = southern ? -1 : 1
+  const px = -sy * side
+  const py = sx * side
+  const tipX = x + sx * BARB_STAFF_PX
+  const tipY = y + sy * BARB_STAFF_PX
+
+  ctx.beginPath()
+  ctx.moveTo(x, y)
+  ctx.lineTo(tipX, tipY)
+
+  const { pennants, full, half } = barbFeathers(wind.speedKt)
+  let along = 0
+  const flags = new Path2D()
+  for (let i = 0; i < pennants; i++) {
+    const bx = tipX - sx * along
+    const by = tipY - sy * along
+    flags.moveTo(bx, by)
+    flags.lineTo(bx + px * BARB_FEATHER_PX, by + py * BARB_FEATHER_PX)
+    flags.lineTo(bx - sx * BARB_GAP_PX * 1.5, by - sy * BARB_GAP_PX * 1.5)
+    flags.closePath()
+    along += BARB_GAP_PX * 2
+  }
+  for (let i = 0; i < full + half; i++) {
+    const len = i < full ? BARB_FEATHER_PX : BARB_FEATHER_PX / 2
+    // A lone half barb is set in from the tip so it isn't mistaken for a full one
+    if (full === 0 && pennants === 0 && i === 0) along = BARB_GAP_PX
+    const bx = tipX - sx * along
+    const by = tipY - sy * along
+    ctx.moveTo(bx, by)
+    ctx.lineTo(bx + (px * len + sx * len * 0.4), by + (py * len + sy * len * 0.4))
+    along += BARB_GAP_PX
+  }
+  ctx.stroke()
+  if (pennants > 0) ctx.fill(flags)
+}
+
+interface FlowLayerProps {
+  grid: WindGrid | null
+  mode: Exclude<FlowMode, 'off'>
+  /** Southern-hemisphere storm: barbs flip sides */
+  southern: boolean
+}
+
+// Barbs or streamline particles sampled from the worker's latest grid, so the flow uses
+// exactly the vortex (tangential wind, inflow and motion) the raster was drawn from
+function WindFlowLayer({ grid, mode, southern }: FlowLayerProps) {
+  const map = useMap()
+  const canvasRef = useRef<HTMLCanvasElement | null>(null)
+  // Particles survive grid swaps (refinement passes, playback steps) so trails stay continuous
+  const particlesRef = useRef<FlowParticle[]>([])
+
+  useEffect(() => {
+    if (!map.getPane(FLOW_PANE)) {
+      const pane = map.createPane(FLOW_PANE)
+      pane.style.zIndex = String(FLOW_PANE_Z)
+      pane.style.pointerEvents = 'none'
+    }
+    const canvas = L.DomUtil.create('canvas', 'wf-flow-canvas', map.getPane(FLOW_PANE))
+    canvasRef.current = canvas
+    // The pane isn't scaled during zoom animation; hide until the next grid arrives
+    const hide = () => { canvas.style.visibility = 'hidden' }
+    map.on('zoomstart', hide)
+    return () => {
+      map.off('zoomstart', hide)
+      canvas.remove()
+      canvasRef.current = null
+    }
+  }, [map])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    const ctx = canvas.getContext('2d')!
+    const size = map.getSize()
+    const dpr = window.devicePixelRatio || 1
+    canvas.width = size.x * dpr
+    canvas.height = size.y * dpr
+    canvas.style.width = `${size.x}px`
+    canvas.style.height = `${size.y}px`
+    canvas.style.visibility = 'visible'
+    // Pin to the container's top-left; the map pane's own offset moves it while dragging
+    L.DomUtil.setPosition(canvas, map.containerPointToLayerPoint([0, 0]))
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0)
+    ctx.clearRect(0, 0, size.x, size.y)
+    if (!grid) return
+
+    const nw = map.latLngToContainerPoint([grid.north, grid.west])
+    const se = map.latLngToContainerPoint([grid.south, grid.east])
+    const rect: ScreenRect = { x0: nw.x, y0: nw.y, x1: se.x, y1: se.y }
+    const windAt = (x: number, y: number) => sampleScreenWind(grid, rect, x, y)
+    const zoom = map.getZoom()
+
+    if (mode === 'barbs') {
+      const spacing = flowSpacingPx(zoom)
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.85)'
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.85)'
+      ctx.lineWidth = 1.3
+      ctx.lineCap = 'round'
+      ctx.shadowColor = 'rgba(0, 0, 0, 0.6)'
+      ctx.shadowBlur = 2
+      for (let y = spacing / 2; y < size.y; y += spacing) {
+        for (let x = spacing / 2; x < size.x; x += spacing) {
+          const wind = windAt(x, y)
+          if (wind && wind.speedKt >= FLOW_MIN_KT) drawBarb(ctx, x, y, wind, southern)
+        }
+      }
+      return
+    }
+
+    const count = particleCount(size.x, size.y, zoom)
+    const particles = particlesRef.current
+    while (particles.length < count) {
+      const p: FlowParticle = { x: 0, y: 0, age: 0, life: 0 }
+      respawnParticle(p, size.x, size.y, windAt)
+      p.age = Math.random() * p.life
+      particles.push(p)
+    }
+    particles.length = count
+
+    let frame = 0
+    const step = () => {
+      // Fade the previous frame to leave short trails
+      ctx.globalCompositeOperation = 'destination-in'
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.9)'
+      ctx.fillRect(0, 0, size.x, size.y)
+      ctx.globalCompositeOperation = 'source-over'
+
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)'
+      ctx.lineWidth = 1.1
+      ctx.beginPath()
+      for (const p of particles) {
+        const wind = windAt(p.x, p.y)
+        if (!wind || wind.speedKt < FLOW_MIN_KT || ++p.age > p.life) {
+          respawnParticle(p, size.x, size.y, windAt)
+          continue
+        }
+        const d = wind.speedKt * PARTICLE_PX_PER_KT
+        ctx.moveTo(p.x, p.y)
+        p.x += wind.dx * d
+        p.y += wind.dy * d
+        ctx.lineTo(p.x, p.y)
+      }
+      ctx.stroke()
+      frame = requestAnimationFrame(step)
+    }
+    frame = requestAnimationFrame(step)
+    return () => cancelAnimationFrame(frame)
+  }, [map, grid, mode, southern])
 
   return null
 }
 
 // ─── Storm track layer ────────────────────────────────────────────────────────
 
-function StormTrackLayer({ points, activeIdx }: { points: ForecastPoint[]; activeIdx: number }) {
+interface StormTrackProps {
+  points: ForecastPoint[]
+  /** Highlighted forecast point, or -1 when the current time falls between points */
+  activeIdx: number
+  /** Interpolated centre shown while between forecast points */
+  centre?: ForecastPoint
+}
+
+function StormTrackLayer({ points, activeIdx, centre }: StormTrackProps) {
   const map = useMap()
   const layerRef = useRef<L.LayerGroup | null>(null)
 
@@ -296,44 +616,500 @@ function StormTrackLayer({ points, activeIdx }: { points: ForecastPoint[]; activ
       ).addTo(group)
     })
 
+    if (activeIdx < 0 && centre) {
+      L.circleMarker(L.latLng(centre.lat, centre.lon), {
+        radius: 7,
+        fillColor: categoryColor(centre.vmax),
+        color: '#fff',
+        weight: 2,
+        fillOpacity: 1,
+      }).addTo(group)
+    }
+
     return () => { layerRef.current?.clearLayers() }
-  }, [map, points, activeIdx])
+  }, [map, points, activeIdx, centre])
 
   return null
 }
 
+// ─── Fit map to the advisory track ────────────────────────────────────────────
+
+function TrackFocus({ points, focusKey }: { points: ForecastPoint[]; focusKey: string }) {
+  const map = useMap()
+
+  // Only refit when a different advisory is loaded, not on every forecast-time step
+  useEffect(() => {
+    if (points.length === 0) return
+    const bounds = L.latLngBounds(points.map(p => L.latLng(p.lat, p.lon)))
+    map.fitBounds(bounds.pad(0.35), { maxZoom: 6 })
+  }, [map, focusKey]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  return null
+}
+
+// ─── Animation export ─────────────────────────────────────────────────────────
+
+// Forecast hours advanced per second of playback (one frame per hour)
+const PLAYBACK_SPEEDS = [3, 6, 12, 24]
+
+// Land silhouette from the land mask, used as the export basemap since cross-origin
+// tiles would taint the recording canvas
+function renderLandBackdrop(map: L.Map, mask: LandMask, width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d')!
+  ctx.fillStyle = '#050d1a'
+  ctx.fillRect(0, 0, width, height)
+  ctx.fillStyle = '#1c2a3d'
+
+  const half = mask.step / 2
+  for (let r = 0; r < mask.rows; r++) {
+    const lat = mask.south + r * mask.step
+    const yTop = map.latLngToContainerPoint([lat + half, mask.west]).y
+    const yBot = map.latLngToContainerPoint([lat - half, mask.west]).y
+    if (yBot < 0 || yTop > height) continue
+
+    // Fill runs of land cells as single rectangles
+    let c = 0
+    while (c < mask.cols) {
+      if (mask.data[r * mask.cols + c] !== 1) { c++; continue }
+      const start = c
+      while (c < mask.cols && mask.data[r * mask.cols + c] === 1) c++
+      const x0 = map.latLngToContainerPoint([lat, mask.west + start * mask.step - half]).x
+      const x1 = map.latLngToContainerPoint([lat, mask.west + (c - 1) * mask.step + half]).x
+      ctx.fillRect(Math.floor(x0), Math.floor(yTop), Math.ceil(x1 - x0) + 1, Math.ceil(yBot - yTop) + 1)
+    }
+  }
+  return canvas
+}
+
+interface ExportFrame {
+  map: L.Map
+  grid: WindGrid
+  points: ForecastPoint[]
+  fc: ForecastPoint
+  title: string
+  /** Profile model(s) the raster was drawn with, shown in the caption */
+  modelLabel: string
+  opacity: number
+  backdrop: HTMLCanvasElement | null
+}
+
+function drawExportFrame(ctx: CanvasRenderingContext2D, frame: ExportFrame): void {
+  const { map, grid, points, fc, title, modelLabel, opacity, backdrop } = frame
+  const { width, height } = ctx.canvas
+
+  if (backdrop) {
+    ctx.drawImage(backdrop, 0, 0)
+  } else {
+    ctx.fillStyle = '#050d1a'
+    ctx.fillRect(0, 0, width, height)
+  }
+
+  // Wind raster stretched over its grid bounds (Mercator-regular, so a plain scale is exact)
+  const raster = rgbaToCanvas(colorizeWindGrid(grid), grid.cols, grid.rows)
+  const nw = map.latLngToContainerPoint([grid.north, grid.west])
+  const se = map.latLngToContainerPoint([grid.south, grid.east])
+  ctx.globalAlpha = opacity
+  ctx.drawImage(raster, nw.x, nw.y, se.x - nw.x, se.y - nw.y)
+  ctx.globalAlpha = 1
+
+  // Track
+  ctx.strokeStyle = 'rgba(255,255,255,0.45)'
+  ctx.lineWidth = 1.5
+  ctx.setLineDash([4, 4])
+  ctx.beginPath()
+  points.forEach((p, i) => {
+    const pt = map.latLngToContainerPoint([p.lat, p.lon])
+    if (i === 0) ctx.moveTo(pt.x, pt.y)
+    else ctx.lineTo(pt.x, pt.y)
+  })
+  ctx.stroke()
+  ctx.setLineDash([])
+  for (const p of [...points, fc]) {
+    const pt = map.latLngToContainerPoint([p.lat, p.lon])
+    ctx.beginPath()
+    ctx.arc(pt.x, pt.y, p === fc ? 7 : 5, 0, Math.PI * 2)
+    ctx.fillStyle = categoryColor(p.vmax)
+    ctx.fill()
+    ctx.strokeStyle = p === fc ? '#fff' : 'rgba(255,255,255,0.5)'
+    ctx.lineWidth = p === fc ? 2 : 1
+    ctx.stroke()
+  }
+
+  // Caption
+  ctx.fillStyle = 'rgba(7, 14, 28, 0.88)'
+  ctx.fillRect(12, 12, 340, 72)
+  ctx.fillStyle = '#e8f4ff'
+  ctx.font = '600 14px system-ui, sans-serif'
+  ctx.fillText(title, 22, 34)
+  ctx.font = '12px system-ui, sans-serif'
+  ctx.fillStyle = categoryColor(fc.vmax)
+  ctx.fillText(`${fc.label.replace('\n', ' · ')} · ${fc.vmax} kt · ${categoryLabel(fc.vmax)}`, 22, 54)
+  ctx.fillStyle = '#8aa4c0'
+  ctx.fillText(modelLabel, 22, 72)
+}
+
+// ─── Radii verification table ─────────────────────────────────────────────────
+
+// Reported / modelled radius (nm) per threshold and quadrant, shaded by mismatch
+function RadiiCheckTable({ checks }: { checks: RadiusCheck[] }) {
+  return (
+    <table className="wf-radii-table">
+      <thead>
+        <tr>
+          <th />
+          {QUADRANTS.map(q => <th key={q}>{q}</th>)}
+        </tr>
+      </thead>
+      <tbody>
+        {RADII_THRESHOLDS.map(kt => (
+          <tr key={kt}>
+            <th>{kt} kt</th>
+            {QUADRANTS.map(q => {
+              const c = checks.find(x => x.thresholdKt === kt && x.quadrant === q)!
+              const err = Math.abs(c.modelNm - c.reportedNm)
+              const cls = c.reportedNm === 0 ? 'none' : err <= 5 ? 'good' : err <= 15 ? 'fair' : 'poor'
+              return (
+                <td
+                  key={q}
+                  className={`wf-radii-${cls}`}
+                  title={c.windErrorKt !== null ? `Model ${(c.thresholdKt + c.windErrorKt).toFixed(0)} kt at NHC radius` : 'Not reported by NHC'}
+                >
+                  {c.reportedNm || '—'}/{c.modelNm || '—'}
+                </td>
+              )
+            })}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
+
+// ─── Storm / advisory picker ──────────────────────────────────────────────────
+
+const currentYear = new Date().getFullYear()
+const SEASONS = Array.from({ length: 6 }, (_, i) => currentYear - i)
+
+function formatLatLon(lat: number, lon: number): string {
+  return `${Math.abs(lat).toFixed(1)}°${lat >= 0 ? 'N' : 'S'} ${Math.abs(lon).toFixed(1)}°${lon < 0 ? 'W' : 'E'}`
+}
+
+function titleCase(s: string): string {
+  return s.toLowerCase().replace(/\b\w/g, c => c.toUpperCase())
+}
+
 // ─── Main page ────────────────────────────────────────────────────────────────
 
 const WindFieldPage = () => {
-  const [activeIdx, setActiveIdx] = useState(4) // default: +48h (near peak)
+  // URL is the source of truth for which advisory is shown: /wind?storm=AL092022&adv=12
+  const [searchParams, setSearchParams] = useSearchParams()
+  const stormParam = (searchParams.get('storm') || '').toUpperCase() || null
+  const advParam = searchParams.get('adv') || null
+  // Profile model (and optional comparison model) ride along in the URL: &model=holland1980&vs=rankine
+  const modelParam = searchParams.get('model')
+  const vsParam = searchParams.get('vs')
+  const model: WindModelId = isModelId(modelParam) ? modelParam : 'rankine'
+  const compareModel: WindModelId | null = isModelId(vsParam) && vsParam !== model ? vsParam : null
+
+  const { storms: activeStorms, loading: activeLoading } = useNHCData({
+    autoRefresh: false,
+    fetchTrackData: false,
+  })
+
+  const [season, setSeason] = useState(() => {
+    const year = stormParam ? parseInt(stormParam.slice(4, 8), 10) : NaN
+    return SEASONS.includes(year) ? year : currentYear
+  })
+  const { storms: archivedStorms } = useArchivedStorms(season)
+  const { advisories: archivedAdvisories, loading: archivedAdvLoading } = useArchivedAdvisories(stormParam)
+
+  const [stormInput, setStormInput] = useState(stormParam ?? '')
+  useEffect(() => { setStormInput(stormParam ?? '') }, [stormParam])
+
+  const selectAdvisory = useCallback((storm: string, adv: string | null, replace = false) => {
+    setSearchParams(prev => {
+      const next: Record<string, string> = { storm }
+      if (adv) next.adv = adv
+      const m = prev.get('model')
+      const vs = prev.get('vs')
+      if (m) next.model = m
+      if (vs) next.vs = vs
+      return next
+    }, { replace })
+  }, [setSearchParams])
+
+  const selectModel = (key: 'model' | 'vs', id: WindModelId | null) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev)
+      if (id && !(key === 'model' && id === 'rankine')) next.set(key, id)
+      else next.delete(key)
+      return next
+    }, { replace: true })
+  }
+
+  const activeMatch = activeStorms.find(s => s.id.toUpperCase() === stormParam)
+
+  // No storm in the URL: prefer the first active storm, else fall back to the default
+  useEffect(() => {
+    if (stormParam || activeLoading) return
+    const first = activeStorms[0]
+    if (first) selectAdvisory(first.id.toUpperCase(), first.advisoryNumber ?? null, true)
+    else selectAdvisory(DEFAULT_STORM, DEFAULT_ADV, true)
+  }, [stormParam, activeLoading, activeStorms, selectAdvisory])
+
+  // Storm without an advisory number: resolve the latest one we know of
+  useEffect(() => {
+    if (!stormParam || advParam) return
+    if (activeMatch?.advisoryNumber) {
+      selectAdvisory(stormParam, activeMatch.advisoryNumber, true)
+    } else if (archivedAdvisories.length > 0) {
+      selectAdvisory(stormParam, archivedAdvisories[archivedAdvisories.length - 1], true)
+    }
+  }, [stormParam, advParam, activeMatch, archivedAdvisories, selectAdvisory])
+
+  const advUnresolved = !!stormParam && !advParam && !activeLoading && !archivedAdvLoading
+    && !activeMatch?.advisoryNumber && archivedAdvisories.length === 0
+
+  const { advisory, loading: advLoading, error: advError } = useForecastAdvisory(stormParam, advParam)
+  // The TCM gives central pressure only for the analysis; for a live storm fall back to
+  // the current-storms pressure so Holland 1980 uses the observed deficit
+  const activePressure = activeMatch?.pressure
+  const points = useMemo(() => {
+    if (!advisory) return []
+    const pts = forecastPointsFromAdvisory(advisory)
+    if (pts.length > 0 && pts[0].pressureMb == null && activePressure && activePressure > 0) {
+      pts[0] = { ...pts[0], pressureMb: activePressure }
+    }
+    return pts
+  }, [advisory, activePressure])
+
+  const stepAdvisory = (delta: number) => {
+    if (!stormParam || !advParam) return
+    const n = parseInt(advParam, 10)
+    if (isNaN(n) || n + delta < 1) return
+    selectAdvisory(stormParam, String(n + delta))
+  }
+
+  const submitStormInput = () => {
+    const id = stormInput.trim().toUpperCase()
+    if (STORM_ID_RE.test(id) && id !== stormParam) selectAdvisory(id, null)
+  }
+
+  // Current forecast hour; tabs, arrow keys, the slider and playback all drive this
+  const [hour, setHour] = useState(0)
+  const [viewMode, setViewMode] = useState<'snapshot' | 'swath'>('snapshot')
+  const [playing, setPlaying] = useState(false)
+  const [speed, setSpeed] = useState(PLAYBACK_SPEEDS[1])
   const [mask, setMask] = useState<LandMask | null>(null)
+  const [windGrid, setWindGrid] = useState<WindGrid | null>(null)
+  // Forecast state whose final (finest) raster is on screen; playback waits for it
+  const [renderedFc, setRenderedFc] = useState<ForecastPoint | null>(null)
 
-  const goBack    = () => setActiveIdx(i => Math.max(0, i - 1))
-  const goForward = () => setActiveIdx(i => Math.min(ADVISORY.length - 1, i + 1))
+  const maxHour = points.length > 0 ? points[points.length - 1].forecastHour ?? 0 : 0
+  // Hourly track with Kaplan–DeMaria decay applied over land; the field is drawn from this
+  const track = useMemo(
+    () => mask ? applyLandfallDecay(points, (lat, lon) => isLand(lat, lon, mask)) : points,
+    [points, mask],
+  )
+  const fc = useMemo(
+    () => track.length > 0 ? interpolateForecast(track, hour) : undefined,
+    [track, hour],
+  )
+  const activeIdx = points.findIndex(p => p.forecastHour === hour)
+
+  const goBack = useCallback(() => {
+    setPlaying(false)
+    setHour(h => points.reduce((prev, p) => (p.forecastHour ?? 0) < h ? p.forecastHour ?? 0 : prev, 0))
+  }, [points])
+  const goForward = useCallback(() => {
+    setPlaying(false)
+    setHour(h => points.find(p => (p.forecastHour ?? 0) > h)?.forecastHour ?? h)
+  }, [points])
+  const togglePlay = useCallback(() => {
+    if (!playing && hour >= maxHour) setHour(0)
+    setPlaying(!playing)
+  }, [playing, hour, maxHour])
 
-  // Keyboard arrow navigation
+  // Keyboard arrow navigation (ignored while typing in the picker); space plays/pauses
   useEffect(() => {
     const onKey = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return
+      if (viewMode !== 'snapshot') return
       if (e.key === 'ArrowLeft')  goBack()
       if (e.key === 'ArrowRight') goForward()
+      if (e.key === ' ') { e.preventDefault(); togglePlay() }
     }
     window.addEventListener('keydown', onKey)
     return () => window.removeEventListener('keydown', onKey)
-  }, [])
+  }, [goBack, goForward, togglePlay, viewMode])
   const [maskLoading, setMaskLoading] = useState(true)
   const [opacity, setOpacity] = useState(0.85)
   const [basemapId, setBasemapId] = useState('satellite')
+  const [map, setMap] = useState<L.Map | null>(null)
+  const [envPressure, setEnvPressure] = useState(DEFAULT_ENV_PRESSURE_MB)
+  const [asymmetry, setAsymmetry] = useState(true)
+  const [flowMode, setFlowMode] = useState<FlowMode>('off')
+  const [gustFactors, setGustFactors] = useState<GustFactors>(DEFAULT_GUST_FACTORS)
+  const usesPressure = PRESSURE_MODELS.includes(model) || (!!compareModel && PRESSURE_MODELS.includes(compareModel))
+  const modelLabel = compareModel
+    ? `${WIND_MODELS[model].label} − ${WIND_MODELS[compareModel].label}`
+    : WIND_MODELS[model].label
 
   const basemap = BASEMAPS.find(b => b.id === basemapId) ?? BASEMAPS[0]
 
-  const fc = ADVISORY[activeIdx]
   const initialCenter: [number, number] = [22, -83]
 
+  const title = advisory
+    ? `${advisory.classification ? `${titleCase(advisory.classification)} ` : ''}${titleCase(advisory.stormName)} — Advisory ${advisory.advisoryNumber}`
+    : stormParam ? `${stormParam}${advParam ? ` — Advisory ${advParam}` : ''}` : 'Loading…'
+
+  const statusMessage = advLoading
+    ? 'Loading advisory…'
+    : advUnresolved
+      ? `No archived advisories for ${stormParam} — enter an advisory number`
+      : advError
+
+  // ── Playback / export ──────────────────────────────────────────────────────
+  const recorderRef = useRef<FrameRecorder | null>(null)
+  const backdropRef = useRef<HTMLCanvasElement | null>(null)
+  const [exporting, setExporting] = useState(false)
+  const [exportError, setExportError] = useState<string | null>(null)
+
+  const onField = useCallback((grid: WindGrid, frame: { fc: ForecastPoint; final: boolean }) => {
+    setWindGrid(grid)
+    if (frame.final) setRenderedFc(frame.fc)
+  }, [])
+
+  const stopExport = useCallback(() => {
+    recorderRef.current?.cancel()
+    recorderRef.current = null
+    setExporting(false)
+  }, [])
+
+  // New advisory: stop playback and start at the analysis time
+  useEffect(() => {
+    stopExport()
+    setPlaying(false)
+    setHour(0)
+  }, [advisory, stopExport])
+
+  // Seed the over-water gust factor from the advisory's own gust/sustained ratio
+  useEffect(() => {
+    const water = advisoryGustFactor(points)
+    if (water !== null) setGustFactors(g => g.water === water ? g : { ...g, water })
+  }, [points])
+
+  const setGustFactor = (key: keyof GustFactors, value: number) => {
+    if (value >= 1 && value <= 2) setGustFactors(g => ({ ...g, [key]: value }))
+  }
+
+  useEffect(() => stopExport, [stopExport])
+
+  const startExport = () => {
+    if (!map || points.length < 2) return
+    const size = map.getSize()
+    const recorder = createFrameRecorder(size.x, size.y, speed)
+    if (!recorder) {
+      setExportError('This browser cannot record video')
+      return
+    }
+    setExportError(null)
+    backdropRef.current = mask ? renderLandBackdrop(map, mask, size.x, size.y) : null
+    recorderRef.current = recorder
+    setPlaying(false)
+    setHour(0)
+    setExporting(true)
+  }
+
+  // Step one hour once the current frame has fully rendered (and, when exporting, been recorded)
+  useEffect(() => {
+    if ((!playing && !exporting) || !fc || renderedFc !== fc) return
+    let cancelled = false
+    let timer: number | undefined
+
+    const advance = async () => {
+      if (cancelled) return
+      if (hour < maxHour) {
+        setHour(hour + 1)
+      } else if (exporting) {
+        const recorder = recorderRef.current
+        recorderRef.current = null
+        setExporting(false)
+        if (recorder && advisory) {
+          downloadBlob(await recorder.finish(), `${advisory.stormId}_adv${advisory.advisoryNumber}_wind.webm`)
+        }
+      } else {
+        setPlaying(false)
+      }
+    }
+
+    const recorder = recorderRef.current
+    if (exporting && recorder && map && windGrid) {
+      recorder.addFrame(ctx => drawExportFrame(ctx, {
+        map, grid: windGrid, points, fc, title, modelLabel, opacity, backdrop: backdropRef.current,
+      })).then(advance)
+    } else {
+      timer = window.setTimeout(advance, 1000 / speed)
+    }
+    return () => {
+      cancelled = true
+      window.clearTimeout(timer)
+    }
+  }, [playing, exporting, renderedFc, fc, hour, maxHour, speed, map, windGrid, points, title, modelLabel, opacity, advisory])
+
+  const rasterPasses = exporting ? EXPORT_PASSES : playing ? PLAYBACK_PASSES : RASTER_PASSES
+
+  // ── View mode: single forecast time or cumulative max wind swath ───────────
+  const [swath, setSwath] = useState<WindSwath | null>(null)
+
+  const switchView = (mode: 'snapshot' | 'swath') => {
+    if (mode === 'swath') {
+      stopExport()
+      setPlaying(false)
+    }
+    setViewMode(mode)
+  }
+
+  const describe = useMemo(() => {
+    if (viewMode === 'swath') {
+      if (!swath) return null
+      return (lat: number, lon: number) => {
+        const sample = sampleWindSwath(swath, lat, lon)
+        return sample && sample.maxWind >= 16 ? describeSwath(sample, points) : null
+      }
+    }
+    if (!fc || !windGrid) return null
+    if (compareModel && windGrid.compare) {
+      return (lat: number, lon: number) => {
+        const pair = sampleWindGridPair(windGrid, lat, lon)
+        return pair && (pair[0] >= 16 || pair[1] >= 16) ? describeDiff(pair[0], pair[1], model, compareModel) : null
+      }
+    }
+    return (lat: number, lon: number) => {
+      const sample = sampleWindGridVector(windGrid, lat, lon)
+      return sample && sample.speedKt >= 16 ? describeWind(sample) : null
+    }
+  }, [viewMode, swath, points, fc, windGrid, model, compareModel])
+
+  // Model vs advisory radii for the current time; only evaluated while the panel is open
+  const [showRadii, setShowRadii] = useState(false)
+  const radiiChecks = useMemo(
+    () => showRadii && fc ? verifyWindRadii(fc, WIND_MODELS[model], envPressure) : null,
+    [showRadii, fc, model, envPressure],
+  )
+  const radiiError = radiiChecks ? meanRadiusErrorNm(radiiChecks) : null
+
+  const swathBusy = viewMode === 'swath' && points.length > 1 && !swath
+  const peakPoint = points.reduce<ForecastPoint | null>((best, p) => !best || p.vmax > best.vmax ? p : best, null)
+
   useEffect(() => {
     buildLandMask(
-      MASK_DOMAIN.south, MASK_DOMAIN.north,
-      MASK_DOMAIN.west,  MASK_DOMAIN.east,
-      MASK_DOMAIN.step,
+      LAND_MASK_DOMAIN.south, LAND_MASK_DOMAIN.north,
+      LAND_MASK_DOMAIN.west,  LAND_MASK_DOMAIN.east,
+      LAND_MASK_DOMAIN.step,
     ).then(m => { setMask(m); setMaskLoading(false) })
       .catch(() => setMaskLoading(false))
   }, [])
@@ -348,37 +1124,244 @@ const WindFieldPage = () => {
 
           <div className="wf-title-group">
             <span className="wf-eyebrow">WIND FIELD</span>
-            <span className="wf-storm-name">Hurricane Ian — Advisory 12</span>
+            <span className="wf-storm-name">{title}</span>
           </div>
 
-          <div className="wf-tab-group">
-            <span className="wf-tab-label">FORECAST TIME</span>
+          <div className="wf-source-group">
+            <span className="wf-tab-label">STORM</span>
+            <select
+              className="wf-select"
+              value={stormParam ?? ''}
+              onChange={e => {
+                const id = e.target.value
+                const live = activeStorms.find(s => s.id.toUpperCase() === id)
+                const archived = archivedStorms.find(s => s.stormId.toUpperCase() === id)
+                selectAdvisory(id, live?.advisoryNumber ?? archived?.advisoryNumber ?? null)
+              }}
+            >
+              {stormParam
+                && !activeStorms.some(s => s.id.toUpperCase() === stormParam)
+                && !archivedStorms.some(s => s.stormId.toUpperCase() === stormParam) && (
+                <option value={stormParam}>{advisory?.stormName ?? stormParam}</option>
+              )}
+              {activeStorms.length > 0 && (
+                <optgroup label="Active">
+                  {activeStorms.map(s => (
+                    <option key={s.id} value={s.id.toUpperCase()}>{s.name} ({s.id.toUpperCase()})</option>
+                  ))}
+                </optgroup>
+              )}
+              {archivedStorms.length > 0 && (
+                <optgroup label={`Archive ${season}`}>
+                  {archivedStorms.map(s => (
+                    <option key={s.stormId} value={s.stormId.toUpperCase()}>{s.stormName} ({s.stormId.toUpperCase()})</option>
+                  ))}
+                </optgroup>
+              )}
+            </select>
+            <select
+              className="wf-select"
+              value={season}
+              onChange={e => setSeason(Number(e.target.value))}
+              aria-label="Archive season"
+            >
+              {SEASONS.map(y => <option key={y} value={y}>{y}</option>)}
+            </select>
+            <input
+              className="wf-id-input"
+              value={stormInput}
+              placeholder="AL092022"
+              maxLength={8}
+              onChange={e => setStormInput(e.target.value.toUpperCase())}
+              onKeyDown={e => { if (e.key === 'Enter') submitStormInput() }}
+              onBlur={submitStormInput}
+              aria-label="NHC storm ID"
+            />
+            <span className="wf-tab-label">ADV</span>
+            <button
+              className="wf-nav-btn"
+              onClick={() => stepAdvisory(-1)}
+              disabled={!advParam || parseInt(advParam, 10) <= 1}
+              aria-label="Previous advisory"
+            >&#8249;</button>
+            <input
+              key={`${stormParam}-${advParam}`}
+              className="wf-adv-input"
+              defaultValue={advParam ?? ''}
+              onKeyDown={e => {
+                const value = e.currentTarget.value.trim().toUpperCase()
+                if (e.key === 'Enter' && stormParam && /^\d{1,3}[A-Z]?$/.test(value)) selectAdvisory(stormParam, value)
+              }}
+              aria-label="Advisory number"
+            />
             <button
               className="wf-nav-btn"
-              onClick={goBack}
-              disabled={activeIdx === 0}
-              aria-label="Previous forecast time"
-            >&#8592;</button>
-            <div className="wf-tabs">
-              {ADVISORY.map((p, i) => (
+              onClick={() => stepAdvisory(1)}
+              disabled={!advParam}
+              aria-label="Next advisory"
+            >&#8250;</button>
+          </div>
+
+          <div className="wf-mode-group">
+            <span className="wf-tab-label">VIEW</span>
+            <button
+              className={`wf-mode-btn${viewMode === 'snapshot' ? ' active' : ''}`}
+              onClick={() => switchView('snapshot')}
+            >Snapshot</button>
+            <button
+              className={`wf-mode-btn${viewMode === 'swath' ? ' active' : ''}`}
+              onClick={() => switchView('swath')}
+              disabled={points.length < 2}
+              title="Peak wind, arrival and duration over the whole forecast"
+            >Max swath</button>
+          </div>
+
+          <div className="wf-model-group">
+            <span className="wf-tab-label">MODEL</span>
+            <select
+              className="wf-select"
+              value={model}
+              onChange={e => selectModel('model', e.target.value as WindModelId)}
+              aria-label="Wind profile model"
+            >
+              {MODEL_IDS.map(id => <option key={id} value={id}>{WIND_MODELS[id].label}</option>)}
+            </select>
+            {viewMode === 'snapshot' && (
+              <select
+                className="wf-select"
+                value={compareModel ?? ''}
+                onChange={e => selectModel('vs', isModelId(e.target.value) ? e.target.value : null)}
+                aria-label="Compare with model"
+                title="Show the difference between two profile models"
+              >
+                <option value="">No comparison</option>
+                {MODEL_IDS.filter(id => id !== model).map(id => (
+                  <option key={id} value={id}>− {WIND_MODELS[id].label}</option>
+                ))}
+              </select>
+            )}
+            {usesPressure && (
+              <label className="wf-env-label" title="Environmental pressure for the Holland profiles">
+                P<sub>env</sub>
+                <input
+                  type="number" min={1000} max={1025} step={1}
+                  className="wf-env-input"
+                  value={envPressure}
+                  onChange={e => {
+                    const v = Number(e.target.value)
+                    if (v >= 1000 && v <= 1025) setEnvPressure(v)
+                  }}
+                />
+                mb
+              </label>
+            )}
+          </div>
+
+          <div className="wf-gust-group">
+            <button
+              className={`wf-mode-btn${asymmetry ? ' active' : ''}`}
+              onClick={() => setAsymmetry(v => !v)}
+              title="Add the storm-motion asymmetry (stronger on the right of track)"
+            >Motion</button>
+            <span className="wf-tab-label">GUST ×</span>
+            <input
+              type="number" min={1} max={2} step={0.01}
+              className="wf-env-input"
+              value={gustFactors.water}
+              onChange={e => setGustFactor('water', Number(e.target.value))}
+              title="Gust factor over water (seeded from the advisory)"
+              aria-label="Gust factor over water"
+            />
+            <input
+              type="number" min={1} max={2} step={0.01}
+              className="wf-env-input"
+              value={gustFactors.land}
+              onChange={e => setGustFactor('land', Number(e.target.value))}
+              title="Gust factor over land"
+              aria-label="Gust factor over land"
+            />
+          </div>
+
+          {viewMode === 'snapshot' && (
+            <>
+              <div className="wf-tab-group">
+                <span className="wf-tab-label">FORECAST TIME</span>
+                <button
+                  className="wf-nav-btn"
+                  onClick={goBack}
+                  disabled={hour <= 0 || exporting}
+                  aria-label="Previous forecast time"
+                >&#8592;</button>
+                <div className="wf-tabs">
+                  {points.map((p, i) => (
+                    <button
+                      key={i}
+                      className={`wf-tab${activeIdx === i ? ' active' : ''}`}
+                      style={activeIdx === i ? { borderColor: categoryColor(p.vmax), color: categoryColor(p.vmax) } : {}}
+                      onClick={() => { setPlaying(false); setHour(p.forecastHour ?? 0) }}
+                      disabled={exporting}
+                    >
+                      <span className="wf-tab-line1">{p.label.split('\n')[0]}</span>
+                      <span className="wf-tab-line2">{p.vmax}kt · {categoryLabel(p.vmax)}</span>
+                    </button>
+                  ))}
+                </div>
+                <button
+                  className="wf-nav-btn"
+                  onClick={goForward}
+                  disabled={hour >= maxHour || exporting}
+                  aria-label="Next forecast time"
+                >&#8594;</button>
+              </div>
+
+              <div className="wf-playback-group">
+                <span className="wf-tab-label">PLAYBACK</span>
                 <button
-                  key={i}
-                  className={`wf-tab${activeIdx === i ? ' active' : ''}`}
-                  style={activeIdx === i ? { borderColor: categoryColor(p.vmax), color: categoryColor(p.vmax) } : {}}
-                  onClick={() => setActiveIdx(i)}
+                  className="wf-nav-btn"
+                  onClick={togglePlay}
+                  disabled={points.length < 2 || exporting}
+                  aria-label={playing ? 'Pause' : 'Play'}
+                >{playing ? '❚❚' : '▶'}</button>
+                <input
+                  type="range" min={0} max={maxHour} step={1}
+                  value={hour}
+                  onChange={e => { setPlaying(false); setHour(Number(e.target.value)) }}
+                  disabled={points.length < 2 || exporting}
+                  className="wf-slider wf-time-slider"
+                  aria-label="Forecast hour"
+                />
+                <span className="wf-time-readout">{fc ? fc.label.replace('\n', ' · ') : '—'}</span>
+                <select
+                  className="wf-select"
+                  value={speed}
+                  onChange={e => setSpeed(Number(e.target.value))}
+                  disabled={exporting}
+                  aria-label="Playback speed"
                 >
-                  <span className="wf-tab-line1">{p.label.split('\n')[0]}</span>
-                  <span className="wf-tab-line2">{p.vmax}kt · {categoryLabel(p.vmax)}</span>
-                </button>
+                  {PLAYBACK_SPEEDS.map(v => <option key={v} value={v}>{v} h/s</option>)}
+                </select>
+                <button
+                  className={`wf-export-btn${exporting ? ' active' : ''}`}
+                  onClick={exporting ? stopExport : startExport}
+                  disabled={points.length < 2 || !map}
+                  title="Record the animation as a WebM video"
+                >{exporting ? `Recording ${hour}/${maxHour}h — Cancel` : 'Export'}</button>
+              </div>
+            </>
+          )}
+
+          {viewMode === 'snapshot' && (
+            <div className="wf-mode-group">
+              <span className="wf-tab-label">FLOW</span>
+              {(['off', 'barbs', 'particles'] as const).map(m => (
+                <button
+                  key={m}
+                  className={`wf-mode-btn${flowMode === m ? ' active' : ''}`}
+                  onClick={() => setFlowMode(m)}
+                >{m === 'off' ? 'Off' : m === 'barbs' ? 'Barbs' : 'Streamlines'}</button>
               ))}
             </div>
-            <button
-              className="wf-nav-btn"
-              onClick={goForward}
-              disabled={activeIdx === ADVISORY.length - 1}
-              aria-label="Next forecast time"
-            >&#8594;</button>
-          </div>
+          )}
 
           <div className="wf-opacity-group">
             <span className="wf-tab-label">OPACITY</span>
@@ -402,7 +1385,26 @@ const WindFieldPage = () => {
           </div>
         )}
 
+        {!maskLoading && !statusMessage && swathBusy && (
+          <div className="wf-status">
+            <div className="wf-spinner wf-spinner-sm" />
+            <span>Computing wind swath…</span>
+          </div>
+        )}
+
+        {!maskLoading && !statusMessage && exportError && (
+          <div className="wf-status wf-status-error"><span>{exportError}</span></div>
+        )}
+
+        {!maskLoading && statusMessage && (
+          <div className={`wf-status${advLoading ? '' : ' wf-status-error'}`}>
+            {advLoading && <div className="wf-spinner wf-spinner-sm" />}
+            <span>{statusMessage}</span>
+          </div>
+        )}
+
         <MapContainer
+          ref={setMap}
           center={initialCenter}
           zoom={5}
           zoomControl={true}
@@ -410,9 +1412,41 @@ const WindFieldPage = () => {
           style={{ width: '100%', height: '100%' }}
         >
           <TileLayer key={basemap.tiles} url={basemap.tiles} />
-          <WindFieldLayer fc={fc} mask={mask} opacity={opacity} />
-          <WindHoverLayer fc={fc} mask={mask} />
-          <StormTrackLayer points={ADVISORY} activeIdx={activeIdx} />
+          {viewMode === 'snapshot' && fc && (
+            <WindFieldLayer
+              fc={fc}
+              model={model}
+              compareModel={compareModel}
+              envPressureMb={envPressure}
+              asymmetry={asymmetry}
+              gustFactors={gustFactors}
+              mask={mask}
+              opacity={opacity}
+              passes={rasterPasses}
+              onField={onField}
+            />
+          )}
+          {viewMode === 'swath' && (
+            <WindSwathLayer
+              points={track}
+              model={model}
+              envPressureMb={envPressure}
+              asymmetry={asymmetry}
+              mask={mask}
+              opacity={opacity}
+              onSwath={setSwath}
+            />
+          )}
+          {viewMode === 'snapshot' && flowMode !== 'off' && (
+            <WindFlowLayer grid={windGrid} mode={flowMode} southern={!!fc && fc.lat < 0} />
+          )}
+          <WindHoverLayer describe={describe} />
+          <StormTrackLayer
+            points={points}
+            activeIdx={viewMode === 'swath' ? -1 : activeIdx}
+            centre={viewMode === 'swath' ? undefined : fc}
+          />
+          <TrackFocus points={points} focusKey={advisory ? `${advisory.stormId}-${advisory.advisoryNumber}` : ''} />
           <TileLayer key={basemap.labels} url={basemap.labels} zIndex={600} />
         </MapContainer>
 
@@ -430,36 +1464,111 @@ const WindFieldPage = () => {
           ))}
         </div>
 
-        {/* Wind speed legend */}
-        <div className="wf-legend">
-          <p className="wf-legend-title">WIND SPEED</p>
-          {[
-            { color: '#82dcff', label: 'TD  18–33 kt' },
-            { color: '#50d264', label: 'TS  34–63kt' },
-            { color: '#ffeb00', label: 'Cat 1  64–82kt' },
-            { color: '#ff9b00', label: 'Cat 2  83–95kt' },
-            { color: '#dc0000', label: 'Cat 3  96–112kt' },
-            { color: '#af005a', label: 'Cat 4  113–136kt' },
-            { color: '#8c00d2', label: 'Cat 5  ≥137kt' },
-          ].map(({ color, label }) => (
-            <div className="wf-legend-row" key={label}>
-              <span className="wf-legend-swatch" style={{ background: color }} />
-              <span>{label}</span>
-            </div>
-          ))}
-          <p className="wf-legend-note">Land: −25% surface friction · hover for speed</p>
-        </div>
+        {/* Wind speed legend (or model difference scale) */}
+        {viewMode === 'snapshot' && compareModel ? (
+          <div className="wf-legend">
+            <p className="wf-legend-title">MODEL DIFFERENCE</p>
+            {[DIFF_RANGE_KT, 15, 5, -5, -15, -DIFF_RANGE_KT].map(d => {
+              const [r, g, b] = diffToRGBA(d)
+              return (
+                <div className="wf-legend-row" key={d}>
+                  <span className="wf-legend-swatch" style={{ background: `rgb(${r},${g},${b})` }} />
+                  <span>{d > 0 ? '+' : ''}{d} kt{Math.abs(d) === DIFF_RANGE_KT ? ' or more' : ''}</span>
+                </div>
+              )
+            })}
+            <p className="wf-legend-note">
+              {WIND_MODELS[model].label} − {WIND_MODELS[compareModel].label} · hover for both speeds
+            </p>
+          </div>
+        ) : (
+          <div className="wf-legend">
+            <p className="wf-legend-title">WIND SPEED</p>
+            {[
+              { color: '#82dcff', label: 'TD  18–33 kt' },
+              { color: '#50d264', label: 'TS  34–63kt' },
+              { color: '#ffeb00', label: 'Cat 1  64–82kt' },
+              { color: '#ff9b00', label: 'Cat 2  83–95kt' },
+              { color: '#dc0000', label: 'Cat 3  96–112kt' },
+              { color: '#af005a', label: 'Cat 4  113–136kt' },
+              { color: '#8c00d2', label: 'Cat 5  ≥137kt' },
+            ].map(({ color, label }) => (
+              <div className="wf-legend-row" key={label}>
+                <span className="wf-legend-swatch" style={{ background: color }} />
+                <span>{label}</span>
+              </div>
+            ))}
+            <p className="wf-legend-note">
+              {viewMode === 'swath'
+                ? 'Peak over forecast · hover for arrival & duration'
+                : `Land: K-D decay after landfall, −${Math.round((1 - LAND_ROUGHNESS_FACTOR) * 100)}% roughness · hover for gusts & direction`}
+            </p>
+          </div>
+        )}
+
+        {/* Swath summary */}
+        {viewMode === 'swath' && peakPoint && (
+          <div className="wf-info-badge">
+            <span className="wf-info-label">MAX WIND SWATH</span>
+            <span className="wf-info-val">
+              +{points[0].forecastHour ?? 0}h → +{points[points.length - 1].forecastHour ?? 0}h · hourly
+            </span>
+            <span className="wf-info-label" style={{ marginTop: 6 }}>PEAK ON TRACK</span>
+            <span className="wf-info-val" style={{ color: categoryColor(peakPoint.vmax) }}>
+              {peakPoint.vmax} kt · {categoryLabel(peakPoint.vmax)} · {peakPoint.label.split('\n')[0]}
+            </span>
+            <span className="wf-info-label" style={{ marginTop: 6 }}>PROFILE</span>
+            <span className="wf-info-val" title={WIND_MODELS[model].reference}>{WIND_MODELS[model].label}</span>
+          </div>
+        )}
 
         {/* Active forecast info */}
-        <div className="wf-info-badge">
-          <span className="wf-info-label">POSITION</span>
-          <span className="wf-info-val">{fc.lat}°N {Math.abs(fc.lon)}°W</span>
-          <span className="wf-info-label" style={{ marginTop: 6 }}>MAX WINDS</span>
-          <span className="wf-info-val" style={{ color: categoryColor(fc.vmax) }}>
-            {fc.vmax} kt · {categoryLabel(fc.vmax)}
-          </span>
-          {fc.inland && <span className="wf-inland-tag">INLAND</span>}
-        </div>
+        {viewMode === 'snapshot' && fc && (
+          <div className="wf-info-badge">
+            <span className="wf-info-label">POSITION</span>
+            <span className="wf-info-val">{formatLatLon(fc.lat, fc.lon)}</span>
+            <span className="wf-info-label" style={{ marginTop: 6 }}>MAX WINDS</span>
+            <span className="wf-info-val" style={{ color: categoryColor(fc.vmax) }}>
+              {fc.vmax} kt{fc.gustKt ? ` G${fc.gustKt}` : ''} · {categoryLabel(fc.vmax)}
+            </span>
+            {fc.stormSpeedKt != null && fc.stormHeadingDeg != null && (
+              <>
+                <span className="wf-info-label" style={{ marginTop: 6 }}>MOTION</span>
+                <span className="wf-info-val">
+                  {compassPoint(fc.stormHeadingDeg)} {Math.round(fc.stormSpeedKt)} kt{!asymmetry && ' · asymmetry off'}
+                </span>
+              </>
+            )}
+            {fc.rmw != null && (
+              <>
+                <span className="wf-info-label" style={{ marginTop: 6 }}>RMW</span>
+                <span className="wf-info-val">{Math.round(fc.rmw)} nm</span>
+              </>
+            )}
+            {fc.pressureMb != null && (
+              <>
+                <span className="wf-info-label" style={{ marginTop: 6 }}>PRESSURE</span>
+                <span className="wf-info-val">{Math.round(fc.pressureMb)} mb</span>
+              </>
+            )}
+            <span className="wf-info-label" style={{ marginTop: 6 }}>PROFILE</span>
+            <span className="wf-info-val">{modelLabel}</span>
+            <span className="wf-model-ref">
+              {WIND_MODELS[model].reference}
+              {compareModel && <><br />vs {WIND_MODELS[compareModel].reference}</>}
+            </span>
+            {fc.inland && (
+              <span className="wf-inland-tag">
+                INLAND{fc.hoursInland != null && ` · ${Math.round(fc.hoursInland)} h · K-D ${fc.basin === 'gulf' ? 'Gulf' : 'Atlantic'} α`}
+              </span>
+            )}
+            <button className="wf-radii-toggle" onClick={() => setShowRadii(v => !v)}>
+              {showRadii ? '▾' : '▸'} {WIND_MODELS[model].label} radii vs NHC
+              {radiiError !== null && ` · ±${radiiError.toFixed(1)} nm`}
+            </button>
+            {radiiChecks && <RadiiCheckTable checks={radiiChecks} />}
+          </div>
+        )}
       </div>
     </div>
   )
@@ -97,8 +97,15 @@ export type LayerName =
   | 'wind_arrival_earliest'
   | 'storm_surge'
   | 'gefs_spaghetti'
-  | 'hwrf_windfield'
-  | 'hmon_windfield';
+  | 'hafs_a_windfield'
+  | 'hafs_b_windfield'
+  | 'model_consensus'
+  | 'ensemble_strike_probability'
+  | 'historical_analogs'
+  | 'location_threats'
+  | 'watches_warnings'
+  | 'wind_radii'
+  | 'storm_surge_inundation';
 
 export function trackLayerToggled(layer: LayerName, enabled: boolean, activeStormId?: string): void {
   if (!initialised) return;
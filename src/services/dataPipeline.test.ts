@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import axios, { type AxiosResponse } from 'axios'
+import type { WindRadiiResponse } from '../types/nhc'
+import { SchemaError } from '../utils/schema'
+import {
+  clearDataCache, configureDataPipeline, fetchProduct, fixtureFileName, registerFixture, ProductFetchError,
+} from './dataPipeline'
+
+const radii = (stormId: string): WindRadiiResponse =>
+  ({ stormId, advisoryNumber: null, radii: { type: 'FeatureCollection', features: [] } })
+
+const reply = (status: number, data: unknown, headers: Record<string, string> = {}) =>
+  ({ status, data, headers }) as unknown as AxiosResponse
+
+describe('dataPipeline', () => {
+  beforeEach(() => {
+    configureDataPipeline({ sources: ['lambda', 'fixture'], fixtureBaseUrl: null })
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('serves a registered fixture and caches it for the product TTL', async () => {
+    configureDataPipeline({ sources: ['fixture'] })
+    registerFixture('wind-radii', { stormId: 'al012024' }, radii('AL012024'))
+    const first = await fetchProduct('wind-radii', { stormId: 'al012024' })
+    expect(first.stormId).toBe('AL012024')
+
+    registerFixture('wind-radii', { stormId: 'al012024' }, radii('changed'))
+    expect(await fetchProduct('wind-radii', { stormId: 'al012024' })).toBe(first)
+    clearDataCache('wind-radii')
+    expect((await fetchProduct('wind-radii', { stormId: 'al012024' })).stormId).toBe('changed')
+  })
+
+  it('unwraps the Lambda envelope and shares one request between concurrent callers', async () => {
+    const get = vi.spyOn(axios, 'get').mockResolvedValue(reply(200, { success: true, data: radii('AL022024') }))
+    const [a, b] = await Promise.all([
+      fetchProduct('wind-radii', { stormId: 'al022024' }),
+      fetchProduct('wind-radii', { stormId: 'al022024' }),
+    ])
+    expect(a).toBe(b)
+    expect(a.stormId).toBe('AL022024')
+    expect(get).toHaveBeenCalledTimes(1)
+    expect(get.mock.calls[0][0]).toMatch(/\/wind-radii$/)
+    expect(get.mock.calls[0][1]).toMatchObject({ params: { stormId: 'al022024' } })
+  })
+
+  it('rejects a payload that fails the schema and falls through to the next source', async () => {
+    vi.spyOn(axios, 'get').mockResolvedValue(reply(200, { success: true, data: { stormId: 3 } }))
+    await expect(fetchProduct('wind-radii', { stormId: 'al032024' })).rejects.toSatisfy(
+      (e: unknown) => e instanceof ProductFetchError && e.lastError instanceof SchemaError && /stormId/.test(e.message),
+    )
+
+    registerFixture('wind-radii', { stormId: 'al032024' }, radii('AL032024'))
+    expect((await fetchProduct('wind-radii', { stormId: 'al032024' })).stormId).toBe('AL032024')
+  })
+
+  it('reports the Lambda error text of a failed envelope', async () => {
+    vi.spyOn(axios, 'get').mockResolvedValue(reply(200, { success: false, error: 'Storm not found' }))
+    const error = await fetchProduct('wind-radii', { stormId: 'al042024' }).catch(e => e)
+    expect(error).toBeInstanceOf(ProductFetchError)
+    expect(error.failures.map((f: { source: string }) => f.source)).toEqual(['lambda'])
+    expect(error.message).toContain('Storm not found')
+  })
+
+  it('only asks the sources a product lists', async () => {
+    const get = vi.spyOn(axios, 'get')
+    configureDataPipeline({ sources: ['lambda'] })
+    const error = await fetchProduct('gefs-pds-latest').catch(e => e)
+    expect(error).toBeInstanceOf(ProductFetchError)
+    expect(error.message).toBe('gefs-pds-latest: no configured data source serves this product')
+    expect(get).not.toHaveBeenCalled()
+  })
+
+  it('revalidates with the ETag and keeps the entry on 304', async () => {
+    const get = vi.spyOn(axios, 'get')
+      .mockResolvedValueOnce(reply(200, { success: true, data: radii('AL052024') }, { etag: '"v1"' }))
+      .mockResolvedValueOnce(reply(304, ''))
+    const first = await fetchProduct('wind-radii', { stormId: 'al052024' })
+    expect(await fetchProduct('wind-radii', { stormId: 'al052024' }, { force: true })).toBe(first)
+    expect(get.mock.calls[1][1]).toMatchObject({ headers: { 'If-None-Match': '"v1"' } })
+  })
+
+  it('serves the cached entry when every source fails', async () => {
+    vi.spyOn(axios, 'get')
+      .mockResolvedValueOnce(reply(200, { success: true, data: radii('AL062024') }))
+      .mockRejectedValueOnce(new Error('Network Error'))
+    const first = await fetchProduct('wind-radii', { stormId: 'al062024' })
+    expect(await fetchProduct('wind-radii', { stormId: 'al062024' }, { force: true })).toBe(first)
+  })
+
+  it('names fixture files after the product and sorted parameters', () => {
+    expect(fixtureFileName('bdeck', { stormId: 'AL052024' })).toBe('bdeck_stormId-AL052024.json')
+    expect(fixtureFileName('outlook', { basin: 'atlantic', a: '1' })).toBe('outlook_a-1_basin-atlantic.json')
+  })
+})
@@ -0,0 +1,334 @@
+// Data pipeline shared by every NHCApiService instance
+// A product (see products.ts) is fetched from the first configured source that serves it,
+// checked against the product's schema and cached for the product's TTL. Concurrent
+// requests for the same product and parameters share one network call. Once an entry is
+// stale it is revalidated with If-None-Match / If-Modified-Since when the source sent an
+// ETag or Last-Modified, and it is still served if every source then fails.
+
+import axios, { type AxiosResponse } from 'axios'
+import { PRODUCTS, type ProductData, type ProductId, type ProductParams, type ProductSpec } from './products'
+
+export type DataSourceName = 'fixture' | 'lambda' | 'proxy-server' | 'direct'
+
+const DEFAULT_SOURCES: DataSourceName[] = ['lambda', 'direct']
+const DEFAULT_TIMEOUT_MS = 20_000
+const DEFAULT_PROXY_SERVER_URL = 'http://localhost:3001'
+// Oldest entries are dropped past this many (HAFS wind fields are a few hundred kB each)
+const MAX_CACHE_ENTRIES = 150
+
+// Public CORS proxies tried in order by the direct source
+export const CORS_PROXIES = [
+  'https://api.allorigins.win/get?url=', // Most reliable - returns data in .contents field
+  'https://api.codetabs.com/v1/proxy?quest=', // Simple and usually available
+  'https://cors-anywhere.herokuapp.com/', // Requires access but reliable when enabled
+  'https://thingproxy.freeboard.io/fetch/', // Alternative proxy service
+]
+
+// Lambda API endpoint (API Gateway); a page can override it with window.REACT_APP_LAMBDA_API_URL
+export const getLambdaApiUrl = (): string => {
+  if (typeof window !== 'undefined' && (window as any).REACT_APP_LAMBDA_API_URL) {
+    return (window as any).REACT_APP_LAMBDA_API_URL
+  }
+  return 'https://v7z3sx0ee9.execute-api.us-east-1.amazonaws.com/dev'
+}
+
+// ─── Errors ───────────────────────────────────────────────────────────────────
+
+export class ProductFetchError extends Error {
+  constructor(readonly product: ProductId, readonly failures: Array<{ source: DataSourceName; error: unknown }>) {
+    super(failures.length
+      ? `${product}: ${failures.map(f => `${f.source} — ${f.error instanceof Error ? f.error.message : String(f.error)}`).join('; ')}`
+      : `${product}: no configured data source serves this product`)
+    this.name = 'ProductFetchError'
+  }
+
+  /** Error from the last source tried, for callers that explain network failures */
+  get lastError(): unknown {
+    return this.failures[this.failures.length - 1]?.error
+  }
+}
+
+// ─── Sources ──────────────────────────────────────────────────────────────────
+
+interface Validators {
+  etag?: string
+  lastModified?: string
+}
+
+interface SourceRequest {
+  product: ProductId
+  spec: ProductSpec<unknown>
+  params: ProductParams
+  validators: Validators
+}
+
+type SourceResult =
+  | { status: 'fresh'; payload: unknown; validators: Validators }
+  | { status: 'not-modified' }
+  | { status: 'unsupported' }
+
+interface DataSource {
+  name: DataSourceName
+  /** Resolves 'unsupported' when the source doesn't serve the product; throws when it fails */
+  fetch(request: SourceRequest): Promise<SourceResult>
+}
+
+const conditionalHeaders = ({ etag, lastModified }: Validators): Record<string, string> => ({
+  ...(etag ? { 'If-None-Match': etag } : {}),
+  ...(lastModified ? { 'If-Modified-Since': lastModified } : {}),
+})
+
+const responseValidators = (response: AxiosResponse): Validators => ({
+  etag: response.headers.etag || undefined,
+  lastModified: response.headers['last-modified'] || undefined,
+})
+
+const acceptNotModified = (status: number) => (status >= 200 && status < 300) || status === 304
+
+interface Envelope {
+  success?: unknown
+  error?: unknown
+  data?: unknown
+}
+
+// Unwrap a `{ success, data }` envelope from the Lambda or the proxy-server
+function enveloped(product: ProductId, body: unknown, envelope: 'data' | 'root'): unknown {
+  const reply = typeof body === 'object' && body !== null ? (body as Envelope) : null
+  if (!reply || reply.success === false) {
+    throw new Error(`${product} response indicates failure${reply?.error ? `: ${String(reply.error)}` : ''}`)
+  }
+  if (envelope === 'root') return reply
+  if (!reply.success) throw new Error(`${product} response has no success envelope`)
+  return reply.data
+}
+
+const lambdaSource: DataSource = {
+  name: 'lambda',
+  async fetch({ product, spec, params, validators }) {
+    const response = await axios.get(`${getLambdaApiUrl()}/${product}`, {
+      params,
+      timeout: spec.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+      headers: { Accept: 'application/json', ...conditionalHeaders(validators) },
+      validateStatus: acceptNotModified,
+    })
+    if (response.status === 304) return { status: 'not-modified' }
+    return { status: 'fresh', payload: enveloped(product, response.data, spec.envelope), validators: responseValidators(response) }
+  },
+}
+
+const proxyServerSource: DataSource = {
+  name: 'proxy-server',
+  async fetch({ product, spec, params, validators }) {
+    if (!spec.proxyServerPath) return { status: 'unsupported' }
+    const response = await axios.get(`${config.proxyServerUrl}${spec.proxyServerPath(params)}`, {
+      timeout: spec.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+      headers: { Accept: 'application/json', ...conditionalHeaders(validators) },
+      validateStatus: acceptNotModified,
+    })
+    if (response.status === 304) return { status: 'not-modified' }
+    return { status: 'fresh', payload: enveloped(product, response.data, 'data'), validators: responseValidators(response) }
+  },
+}
+
+/**
+ * Fetch an upstream file as text through the public CORS proxies, unwrapping the
+ * allorigins `{ contents }` envelope. Throws the last proxy's error if none succeeds.
+ */
+export async function fetchViaCorsProxies(url: string, options: { timeoutMs?: number; proxies?: number } = {}): Promise<string> {
+  let lastError: unknown = new Error(`No CORS proxy tried for ${url}`)
+  for (const proxy of CORS_PROXIES.slice(0, options.proxies ?? CORS_PROXIES.length)) {
+    try {
+      const response = await axios.get(`${proxy}${encodeURIComponent(url)}`, {
+        timeout: options.timeoutMs ?? 15_000,
+        transformResponse: [(d) => d],
+      })
+      let raw = typeof response.data === 'string' ? response.data : ''
+      try {
+        const wrapped = JSON.parse(raw)
+        if (wrapped && typeof wrapped.contents === 'string') raw = wrapped.contents
+      } catch {
+        // Not an allorigins envelope — the proxy passed the file through
+      }
+      if (raw) return raw
+      throw new Error(`Empty response from ${proxy}`)
+    } catch (error) {
+      console.warn(`CORS proxy ${proxy} failed for ${url}:`, (error as Error).message)
+      lastError = error
+    }
+  }
+  throw lastError
+}
+
+const directSource: DataSource = {
+  name: 'direct',
+  async fetch({ spec, params }) {
+    const url = spec.direct?.url(params)
+    if (!spec.direct || !url) return { status: 'unsupported' }
+    const raw = await fetchViaCorsProxies(url, { timeoutMs: spec.timeoutMs })
+    return { status: 'fresh', payload: spec.direct.format === 'json' ? JSON.parse(raw) : raw, validators: {} }
+  },
+}
+
+// ─── Fixtures ─────────────────────────────────────────────────────────────────
+
+const fixtures = new Map<string, unknown>()
+
+// File a fixture is read from under the fixture base URL, e.g. bdeck_stormId-AL052024.json
+export const fixtureFileName = (product: ProductId, params: ProductParams = {}): string =>
+  [product, ...Object.keys(params).sort().map(k => `${k}-${params[k]}`)].join('_').replace(/[^\w.-]/g, '') + '.json'
+
+/**
+ * Serve `payload` for a product (and exactly these parameters) from the fixture source.
+ */
+export function registerFixture<P extends ProductId>(product: P, params: ProductParams, payload: ProductData<P>): void {
+  fixtures.set(cacheKey(product, params), payload)
+}
+
+const fixtureSource: DataSource = {
+  name: 'fixture',
+  async fetch({ product, params }) {
+    const key = cacheKey(product, params)
+    if (fixtures.has(key)) return { status: 'fresh', payload: fixtures.get(key), validators: {} }
+    if (!config.fixtureBaseUrl) return { status: 'unsupported' }
+    const response = await axios.get(`${config.fixtureBaseUrl}/${fixtureFileName(product, params)}`, {
+      validateStatus: status => status === 200 || status === 404,
+    })
+    return response.status === 404
+      ? { status: 'unsupported' }
+      : { status: 'fresh', payload: response.data, validators: {} }
+  },
+}
+
+const SOURCES: Record<DataSourceName, DataSource> = {
+  'fixture': fixtureSource,
+  'lambda': lambdaSource,
+  'proxy-server': proxyServerSource,
+  'direct': directSource,
+}
+
+// ─── Configuration ────────────────────────────────────────────────────────────
+
+interface PipelineConfig {
+  /** Sources tried in order for every product */
+  sources: DataSourceName[]
+  proxyServerUrl: string
+  /** Directory of fixture JSON files (see fixtureFileName) */
+  fixtureBaseUrl: string | null
+}
+
+function sourcesFromEnv(): DataSourceName[] {
+  const names = ((import.meta.env.VITE_DATA_SOURCES as string | undefined) ?? '')
+    .split(',')
+    .map(s => s.trim())
+    .filter((s): s is DataSourceName => s in SOURCES)
+  return names.length ? names : DEFAULT_SOURCES
+}
+
+const config: PipelineConfig = {
+  sources: sourcesFromEnv(),
+  proxyServerUrl: (import.meta.env.VITE_PROXY_SERVER_URL as string | undefined) ?? DEFAULT_PROXY_SERVER_URL,
+  fixtureBaseUrl: (import.meta.env.VITE_DATA_FIXTURES_URL as string | undefined) ?? null,
+}
+
+/**
+ * Change which sources are used and in what order. Clears the cache, since entries from
+ * the old sources would otherwise keep being served.
+ */
+export function configureDataPipeline(options: Partial<PipelineConfig>): void {
+  Object.assign(config, options)
+  clearDataCache()
+}
+
+// ─── Cache ────────────────────────────────────────────────────────────────────
+
+interface CacheEntry {
+  value: unknown
+  expires: number
+  source: DataSourceName
+  validators: Validators
+}
+
+const cache = new Map<string, CacheEntry>()
+const inFlight = new Map<string, Promise<unknown>>()
+
+function cacheKey(product: ProductId, params: ProductParams): string {
+  const query = Object.keys(params).sort().map(k => `${k}=${params[k]}`).join('&')
+  return query ? `${product}?${query}` : product
+}
+
+function remember(key: string, entry: CacheEntry): void {
+  cache.delete(key)
+  cache.set(key, entry)
+  while (cache.size > MAX_CACHE_ENTRIES) cache.delete(cache.keys().next().value as string)
+}
+
+/**
+ * Drop cached entries, for one product or all of them.
+ */
+export function clearDataCache(product?: ProductId): void {
+  for (const key of Array.from(cache.keys())) {
+    if (!product || key === product || key.startsWith(`${product}?`)) cache.delete(key)
+  }
+}
+
+// ─── Fetch ────────────────────────────────────────────────────────────────────
+
+async function load(product: ProductId, params: ProductParams, key: string): Promise<unknown> {
+  const spec = PRODUCTS[product] as ProductSpec<unknown>
+  const stale = cache.get(key)
+  const failures: Array<{ source: DataSourceName; error: unknown }> = []
+
+  for (const name of config.sources) {
+    if (spec.sources && !spec.sources.includes(name)) continue
+    try {
+      const result = await SOURCES[name].fetch({
+        product,
+        spec,
+        params,
+        validators: stale?.source === name ? stale.validators : {},
+      })
+      if (result.status === 'unsupported') continue
+      if (result.status === 'not-modified' && stale) {
+        remember(key, { ...stale, expires: Date.now() + spec.ttlMs })
+        return stale.value
+      }
+      if (result.status === 'fresh') {
+        const value = spec.schema(result.payload)
+        remember(key, { value, expires: Date.now() + spec.ttlMs, source: name, validators: result.validators })
+        return value
+      }
+    } catch (error) {
+      failures.push({ source: name, error })
+    }
+  }
+
+  if (stale) {
+    console.warn(`Serving stale ${key}; every source failed`, failures)
+    return stale.value
+  }
+  throw new ProductFetchError(product, failures)
+}
+
+/**
+ * Fetch a product, from cache while it is fresh. `force` skips the freshness check
+ * (the request is still conditional, so an unchanged product costs a 304).
+ * Throws ProductFetchError when no source can serve it and nothing is cached.
+ */
+export function fetchProduct<P extends ProductId>(
+  product: P,
+  params: ProductParams = {},
+  options: { force?: boolean } = {},
+): Promise<ProductData<P>> {
+  const key = cacheKey(product, params)
+  const entry = cache.get(key)
+  if (entry && !options.force && entry.expires > Date.now()) {
+    return Promise.resolve(entry.value as ProductData<P>)
+  }
+
+  let pending = inFlight.get(key)
+  if (!pending) {
+    pending = load(product, params, key).finally(() => inFlight.delete(key))
+    inFlight.set(key, pending)
+  }
+  return pending as Promise<ProductData<P>>
+}
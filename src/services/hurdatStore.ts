@@ -0,0 +1,183 @@
+// Offline HURDAT2 best-track store
+// Keeps every parsed HURDAT2 storm in IndexedDB so Analytics can browse seasons back to
+// 1851 without the network. Data comes from a user-imported file, or from copies served
+// alongside the app at public/data/hurdat2/ (see README).
+
+import type { HurdatStorm } from '../types/nhc'
+import { parseHurdat2 } from '../utils/hurdat2'
+
+const DB_NAME = 'cyclotrak-hurdat2'
+const DB_VERSION = 1
+const STORMS = 'storms'
+const META = 'meta'
+
+// File names looked for under public/data/hurdat2/ (renamed from NHC's dated releases)
+const BUNDLED_FILES = ['hurdat2-atlantic.txt', 'hurdat2-nepac.txt']
+
+export interface HurdatStoreStatus {
+  stormCount: number
+  firstSeason: number
+  lastSeason: number
+  /** File names imported, most recent last */
+  sources: string[]
+  importedAt: string
+}
+
+export interface HurdatQuery {
+  /** Case-insensitive name prefix */
+  name?: string
+  basin?: string
+  season?: number
+}
+
+// ─── IndexedDB plumbing ───────────────────────────────────────────────────────
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION)
+      req.onupgradeneeded = () => {
+        const db = req.result
+        const storms = db.createObjectStore(STORMS, { keyPath: 'stormId' })
+        storms.createIndex('season', 'season')
+        storms.createIndex('basin', 'basin')
+        storms.createIndex('name', 'name')
+        db.createObjectStore(META)
+      }
+      req.onsuccess = () => resolve(req.result)
+      req.onerror = () => {
+        dbPromise = null
+        reject(req.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+function requestResult<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+// ─── Import ───────────────────────────────────────────────────────────────────
+
+/**
+ * Parse a HURDAT2 file and upsert its storms. Re-importing a newer release simply
+ * replaces the matching storm IDs. Throws when the text holds no HURDAT2 storms.
+ */
+export async function importHurdat2(text: string, source: string): Promise<HurdatStoreStatus> {
+  const storms = parseHurdat2(text)
+  if (storms.length === 0) throw new Error(`${source} does not look like a HURDAT2 file`)
+
+  const db = await openDb()
+  const tx = db.transaction([STORMS, META], 'readwrite')
+  const store = tx.objectStore(STORMS)
+  for (const storm of storms) store.put(storm)
+
+  const prev = await requestResult(tx.objectStore(META).get('status') as IDBRequest<HurdatStoreStatus | undefined>)
+  const seasons = storms.map(s => s.season)
+  const status: HurdatStoreStatus = {
+    stormCount: 0,
+    firstSeason: Math.min(prev?.firstSeason ?? Infinity, ...seasons),
+    lastSeason: Math.max(prev?.lastSeason ?? -Infinity, ...seasons),
+    sources: [...(prev?.sources ?? []).filter(s => s !== source), source],
+    importedAt: new Date().toISOString(),
+  }
+  status.stormCount = await requestResult(store.count())
+  tx.objectStore(META).put(status, 'status')
+  await transactionDone(tx)
+  return status
+}
+
+/**
+ * Load the HURDAT2 files deployed with the app, if any, into an empty store.
+ * Returns the store status (null when nothing is stored and nothing was found).
+ */
+export async function loadBundledHurdat2(): Promise<HurdatStoreStatus | null> {
+  const existing = await getHurdatStatus()
+  if (existing) return existing
+
+  let status: HurdatStoreStatus | null = null
+  for (const file of BUNDLED_FILES) {
+    try {
+      const res = await fetch(`${import.meta.env.BASE_URL}data/hurdat2/${file}`)
+      if (!res.ok) continue
+      const text = await res.text()
+      // The dev server answers unknown paths with index.html
+      if (text.trimStart().startsWith('<')) continue
+      status = await importHurdat2(text, file)
+    } catch (error) {
+      console.warn(`HURDAT2 file ${file} not loaded:`, error)
+    }
+  }
+  return status
+}
+
+export async function clearHurdat2(): Promise<void> {
+  const db = await openDb()
+  const tx = db.transaction([STORMS, META], 'readwrite')
+  tx.objectStore(STORMS).clear()
+  tx.objectStore(META).clear()
+  await transactionDone(tx)
+}
+
+// ─── Queries ──────────────────────────────────────────────────────────────────
+
+export async function getHurdatStatus(): Promise<HurdatStoreStatus | null> {
+  const db = await openDb()
+  const status = await requestResult(db.transaction(META).objectStore(META).get('status'))
+  return (status as HurdatStoreStatus | undefined) ?? null
+}
+
+export async function getHurdatStorm(stormId: string): Promise<HurdatStorm | null> {
+  const db = await openDb()
+  const storm = await requestResult(db.transaction(STORMS).objectStore(STORMS).get(stormId.toUpperCase()))
+  return (storm as HurdatStorm | undefined) ?? null
+}
+
+export async function getHurdatSeason(season: number, basin?: string): Promise<HurdatStorm[]> {
+  const db = await openDb()
+  const index = db.transaction(STORMS).objectStore(STORMS).index('season')
+  const storms = await requestResult(index.getAll(season)) as HurdatStorm[]
+  return basin ? storms.filter(s => s.basin === basin) : storms
+}
+
+// Every stored storm (a few thousand records), optionally for one basin
+export async function getAllHurdatStorms(basin?: string): Promise<HurdatStorm[]> {
+  const db = await openDb()
+  const store = db.transaction(STORMS).objectStore(STORMS)
+  const storms = await requestResult(basin ? store.index('basin').getAll(basin) : store.getAll()) as HurdatStorm[]
+  return storms
+}
+
+/**
+ * Storms matching every given criterion, newest season first. A name query walks the
+ * name index from the prefix, so searching "AND" finds ANDREW and ANDREA in every season.
+ */
+export async function searchHurdatStorms(query: HurdatQuery, limit = 200): Promise<HurdatStorm[]> {
+  const name = query.name?.trim().toUpperCase()
+  if (!name) {
+    if (query.season === undefined) return []
+    return getHurdatSeason(query.season, query.basin)
+  }
+
+  const db = await openDb()
+  const index = db.transaction(STORMS).objectStore(STORMS).index('name')
+  const storms = await requestResult(index.getAll(IDBKeyRange.bound(name, `${name}\uffff`))) as HurdatStorm[]
+  return storms
+    .filter(s => (!query.basin || s.basin === query.basin) && (query.season === undefined || s.season === query.season))
+    .sort((a, b) => b.season - a.season || a.stormId.localeCompare(b.stormId))
+    .slice(0, limit)
+}
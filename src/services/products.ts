@@ -0,0 +1,176 @@
+// Data products served by the data pipeline
+// A product is named after its Lambda endpoint. Its spec says how long a response stays
+// fresh, the schema the payload must match, and which other sources can serve it.
+
+import type { DataSourceName } from './dataPipeline'
+import type {
+  ArchivedInvestSnapshot, ArchivedModelRun, ArchivedStormSnapshot, HafsWindFieldResponse, ModelVerification, NHCStorm,
+  StormHistoricalPoint, SurgeInundation, WatchesWarnings, WindRadiiResponse,
+} from '../types/nhc'
+import {
+  array, boolean, nullable, number, object, optional, refine, string, type Schema,
+} from '../utils/schema'
+
+export const NHC_BASE_URL = 'https://www.nhc.noaa.gov'
+export const ACTIVE_STORMS_URL = `${NHC_BASE_URL}/CurrentStorms.json`
+
+const MINUTE_MS = 60_000
+
+export type ProductParams = Record<string, string>
+
+export interface ProductSpec<T> {
+  /** How long a response is served from cache before the sources are asked again */
+  ttlMs: number
+  schema: Schema<T>
+  /** Where the Lambda puts the payload: under `data`, or at the top level (archive endpoints) */
+  envelope: 'data' | 'root'
+  timeoutMs?: number
+  /** Route on the local proxy-server (proxy-server/server.js), for products it serves */
+  proxyServerPath?: (params: ProductParams) => string
+  /** Upstream NHC file for the direct source, fetched through public CORS proxies */
+  direct?: { url: (params: ProductParams) => string | null; format: 'json' | 'text' }
+  /** The only sources that serve it, for products the Lambda has no endpoint for; tried in the configured order */
+  sources?: DataSourceName[]
+}
+
+const product = <T>(spec: ProductSpec<T>) => spec
+
+// ─── Schemas ──────────────────────────────────────────────────────────────────
+
+// Parsed KMZ/KML products from the Lambda
+const featureCollection = object({
+  type: string,
+  features: array(object({ type: string })),
+})
+
+const activeStorms = object({
+  activeStorms: optional(array(object({ id: string, binNumber: string, name: string }) as Schema<NHCStorm>)),
+})
+
+const adeckTracks = object({
+  filename: string,
+  modelsPresent: array(string),
+  tracks: array(object({
+    modelId: string,
+    points: array(object({ tau: number, lat: number, lon: number, vmax: nullable(number) })),
+  })),
+  cycleTime: optional(string),
+  debug: optional(object({ latestCycle: optional(nullable(string)) })),
+})
+
+const bdeckTrack = object({
+  filename: string,
+  points: array(
+    object({ latitude: number, longitude: number, dateTime: string, maxWinds: number }) as Schema<Omit<StormHistoricalPoint, 'category'>>,
+  ),
+})
+
+const gefsPdsAvailability = object({
+  date: nullable(string),
+  cycle: nullable(string),
+  members: array(string),
+  resolutions: array(string),
+})
+
+const forecastAdvisoryText = object({ text: string, url: optional(string) })
+
+const hafsWindField = object({
+  stormId: string,
+  cycle: string,
+  forecastHour: number,
+  grid: object({ north: number, west: number, dLat: number, dLon: number, rows: number, cols: number }),
+  u: string,
+  v: string,
+}) as Schema<HafsWindFieldResponse>
+
+const watchesWarnings = object({
+  stormId: string,
+  segments: featureCollection,
+  breakpoints: array(object({ type: string, label: string, areas: array(string) })),
+}) as Schema<WatchesWarnings>
+
+const windRadii = object({ stormId: string, radii: featureCollection }) as Schema<WindRadiiResponse>
+
+const surgeInundation = object({
+  stormId: string,
+  bands: featureCollection,
+  overlays: array(object({
+    image: string,
+    bounds: object({ north: number, south: number, east: number, west: number }),
+  })),
+}) as Schema<SurgeInundation>
+
+// Raw outlook page; anything else (an error page, an empty proxy reply) is rejected
+const outlookText = refine(string, text => text.includes('Tropical Weather Outlook'), 'Tropical Weather Outlook text')
+
+const archivedSnapshot = object({ stormId: string, season: number }) as Schema<ArchivedStormSnapshot>
+
+const archivedInvest = object({ investId: string, season: number }) as Schema<ArchivedInvestSnapshot>
+
+const archivedModelRun = object({
+  stormId: string,
+  modelId: string,
+  runCycle: string,
+  trackPoints: array(object({ forecastHour: number, lat: number, lon: number })),
+}) as Schema<ArchivedModelRun>
+
+const modelVerification = object({
+  stormIds: array(string),
+  pendingStormIds: array(string),
+  models: array(object({ modelId: string, cases: number })),
+  homogeneous: boolean,
+  stats: array(object({ modelId: string, tau: number })),
+}) as Schema<ModelVerification>
+
+// ─── Registry ─────────────────────────────────────────────────────────────────
+
+const OUTLOOK_URLS: ProductParams = {
+  atlantic: `${NHC_BASE_URL}/text/MIATWOAT.shtml`,
+  epacific: `${NHC_BASE_URL}/text/MIATWOEP.shtml`,
+  cpacific: `${NHC_BASE_URL}/text/HFOTWOCP.shtml`,
+}
+
+export const PRODUCTS = {
+  'active-storms': product({
+    ttlMs: 2 * MINUTE_MS,
+    schema: activeStorms,
+    envelope: 'data',
+    proxyServerPath: () => '/api/active-storms',
+    direct: { url: () => ACTIVE_STORMS_URL, format: 'json' },
+  }),
+  'gefs-adeck': product({ ttlMs: 15 * MINUTE_MS, schema: adeckTracks, envelope: 'data' }),
+  'bdeck': product({ ttlMs: 15 * MINUTE_MS, schema: bdeckTrack, envelope: 'data' }),
+  'gefs-pds-latest': product({ ttlMs: 30 * MINUTE_MS, schema: gefsPdsAvailability, envelope: 'data', sources: ['fixture'] }),
+  'track-kmz': product({ ttlMs: 10 * MINUTE_MS, schema: featureCollection, envelope: 'data' }),
+  'forecast-track-kmz': product({ ttlMs: 10 * MINUTE_MS, schema: featureCollection, envelope: 'data' }),
+  'forecast-cone': product({ ttlMs: 10 * MINUTE_MS, schema: featureCollection, envelope: 'data' }),
+  'forecast-advisory': product({ ttlMs: 10 * MINUTE_MS, schema: forecastAdvisoryText, envelope: 'data' }),
+  'storm-surge': product({ ttlMs: 30 * MINUTE_MS, schema: featureCollection, envelope: 'data' }),
+  'wind-speed-probability': product({ ttlMs: 30 * MINUTE_MS, schema: featureCollection, envelope: 'data', timeoutMs: 30_000 }),
+  'wind-speed-probability-50kt': product({ ttlMs: 30 * MINUTE_MS, schema: featureCollection, envelope: 'data', timeoutMs: 30_000 }),
+  'wind-speed-probability-64kt': product({ ttlMs: 30 * MINUTE_MS, schema: featureCollection, envelope: 'data', timeoutMs: 30_000 }),
+  'wind-arrival-most-likely': product({ ttlMs: 30 * MINUTE_MS, schema: featureCollection, envelope: 'data' }),
+  'wind-arrival-earliest': product({ ttlMs: 30 * MINUTE_MS, schema: featureCollection, envelope: 'data' }),
+  'watches-warnings': product({ ttlMs: 10 * MINUTE_MS, schema: watchesWarnings, envelope: 'data' }),
+  'wind-radii': product({ ttlMs: 10 * MINUTE_MS, schema: windRadii, envelope: 'data' }),
+  'storm-surge-inundation': product({ ttlMs: 30 * MINUTE_MS, schema: surgeInundation, envelope: 'data' }),
+  'hafs-windfield': product({ ttlMs: 30 * MINUTE_MS, schema: hafsWindField, envelope: 'data', timeoutMs: 30_000 }),
+  'outlook': product({
+    ttlMs: 10 * MINUTE_MS,
+    schema: outlookText,
+    envelope: 'data',
+    direct: { url: params => OUTLOOK_URLS[params.basin] ?? null, format: 'text' },
+    sources: ['direct', 'proxy-server', 'fixture'],
+  }),
+  'archive-season-storms': product({ ttlMs: 5 * MINUTE_MS, schema: object({ storms: array(archivedSnapshot) }), envelope: 'root' }),
+  'archive-season-invests': product({ ttlMs: 5 * MINUTE_MS, schema: object({ invests: array(archivedInvest) }), envelope: 'root' }),
+  'archive-storm-history': product({ ttlMs: 5 * MINUTE_MS, schema: object({ items: array(archivedSnapshot) }), envelope: 'root' }),
+  'archive-model-runs': product({ ttlMs: 5 * MINUTE_MS, schema: object({ items: array(archivedModelRun) }), envelope: 'root' }),
+  // HURDAT2 summaries in the archive's snapshot shape
+  'hurdat-storms': product({ ttlMs: 24 * 60 * MINUTE_MS, schema: object({ storms: array(archivedSnapshot) }), envelope: 'root' }),
+  // Refetched with `force` while storms are pending, so a partial result isn't served from cache
+  'model-verification': product({ ttlMs: 30 * MINUTE_MS, schema: modelVerification, envelope: 'root', timeoutMs: 30_000 }),
+}
+
+export type ProductId = keyof typeof PRODUCTS
+export type ProductData<P extends ProductId> = typeof PRODUCTS[P] extends ProductSpec<infer T> ? T : never
@@ -0,0 +1,99 @@
+// Alert delivery in the browser
+// Alerts are shown by the service worker in public/alerts-sw.js: directly while the tab
+// is open, and through Web Push (sent by the Lambda's scheduled alert check) when it is
+// not. A push subscription is stored by the Lambda together with the event types and
+// locations it wants.
+
+import axios from 'axios'
+import { getLambdaApiUrl } from './dataPipeline'
+import { describeAlert, type AlertEvent, type AlertType } from '../utils/advisoryAlerts'
+import type { SavedLocation } from '../utils/threatAssessment'
+
+const WORKER_URL = '/alerts-sw.js'
+const REQUEST_TIMEOUT_MS = 15_000
+
+export type PushState = 'unsupported' | 'denied' | 'off' | 'on'
+
+export const pushSupported = () =>
+  typeof window !== 'undefined' && 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window
+
+async function alertWorker(): Promise<ServiceWorkerRegistration> {
+  await navigator.serviceWorker.register(WORKER_URL)
+  return navigator.serviceWorker.ready
+}
+
+// VAPID keys are sent base64url-encoded; PushManager wants the raw bytes
+function base64UrlToBytes(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = (value + '='.repeat((4 - (value.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/')
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0))
+}
+
+export async function getPushState(): Promise<PushState> {
+  if (!pushSupported()) return 'unsupported'
+  if (Notification.permission === 'denied') return 'denied'
+  const registration = await navigator.serviceWorker.getRegistration(WORKER_URL)
+  const subscription = await registration?.pushManager.getSubscription()
+  return subscription ? 'on' : 'off'
+}
+
+/** Show an alert raised in this tab; does nothing without notification permission */
+export async function showAlert(event: AlertEvent): Promise<void> {
+  if (!pushSupported() || Notification.permission !== 'granted') return
+  const { title, body } = describeAlert(event)
+  const registration = await alertWorker()
+  await registration.showNotification(title, {
+    body,
+    tag: `${event.type}:${event.stormId}`,
+    icon: '/icon-192.png',
+    data: { url: '/', event },
+  })
+}
+
+export async function requestNotificationPermission(): Promise<boolean> {
+  if (!pushSupported()) return false
+  return (await Notification.requestPermission()) === 'granted'
+}
+
+/**
+ * Subscribe this browser to alerts pushed by the Lambda. Resubscribing replaces the
+ * event types and locations stored for it.
+ */
+export async function subscribeToPush(events: AlertType[], locations: SavedLocation[]): Promise<void> {
+  if (!(await requestNotificationPermission())) throw new Error('Notifications are blocked for this site')
+
+  const api = getLambdaApiUrl()
+  const { data: config } = await axios.get(`${api}/alert-config`, { timeout: REQUEST_TIMEOUT_MS })
+  if (!config?.vapidPublicKey) throw new Error('Push alerts are not configured on the server')
+
+  const registration = await alertWorker()
+  const subscription = await registration.pushManager.getSubscription()
+    ?? await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: base64UrlToBytes(config.vapidPublicKey),
+    })
+
+  try {
+    await axios.post(`${api}/alert-subscribe`, {
+      subscription: subscription.toJSON(),
+      events,
+      locations: locations.map(({ name, lat, lon }) => ({ name, lat, lon })),
+    }, { timeout: REQUEST_TIMEOUT_MS })
+  } catch (e) {
+    // The Lambda explains refusals (unknown push service, too many requests) in `error`
+    const reason = axios.isAxiosError(e) ? e.response?.data?.error : undefined
+    throw typeof reason === 'string' ? new Error(reason) : e
+  }
+}
+
+export async function unsubscribeFromPush(): Promise<void> {
+  const registration = await navigator.serviceWorker.getRegistration(WORKER_URL)
+  const subscription = await registration?.pushManager.getSubscription()
+  if (!subscription) return
+  try {
+    await axios.post(`${getLambdaApiUrl()}/alert-unsubscribe`, { endpoint: subscription.endpoint }, { timeout: REQUEST_TIMEOUT_MS })
+  } catch (e) {
+    // The Lambda also drops subscriptions the push service reports as gone
+    console.warn('Could not remove push subscription from the server:', e)
+  }
+  await subscription.unsubscribe()
+}
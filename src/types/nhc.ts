@@ -37,12 +37,24 @@ export interface NHCStorm {
     fileUpdateTime: string
     url: string
   }
-  windWatchWarning: {
+  /** Coastal watch/warning segments; null when none are in effect */
+  windWatchesWarnings: {
     advNum: string
     issuance: string
-    fileUpdateTime: string
-    url: string
-  }
+    kmzFile: string
+  } | null
+  /** Storm surge watch/warning segments (Atlantic storms only) */
+  stormSurgeWatchWarningGIS?: {
+    advNum: string
+    issuance: string
+    kmzFile: string
+  } | null
+  /** Potential storm surge flooding (inundation) polygons (Atlantic storms only) */
+  potentialStormSurgeFloodingGIS?: {
+    advNum: string
+    issuance: string
+    kmzFile: string
+  } | null
   cone: {
     advNum: string
     issuance: string
@@ -53,14 +65,14 @@ export interface NHCStorm {
     advNum: string
     issuance: string
     fileUpdateTime: string
-    url: string
-  }
-  forecastWindRadii: {
+    kmzFile: string
+  } | null
+  forecastWindRadiiGIS: {
     advNum: string
     issuance: string
     fileUpdateTime: string
-    url: string
-  }
+    kmzFile: string
+  } | null
   bestTrack: {
     advNum: string
     issuance: string
@@ -73,6 +85,9 @@ export interface NHCActiveStorms {
   activeStorms: NHCStorm[]
 }
 
+// Wind or sea radii in nautical miles, ordered [NE, SE, SW, NW]; 0 = not reported in that quadrant
+export type QuadrantRadii = [number, number, number, number]
+
 export interface StormForecastPoint {
   latitude: number
   longitude: number
@@ -85,6 +100,25 @@ export interface StormForecastPoint {
     speed: number
   }
   forecastHour: number
+  // Structure from the forecast/advisory (TCM) product; absent when no TCM was parsed
+  r34?: QuadrantRadii | null
+  r50?: QuadrantRadii | null
+  r64?: QuadrantRadii | null
+  rmw?: number | null          // radius of maximum winds (nm)
+  eyeDiameter?: number | null  // nm
+  seas12ft?: QuadrantRadii | null
+  stage?: string               // e.g. 'INLAND', 'POST-TROP/EXTRATROP'
+}
+
+// Parsed NHC forecast/advisory (TCM). points[0] is the initial (hour 0) analysis.
+export interface ForecastAdvisory {
+  stormId: string
+  stormName: string
+  classification: string  // e.g. 'HURRICANE', 'TROPICAL STORM'
+  advisoryNumber: string
+  issuance: string  // ISO time the advisory was issued
+  pressure: number | null
+  points: StormForecastPoint[]
 }
 
 export interface StormHistoricalPoint {
@@ -94,7 +128,18 @@ export interface StormHistoricalPoint {
   maxWinds: number
   pressure: number
   category: number
+  /** Storm type (ATCF code: TD, TS, HU, EX, SS, LO, ...) */
   classification: string
+  // Best-track (B-deck) extras — absent when the track came from GIS data
+  r34?: QuadrantRadii | null
+  r50?: QuadrantRadii | null
+  r64?: QuadrantRadii | null
+  rmw?: number | null
+  gusts?: number | null
+  eyeDiameter?: number | null
+  /** Pressure (mb) and radius (nm) of the outermost closed isobar */
+  outerPressure?: number | null
+  outerRadius?: number | null
 }
 
 export interface ProcessedStorm {
@@ -112,11 +157,230 @@ export interface ProcessedStorm {
   track?: any  // KMZ track data as GeoJSON (optional)
   cone?: any  // Forecast cone data (optional)
   forecastTrack?: any  // Forecast track data from KMZ (optional)
+  forecastAdvisory?: ForecastAdvisory | null  // Parsed TCM with wind radii (optional)
+  advisoryNumber?: string  // Latest forecast advisory number from CurrentStorms.json
   advisoryUrl: string
   trackUrl: string
   coneUrl: string
 }
 
+// Advisory snapshot written by the Lambda's DynamoDB storm archive
+export interface ArchivedStormSnapshot {
+  stormId: string
+  stormName: string
+  season: number
+  basin: string
+  classification: string
+  category: number
+  maxWindsKnots: number
+  pressureMb: number | null
+  positionLat: number | null
+  positionLon: number | null
+  advisoryNumber?: string | null
+  advisoryTimestamp: string
+  /** NHC's official forecast positions at the time of the snapshot */
+  forecastPoints?: Array<{
+    hour: number
+    lat: number
+    lon: number
+    maxWindsKnots: number
+    pressureMb: number
+  }>
+}
+
+// Invest snapshot written by the Lambda's DynamoDB invest archive
+export interface ArchivedInvestSnapshot {
+  investId: string
+  name: string
+  season: number
+  basin: string
+  formationChance48hr: number
+  formationChance7day: number
+  positionLat: number | null
+  positionLon: number | null
+  snapshotTimestamp: string
+  developed: boolean
+}
+
+// One model run archived by the Lambda (archive-model-runs)
+export interface ArchivedModelRun {
+  stormId: string
+  modelId: string
+  /** yyyymmddhh */
+  runCycle: string
+  runTimestamp: string
+  fetchedAt: string
+  trackPoints: Array<{
+    forecastHour: number
+    lat: number
+    lon: number
+    maxWindsKnots: number | null
+  }>
+}
+
+// HURDAT2 best-track record (Atlantic and NE/Central Pacific databases)
+export interface HurdatFix {
+  dateTime: string
+  /** Record identifier: L = landfall, I = intensity peak, P = min pressure, … (null when blank) */
+  recordId: string | null
+  /** System status: TD, TS, HU, EX, SD, SS, LO, WV, DB */
+  status: string
+  latitude: number
+  longitude: number
+  maxWinds: number
+  pressure: number | null
+  r34: QuadrantRadii | null
+  r50: QuadrantRadii | null
+  r64: QuadrantRadii | null
+  rmw: number | null
+}
+
+export interface HurdatStorm {
+  stormId: string
+  basin: 'AL' | 'EP' | 'CP'
+  season: number
+  name: string
+  fixes: HurdatFix[]
+}
+
+// HAFS 10-m wind grid decoded from the model's GRIB2 output (Lambda hafs-windfield)
+export type HafsModelId = 'hfsa' | 'hfsb'
+
+export interface HafsWindFieldResponse {
+  stormId: string
+  /** Display name, e.g. HAFS-A */
+  model: string
+  /** Initialisation time, YYYYMMDDHH */
+  cycle: string
+  forecastHour: number
+  validTime: string | null
+  source: string
+  /** Regular lat/lon cells; north/west are the first cell's centre, rows run north → south */
+  grid: { north: number; west: number; dLat: number; dLon: number; rows: number; cols: number }
+  /** u and v are base64 little-endian Int16 in tenths of a knot */
+  encoding: 'int16le-decikt'
+  /** Int16 value marking cells with no data */
+  missing: number
+  u: string
+  v: string
+  maxWindKt: number
+  maxWindAt: [number, number] | null
+}
+
+// Coastal watches and warnings for one storm (Lambda watches-warnings)
+export type WatchWarningType =
+  | 'hurricane-warning'
+  | 'hurricane-watch'
+  | 'tropical-storm-warning'
+  | 'tropical-storm-watch'
+  | 'storm-surge-warning'
+  | 'storm-surge-watch'
+
+export interface WatchWarningSegment {
+  type: 'Feature'
+  properties: { type: WatchWarningType; label: string; name: string }
+  /** Coastline under the watch or warning, as [lon, lat] */
+  geometry: { type: 'LineString'; coordinates: [number, number][] }
+}
+
+export interface WatchWarningBreakpoints {
+  type: WatchWarningType
+  label: string
+  /** Stretches of coast as worded in the public advisory, e.g. "Mexico Beach eastward to Suwannee River" */
+  areas: string[]
+}
+
+export interface WatchesWarnings {
+  stormId: string
+  advisoryNumber: string | null
+  segments: { type: 'FeatureCollection'; features: WatchWarningSegment[] }
+  breakpoints: WatchWarningBreakpoints[]
+}
+
+// NHC's published wind radii for one storm (Lambda wind-radii): the initial wind extent
+// (forecast hour 0) and the forecast radii, one quadrant-shaped polygon per threshold and hour
+export interface WindRadiiFeature {
+  type: 'Feature'
+  properties: {
+    source: 'initial' | 'forecast'
+    thresholdKt: 34 | 50 | 64
+    /** Null when the KML carries no valid time */
+    forecastHour: number | null
+    validTime: string | null
+    /** NE, SE, SW, NW radii (nm) from the shapefile attributes, when present */
+    radii: QuadrantRadii | null
+  }
+  /** Outline as [lon, lat] */
+  geometry: { type: 'Polygon'; coordinates: [number, number][][] }
+}
+
+export interface WindRadiiResponse {
+  stormId: string
+  advisoryNumber: string | null
+  radii: { type: 'FeatureCollection'; features: WindRadiiFeature[] }
+}
+
+// Potential storm surge flooding depth above ground (Lambda storm-surge-inundation)
+export type InundationBand = 'up-to-3' | 'over-3' | 'over-6' | 'over-9'
+
+export interface InundationFeature {
+  type: 'Feature'
+  properties: {
+    band: InundationBand
+    label: string
+    minFt: number
+    /** Null for the open-ended deepest band */
+    maxFt: number | null
+  }
+  /** Rings as [lon, lat], outer ring first, then holes */
+  geometry:
+    | { type: 'Polygon'; coordinates: [number, number][][] }
+    | { type: 'MultiPolygon'; coordinates: [number, number][][][] }
+}
+
+/** One image of the graphic when NHC issues it as a raster instead of band polygons */
+export interface InundationOverlay {
+  name: string | null
+  /** Data URL of the image from the KMZ, or an https URL */
+  image: string
+  bounds: { north: number; south: number; east: number; west: number }
+}
+
+export interface SurgeInundation {
+  stormId: string
+  advisoryNumber: string | null
+  /** Shallowest band first; empty when NHC has issued no inundation graphic or a raster one */
+  bands: { type: 'FeatureCollection'; features: InundationFeature[] }
+  /** The raster graphic's images, already coloured by band; empty for a polygon graphic */
+  overlays: InundationOverlay[]
+}
+
+// Mean forecast errors of one model at one forecast hour (Lambda model-verification)
+export interface ModelVerificationStat {
+  modelId: string
+  tau: number
+  trackN: number
+  trackErrorNm: number | null
+  /** Positive = forecast ahead of the storm */
+  alongTrackNm: number | null
+  /** Positive = forecast right of the storm's motion */
+  crossTrackNm: number | null
+  intensityN: number
+  intensityMaeKt: number | null
+  intensityBiasKt: number | null
+}
+
+// Verification of the archived model runs for a storm or a season (Lambda model-verification)
+export interface ModelVerification {
+  stormIds: string[]
+  /** Storms not verified yet (the Lambda's time budget); asking again includes them */
+  pendingStormIds: string[]
+  /** Most-verified first */
+  models: { modelId: string; cases: number }[]
+  homogeneous: boolean
+  stats: ModelVerificationStat[]
+}
+
 // Types for Invest Areas (Tropical Weather Outlook)
 export interface InvestArea {
   id: string
@@ -0,0 +1,41 @@
+// Advisory-change alerts
+// Successive active-storm snapshots are diffed into typed events: a new storm (or an
+// invest upgraded to one), a new advisory, a change of intensity category, and the cone
+// newly covering a saved location. The diff, the event shapes and the notification text
+// are shared with the Lambda, which runs the same check on a schedule for Web Push and
+// webhook delivery: see alertSnapshots.mjs next to the function's index.js. Here the
+// snapshot is built from the processed storms, with locations keyed by their ids.
+
+import type { InvestArea, ProcessedStorm } from '../types/nhc'
+import { inCone, type SavedLocation } from './threatAssessment'
+import {
+  diffAlertSnapshots, stormSnapshot,
+  type AlertEvent, type AlertSnapshot, type AlertType,
+} from '../../amplify/backend/function/nhcProxy/src/alertSnapshots.mjs'
+
+export {
+  ALERT_TYPES, describeAlert, isUpgrade,
+  type AlertEvent, type AlertSnapshot, type AlertType, type IntensityCategory,
+  type InvestSnapshot, type StormSnapshot,
+} from '../../amplify/backend/function/nhcProxy/src/alertSnapshots.mjs'
+
+export const ALERT_TYPE_LABELS: Record<AlertType, string> = {
+  'new-storm': 'New storm',
+  'invest-upgraded': 'Invest upgraded',
+  'new-advisory': 'New advisory',
+  'category-change': 'Category change',
+  'cone-covers-location': 'Cone covers a saved location',
+}
+
+export function takeSnapshot(storms: ProcessedStorm[], invests: InvestArea[], locations: SavedLocation[]): AlertSnapshot {
+  return {
+    takenAt: new Date().toISOString(),
+    storms: storms.map(s => stormSnapshot(s, locations.filter(l => inCone(s.cone, l.lat, l.lon)).map(l => l.id))),
+    invests: invests.map(i => ({ id: i.id, position: i.position })),
+  }
+}
+
+/** Events between two snapshots, with cone events for the saved locations */
+export function diffSnapshots(previous: AlertSnapshot, next: AlertSnapshot, locations: SavedLocation[]): AlertEvent[] {
+  return diffAlertSnapshots(previous, next, new Map(locations.map(l => [l.id, l])))
+}
@@ -0,0 +1,199 @@
+// Historical analog search
+// Finds every best-track storm that passed within a circle (or through a drawn polygon)
+// and reports its state at closest approach, answering "what storms have hit us before".
+
+import type { HurdatFix, HurdatStorm } from '../types/nhc'
+import { bearingDeg, haversineNm } from './windField'
+import { categoryFromKnots } from './hurdat2'
+
+const DEG = Math.PI / 180
+
+// Statuses counted as a tropical or subtropical cyclone (HURDAT2 status codes)
+const CYCLONE_STATUSES = new Set(['TD', 'TS', 'HU', 'SD', 'SS'])
+
+// Polygon track segments are sampled at least this often (nm)
+const POLYGON_STEP_NM = 10
+
+export type AnalogArea =
+  | { kind: 'circle'; lat: number; lon: number; radiusNm: number }
+  /** Vertices as [lat, lon], not closed */
+  | { kind: 'polygon'; vertices: [number, number][] }
+
+export interface AnalogHit {
+  stormId: string
+  name: string
+  season: number
+  basin: string
+  /** Interpolated state at closest approach */
+  dateTime: string
+  lat: number
+  lon: number
+  /** Distance from the circle centre / polygon centroid */
+  distanceNm: number
+  maxWinds: number
+  pressure: number | null
+  status: string
+  category: number
+  /** Storm motion at closest approach (toward, degrees true) */
+  headingDeg: number
+  speedKt: number
+  /** Lifetime peak intensity */
+  peakWinds: number
+  fixes: HurdatFix[]
+}
+
+export interface AnalogFilter {
+  basin?: string
+  /** Minimum Saffir-Simpson category at closest approach (0 = tropical-storm force) */
+  minCategory?: number
+  fromSeason?: number
+  toSeason?: number
+}
+
+export type AnalogSort = 'distance' | 'intensity' | 'date'
+
+// ─── Geometry ─────────────────────────────────────────────────────────────────
+
+export function areaCentre(area: AnalogArea): [number, number] {
+  if (area.kind === 'circle') return [area.lat, area.lon]
+  const n = area.vertices.length
+  return [
+    area.vertices.reduce((s, v) => s + v[0], 0) / n,
+    area.vertices.reduce((s, v) => s + v[1], 0) / n,
+  ]
+}
+
+// Ray casting in lat/lon — fine for the county-to-coastline sized areas this is for
+export function pointInPolygon(lat: number, lon: number, vertices: [number, number][]): boolean {
+  let inside = false
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const [yi, xi] = vertices[i]
+    const [yj, xj] = vertices[j]
+    if ((yi > lat) !== (yj > lat) && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) inside = !inside
+  }
+  return inside
+}
+
+function wrapLon(dLon: number): number {
+  return ((dLon + 540) % 360) - 180
+}
+
+// Parameter (0–1) of the point on segment a→b closest to (lat, lon), on a local
+// equirectangular projection centred on the query point
+function closestT(a: HurdatFix, b: HurdatFix, lat: number, lon: number): number {
+  const k = Math.cos(lat * DEG)
+  const ax = wrapLon(a.longitude - lon) * k
+  const ay = a.latitude - lat
+  const bx = wrapLon(b.longitude - lon) * k
+  const by = b.latitude - lat
+  const dx = bx - ax
+  const dy = by - ay
+  const len2 = dx * dx + dy * dy
+  if (len2 === 0) return 0
+  return Math.max(0, Math.min(1, -(ax * dx + ay * dy) / len2))
+}
+
+// ─── Search ───────────────────────────────────────────────────────────────────
+
+interface Approach {
+  a: HurdatFix
+  b: HurdatFix
+  t: number
+  lat: number
+  lon: number
+  distanceNm: number
+}
+
+function interpolateAt(a: HurdatFix, b: HurdatFix, t: number): [number, number] {
+  return [a.latitude + (b.latitude - a.latitude) * t, a.longitude + wrapLon(b.longitude - a.longitude) * t]
+}
+
+function segmentApproach(a: HurdatFix, b: HurdatFix, area: AnalogArea, cLat: number, cLon: number): Approach | null {
+  if (area.kind === 'circle') {
+    const t = closestT(a, b, cLat, cLon)
+    const [lat, lon] = interpolateAt(a, b, t)
+    const distanceNm = haversineNm(cLat, cLon, lat, lon)
+    return distanceNm <= area.radiusNm ? { a, b, t, lat, lon, distanceNm } : null
+  }
+
+  const steps = Math.max(1, Math.ceil(haversineNm(a.latitude, a.longitude, b.latitude, b.longitude) / POLYGON_STEP_NM))
+  let best: Approach | null = null
+  for (let i = 0; i <= steps; i++) {
+    const t = i / steps
+    const [lat, lon] = interpolateAt(a, b, t)
+    if (!pointInPolygon(lat, lon, area.vertices)) continue
+    const distanceNm = haversineNm(cLat, cLon, lat, lon)
+    if (!best || distanceNm < best.distanceNm) best = { a, b, t, lat, lon, distanceNm }
+  }
+  return best
+}
+
+/**
+ * Every storm whose track passes through the area, with its interpolated state at
+ * closest approach. Only tropical/subtropical legs count unless `tropicalOnly` is off,
+ * so an extratropical remnant crossing the area is not reported as a hurricane strike.
+ */
+export function findAnalogs(storms: HurdatStorm[], area: AnalogArea, tropicalOnly = true): AnalogHit[] {
+  const [cLat, cLon] = areaCentre(area)
+  const hits: AnalogHit[] = []
+
+  for (const storm of storms) {
+    const fixes = storm.fixes
+    let best: Approach | null = null
+
+    for (let i = 0; i < fixes.length; i++) {
+      const a = fixes[i]
+      const b = fixes[Math.min(i + 1, fixes.length - 1)]
+      if (tropicalOnly && !CYCLONE_STATUSES.has(a.status) && !CYCLONE_STATUSES.has(b.status)) continue
+      const hit = segmentApproach(a, b, area, cLat, cLon)
+      if (hit && (!best || hit.distanceNm < best.distanceNm)) best = hit
+    }
+    if (!best) continue
+
+    const { a, b, t } = best
+    const ta = new Date(a.dateTime).getTime()
+    const tb = new Date(b.dateTime).getTime()
+    const hours = (tb - ta) / 3_600_000
+    const maxWinds = Math.round(a.maxWinds + (b.maxWinds - a.maxWinds) * t)
+    const pressure = a.pressure !== null && b.pressure !== null
+      ? Math.round(a.pressure + (b.pressure - a.pressure) * t)
+      : (t < 0.5 ? a.pressure : b.pressure)
+
+    hits.push({
+      stormId: storm.stormId,
+      name: storm.name,
+      season: storm.season,
+      basin: storm.basin,
+      dateTime: new Date(Math.round((ta + (tb - ta) * t) / 60_000) * 60_000).toISOString(),
+      lat: best.lat,
+      lon: best.lon,
+      distanceNm: best.distanceNm,
+      maxWinds,
+      pressure,
+      status: t < 0.5 ? a.status : b.status,
+      category: categoryFromKnots(maxWinds),
+      headingDeg: a === b ? 0 : Math.round(bearingDeg(a.latitude, a.longitude, b.latitude, b.longitude)),
+      speedKt: hours > 0 ? Math.round(haversineNm(a.latitude, a.longitude, b.latitude, b.longitude) / hours) : 0,
+      peakWinds: Math.max(...fixes.map(f => f.maxWinds)),
+      fixes,
+    })
+  }
+
+  return hits
+}
+
+export function filterAnalogs(hits: AnalogHit[], filter: AnalogFilter): AnalogHit[] {
+  return hits.filter(h =>
+    (!filter.basin || h.basin === filter.basin) &&
+    (filter.minCategory === undefined || (filter.minCategory === 0 ? h.maxWinds >= 34 : h.category >= filter.minCategory)) &&
+    (filter.fromSeason === undefined || h.season >= filter.fromSeason) &&
+    (filter.toSeason === undefined || h.season <= filter.toSeason))
+}
+
+export function sortAnalogs(hits: AnalogHit[], sort: AnalogSort): AnalogHit[] {
+  const sorted = [...hits]
+  if (sort === 'distance') sorted.sort((a, b) => a.distanceNm - b.distanceNm)
+  else if (sort === 'intensity') sorted.sort((a, b) => b.maxWinds - a.maxWinds || a.distanceNm - b.distanceNm)
+  else sorted.sort((a, b) => b.dateTime.localeCompare(a.dateTime))
+  return sorted
+}
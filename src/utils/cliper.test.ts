@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest'
+import type { ProcessedStorm } from '../types/nhc'
+import {
+  adeckBaseline, baselineInputFromStorm, heuristicBaselineForecast, BASELINE_TAUS,
+  type BaselineFix, type BaselineInput,
+} from './cliper'
+import { haversineNm } from './windField'
+
+const HOUR_MS = 3_600_000
+const t0 = new Date('2024-09-10T12:00:00Z')
+
+const fix = (lat: number, lon: number, vmax: number, hoursAgo = 0): BaselineFix =>
+  ({ lat, lon, vmax, time: new Date(t0.getTime() - hoursAgo * HOUR_MS) })
+
+describe('adeckBaseline', () => {
+  const clp5 = {
+    modelId: 'CLP5',
+    points: [0, 12, 24, 36, 48, 60, 72].map(tau => ({ tau, lat: 20 + tau / 24, lon: -60 - tau / 12, vmax: 0 })),
+  }
+  const shf5 = { modelId: 'SHF5', points: [0, 12, 24].map(tau => ({ tau, lat: 0, lon: 0, vmax: 50 + tau })) }
+
+  it('takes the CLP5 track with SHF5 intensity at the output taus', () => {
+    const points = adeckBaseline([{ modelId: 'OFCL', points: [] }, clp5, shf5])
+    expect(points.map(p => p.tau)).toEqual([0, 12, 24, 36, 48, 72])
+    expect(points[1]).toEqual({ tau: 12, lat: 20.5, lon: -61, vmax: 62 })
+    // No SHF5 record and a zero CLP5 intensity: unknown, not 0 kt
+    expect(points[3].vmax).toBeNull()
+  })
+
+  it('is empty when the cycle has no CLP5', () => {
+    expect(adeckBaseline([shf5])).toEqual([])
+  })
+})
+
+describe('heuristicBaselineForecast', () => {
+  const input: BaselineInput = {
+    basin: 'AL',
+    current: fix(15, -50, 60),
+    past12: fix(15, -48.3, 55, 12),
+    past24: fix(15, -46.6, 50, 24),
+  }
+
+  it('returns every output tau, starting at the current fix', () => {
+    const points = heuristicBaselineForecast(input)
+    expect(points.map(p => p.tau)).toEqual(BASELINE_TAUS)
+    expect(points[0]).toEqual({ tau: 0, lat: 15, lon: -50, vmax: 60 })
+  })
+
+  it('persists the recent motion at first', () => {
+    const [, p12] = heuristicBaselineForecast(input)
+    // ~1.7° of longitude per 12 h at 15°N is ~98 nm, heading west
+    expect(p12.lon).toBeLessThan(-51)
+    expect(haversineNm(15, -50, p12.lat, p12.lon)).toBeGreaterThan(85)
+    expect(haversineNm(15, -50, p12.lat, p12.lon)).toBeLessThan(130)
+  })
+
+  it('carries the intensity trend briefly, then relaxes toward the table intensity', () => {
+    const points = heuristicBaselineForecast(input)
+    expect(points[1].vmax).toBeGreaterThan(60)
+    const late = points[points.length - 1].vmax!
+    expect(Math.abs(late - 85)).toBeLessThan(Math.abs(60 - 85))
+  })
+
+  it('falls back to the advisory motion without history', () => {
+    const points = heuristicBaselineForecast({
+      basin: 'EP', current: fix(14, -105, 45), motion: { headingDeg: 270, speedKt: 10 },
+    })
+    expect(points).toHaveLength(BASELINE_TAUS.length)
+    expect(points[1].lon).toBeLessThan(-105)
+  })
+
+  it('is empty when the motion is unknown', () => {
+    expect(heuristicBaselineForecast({ basin: 'AL', current: fix(15, -50, 60) })).toEqual([])
+  })
+})
+
+describe('baselineInputFromStorm', () => {
+  it('interpolates the 12- and 24-h-old fixes from the best track', () => {
+    const storm = {
+      id: 'al052024',
+      position: [15, -50],
+      maxWinds: 60,
+      lastUpdate: t0,
+      historical: [
+        { dateTime: '2024-09-10T06:00:00Z', latitude: 15, longitude: -49.2, maxWinds: 58 },
+        { dateTime: '2024-09-09T06:00:00Z', latitude: 14, longitude: -46, maxWinds: 50 },
+        { dateTime: '2024-09-09T18:00:00Z', latitude: 14.6, longitude: -47.6, maxWinds: 54 },
+      ],
+    } as unknown as ProcessedStorm
+
+    const input = baselineInputFromStorm(storm)!
+    expect(input.basin).toBe('AL')
+    expect(input.current).toEqual(fix(15, -50, 60))
+    expect(input.past12?.time).toEqual(new Date('2024-09-10T00:00:00Z'))
+    expect(input.past12?.lat).toBeCloseTo(14.8)
+    expect(input.past12?.lon).toBeCloseTo(-48.4)
+    expect(input.past12?.vmax).toBeCloseTo(56)
+    expect(input.past24?.lat).toBeCloseTo(14.3)
+    expect(input.past24?.lon).toBeCloseTo(-46.8)
+  })
+})
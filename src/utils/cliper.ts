@@ -0,0 +1,259 @@
+// Climatology-and-persistence baseline forecast
+// A no-skill reference track and intensity: guidance that can't beat it has no skill.
+// NHC runs the real one, CLIPER5 (track, aid CLP5) and SHIFOR5 (intensity, aid SHF5),
+// and publishes it in the A-deck with the other aids; adeckBaseline() reads it from there.
+//
+// When a cycle has no CLP5, heuristicBaselineForecast() stands in. It is NOT CLIPER5: the
+// recent motion and intensity trend are persisted and relaxed toward hand-set latitude-band
+// steering and intensity tables, not NHC's regression. It carries its own aid ID so it is
+// never mistaken for (or verified as) the operational CLP5.
+
+import type { ProcessedStorm, StormHistoricalPoint } from '../types/nhc'
+import { destinationPoint, haversineNm, bearingDeg } from './windField'
+
+const DEG = Math.PI / 180
+
+// NHC's operational aids: CLIPER5 track and SHIFOR5 intensity
+export const CLIPER_AID_ID = 'CLP5'
+export const SHIFOR_AID_ID = 'SHF5'
+export const BASELINE_AIDS = [CLIPER_AID_ID, SHIFOR_AID_ID]
+
+// Not an ATCF aid ID, so it can't collide with one
+export const HEURISTIC_BASELINE_ID = 'XCLP'
+
+// Output taus, as in the A-deck
+export const BASELINE_TAUS = [0, 12, 24, 36, 48, 72, 96, 120]
+
+const STEP_HOURS = 6
+// Hand-set e-folding times for persistence of motion and of the intensity trend
+const MOTION_PERSISTENCE_HOURS = 30
+const TREND_PERSISTENCE_HOURS = 18
+// Hand-set relaxation time toward the table intensity
+const INTENSITY_RELAX_HOURS = 60
+
+export interface BaselineFix {
+  lat: number
+  lon: number
+  /** Sustained wind (kt) */
+  vmax: number
+  time: Date
+}
+
+export interface BaselineInput {
+  basin: string
+  current: BaselineFix
+  /** Fixes ~12 h and ~24 h before `current`, when known */
+  past12?: BaselineFix | null
+  past24?: BaselineFix | null
+  /** Fallback motion (toward, kt) when there is no track history */
+  motion?: { headingDeg: number; speedKt: number } | null
+}
+
+export interface BaselinePoint {
+  tau: number
+  lat: number
+  lon: number
+  vmax: number | null
+}
+
+// ─── NHC aids (A-deck) ────────────────────────────────────────────────────────
+
+interface AdeckTrack {
+  modelId: string
+  points: Array<{ tau: number; lat: number; lon: number; vmax: number | null }>
+}
+
+/**
+ * CLP5 track with SHF5 intensity from one A-deck cycle, by tau. SHF5 only forecasts
+ * intensity; CLP5's own intensity column is used where there's no SHF5 record. Empty
+ * when the cycle has no CLP5.
+ */
+export function adeckBaseline(tracks: AdeckTrack[]): BaselinePoint[] {
+  const clp5 = tracks.find(t => t.modelId === CLIPER_AID_ID)
+  if (!clp5) return []
+  const shf5 = new Map((tracks.find(t => t.modelId === SHIFOR_AID_ID)?.points ?? []).map(p => [p.tau, p.vmax]))
+  return clp5.points
+    .filter(p => BASELINE_TAUS.includes(p.tau))
+    .map(p => ({ tau: p.tau, lat: p.lat, lon: p.lon, vmax: shf5.get(p.tau) ?? (p.vmax || null) }))
+}
+
+// ─── Heuristic climatology ────────────────────────────────────────────────────
+
+// Hand-set steering flow (u east, v north, kt) by latitude band, shaped like the textbook
+// picture rather than fitted: trade-wind westward drift in the tropics, recurvature near
+// the subtropical ridge, westerlies poleward
+const AL_STEERING: [number, number, number][] = [
+  // [upper latitude, u, v]
+  [15, -12, 2],
+  [20, -10, 3],
+  [25, -7, 5],
+  [30, -2, 7],
+  [35, 6, 9],
+  [40, 13, 10],
+  [90, 20, 10],
+]
+
+const EP_STEERING: [number, number, number][] = [
+  [12, -11, 1],
+  [16, -10, 2],
+  [20, -8, 3],
+  [25, -5, 3],
+  [90, -2, 3],
+]
+
+// Hand-set sustained wind a storm relaxes toward (kt), by latitude — the cooler water
+// north of ~22°N in the East Pacific kills storms quickly
+const AL_INTENSITY: [number, number][] = [[20, 85], [28, 80], [33, 60], [38, 45], [90, 35]]
+const EP_INTENSITY: [number, number][] = [[16, 85], [20, 65], [23, 40], [90, 25]]
+
+// The subtropical ridge sits farthest north in August and retreats south in autumn;
+// shift the Atlantic bands by this many (hand-set) degrees, positive = recurve farther south
+const RIDGE_SHIFT_BY_MONTH = [4, 4, 4, 4, 3, 2, 1, 0, 0, 2, 4, 4]
+
+function bandLookup<T extends number[]>(table: T[], lat: number): T {
+  return table.find(row => lat < row[0]) ?? table[table.length - 1]
+}
+
+function climatologicalSteering(basin: string, lat: number, month: number): [number, number] {
+  const absLat = Math.abs(lat)
+  if (basin === 'EP' || basin === 'CP') {
+    const [, u, v] = bandLookup(EP_STEERING, absLat)
+    return [u, lat < 0 ? -v : v]
+  }
+  const [, u, v] = bandLookup(AL_STEERING, absLat + RIDGE_SHIFT_BY_MONTH[month])
+  return [u, lat < 0 ? -v : v]
+}
+
+function climatologicalIntensity(basin: string, lat: number): number {
+  const table = basin === 'EP' || basin === 'CP' ? EP_INTENSITY : AL_INTENSITY
+  return bandLookup(table, Math.abs(lat))[1]
+}
+
+// ─── Persistence ──────────────────────────────────────────────────────────────
+
+// Motion (u, v kt) between two fixes
+function motionBetween(a: BaselineFix, b: BaselineFix): [number, number] | null {
+  const hours = (b.time.getTime() - a.time.getTime()) / 3_600_000
+  if (hours <= 0) return null
+  const speed = haversineNm(a.lat, a.lon, b.lat, b.lon) / hours
+  const heading = bearingDeg(a.lat, a.lon, b.lat, b.lon) * DEG
+  return [speed * Math.sin(heading), speed * Math.cos(heading)]
+}
+
+/**
+ * Persistence motion: the 12-h and 24-h mean motions weighted toward the more recent,
+ * or the advisory motion when there is no history.
+ */
+function persistenceMotion(input: BaselineInput): [number, number] | null {
+  const m12 = input.past12 ? motionBetween(input.past12, input.current) : null
+  const m24 = input.past24 ? motionBetween(input.past24, input.current) : null
+  if (m12 && m24) return [0.6 * m12[0] + 0.4 * m24[0], 0.6 * m12[1] + 0.4 * m24[1]]
+  const single = m12 ?? m24
+  if (single) return single
+  if (input.motion && input.motion.speedKt > 0) {
+    const h = input.motion.headingDeg * DEG
+    return [input.motion.speedKt * Math.sin(h), input.motion.speedKt * Math.cos(h)]
+  }
+  return null
+}
+
+// Intensity change per hour over the last 12 h (24 h when that is all there is)
+function intensityTrend(input: BaselineInput): number {
+  const past = input.past12 ?? input.past24
+  if (!past) return 0
+  const hours = (input.current.time.getTime() - past.time.getTime()) / 3_600_000
+  return hours > 0 ? (input.current.vmax - past.vmax) / hours : 0
+}
+
+// ─── Heuristic forecast ───────────────────────────────────────────────────────
+
+/**
+ * Five-day heuristic baseline, used when the A-deck has no CLP5. Motion starts as
+ * persistence and relaxes toward the table steering for the storm's latitude and month;
+ * intensity carries the recent trend forward briefly while relaxing toward the table
+ * intensity for the latitude. Returns [] when the storm's motion is unknown.
+ */
+export function heuristicBaselineForecast(input: BaselineInput): BaselinePoint[] {
+  const persistence = persistenceMotion(input)
+  if (!persistence) return []
+
+  const month = input.current.time.getUTCMonth()
+  const trend = intensityTrend(input)
+  const maxTau = BASELINE_TAUS[BASELINE_TAUS.length - 1]
+
+  let lat = input.current.lat
+  let lon = input.current.lon
+  let vmax = input.current.vmax
+  const points: BaselinePoint[] = [{ tau: 0, lat, lon, vmax: Math.round(vmax) }]
+
+  for (let tau = STEP_HOURS; tau <= maxTau; tau += STEP_HOURS) {
+    // Evaluate at the middle of the step
+    const mid = tau - STEP_HOURS / 2
+    const w = Math.exp(-mid / MOTION_PERSISTENCE_HOURS)
+    const [cu, cv] = climatologicalSteering(input.basin, lat, month)
+    const u = w * persistence[0] + (1 - w) * cu
+    const v = w * persistence[1] + (1 - w) * cv
+    const speed = Math.hypot(u, v)
+    if (speed > 0) {
+      const heading = (Math.atan2(u, v) / DEG + 360) % 360
+      const next = destinationPoint(lat, lon, heading, speed * STEP_HOURS)
+      lat = next[0]
+      lon = next[1]
+    }
+
+    const climo = climatologicalIntensity(input.basin, lat)
+    const dv = trend * Math.exp(-mid / TREND_PERSISTENCE_HOURS) + (climo - vmax) / INTENSITY_RELAX_HOURS
+    vmax = Math.max(15, vmax + dv * STEP_HOURS)
+
+    if (BASELINE_TAUS.includes(tau)) points.push({ tau, lat, lon, vmax: Math.round(vmax) })
+  }
+
+  return points
+}
+
+// ─── Storm input ──────────────────────────────────────────────────────────────
+
+// Best-track position/intensity at a time, interpolated between the bracketing fixes
+function historyAt(history: StormHistoricalPoint[], time: number): BaselineFix | null {
+  for (let i = 0; i < history.length - 1; i++) {
+    const a = history[i]
+    const b = history[i + 1]
+    const ta = new Date(a.dateTime).getTime()
+    const tb = new Date(b.dateTime).getTime()
+    if (time < ta || time > tb) continue
+    const t = tb > ta ? (time - ta) / (tb - ta) : 0
+    return {
+      lat: a.latitude + (b.latitude - a.latitude) * t,
+      lon: a.longitude + (b.longitude - a.longitude) * t,
+      vmax: a.maxWinds + (b.maxWinds - a.maxWinds) * t,
+      time: new Date(time),
+    }
+  }
+  return null
+}
+
+/**
+ * Build the heuristic baseline inputs from a tracked storm: the latest advisory (TCM) position,
+ * intensity and motion when parsed, otherwise the storm summary, plus the 12/24-h-old
+ * positions from the best track.
+ */
+export function baselineInputFromStorm(storm: ProcessedStorm): BaselineInput | null {
+  const adv = storm.forecastAdvisory?.points[0]
+  const current: BaselineFix = adv
+    ? { lat: adv.latitude, lon: adv.longitude, vmax: adv.maxWinds, time: new Date(adv.dateTime) }
+    : { lat: storm.position[0], lon: storm.position[1], vmax: storm.maxWinds, time: storm.lastUpdate }
+  if (!Number.isFinite(current.lat) || !Number.isFinite(current.lon)) return null
+
+  const history = [...storm.historical].sort((a, b) => a.dateTime.localeCompare(b.dateTime))
+  const t0 = current.time.getTime()
+
+  return {
+    basin: storm.id.slice(0, 2).toUpperCase(),
+    current,
+    past12: historyAt(history, t0 - 12 * 3_600_000),
+    past24: historyAt(history, t0 - 24 * 3_600_000),
+    motion: adv && adv.movement.speed > 0
+      ? { headingDeg: adv.movement.direction, speedKt: adv.movement.speed }
+      : null,
+  }
+}
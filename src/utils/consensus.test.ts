@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import type { ModelVerificationStat } from '../types/nhc'
+import {
+  buildConsensus, verificationWeights,
+  type ConsensusDefinition, type ConsensusMemberTrack,
+} from './consensus'
+
+const track = (modelId: string, taus: number[], lat: (tau: number) => number, lon: (tau: number) => number, vmax: number | null = 80): ConsensusMemberTrack =>
+  ({ modelId, points: taus.map(tau => ({ tau, lat: lat(tau), lon: lon(tau), vmax })) })
+
+const definition = (overrides: Partial<ConsensusDefinition> = {}): ConsensusDefinition =>
+  ({ id: 'test', name: 'Test', members: ['AAAA', 'BBBB', 'CCCC'], minMembers: 2, weighting: 'equal', ...overrides })
+
+const stat = (modelId: string, tau: number, trackErrorNm: number | null, intensityMaeKt: number | null): ModelVerificationStat => ({
+  modelId, tau, trackN: 10, trackErrorNm, alongTrackNm: null, crossTrackNm: null,
+  intensityN: 10, intensityMaeKt, intensityBiasKt: null,
+})
+
+describe('buildConsensus', () => {
+  it('averages the members at each tau and ignores non-members', () => {
+    const points = buildConsensus([
+      track('AAAA', [0, 12, 24], () => 20, () => -60),
+      track('BBBB', [0, 12, 24], () => 22, () => -60, 100),
+      track('ZZZZ', [0, 12, 24], () => 40, () => -30),
+    ], definition())
+    expect(points.map(p => p.tau)).toEqual([0, 12, 24])
+    expect(points[1].lat).toBeCloseTo(21, 2)
+    expect(points[1].lon).toBeCloseTo(-60, 6)
+    expect(points[1].vmax).toBe(90)
+    expect(points[1].members).toEqual(['AAAA', 'BBBB'])
+  })
+
+  it('interpolates members between their own points but never extrapolates', () => {
+    const points = buildConsensus([
+      track('AAAA', [0, 24, 48], tau => 20 + tau / 12, () => -60),
+      track('BBBB', [0, 12, 24, 36, 48, 60, 72], tau => 20 + tau / 12, () => -60),
+      track('CCCC', [0, 12, 24], tau => 20 + tau / 12, () => -60),
+    ], definition())
+    expect(points.find(p => p.tau === 12)!.members).toEqual(['AAAA', 'BBBB', 'CCCC'])
+    expect(points.find(p => p.tau === 36)!.members).toEqual(['AAAA', 'BBBB'])
+    // Only BBBB reaches 60 and 72 h: below the minimum
+    expect(points.map(p => p.tau)).toEqual([0, 12, 24, 36, 48])
+  })
+
+  it('averages positions correctly across the dateline', () => {
+    const points = buildConsensus([
+      track('AAAA', [0, 12], () => 30, () => 179),
+      track('BBBB', [0, 12], () => 30, () => -179),
+    ], definition())
+    expect(Math.abs(points[0].lon)).toBeCloseTo(180, 6)
+  })
+
+  it('leaves the intensity out when too few members forecast it', () => {
+    const points = buildConsensus([
+      track('AAAA', [0, 12], () => 20, () => -60),
+      track('BBBB', [0, 12], () => 21, () => -60, null),
+    ], definition())
+    expect(points[0].vmax).toBeNull()
+  })
+
+  it('is empty when fewer than two taus can be produced', () => {
+    expect(buildConsensus([track('AAAA', [0, 12], () => 20, () => -60)], definition())).toEqual([])
+  })
+
+  it('weights members by inverse squared verified error', () => {
+    const weights = verificationWeights([
+      stat('AAAA', 12, 20, 5), stat('BBBB', 12, 40, 10),
+    ])
+    const tracks = [
+      track('AAAA', [0, 12], () => 20, () => -60, 80),
+      track('BBBB', [0, 12], () => 25, () => -60, 100),
+    ]
+    const [analysis, weighted] = buildConsensus(tracks, definition({ weighting: 'verification' }), weights)
+    // AAAA counts four times as much: (4 × 20 + 25) / 5
+    expect(weighted.lat).toBeCloseTo(21, 0)
+    expect(weighted.vmax).toBe(84)
+    // Tau 0 is never weighted
+    expect(analysis.lat).toBeCloseTo(22.5, 0)
+
+    const [, equal] = buildConsensus(tracks, definition(), weights)
+    expect(equal.vmax).toBe(90)
+  })
+})
+
+describe('verificationWeights', () => {
+  it('fills unverified taus from the nearest verified tau of the same member', () => {
+    const weights = verificationWeights([stat('AAAA', 72, 100, null), stat('AAAA', 96, 200, 20)])
+    expect(weights.get('AAAA|84')!.track).toBeCloseTo(1 / 100 ** 2, 12)
+    expect(weights.get('AAAA|84')!.intensity).toBeCloseTo(1 / 20 ** 2, 12)
+    expect(weights.get('AAAA|0')).toEqual({ track: null, intensity: null })
+  })
+})
@@ -0,0 +1,179 @@
+// Consensus track builder (TVCN-style)
+// Averages a chosen set of A-deck aids at each forecast hour into one track with its own
+// intensity series. Like NHC's variable consensus, a forecast hour is produced when at
+// least the minimum number of members reach it, so past the hour where an aid drops out
+// the mean is over fewer members and the track can jump there. Members can be weighted by
+// their verified errors instead of equally.
+
+import type { ModelVerificationStat } from '../types/nhc'
+
+const DEG = Math.PI / 180
+
+// Output taus, as in the A-deck
+export const CONSENSUS_TAUS = [0, 12, 24, 36, 48, 60, 72, 84, 96, 108, 120]
+
+export type ConsensusWeighting = 'equal' | 'verification'
+
+export interface ConsensusDefinition {
+  id: string
+  name: string
+  /** A-deck technique ids, e.g. GFSO, EMXI, HAFA */
+  members: string[]
+  /** Fewest members that must reach a forecast hour for it to be produced */
+  minMembers: number
+  weighting: ConsensusWeighting
+}
+
+export interface ConsensusMemberTrack {
+  modelId: string
+  points: Array<{ tau: number; lat: number; lon: number; vmax: number | null }>
+}
+
+export interface ConsensusPoint {
+  tau: number
+  lat: number
+  lon: number
+  /** Mean sustained wind (kt), or null when too few members forecast intensity */
+  vmax: number | null
+  /** Members averaged into the position */
+  members: string[]
+}
+
+/** Track/intensity weights per member and tau; absent entries fall back to equal weights */
+export type ConsensusWeights = Map<string, { track: number | null; intensity: number | null }>
+
+// Equal-weight consensus of the early (interpolated) aids NHC's TVCN averages: GFS,
+// ECMWF, UKMET, HAFS-A, HAFS-B and COAMPS-TC. Early aids are the previous cycle's runs
+// shifted to the current position, so mixing in late aids (GFSO, HAFA, …) would average
+// forecasts from two different cycles.
+export const DEFAULT_CONSENSUS: ConsensusDefinition = {
+  id: 'tvcn',
+  name: 'TVCN-style',
+  members: ['GFSI', 'EMXI', 'EGRI', 'HFAI', 'HFBI', 'CTCI'],
+  minMembers: 2,
+  weighting: 'equal',
+}
+
+// ─── Members ──────────────────────────────────────────────────────────────────
+
+// A member's state at a tau, interpolated between its own forecast points but never
+// extrapolated past them
+function memberAt(track: ConsensusMemberTrack, tau: number): { lat: number; lon: number; vmax: number | null } | null {
+  const pts = track.points
+  for (let i = 0; i < pts.length; i++) {
+    const b = pts[i]
+    if (b.tau === tau) return b
+    if (b.tau < tau) continue
+    if (i === 0) return null
+    const a = pts[i - 1]
+    const t = (tau - a.tau) / (b.tau - a.tau)
+    let dLon = b.lon - a.lon
+    if (dLon > 180) dLon -= 360
+    if (dLon < -180) dLon += 360
+    return {
+      lat: a.lat + (b.lat - a.lat) * t,
+      lon: a.lon + dLon * t,
+      vmax: a.vmax != null && b.vmax != null ? a.vmax + (b.vmax - a.vmax) * t : null,
+    }
+  }
+  return null
+}
+
+// ─── Weights ──────────────────────────────────────────────────────────────────
+
+const weightKey = (modelId: string, tau: number) => `${modelId}|${tau}`
+
+/**
+ * Inverse-squared-error weights from verification statistics, so a member with half
+ * the mean error counts four times as much. Taus the statistics skip (e.g. 84 h) take
+ * the nearest verified tau of the same member.
+ */
+export function verificationWeights(stats: ModelVerificationStat[]): ConsensusWeights {
+  const weights: ConsensusWeights = new Map()
+  const byModel = new Map<string, ModelVerificationStat[]>()
+  for (const s of stats) {
+    if (!byModel.has(s.modelId)) byModel.set(s.modelId, [])
+    byModel.get(s.modelId)!.push(s)
+  }
+  const inverseSquare = (err: number | null) => (err != null && err > 0 ? 1 / (err * err) : null)
+  for (const [modelId, rows] of byModel) {
+    for (const tau of CONSENSUS_TAUS) {
+      const nearest = (value: (s: ModelVerificationStat) => number | null) => {
+        let best: ModelVerificationStat | null = null
+        for (const s of rows) {
+          if (value(s) == null) continue
+          if (!best || Math.abs(s.tau - tau) < Math.abs(best.tau - tau)) best = s
+        }
+        return best ? value(best) : null
+      }
+      weights.set(weightKey(modelId, tau), {
+        track: tau === 0 ? null : inverseSquare(nearest(s => s.trackErrorNm)),
+        intensity: tau === 0 ? null : inverseSquare(nearest(s => s.intensityMaeKt)),
+      })
+    }
+  }
+  return weights
+}
+
+// Weights for the members at a tau; equal unless every member has a verified weight
+function memberWeights(
+  members: string[], tau: number, weights: ConsensusWeights | null, kind: 'track' | 'intensity',
+): number[] {
+  const w = members.map(m => weights?.get(weightKey(m, tau))?.[kind] ?? null)
+  return w.every(x => x != null) ? (w as number[]) : members.map(() => 1)
+}
+
+// ─── Build ────────────────────────────────────────────────────────────────────
+
+/**
+ * Consensus track for a definition from the latest A-deck cycle. Positions are
+ * averaged as unit vectors so the mean is correct across the dateline. Intensity uses
+ * the members that forecast it, under the same minimum-member rule. Returns [] when
+ * fewer than two taus can be produced.
+ */
+export function buildConsensus(
+  tracks: ConsensusMemberTrack[],
+  definition: ConsensusDefinition,
+  weights: ConsensusWeights | null = null,
+): ConsensusPoint[] {
+  const members = tracks.filter(t => definition.members.includes(t.modelId))
+  const minMembers = Math.max(1, definition.minMembers)
+  const useWeights = definition.weighting === 'verification' ? weights : null
+  const points: ConsensusPoint[] = []
+
+  for (const tau of CONSENSUS_TAUS) {
+    const present = members
+      .map(t => ({ modelId: t.modelId, state: memberAt(t, tau) }))
+      .filter((m): m is { modelId: string; state: NonNullable<ReturnType<typeof memberAt>> } => m.state != null)
+    if (present.length < minMembers) continue
+
+    const ids = present.map(m => m.modelId)
+    const w = memberWeights(ids, tau, useWeights, 'track')
+    let x = 0, y = 0, z = 0
+    present.forEach(({ state }, i) => {
+      const la = state.lat * DEG
+      const lo = state.lon * DEG
+      x += w[i] * Math.cos(la) * Math.cos(lo)
+      y += w[i] * Math.cos(la) * Math.sin(lo)
+      z += w[i] * Math.sin(la)
+    })
+
+    const withWind = present.filter(m => m.state.vmax != null)
+    let vmax: number | null = null
+    if (withWind.length >= minMembers) {
+      const wi = memberWeights(withWind.map(m => m.modelId), tau, useWeights, 'intensity')
+      const total = wi.reduce((a, b) => a + b, 0)
+      vmax = Math.round(withWind.reduce((sum, m, i) => sum + wi[i] * m.state.vmax!, 0) / total)
+    }
+
+    points.push({
+      tau,
+      lat: Math.atan2(z, Math.hypot(x, y)) / DEG,
+      lon: Math.atan2(y, x) / DEG,
+      vmax,
+      members: ids,
+    })
+  }
+
+  return points.length >= 2 ? points : []
+}
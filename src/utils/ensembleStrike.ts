@@ -0,0 +1,216 @@
+// GEFS ensemble post-processing: strike probability, mean track and spread
+// The strike probability of a cell is the fraction of ensemble members whose track centre
+// passes within a radius of it at any time in the forecast period — the standard
+// ensemble "strike probability" product. The mean track and a one-standard-deviation
+// spread ellipse summarise where the members are at each forecast hour.
+
+import { destinationPoint, haversineNm } from './windField'
+import { rowLatitudes, type WindGridView } from './windGrid'
+
+const DEG = Math.PI / 180
+const NM_PER_DEG = 60
+
+// GEFS control (AC00) and perturbation (AP01–AP30) members in the A-deck
+export const ENSEMBLE_MEMBER = /^(AC00|AP\d{2})$/
+
+export const STRIKE_RADII_NM = [65, 120, 200]
+export const DEFAULT_STRIKE_RADIUS_NM = 65
+
+// Member tracks are walked in steps no longer than this fraction of the radius
+const SAMPLE_FRACTION = 0.25
+// Fewest members a tau needs before a mean and spread are reported
+const MIN_SPREAD_MEMBERS = 3
+const ELLIPSE_VERTICES = 48
+
+export interface EnsembleMemberTrack {
+  modelId: string
+  points: Array<{ tau: number; lat: number; lon: number; vmax: number | null }>
+}
+
+export interface StrikeProbabilityGrid extends WindGridView {
+  /** Fraction of members (0–1) passing within `radiusNm`, row-major north → south */
+  probability: Float32Array
+  radiusNm: number
+  memberCount: number
+  maxTau: number
+}
+
+export interface EnsembleSpread {
+  tau: number
+  lat: number
+  lon: number
+  members: number
+  /** Semi-axes (nm) of the one-standard-deviation ellipse, major first */
+  majorNm: number
+  minorNm: number
+  /** Orientation of the major axis (deg true) */
+  orientationDeg: number
+  /** Ellipse outline as [lat, lon] */
+  outline: [number, number][]
+}
+
+export function ensembleMembers(tracks: EnsembleMemberTrack[]): EnsembleMemberTrack[] {
+  return tracks.filter(t => ENSEMBLE_MEMBER.test(t.modelId) && t.points.length > 0)
+}
+
+// ─── Strike probability ───────────────────────────────────────────────────────
+
+// Points along a member track, no further apart than `stepNm`
+function densify(track: EnsembleMemberTrack, stepNm: number, maxTau: number): [number, number][] {
+  const pts = track.points.filter(p => p.tau <= maxTau)
+  const out: [number, number][] = pts.length ? [[pts[0].lat, pts[0].lon]] : []
+  for (let i = 1; i < pts.length; i++) {
+    const a = pts[i - 1]
+    const b = pts[i]
+    const n = Math.max(1, Math.ceil(haversineNm(a.lat, a.lon, b.lat, b.lon) / stepNm))
+    for (let k = 1; k <= n; k++) {
+      const t = k / n
+      out.push([a.lat + (b.lat - a.lat) * t, a.lon + (b.lon - a.lon) * t])
+    }
+  }
+  return out
+}
+
+/**
+ * Strike probability over a Mercator-regular grid around the members' tracks at
+ * `resDeg` longitude spacing. Each member counts at most once per cell.
+ */
+export function ensembleStrikeProbability(
+  members: EnsembleMemberTrack[],
+  radiusNm = DEFAULT_STRIKE_RADIUS_NM,
+  maxTau = 120,
+  resDeg = 0.25,
+): StrikeProbabilityGrid | null {
+  const paths = members.map(m => densify(m, radiusNm * SAMPLE_FRACTION, maxTau)).filter(p => p.length > 0)
+  if (paths.length === 0) return null
+
+  const all = paths.flat()
+  const padLat = radiusNm / NM_PER_DEG
+  const south = Math.max(-80, Math.min(...all.map(p => p[0])) - padLat)
+  const north = Math.min(80, Math.max(...all.map(p => p[0])) + padLat)
+  const padLon = padLat / Math.cos(Math.max(Math.abs(south), Math.abs(north)) * DEG)
+  const west = Math.min(...all.map(p => p[1])) - padLon
+  const east = Math.max(...all.map(p => p[1])) + padLon
+  const yOf = (lat: number) => Math.log(Math.tan(Math.PI / 4 + (lat * DEG) / 2))
+  const view: WindGridView = {
+    south, west, north, east,
+    cols: Math.ceil((east - west) / resDeg),
+    rows: Math.ceil((yOf(north) - yOf(south)) / (resDeg * DEG)),
+  }
+
+  const lats = rowLatitudes(view)
+  const dLon = (east - west) / view.cols
+  const hits = new Uint16Array(view.rows * view.cols)
+  const seen = new Uint8Array(view.rows * view.cols)
+
+  for (const path of paths) {
+    seen.fill(0)
+    for (const [plat, plon] of path) {
+      const reachLon = padLat / Math.max(0.1, Math.cos(Math.min(89, Math.abs(plat) + padLat) * DEG))
+      const c0 = Math.max(0, Math.floor((plon - reachLon - west) / dLon))
+      const c1 = Math.min(view.cols - 1, Math.ceil((plon + reachLon - west) / dLon))
+      for (let r = 0; r < view.rows; r++) {
+        if (Math.abs(lats[r] - plat) > padLat) continue
+        const offset = r * view.cols
+        for (let c = c0; c <= c1; c++) {
+          const i = offset + c
+          if (seen[i]) continue
+          if (haversineNm(lats[r], west + (c + 0.5) * dLon, plat, plon) <= radiusNm) {
+            seen[i] = 1
+            hits[i]++
+          }
+        }
+      }
+    }
+  }
+
+  const probability = new Float32Array(hits.length)
+  for (let i = 0; i < hits.length; i++) probability[i] = hits[i] / paths.length
+  return { ...view, probability, radiusNm, memberCount: paths.length, maxTau }
+}
+
+// Probability bands (lower bound, colour), as on the NHC wind speed probability graphics
+export const STRIKE_BANDS: Array<[number, string]> = [
+  [0.9, '#4d0000'],
+  [0.7, '#800000'],
+  [0.5, '#cc0000'],
+  [0.3, '#ff6600'],
+  [0.2, '#ffaa00'],
+  [0.1, '#00aa00'],
+  [0.05, '#0066cc'],
+]
+
+/**
+ * Colour per-cell probabilities into RGBA bytes; cells below the lowest band are clear.
+ */
+export function colorizeStrikeProbability(probability: Float32Array): Uint8ClampedArray {
+  const rgb = STRIKE_BANDS.map(([p, hex]) => [p, parseInt(hex.slice(1, 3), 16), parseInt(hex.slice(3, 5), 16), parseInt(hex.slice(5, 7), 16)])
+  const rgba = new Uint8ClampedArray(probability.length * 4)
+  for (let i = 0; i < probability.length; i++) {
+    const band = rgb.find(b => probability[i] >= b[0])
+    if (!band) continue
+    rgba[i * 4] = band[1]
+    rgba[i * 4 + 1] = band[2]
+    rgba[i * 4 + 2] = band[3]
+    rgba[i * 4 + 3] = 150
+  }
+  return rgba
+}
+
+// ─── Mean track and spread ────────────────────────────────────────────────────
+
+/**
+ * Ensemble mean position and one-standard-deviation spread ellipse at every tau that
+ * at least three members reach. Spread is computed on a local plane (nm east/north)
+ * centred on the mean.
+ */
+export function ensembleSpread(members: EnsembleMemberTrack[]): EnsembleSpread[] {
+  const taus = Array.from(new Set(members.flatMap(m => m.points.map(p => p.tau)))).sort((a, b) => a - b)
+  const out: EnsembleSpread[] = []
+
+  for (const tau of taus) {
+    const pts = members
+      .map(m => m.points.find(p => p.tau === tau))
+      .filter((p): p is EnsembleMemberTrack['points'][number] => !!p)
+    if (pts.length < MIN_SPREAD_MEMBERS) continue
+
+    const lat = pts.reduce((s, p) => s + p.lat, 0) / pts.length
+    const lon = pts.reduce((s, p) => s + p.lon, 0) / pts.length
+    const cosLat = Math.cos(lat * DEG)
+    let sxx = 0, syy = 0, sxy = 0
+    for (const p of pts) {
+      const x = (p.lon - lon) * NM_PER_DEG * cosLat
+      const y = (p.lat - lat) * NM_PER_DEG
+      sxx += x * x
+      syy += y * y
+      sxy += x * y
+    }
+    const n = pts.length - 1
+    sxx /= n
+    syy /= n
+    sxy /= n
+
+    // Eigen-decomposition of the 2×2 covariance
+    const mean = (sxx + syy) / 2
+    const diff = Math.sqrt(((sxx - syy) / 2) ** 2 + sxy * sxy)
+    const majorNm = Math.sqrt(Math.max(0, mean + diff))
+    const minorNm = Math.sqrt(Math.max(0, mean - diff))
+    // Major-axis angle from east, counter-clockwise → bearing from north, clockwise
+    const theta = 0.5 * Math.atan2(2 * sxy, sxx - syy)
+    const orientationDeg = ((90 - theta / DEG) % 180 + 180) % 180
+
+    const outline: [number, number][] = []
+    for (let k = 0; k < ELLIPSE_VERTICES; k++) {
+      const a = (2 * Math.PI * k) / ELLIPSE_VERTICES
+      const along = majorNm * Math.cos(a)
+      const across = minorNm * Math.sin(a)
+      const dist = Math.hypot(along, across)
+      const bearing = orientationDeg + Math.atan2(across, along) / DEG
+      outline.push(dist > 0 ? destinationPoint(lat, lon, bearing, dist) : [lat, lon])
+    }
+
+    out.push({ tau, lat, lon, members: pts.length, majorNm, minorNm, orientationDeg, outline })
+  }
+
+  return out
+}
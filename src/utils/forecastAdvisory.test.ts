@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest'
+import { extractAdvisoryText, forecastPointsFromAdvisory, parseForecastAdvisory } from './forecastAdvisory'
+
+// The fixtures follow the TCM layout line for line (headers, radii blocks,
+// FORECAST VALID / OUTLOOK VALID entries), but the values are illustrative,
+// not copies of the issued advisories: NHC is not reachable from CI.
+import hurricaneTcm from './fixtures/tcm-hurricane.txt?raw'
+import monthBoundaryTcm from './fixtures/tcm-month-boundary.txt?raw'
+import specialTcm from './fixtures/tcm-special.txt?raw'
+import depressionTcm from './fixtures/tcm-depression.txt?raw'
+import cphcTcm from './fixtures/tcm-cphc.txt?raw'
+
+const parse = (raw: string) => {
+  const adv = parseForecastAdvisory(raw)
+  if (!adv) throw new Error('fixture did not parse')
+  return adv
+}
+
+describe('parseForecastAdvisory', () => {
+  it('reads the header, initial position and radii of a hurricane advisory', () => {
+    const adv = parse(hurricaneTcm)
+    expect(adv).toMatchObject({
+      stormId: 'AL142024',
+      stormName: 'MILTON',
+      classification: 'HURRICANE',
+      advisoryNumber: '14',
+      issuance: '2024-10-08T15:00:00.000Z',
+      pressure: 919,
+    })
+    const [initial] = adv.points
+    expect(initial).toMatchObject({
+      forecastHour: 0,
+      dateTime: '2024-10-08T15:00:00.000Z',
+      latitude: 22.2,
+      longitude: -89.7,
+      maxWinds: 135,
+      gusts: 165,
+      eyeDiameter: 10,
+      movement: { direction: 70, speed: 8 },
+    })
+    expect(initial.r64).toEqual([25, 25, 20, 20])
+    expect(initial.r50).toEqual([50, 50, 40, 40])
+    expect(initial.r34).toEqual([100, 90, 70, 80])
+    expect(initial.seas12ft).toEqual([150, 150, 120, 120])
+  })
+
+  it('counts forecast hours from the synoptic time and includes the outlook', () => {
+    const adv = parse(hurricaneTcm)
+    // 15Z advisory: the 12Z synoptic time is the origin, so 09/00Z is +12 h
+    expect(adv.points.map(p => p.forecastHour)).toEqual([0, 12, 24, 36, 48, 60, 72, 96, 120])
+    expect(adv.points.map(p => p.stage ?? '')).toEqual([
+      '', '', '', '', '', 'POST-TROPICAL', 'POST-TROPICAL', 'POST-TROPICAL', 'POST-TROPICAL',
+    ])
+    const outlook = adv.points[adv.points.length - 1]
+    expect(outlook).toMatchObject({ dateTime: '2024-10-13T12:00:00.000Z', latitude: 29.8, longitude: -61.5, maxWinds: 40 })
+    expect(outlook.r34).toBeNull()
+  })
+
+  it('rolls forecast days past the end of the month into the next month', () => {
+    const adv = parse(monthBoundaryTcm)
+    expect(adv.issuance).toBe('2022-09-29T03:00:00.000Z')
+    expect(adv.points.map(p => p.dateTime)).toEqual([
+      '2022-09-29T03:00:00.000Z',
+      '2022-09-29T12:00:00.000Z',
+      '2022-09-30T00:00:00.000Z',
+      '2022-09-30T12:00:00.000Z',
+      '2022-10-01T00:00:00.000Z',
+      '2022-10-01T12:00:00.000Z',
+    ])
+    // The 02/0000Z ...DISSIPATED entry has no position and is dropped
+    expect(adv.points).toHaveLength(6)
+    expect(adv.points.map(p => p.stage ?? '')).toEqual(['', 'INLAND', 'OVER WATER', '', 'INLAND', 'POST-TROPICAL'])
+  })
+
+  it('treats a missing or all-zero radii line as no radii', () => {
+    const ian = parse(monthBoundaryTcm)
+    expect(ian.points[0].r64).toBeNull()
+    expect(ian.points[0].r50).toEqual([60, 60, 0, 0])
+    expect(ian.points[4].r34).toEqual([120, 120, 40, 40])
+    expect(ian.points[4].r50).toBeNull()
+
+    const depression = parse(depressionTcm)
+    expect(depression).toMatchObject({ stormName: 'TWO', classification: 'TROPICAL DEPRESSION', pressure: 1011 })
+    for (const p of depression.points) {
+      expect([p.r34, p.r50, p.r64]).toEqual([null, null, null])
+    }
+    expect(depression.points[0].seas12ft).toBeNull()
+    expect(depression.points.map(p => p.forecastHour)).toEqual([0, 12, 24])
+  })
+
+  it('parses a special advisory issued off the synoptic hours', () => {
+    const adv = parse(specialTcm)
+    expect(adv).toMatchObject({
+      stormId: 'AL042024',
+      stormName: 'DEBBY',
+      classification: 'HURRICANE',
+      advisoryNumber: '11',
+      issuance: '2024-08-04T22:00:00.000Z',
+    })
+    // 22Z analysis: the 18Z synoptic time is the origin
+    expect(adv.points.map(p => p.forecastHour)).toEqual([0, 12, 24])
+    expect(adv.points[0]).toMatchObject({ rmw: 15, movement: { direction: 0, speed: 10 } })
+    expect(adv.points[0].r64).toEqual([15, 0, 0, 0])
+    expect(adv.points[1].rmw).toBe(15)
+  })
+
+  it('parses a Central Pacific advisory with an outlook across the dateline', () => {
+    const adv = parse(cphcTcm)
+    expect(adv).toMatchObject({ stormId: 'EP142018', stormName: 'LANE', advisoryNumber: '40', pressure: 941 })
+    expect(adv.points.map(p => p.longitude)).toEqual([-156.9, -157.6, -158.1, 179.5])
+    expect(adv.points[3]).toMatchObject({ forecastHour: 96, dateTime: '2018-08-27T00:00:00.000Z' })
+  })
+
+  it('returns null for text that is not a forecast/advisory', () => {
+    expect(parseForecastAdvisory('TROPICAL STORM DISCUSSION NUMBER 4\nNO CENTER POSITION HERE')).toBeNull()
+  })
+})
+
+describe('extractAdvisoryText', () => {
+  it('unwraps the <pre> block of an NHC text page', () => {
+    const html = `<html><body><div>menu</div><pre>ZCZC MIATCMAT4 ALL\r\nWINDS &gt; 64 KT &amp; <b>MORE</b>\r\n</pre></body></html>`
+    expect(extractAdvisoryText(html)).toBe('ZCZC MIATCMAT4 ALL\nWINDS > 64 KT & MORE\n')
+  })
+
+  it('parses an advisory served inside a page', () => {
+    const adv = parse(`<html><pre>${hurricaneTcm}</pre></html>`)
+    expect(adv.stormId).toBe('AL142024')
+  })
+})
+
+describe('forecastPointsFromAdvisory', () => {
+  it('labels the points and fills the wind field inputs', () => {
+    const points = forecastPointsFromAdvisory(parse(monthBoundaryTcm))
+    expect(points.map(p => p.label)).toEqual([
+      'ADV 27\n29/03Z', '+12h\n29/12Z', '+24h\n30/00Z', '+36h\n30/12Z', '+48h\n01/00Z', '+60h\n01/12Z',
+    ])
+    expect(points[1].inland).toBe(true)
+    expect(points[2].inland).toBeUndefined()
+    expect(points[0]).toMatchObject({ pressureMb: 980, stormSpeedKt: 7, stormHeadingDeg: 30, gustKt: 75, r64: null })
+    // No 34-kt radii: the wind field gets zero extent rather than null
+    expect(points[5].r34).toEqual([0, 0, 0, 0])
+  })
+})
@@ -0,0 +1,216 @@
+// NHC forecast/advisory (TCM, "fstadv") text parser
+// Turns the fixed-format product into per-forecast-hour positions, intensity and
+// 34/50/64-kt quadrant radii so the wind field can be driven from live advisories.
+
+import type { ForecastAdvisory, QuadrantRadii, StormForecastPoint } from '../types/nhc'
+import { bearingDeg, haversineNm, type ForecastPoint } from './windField'
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC']
+
+// ─── Token helpers ────────────────────────────────────────────────────────────
+
+function parseLatLon(lat: string, ns: string, lon: string, ew: string): [number, number] {
+  const la = parseFloat(lat) * (ns === 'S' ? -1 : 1)
+  const lo = parseFloat(lon) * (ew === 'W' ? -1 : 1)
+  return [la, lo]
+}
+
+// "34 KT.......120NE 100SE  60SW  90NW." → [120, 100, 60, 90]
+function parseRadiiLine(block: string, label: string): QuadrantRadii | null {
+  const re = new RegExp(`^\\s*${label}\\.+\\s*(\\d+)NE\\s+(\\d+)SE\\s+(\\d+)SW\\s+(\\d+)NW`, 'm')
+  const m = re.exec(block)
+  if (!m) return null
+  const radii = [m[1], m[2], m[3], m[4]].map(v => parseInt(v, 10)) as QuadrantRadii
+  return radii.some(r => r > 0) ? radii : null
+}
+
+function parseNm(block: string, re: RegExp): number | null {
+  const m = re.exec(block)
+  return m ? parseInt(m[1], 10) : null
+}
+
+// Resolve a "DD/HHMMZ" valid time against the advisory issuance, rolling into the
+// next month when the day number wraps (e.g. advisory on the 30th, valid on the 2nd).
+function resolveValidTime(issued: Date, day: number, hhmm: string): Date {
+  let year = issued.getUTCFullYear()
+  let month = issued.getUTCMonth()
+  if (day < issued.getUTCDate() - 15) {
+    month += 1
+    if (month > 11) { month = 0; year += 1 }
+  }
+  const hour = parseInt(hhmm.slice(0, 2), 10)
+  const minute = parseInt(hhmm.slice(2, 4), 10)
+  return new Date(Date.UTC(year, month, day, hour, minute))
+}
+
+// ─── Parser ───────────────────────────────────────────────────────────────────
+
+/**
+ * Strip the HTML wrapper NHC serves the .shtml product in, leaving the raw text.
+ */
+export function extractAdvisoryText(raw: string): string {
+  const pre = /<pre[^>]*>([\s\S]*?)<\/pre>/i.exec(raw)
+  const body = pre ? pre[1] : raw
+  return body
+    .replace(/<[^>]+>/g, '')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/\r\n/g, '\n')
+}
+
+/**
+ * Parse a forecast/advisory product. Returns null when the text is not a TCM
+ * (no centre position could be found).
+ */
+export function parseForecastAdvisory(raw: string): ForecastAdvisory | null {
+  const text = extractAdvisoryText(raw).toUpperCase()
+
+  const centre = /CENTER LOCATED NEAR\s+([\d.]+)([NS])\s+([\d.]+)([EW])\s+AT\s+(\d{2})\/(\d{4})Z/.exec(text)
+  if (!centre) return null
+
+  const header = /^\s*(.*?)\s+(?:SPECIAL\s+)?FORECAST\/ADVISORY NUMBER\s+(\w+)/m.exec(text)
+  const idMatch = /\b(AL|EP|CP)(\d{2})(\d{4})\b/.exec(text)
+  const issued = /^\s*(\d{3,4})\s+UTC\s+\w{3}\s+(\w{3})\s+(\d{1,2})\s+(\d{4})/m.exec(text)
+
+  let issuance: Date
+  if (issued) {
+    const hhmm = issued[1].padStart(4, '0')
+    issuance = new Date(Date.UTC(
+      parseInt(issued[4], 10),
+      Math.max(0, MONTHS.indexOf(issued[2])),
+      parseInt(issued[3], 10),
+      parseInt(hhmm.slice(0, 2), 10),
+      parseInt(hhmm.slice(2, 4), 10),
+    ))
+  } else {
+    issuance = new Date()
+  }
+
+  // Storm name is the last word of the header title ("HURRICANE IAN", "TROPICAL STORM ALEX")
+  const title = header ? header[1].trim().split(/\s+/) : []
+  const stormName = title.length > 0 ? title[title.length - 1] : 'UNKNOWN'
+  const classification = title.slice(0, -1).join(' ')
+
+  // ── Initial (hour 0) section: everything before the REPEAT line ──────────────
+  const repeatIdx = text.indexOf('REPEAT...')
+  const initialBlock = repeatIdx > 0 ? text.slice(centre.index, repeatIdx) : text.slice(centre.index)
+
+  const analysisTime = resolveValidTime(issuance, parseInt(centre[5], 10), centre[6])
+  // Forecast hours count from the synoptic time the advisory is based on (00/06/12/18Z),
+  // so a 0300Z advisory's "12 h" point is valid at 1200Z
+  const synopticMs = Math.floor(analysisTime.getTime() / 21_600_000) * 21_600_000
+  const [lat0, lon0] = parseLatLon(centre[1], centre[2], centre[3], centre[4])
+  const winds0 = /MAX SUSTAINED WINDS\s+(\d+)\s+KT\s+WITH GUSTS TO\s+(\d+)\s+KT/.exec(initialBlock)
+  const motion0 = /PRESENT MOVEMENT TOWARD.*?(\d+)\s+DEGREES AT\s+(\d+)\s+KT/.exec(initialBlock)
+  const pressure = parseNm(initialBlock, /MINIMUM CENTRAL PRESSURE\s+(\d+)\s+MB/)
+
+  const points: StormForecastPoint[] = [{
+    latitude: lat0,
+    longitude: lon0,
+    dateTime: analysisTime.toISOString(),
+    maxWinds: winds0 ? parseInt(winds0[1], 10) : 0,
+    gusts: winds0 ? parseInt(winds0[2], 10) : 0,
+    pressure: pressure ?? 0,
+    movement: {
+      direction: motion0 ? parseInt(motion0[1], 10) : 0,
+      speed: motion0 ? parseInt(motion0[2], 10) : 0,
+    },
+    forecastHour: 0,
+    r34: parseRadiiLine(initialBlock, '34 KT'),
+    r50: parseRadiiLine(initialBlock, '50 KT'),
+    r64: parseRadiiLine(initialBlock, '64 KT'),
+    rmw: parseNm(initialBlock, /RADIUS OF MAXIMUM WINDS?\s+(\d+)\s+NM/),
+    eyeDiameter: parseNm(initialBlock, /EYE DIAMETER\s+(\d+)\s+NM/),
+    seas12ft: parseRadiiLine(initialBlock, '12 FT SEAS'),
+  }]
+
+  // ── Forecast / outlook sections ──────────────────────────────────────────────
+  const validRe = /(?:FORECAST|OUTLOOK) VALID\s+(\d{2})\/(\d{4})Z\s*(?:([\d.]+)([NS])\s+([\d.]+)([EW]))?([^\n]*)/g
+  const headers: RegExpExecArray[] = []
+  let m: RegExpExecArray | null
+  while ((m = validRe.exec(text)) !== null) headers.push(m)
+
+  for (let i = 0; i < headers.length; i++) {
+    const h = headers[i]
+    if (!h[3]) continue // "...DISSIPATED" entries carry no position
+
+    const end = i + 1 < headers.length ? headers[i + 1].index : text.indexOf('\n\n', h.index + h[0].length)
+    const block = text.slice(h.index, end > h.index ? end : undefined)
+    const valid = resolveValidTime(issuance, parseInt(h[1], 10), h[2])
+    const [lat, lon] = parseLatLon(h[3], h[4], h[5], h[6])
+    const winds = /MAX WIND\s+(\d+)\s+KT\.+\s*GUSTS\s+(\d+)\s+KT/.exec(block)
+    const stage = h[7].replace(/^[.\s]+/, '').trim()
+
+    const prev = points[points.length - 1]
+    const hours = Math.round((valid.getTime() - synopticMs) / 3_600_000)
+    const dt = (valid.getTime() - new Date(prev.dateTime).getTime()) / 3_600_000
+
+    points.push({
+      latitude: lat,
+      longitude: lon,
+      dateTime: valid.toISOString(),
+      maxWinds: winds ? parseInt(winds[1], 10) : 0,
+      gusts: winds ? parseInt(winds[2], 10) : 0,
+      pressure: 0,
+      // Forecast motion is not given per point; derive it from the previous position
+      movement: {
+        direction: Math.round(bearingDeg(prev.latitude, prev.longitude, lat, lon)),
+        speed: dt > 0 ? Math.round(haversineNm(prev.latitude, prev.longitude, lat, lon) / dt) : 0,
+      },
+      forecastHour: hours,
+      r34: parseRadiiLine(block, '34 KT'),
+      r50: parseRadiiLine(block, '50 KT'),
+      r64: parseRadiiLine(block, '64 KT'),
+      rmw: parseNm(block, /RADIUS OF MAXIMUM WINDS?\s+(\d+)\s+NM/),
+      eyeDiameter: null,
+      seas12ft: null,
+      ...(stage ? { stage } : {}),
+    })
+  }
+
+  return {
+    stormId: idMatch ? `${idMatch[1]}${idMatch[2]}${idMatch[3]}` : '',
+    stormName,
+    classification,
+    advisoryNumber: header ? header[2] : '',
+    issuance: issuance.toISOString(),
+    pressure,
+    points,
+  }
+}
+
+// ─── Wind field input ─────────────────────────────────────────────────────────
+
+function ddhhz(iso: string): string {
+  const d = new Date(iso)
+  const dd = String(d.getUTCDate()).padStart(2, '0')
+  const hh = String(d.getUTCHours()).padStart(2, '0')
+  return `${dd}/${hh}Z`
+}
+
+/**
+ * Convert a parsed advisory into the wind field's ForecastPoint list.
+ * Labels follow the two-line tab format: "ADV 12\n26/03Z", "+12h\n26/12Z".
+ */
+export function forecastPointsFromAdvisory(adv: ForecastAdvisory): ForecastPoint[] {
+  return adv.points.map(p => ({
+    label: p.forecastHour === 0
+      ? `ADV ${adv.advisoryNumber}\n${ddhhz(p.dateTime)}`
+      : `+${p.forecastHour}h\n${ddhhz(p.dateTime)}`,
+    lat: p.latitude,
+    lon: p.longitude,
+    vmax: p.maxWinds,
+    r34: p.r34 ?? [0, 0, 0, 0],
+    r50: p.r50 ?? null,
+    r64: p.r64 ?? null,
+    rmw: p.rmw ?? null,
+    pressureMb: p.pressure > 0 ? p.pressure : null,
+    stormSpeedKt: p.movement.speed || undefined,
+    stormHeadingDeg: p.movement.speed ? p.movement.direction : undefined,
+    gustKt: p.gusts || undefined,
+    inland: p.stage === 'INLAND' || undefined,
+    forecastHour: p.forecastHour,
+    validTime: p.dateTime,
+  }))
+}
@@ -0,0 +1,69 @@
+// Animation frame export
+// Records canvas frames into a WebM video with MediaRecorder; no encoder dependency.
+
+export interface FrameRecorder {
+  canvas: HTMLCanvasElement
+  /** Draw one frame and hold it for 1/fps seconds */
+  addFrame(draw: (ctx: CanvasRenderingContext2D) => void): Promise<void>
+  /** Stop recording and return the encoded video */
+  finish(): Promise<Blob>
+  cancel(): void
+}
+
+const MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm']
+
+/**
+ * Create a recorder for width×height frames at `fps`, or null when the browser
+ * cannot record a canvas stream.
+ */
+export function createFrameRecorder(width: number, height: number, fps: number): FrameRecorder | null {
+  if (typeof MediaRecorder === 'undefined') return null
+  const mimeType = MIME_TYPES.find(t => MediaRecorder.isTypeSupported(t))
+  if (!mimeType) return null
+
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d')
+  if (!ctx || typeof canvas.captureStream !== 'function') return null
+
+  const stream = canvas.captureStream(fps)
+  const recorder = new MediaRecorder(stream, { mimeType })
+  const chunks: Blob[] = []
+  recorder.ondataavailable = e => { if (e.data.size > 0) chunks.push(e.data) }
+  recorder.start()
+
+  const stopTracks = () => stream.getTracks().forEach(t => t.stop())
+
+  return {
+    canvas,
+    addFrame(draw) {
+      draw(ctx)
+      return new Promise(resolve => setTimeout(resolve, 1000 / fps))
+    },
+    finish() {
+      return new Promise(resolve => {
+        recorder.onstop = () => {
+          stopTracks()
+          resolve(new Blob(chunks, { type: 'video/webm' }))
+        }
+        recorder.stop()
+      })
+    },
+    cancel() {
+      if (recorder.state !== 'inactive') recorder.stop()
+      stopTracks()
+    },
+  }
+}
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  a.remove()
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
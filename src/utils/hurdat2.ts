@@ -0,0 +1,12 @@
+// HURDAT2 best-track database parser
+// Reads NHC's revised Atlantic (1851–) and NE/Central Pacific (1949–) HURDAT2 text
+// files into per-storm records. The parser and the season summaries are shared with the
+// Lambda, which serves HURDAT2 seasons from the same code: see hurdat2.mjs next to the
+// function's index.js.
+
+export {
+  parseHurdat2,
+  categoryFromKnots,
+  summarizeHurdatStorm,
+  type HurdatSummary,
+} from '../../amplify/backend/function/nhcProxy/src/hurdat2.mjs'
@@ -15,6 +15,10 @@ export interface LandMask {
 
 // ─── Build land mask from topojson ────────────────────────────────────────────
 
+// Gulf + Atlantic + East Pacific approaches. The mask is built once and cached, so every
+// caller should ask for this domain.
+export const LAND_MASK_DOMAIN = { south: 5, north: 52, west: -115, east: -50, step: 0.1 }
+
 let cachedMask: LandMask | null = null
 
 export async function buildLandMask(
@@ -0,0 +1,133 @@
+// Model wind fields (HAFS-A / HAFS-B)
+// Unpacks the 10-m wind grid the Lambda decodes from HAFS GRIB2 output and resamples it
+// onto the Web Mercator lattice of windGrid, so model winds are coloured and overlaid
+// through the same raster pipeline as the parametric wind field.
+
+import type { HafsModelId, HafsWindFieldResponse } from '../types/nhc'
+import { createWindGrid, rowLatitudes, type WindGrid } from './windGrid'
+
+const DEG = Math.PI / 180
+
+export const HAFS_MODELS: Record<HafsModelId, { label: string; color: string }> = {
+  hfsa: { label: 'HAFS-A', color: '#ff4444' },
+  hfsb: { label: 'HAFS-B', color: '#4682b4' },
+}
+
+// HAFS storm-nest output is 3-hourly out to 126 h
+export const HAFS_FORECAST_HOURS = Array.from({ length: 43 }, (_, i) => i * 3)
+
+export interface ModelWindField {
+  stormId: string
+  model: string
+  cycle: string
+  forecastHour: number
+  validTime: string | null
+  /** Centre of the first (north-west) cell */
+  north: number
+  west: number
+  dLat: number
+  dLon: number
+  rows: number
+  cols: number
+  /** Wind components (kt) per cell, row-major north → south; NaN where there is no data */
+  u: Float32Array
+  v: Float32Array
+  maxWindKt: number
+  maxWindAt: [number, number] | null
+}
+
+// ─── Decode ───────────────────────────────────────────────────────────────────
+
+function decodeInt16Tenths(base64: string, missing: number): Float32Array {
+  const bytes = Uint8Array.from(atob(base64), c => c.charCodeAt(0))
+  const view = new DataView(bytes.buffer)
+  const out = new Float32Array(bytes.length >> 1)
+  for (let i = 0; i < out.length; i++) {
+    const raw = view.getInt16(i * 2, true)
+    out[i] = raw === missing ? NaN : raw / 10
+  }
+  return out
+}
+
+export function decodeHafsWindField(res: HafsWindFieldResponse): ModelWindField {
+  const u = decodeInt16Tenths(res.u, res.missing)
+  const v = decodeInt16Tenths(res.v, res.missing)
+  if (u.length !== res.grid.rows * res.grid.cols || v.length !== u.length) {
+    throw new Error(`${res.model} wind grid does not match its ${res.grid.rows}×${res.grid.cols} header`)
+  }
+  return {
+    stormId: res.stormId,
+    model: res.model,
+    cycle: res.cycle,
+    forecastHour: res.forecastHour,
+    validTime: res.validTime,
+    ...res.grid,
+    u,
+    v,
+    maxWindKt: res.maxWindKt,
+    maxWindAt: res.maxWindAt,
+  }
+}
+
+// ─── Resample ─────────────────────────────────────────────────────────────────
+
+/**
+ * Bilinear u/v (kt) at a point, or null outside the model domain or next to a cell
+ * with no data. The outer half-cell rim takes the edge cells' values.
+ */
+export function modelWindAt(field: ModelWindField, lat: number, lon: number): [number, number] | null {
+  const fy = (field.north - lat) / field.dLat
+  const fx = (lon - field.west) / field.dLon
+  if (fy < -0.5 || fx < -0.5 || fy > field.rows - 0.5 || fx > field.cols - 0.5) return null
+  const y = Math.max(0, Math.min(field.rows - 1, fy))
+  const x = Math.max(0, Math.min(field.cols - 1, fx))
+  const r0 = Math.min(Math.floor(y), Math.max(0, field.rows - 2))
+  const c0 = Math.min(Math.floor(x), Math.max(0, field.cols - 2))
+  const r1 = Math.min(r0 + 1, field.rows - 1)
+  const c1 = Math.min(c0 + 1, field.cols - 1)
+  const ty = y - r0
+  const tx = x - c0
+  const corners = [r0 * field.cols + c0, r0 * field.cols + c1, r1 * field.cols + c0, r1 * field.cols + c1]
+  const weights = [(1 - ty) * (1 - tx), (1 - ty) * tx, ty * (1 - tx), ty * tx]
+  let u = 0
+  let v = 0
+  for (let k = 0; k < 4; k++) {
+    if (weights[k] === 0) continue
+    const i = corners[k]
+    if (Number.isNaN(field.u[i]) || Number.isNaN(field.v[i])) return null
+    u += field.u[i] * weights[k]
+    v += field.v[i] * weights[k]
+  }
+  return [u, v]
+}
+
+/**
+ * Resample the model grid onto a Mercator-regular WindGrid over the model domain at
+ * roughly the model's own resolution, ready for `colorizeWindSpeeds`. The HAFS product
+ * carries no gust field, so gust mirrors the sustained wind.
+ */
+export function modelWindToWindGrid(field: ModelWindField): WindGrid {
+  const grid = createWindGrid({
+    north: field.north + field.dLat / 2,
+    south: field.north - (field.rows - 0.5) * field.dLat,
+    west: field.west - field.dLon / 2,
+    east: field.west + (field.cols - 0.5) * field.dLon,
+    rows: field.rows,
+    cols: field.cols,
+  })
+  const lats = rowLatitudes(grid)
+  const dLon = (grid.east - grid.west) / grid.cols
+  for (let r = 0; r < grid.rows; r++) {
+    for (let c = 0; c < grid.cols; c++) {
+      const uv = modelWindAt(field, lats[r], grid.west + (c + 0.5) * dLon)
+      if (!uv) continue
+      const i = r * grid.cols + c
+      const kt = Math.hypot(uv[0], uv[1])
+      grid.speed[i] = kt
+      grid.gust[i] = kt
+      // Meteorological convention: the direction the wind blows from
+      grid.direction[i] = (Math.atan2(-uv[0], -uv[1]) / DEG + 360) % 360
+    }
+  }
+  return grid
+}
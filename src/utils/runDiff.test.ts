@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest'
+import type { LandMask } from './landMask'
+import { cycleTime, firstLandfall, landfallShift, runShifts, type RunTrack } from './runDiff'
+
+// 20–40°N, 90–70°W at 0.1°; land west of 80°W
+const mask: LandMask = (() => {
+  const rows = 200
+  const cols = 200
+  const data = new Uint8Array(rows * cols)
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) data[r * cols + c] = -90 + c * 0.1 < -80 ? 1 : 0
+  }
+  return { data, south: 20, west: -90, step: 0.1, rows, cols }
+})()
+
+// Due west along `lat` at `degPerHour`, starting from 75°W at the cycle time
+const westward = (runCycle: string, lat: number, degPerHour: number, taus = [0, 12, 24, 36, 48]): RunTrack => ({
+  runCycle,
+  trackPoints: taus.map(forecastHour => ({ forecastHour, lat, lon: -75 - degPerHour * forecastHour, maxWindsKnots: 90 })),
+})
+
+describe('cycleTime', () => {
+  it('reads a YYYYMMDDHH cycle as UTC', () => {
+    expect(cycleTime('2024100812').toISOString()).toBe('2024-10-08T12:00:00.000Z')
+  })
+})
+
+describe('runShifts', () => {
+  it('compares the runs at the same valid time', () => {
+    const older = westward('2024100806', 30, 0.25)
+    const newer = westward('2024100812', 30, 0.25)
+    // The newer run starts 6 h later from the same point, so it lags 1.5° behind
+    const shifts = runShifts(newer, older)
+    expect(shifts.map(s => s.tau)).toEqual([12, 24, 36])
+    expect(shifts[0].validTime.toISOString()).toBe('2024-10-09T00:00:00.000Z')
+    expect(shifts[0].distanceNm).toBeCloseTo(1.5 * 60 * Math.cos(30 * Math.PI / 180), -1)
+    expect(shifts[0].bearingDeg).toBeCloseTo(90, 0)
+    expect(shifts[0].windChangeKt).toBe(0)
+  })
+
+  it('reports the intensity change only when both runs forecast one', () => {
+    const older = westward('2024100812', 30, 0.25)
+    const newer = westward('2024100812', 31, 0.25)
+    newer.trackPoints[1].maxWindsKnots = 105
+    newer.trackPoints[2].maxWindsKnots = null
+    const [s12, s24] = runShifts(newer, older)
+    expect(s12.windChangeKt).toBe(15)
+    expect(s24.windChangeKt).toBeNull()
+    expect(s12.distanceNm).toBeCloseTo(60, 0)
+    expect(s12.bearingDeg).toBeCloseTo(0, 0)
+  })
+
+  it('accepts the points in any order', () => {
+    const older = westward('2024100812', 30, 0.25)
+    const newer = westward('2024100812', 31, 0.25)
+    newer.trackPoints.reverse()
+    expect(runShifts(newer, older).map(s => s.tau)).toEqual([12, 24, 36, 48])
+  })
+})
+
+describe('firstLandfall', () => {
+  it('finds the first hour over land', () => {
+    const landfall = firstLandfall(westward('2024100812', 30, 0.25), mask)!
+    // 75°W → 80°W at 0.25°/h: landfall at +21 h
+    expect(landfall).toMatchObject({ forecastHour: 21, lat: 30, maxWindsKnots: 90 })
+    expect(landfall.lon).toBeCloseTo(-80.25, 6)
+    expect(landfall.validTime.toISOString()).toBe('2024-10-09T09:00:00.000Z')
+  })
+
+  it('is null for a track that stays over water or starts inland', () => {
+    expect(firstLandfall(westward('2024100812', 30, 0.05), mask)).toBeNull()
+    const inland: RunTrack = {
+      runCycle: '2024100812',
+      trackPoints: [0, 12, 24].map(forecastHour => ({ forecastHour, lat: 30, lon: -82 - forecastHour / 12, maxWindsKnots: 50 })),
+    }
+    expect(firstLandfall(inland, mask)).toBeNull()
+  })
+})
+
+describe('landfallShift', () => {
+  it('measures how far and how much later the landfall moved', () => {
+    const older = westward('2024100806', 30, 0.25)
+    const newer = westward('2024100812', 31, 0.2)
+    const shift = landfallShift(newer, older, mask)!
+    expect(shift.from.forecastHour).toBe(21)
+    expect(shift.to.forecastHour).toBe(26)
+    // Older lands at 03Z on the 9th, newer at 14Z
+    expect(shift.timingChangeHours).toBe(11)
+    expect(shift.distanceNm).toBeCloseTo(60, -1)
+  })
+
+  it('is null when either run stays over water', () => {
+    expect(landfallShift(westward('2024100812', 30, 0.05), westward('2024100806', 30, 0.25), mask)).toBeNull()
+  })
+})
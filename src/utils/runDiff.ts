@@ -0,0 +1,155 @@
+// Run-to-run comparison of one model's forecast tracks
+// Answers "did the model shift?": positions are compared at the same valid time (so the
+// 12Z run's +24 h is compared with the 06Z run's +30 h), and the first landfall of each
+// run is located on the land mask to measure how far and in which direction it moved.
+
+import { bearingDeg, haversineNm } from './windField'
+import { isLand, type LandMask } from './landMask'
+
+const HOUR_MS = 3_600_000
+// Tracks are walked in steps this long when looking for landfall
+const LANDFALL_STEP_HOURS = 1
+
+export interface RunTrackPoint {
+  forecastHour: number
+  lat: number
+  lon: number
+  maxWindsKnots: number | null
+}
+
+export interface RunTrack {
+  /** Initialisation time, YYYYMMDDHH */
+  runCycle: string
+  trackPoints: RunTrackPoint[]
+}
+
+export interface RunShift {
+  /** Forecast hour in the newer run */
+  tau: number
+  validTime: Date
+  /** How far the newer run's position moved from the older run's (nm) */
+  distanceNm: number
+  /** Direction of the move (deg true) */
+  bearingDeg: number
+  /** Change in forecast intensity (kt), when both runs forecast it */
+  windChangeKt: number | null
+}
+
+export interface Landfall {
+  lat: number
+  lon: number
+  forecastHour: number
+  validTime: Date
+  maxWindsKnots: number | null
+}
+
+export interface LandfallShift {
+  from: Landfall
+  to: Landfall
+  distanceNm: number
+  bearingDeg: number
+  /** Positive = the newer run makes landfall later */
+  timingChangeHours: number
+}
+
+export function cycleTime(runCycle: string): Date {
+  return new Date(Date.UTC(
+    Number(runCycle.slice(0, 4)), Number(runCycle.slice(4, 6)) - 1,
+    Number(runCycle.slice(6, 8)), Number(runCycle.slice(8, 10)),
+  ))
+}
+
+// Position/intensity at a forecast hour, interpolated between the run's own points
+function runAt(run: RunTrack, hour: number): RunTrackPoint | null {
+  const pts = run.trackPoints
+  for (let i = 0; i < pts.length; i++) {
+    const b = pts[i]
+    if (b.forecastHour === hour) return b
+    if (b.forecastHour < hour) continue
+    if (i === 0) return null
+    const a = pts[i - 1]
+    const t = (hour - a.forecastHour) / (b.forecastHour - a.forecastHour)
+    return {
+      forecastHour: hour,
+      lat: a.lat + (b.lat - a.lat) * t,
+      lon: a.lon + (b.lon - a.lon) * t,
+      maxWindsKnots: a.maxWindsKnots != null && b.maxWindsKnots != null
+        ? a.maxWindsKnots + (b.maxWindsKnots - a.maxWindsKnots) * t
+        : null,
+    }
+  }
+  return null
+}
+
+const sortedRun = (run: RunTrack): RunTrack => ({
+  ...run,
+  trackPoints: [...run.trackPoints].sort((a, b) => a.forecastHour - b.forecastHour),
+})
+
+/**
+ * Shift of `newer` relative to `older` at each of the newer run's forecast hours that
+ * the older run also covers, matched on valid time. The analysis hour is skipped.
+ */
+export function runShifts(newer: RunTrack, older: RunTrack): RunShift[] {
+  const a = sortedRun(newer)
+  const b = sortedRun(older)
+  const t0 = cycleTime(a.runCycle).getTime()
+  const lagHours = (t0 - cycleTime(b.runCycle).getTime()) / HOUR_MS
+  const shifts: RunShift[] = []
+  for (const p of a.trackPoints) {
+    if (p.forecastHour === 0) continue
+    const q = runAt(b, p.forecastHour + lagHours)
+    if (!q) continue
+    shifts.push({
+      tau: p.forecastHour,
+      validTime: new Date(t0 + p.forecastHour * HOUR_MS),
+      distanceNm: haversineNm(q.lat, q.lon, p.lat, p.lon),
+      bearingDeg: bearingDeg(q.lat, q.lon, p.lat, p.lon),
+      windChangeKt: p.maxWindsKnots != null && q.maxWindsKnots != null
+        ? Math.round(p.maxWindsKnots - q.maxWindsKnots)
+        : null,
+    })
+  }
+  return shifts
+}
+
+/**
+ * First point where the run's track moves from water onto land, or null if it stays
+ * over water (or starts inland) within the mask.
+ */
+export function firstLandfall(run: RunTrack, mask: LandMask): Landfall | null {
+  const r = sortedRun(run)
+  const pts = r.trackPoints
+  if (pts.length < 2) return null
+  const t0 = cycleTime(r.runCycle).getTime()
+  let overWater = !isLand(pts[0].lat, pts[0].lon, mask)
+  for (let h = pts[0].forecastHour + LANDFALL_STEP_HOURS; h <= pts[pts.length - 1].forecastHour; h += LANDFALL_STEP_HOURS) {
+    const p = runAt(r, h)
+    if (!p) continue
+    const land = isLand(p.lat, p.lon, mask)
+    if (land && overWater) {
+      return {
+        lat: p.lat,
+        lon: p.lon,
+        forecastHour: h,
+        validTime: new Date(t0 + h * HOUR_MS),
+        maxWindsKnots: p.maxWindsKnots != null ? Math.round(p.maxWindsKnots) : null,
+      }
+    }
+    overWater = !land
+  }
+  return null
+}
+
+export function landfallShift(newer: RunTrack, older: RunTrack, mask: LandMask): LandfallShift | null {
+  const to = firstLandfall(newer, mask)
+  const from = firstLandfall(older, mask)
+  if (!to || !from) return null
+  return {
+    from,
+    to,
+    distanceNm: haversineNm(from.lat, from.lon, to.lat, to.lon),
+    bearingDeg: bearingDeg(from.lat, from.lon, to.lat, to.lon),
+    timingChangeHours: (to.validTime.getTime() - from.validTime.getTime()) / HOUR_MS,
+  }
+}
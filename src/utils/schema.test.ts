@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import { array, boolean, nullable, number, object, optional, refine, string, SchemaError } from './schema'
+
+const point = object({
+  lat: number,
+  lon: number,
+  label: optional(string),
+  vmax: nullable(number),
+})
+
+describe('schema', () => {
+  it('returns a matching value untouched, extra keys included', () => {
+    const value = { lat: 25, lon: -80, vmax: null, source: 'OFCL' }
+    expect(point(value)).toBe(value)
+    expect(array(boolean)([true, false])).toEqual([true, false])
+  })
+
+  it('names the first path that does not match', () => {
+    const track = object({ stormId: string, points: array(point) })
+    const bad = { stormId: 'AL142024', points: [{ lat: 25, lon: -80, vmax: 100 }, { lat: '26', lon: -81, vmax: 90 }] }
+    expect(() => track(bad)).toThrow(SchemaError)
+    expect(() => track(bad)).toThrow('points[1].lat: expected number, got string')
+  })
+
+  it('distinguishes null, undefined, arrays and objects', () => {
+    expect(() => point({ lat: 1, lon: 2 })).toThrow('vmax: expected number, got undefined')
+    expect(() => point({ lat: 1, lon: 2, vmax: 3, label: null })).toThrow('label: expected string, got null')
+    expect(() => point([])).toThrow('(root): expected object, got array')
+    expect(() => array(number)({})).toThrow('(root): expected array, got object')
+  })
+
+  it('applies a refinement after the base check', () => {
+    const outlook = refine(string, s => s.includes('Outlook'), 'outlook text')
+    expect(outlook('Tropical Weather Outlook')).toBe('Tropical Weather Outlook')
+    expect(() => outlook('<html>502</html>')).toThrow('(root): expected outlook text, got string')
+    expect(() => outlook(42)).toThrow('expected string, got number')
+  })
+
+  it('records where and what failed on the error', () => {
+    const error = (() => {
+      try {
+        object({ a: object({ b: number }) })({ a: { b: 'x' } })
+      } catch (e) {
+        return e as SchemaError
+      }
+    })()
+    expect(error).toMatchObject({ name: 'SchemaError', path: 'a.b', expected: 'number' })
+  })
+})
@@ -0,0 +1,65 @@
+// Minimal runtime schemas for JSON responses
+// A schema is a function that checks an unknown value and returns it typed, or throws a
+// SchemaError naming the first path that doesn't match. Objects are checked loosely:
+// the listed keys must match and any other keys pass through untouched.
+
+export class SchemaError extends Error {
+  constructor(readonly path: string, readonly expected: string, received: unknown) {
+    super(`${path || '(root)'}: expected ${expected}, got ${describe(received)}`)
+    this.name = 'SchemaError'
+  }
+}
+
+export type Schema<T> = (value: unknown, path?: string) => T
+export type Infer<S> = S extends Schema<infer T> ? T : never
+
+function describe(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+const primitive = <T>(type: 'string' | 'number' | 'boolean'): Schema<T> => (value, path = '') => {
+  if (typeof value !== type) throw new SchemaError(path, type, value)
+  return value as T
+}
+
+export const string = primitive<string>('string')
+export const number = primitive<number>('number')
+export const boolean = primitive<boolean>('boolean')
+export const unknown: Schema<unknown> = value => value
+
+export const nullable = <T>(schema: Schema<T>): Schema<T | null> =>
+  (value, path) => value === null ? null : schema(value, path)
+
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> =>
+  (value, path) => value === undefined ? undefined : schema(value, path)
+
+export const array = <T>(item: Schema<T>): Schema<T[]> => (value, path = '') => {
+  if (!Array.isArray(value)) throw new SchemaError(path, 'array', value)
+  value.forEach((v, i) => item(v, `${path}[${i}]`))
+  return value as T[]
+}
+
+type Shape = Record<string, Schema<unknown>>
+type OptionalKeys<S extends Shape> = { [K in keyof S]: undefined extends Infer<S[K]> ? K : never }[keyof S]
+export type ObjectOf<S extends Shape> =
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & { [K in OptionalKeys<S>]?: Infer<S[K]> }
+
+export const object = <S extends Shape>(shape: S): Schema<ObjectOf<S>> => (value, path = '') => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) throw new SchemaError(path, 'object', value)
+  for (const key of Object.keys(shape)) {
+    shape[key]((value as Record<string, unknown>)[key], path ? `${path}.${key}` : key)
+  }
+  return value as ObjectOf<S>
+}
+
+/**
+ * Narrow a schema's output with an extra check; `expected` describes what failed.
+ */
+export const refine = <T>(schema: Schema<T>, check: (value: T) => boolean, expected: string): Schema<T> =>
+  (value, path = '') => {
+    const out = schema(value, path)
+    if (!check(out)) throw new SchemaError(path, expected, value)
+    return out
+  }
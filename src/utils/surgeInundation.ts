@@ -0,0 +1,72 @@
+// Point query of the Potential Storm Surge Flooding graphic
+// The Lambda's storm-surge-inundation product carries NHC's inundation polygons in four
+// depth bands above ground (none when NHC issues the graphic as a raster, whose colours
+// can't be looked up here). A clicked point is looked up in them, and in the storm surge
+// watch/warning segments of the same storm, which are drawn along the coast: a point
+// counts as covered when it lies within a few miles of one.
+
+import type { InundationBand, InundationFeature, SurgeInundation, WatchesWarnings } from '../types/nhc'
+import { pointInPolygon } from './analogs'
+import { distanceToLineNm } from './threatAssessment'
+
+export const INUNDATION_BANDS: InundationBand[] = ['up-to-3', 'over-3', 'over-6', 'over-9']
+
+// Inundation reaches inland from the coastline the watch/warning segments follow
+const SURGE_SEGMENT_MAX_NM = 10
+
+export type SurgeStatus = 'storm-surge-warning' | 'storm-surge-watch'
+
+export interface InundationQuery {
+  lat: number
+  lon: number
+  /** Deepest band containing the point; null outside every band */
+  band: InundationFeature['properties'] | null
+  /** Storm surge warning wins over a watch; null when neither covers the point */
+  surgeStatus: SurgeStatus | null
+}
+
+// Polygons of a feature as rings of [lat, lon], outer ring first
+function featurePolygons(feature: InundationFeature): [number, number][][][] {
+  const g = feature.geometry
+  const polygons = g.type === 'Polygon' ? [g.coordinates] : g.coordinates
+  return polygons.map(rings => rings.map(ring => ring.map(([lon, lat]) => [lat, lon] as [number, number])))
+}
+
+// Inside the outer ring and outside all of its holes
+function inPolygon(lat: number, lon: number, rings: [number, number][][]): boolean {
+  const [outer, ...holes] = rings
+  return !!outer && pointInPolygon(lat, lon, outer) && !holes.some(hole => pointInPolygon(lat, lon, hole))
+}
+
+export function inundationAt(inundation: SurgeInundation | null, lat: number, lon: number): InundationFeature['properties'] | null {
+  if (!inundation) return null
+  let best: InundationFeature['properties'] | null = null
+  for (const f of inundation.bands.features) {
+    const depth = INUNDATION_BANDS.indexOf(f.properties.band)
+    if (best && depth <= INUNDATION_BANDS.indexOf(best.band)) continue
+    if (featurePolygons(f).some(rings => inPolygon(lat, lon, rings))) best = f.properties
+  }
+  return best
+}
+
+export function surgeStatusAt(watches: WatchesWarnings | null, lat: number, lon: number): SurgeStatus | null {
+  if (!watches) return null
+  let status: SurgeStatus | null = null
+  for (const f of watches.segments.features) {
+    const type = f.properties.type
+    if (type !== 'storm-surge-warning' && type !== 'storm-surge-watch') continue
+    if (status === 'storm-surge-warning' || status === type) continue
+    const line = f.geometry.coordinates.map(([lon, lat]) => [lat, lon] as [number, number])
+    if (distanceToLineNm(lat, lon, line) <= SURGE_SEGMENT_MAX_NM) status = type
+  }
+  return status
+}
+
+export function queryInundation(
+  inundation: SurgeInundation | null,
+  watches: WatchesWarnings | null,
+  lat: number,
+  lon: number,
+): InundationQuery {
+  return { lat, lon, band: inundationAt(inundation, lat, lon), surgeStatus: surgeStatusAt(watches, lat, lon) }
+}
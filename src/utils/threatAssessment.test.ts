@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest'
+import type { ProcessedStorm } from '../types/nhc'
+import {
+  arrivalAt, assessLocation, closestApproach, inCone, surgeAt, windProbabilityAt,
+  type ProductFeatureCollection, type SavedLocation,
+} from './threatAssessment'
+
+const t0 = new Date('2024-10-08T12:00:00Z')
+
+// [south, west, north, east] box as a GeoJSON polygon feature
+const box = ([s, w, n, e]: number[], properties: Record<string, unknown> = {}) => ({
+  type: 'Feature',
+  properties,
+  geometry: { type: 'Polygon', coordinates: [[[w, s], [e, s], [e, n], [w, n], [w, s]]] },
+})
+// Meridian segment at `lon` as a GeoJSON line feature
+const meridian = (lon: number, properties: Record<string, unknown>) => ({
+  type: 'Feature',
+  properties,
+  geometry: { type: 'LineString', coordinates: [[lon, 20], [lon, 30]] },
+})
+const collection = (...features: ProductFeatureCollection['features']): ProductFeatureCollection =>
+  ({ type: 'FeatureCollection', features })
+
+// Due west along 25°N, 3° of longitude every 12 h
+const storm = (overrides: Partial<ProcessedStorm> = {}) => ({
+  id: 'al142024',
+  name: 'Milton',
+  advisoryNumber: '14',
+  position: [25, -75],
+  maxWinds: 100,
+  lastUpdate: t0,
+  forecast: [12, 24].map(forecastHour => ({ forecastHour, latitude: 25, longitude: -75 - forecastHour / 4, maxWinds: 100 })),
+  cone: collection(box([23, -82, 27, -74])),
+  ...overrides,
+}) as unknown as ProcessedStorm
+
+const miami: SavedLocation = { id: 'miami', name: 'Miami', lat: 25.8, lon: -80.2 }
+
+describe('closestApproach', () => {
+  it('walks the track hourly to the nearest point', () => {
+    const cpa = closestApproach(storm(), miami.lat, miami.lon)!
+    expect(cpa.forecastHour).toBe(21)
+    expect(cpa.time.toISOString()).toBe('2024-10-09T09:00:00.000Z')
+    expect(cpa.distanceNm).toBeCloseTo(48, 0)
+    expect(cpa.bearingDeg).toBeGreaterThan(175)
+    expect(cpa.bearingDeg).toBeLessThan(195)
+    expect(cpa.maxWindsKnots).toBe(100)
+  })
+
+  it('is null for a storm without a forecast', () => {
+    expect(closestApproach(storm({ forecast: [] }), miami.lat, miami.lon)).toBeNull()
+  })
+})
+
+describe('product lookups', () => {
+  it('tests the cone, and knows when there is none', () => {
+    expect(inCone(storm().cone, miami.lat, miami.lon)).toBe(true)
+    expect(inCone(storm().cone, 30, -80)).toBe(false)
+    expect(inCone(null, miami.lat, miami.lon)).toBeNull()
+  })
+
+  it('takes the highest wind probability band containing the point', () => {
+    const bands = collection(box([20, -85, 30, -70], { probability: 15 }), box([24, -82, 27, -78], { probability: 45 }))
+    expect(windProbabilityAt(bands, miami.lat, miami.lon)).toBe(45)
+    expect(windProbabilityAt(bands, 35, -80)).toBe(0)
+    expect(windProbabilityAt(null, miami.lat, miami.lon)).toBeNull()
+  })
+
+  it('labels arrival from the nearest contour only when the winds reach the location', () => {
+    const contours = collection(meridian(-79, { arrivalTime: 'Wed 8 AM' }), meridian(-81, { arrivalTime: 'Wed 2 PM' }))
+    // Between the 8 AM and 2 PM contours
+    expect(arrivalAt(contours, miami.lat, miami.lon, false)).toBe('Wed 2 PM')
+    // East of both: only inside the 34-kt area and close enough
+    expect(arrivalAt(contours, 25.8, -78.5, false)).toBeNull()
+    expect(arrivalAt(contours, 25.8, -78.5, true)).toBe('Wed 8 AM')
+    expect(arrivalAt(contours, 25.8, -70, true)).toBeNull()
+  })
+
+  it('reads the highest surge polygon or nearby coastal line', () => {
+    const surge = collection(
+      box([25, -81, 26, -80], { SURGE_FT: 4, peak_surge_range: '3-5 ft' }),
+      box([25.5, -80.5, 26, -80], { SURGE_FT: 2, peak_surge_range: '1-3 ft' }),
+    )
+    expect(surgeAt(surge, miami.lat, miami.lon)).toEqual({ feet: 4, range: '3-5 ft' })
+    expect(surgeAt(surge, 30, -80)).toBeNull()
+    const coastal = collection(meridian(-80.25, { surgeRange: '2-4 ft' }))
+    expect(surgeAt(coastal, miami.lat, miami.lon)).toEqual({ feet: null, range: '2-4 ft' })
+  })
+})
+
+describe('assessLocation', () => {
+  const noProbabilities = { '34kt': null, '50kt': null, '64kt': null }
+  const products = (s: ProcessedStorm) => ({ storm: s, arrivalMostLikely: null, arrivalEarliest: null, surge: null })
+
+  it('rates a location in the cone close to the track as high', () => {
+    const assessment = assessLocation(miami, [products(storm())], noProbabilities)
+    expect(assessment.level).toBe('high')
+    expect(assessment.storms[0]).toMatchObject({ stormId: 'al142024', inCone: true, level: 'high' })
+    expect(assessment.windProbability).toEqual({ '34kt': null, '50kt': null, '64kt': null })
+  })
+
+  it('puts the most threatening storm first and rates the location by the worst', () => {
+    const far = storm({
+      id: 'al152024',
+      position: [15, -40],
+      forecast: [],
+      cone: null,
+    })
+    const near = storm({ cone: collection(box([23, -82, 25.5, -74])) })
+    const assessment = assessLocation(miami, [products(far), products(near)], noProbabilities)
+    expect(assessment.storms.map(s => [s.stormId, s.level])).toEqual([['al142024', 'moderate'], ['al152024', 'none']])
+    expect(assessment.level).toBe('moderate')
+  })
+
+  it('raises the level from the wind speed probabilities alone', () => {
+    const quiet = storm({ forecast: [], cone: null })
+    const p64 = collection(box([25, -81, 26, -80], { probability: 15 }))
+    const assessment = assessLocation(miami, [products(quiet)], { '34kt': null, '50kt': null, '64kt': p64 })
+    expect(assessment.windProbability['64kt']).toBe(15)
+    expect(assessment.storms[0].level).toBe('none')
+    expect(assessment.level).toBe('high')
+  })
+})
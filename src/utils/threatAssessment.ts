@@ -0,0 +1,282 @@
+// Threat to a saved location from the active storms' latest advisory products
+// Each storm is checked against the forecast cone, its forecast track (closest approach),
+// the 34-kt wind arrival contours and, for Atlantic storms, the peak surge polygons. The
+// NHC wind speed probabilities cover all storms at once, so they are read per location.
+
+import type { ProcessedStorm } from '../types/nhc'
+import { pointInPolygon } from './analogs'
+import { bearingDeg, haversineNm } from './windField'
+
+const DEG = Math.PI / 180
+const NM_PER_DEG = 60
+const HOUR_MS = 3_600_000
+// Track positions are interpolated at this step when looking for the closest approach
+const APPROACH_STEP_HOURS = 1
+// Inside the 34-kt probability area, the nearest arrival contour within this distance
+// gives the location's arrival time
+const ARRIVAL_MAX_NM = 75
+// Coastal surge lines apply to locations this close to them
+const SURGE_LINE_MAX_NM = 5
+
+export interface SavedLocation {
+  id: string
+  name: string
+  lat: number
+  lon: number
+}
+
+export type ThreatLevel = 'none' | 'low' | 'moderate' | 'high'
+export const THREAT_LEVELS: ThreatLevel[] = ['none', 'low', 'moderate', 'high']
+
+export type WindThreshold = '34kt' | '50kt' | '64kt'
+export const WIND_THRESHOLDS: WindThreshold[] = ['34kt', '50kt', '64kt']
+
+/** GeoJSON as parsed from the NHC KMZ/KML products by the Lambda */
+export interface ProductFeatureCollection {
+  type: string
+  features: Array<{ type: string; properties?: Record<string, any>; geometry?: { type: string; coordinates: any } }>
+}
+
+export interface StormProducts {
+  storm: ProcessedStorm
+  arrivalMostLikely: ProductFeatureCollection | null
+  arrivalEarliest: ProductFeatureCollection | null
+  surge: ProductFeatureCollection | null
+}
+
+export interface ClosestApproach {
+  distanceNm: number
+  /** Direction from the location to the storm centre (deg true) */
+  bearingDeg: number
+  forecastHour: number
+  time: Date
+  maxWindsKnots: number | null
+}
+
+export interface StormThreat {
+  stormId: string
+  stormName: string
+  advisoryNumber?: string
+  /** null when the storm has no cone */
+  inCone: boolean | null
+  closestApproach: ClosestApproach | null
+  /** Arrival time labels as on the NHC graphics (e.g. "Wed 8 AM"); null when not reached */
+  arrivalMostLikely: string | null
+  arrivalEarliest: string | null
+  surge: { feet: number | null; range: string } | null
+  level: ThreatLevel
+}
+
+export interface LocationAssessment {
+  location: SavedLocation
+  /** Percent chance of each wind speed (all storms combined); null when the product is missing */
+  windProbability: Record<WindThreshold, number | null>
+  storms: StormThreat[]
+  level: ThreatLevel
+}
+
+const maxLevel = (levels: ThreatLevel[]): ThreatLevel =>
+  THREAT_LEVELS[Math.max(0, ...levels.map(l => THREAT_LEVELS.indexOf(l)))]
+
+// ─── Geometry ─────────────────────────────────────────────────────────────────
+
+// Outer rings of every Polygon/MultiPolygon feature, as [lat, lon]
+function polygonRings(fc: ProductFeatureCollection): Array<{ ring: [number, number][]; properties: Record<string, any> }> {
+  const out: Array<{ ring: [number, number][]; properties: Record<string, any> }> = []
+  for (const f of fc.features) {
+    const g = f.geometry
+    if (!g) continue
+    const polygons: number[][][][] = g.type === 'Polygon' ? [g.coordinates] : g.type === 'MultiPolygon' ? g.coordinates : []
+    for (const poly of polygons) {
+      if (poly[0]?.length >= 3) out.push({ ring: poly[0].map(c => [c[1], c[0]] as [number, number]), properties: f.properties ?? {} })
+    }
+  }
+  return out
+}
+
+// Polylines of every LineString feature and polygon outline, as [lat, lon]
+function featureLines(fc: ProductFeatureCollection): Array<{ line: [number, number][]; properties: Record<string, any> }> {
+  const out: Array<{ line: [number, number][]; properties: Record<string, any> }> = []
+  for (const f of fc.features) {
+    const g = f.geometry
+    if (g?.type === 'LineString' && g.coordinates.length >= 2) {
+      out.push({ line: g.coordinates.map((c: number[]) => [c[1], c[0]] as [number, number]), properties: f.properties ?? {} })
+    }
+  }
+  return [...out, ...polygonRings(fc).map(({ ring, properties }) => ({ line: ring, properties }))]
+}
+
+// Nearest point of a polyline to a point, as its offset (nm east, north) and distance,
+// on a local equirectangular projection
+function nearestOnLine(lat: number, lon: number, line: [number, number][]): { x: number; y: number; distanceNm: number } {
+  const k = Math.cos(lat * DEG)
+  let best = { x: 0, y: 0, distanceNm: Infinity }
+  for (let i = 1; i < line.length; i++) {
+    const ax = (line[i - 1][1] - lon) * k, ay = line[i - 1][0] - lat
+    const bx = (line[i][1] - lon) * k, by = line[i][0] - lat
+    const dx = bx - ax, dy = by - ay
+    const len2 = dx * dx + dy * dy
+    const t = len2 > 0 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / len2)) : 0
+    const x = (ax + t * dx) * NM_PER_DEG, y = (ay + t * dy) * NM_PER_DEG
+    const distanceNm = Math.hypot(x, y)
+    if (distanceNm < best.distanceNm) best = { x, y, distanceNm }
+  }
+  return best
+}
+
+// Distance (nm) from a point to a polyline
+export function distanceToLineNm(lat: number, lon: number, line: [number, number][]): number {
+  return nearestOnLine(lat, lon, line).distanceNm
+}
+
+// ─── Products ─────────────────────────────────────────────────────────────────
+
+export function inCone(cone: ProductFeatureCollection | null | undefined, lat: number, lon: number): boolean | null {
+  if (!cone?.features?.length) return null
+  return polygonRings(cone).some(({ ring }) => pointInPolygon(lat, lon, ring))
+}
+
+/**
+ * Highest probability band containing the point (percent), 0 outside every band.
+ * Band values are the midpoints the Lambda assigns (e.g. 45 for "40-50%").
+ */
+export function windProbabilityAt(fc: ProductFeatureCollection | null, lat: number, lon: number): number | null {
+  if (!fc) return null
+  let best = 0
+  for (const { ring, properties } of polygonRings(fc)) {
+    const p = Number(properties.probability)
+    if (Number.isFinite(p) && p > best && pointInPolygon(lat, lon, ring)) best = p
+  }
+  return best
+}
+
+/**
+ * Arrival time label of the nearest 34-kt arrival contour, for a location the winds are
+ * expected to reach: one inside the 34-kt wind probability area (`in34ktArea`) with a
+ * contour within ARRIVAL_MAX_NM, or one lying between two contours of different times.
+ * A contour merely passing nearby doesn't count.
+ */
+export function arrivalAt(
+  fc: ProductFeatureCollection | null, lat: number, lon: number, in34ktArea: boolean,
+): string | null {
+  if (!fc) return null
+  const contours: Array<{ label: string; x: number; y: number; distanceNm: number }> = []
+  for (const { line, properties } of featureLines(fc)) {
+    const label = properties.arrivalTime
+    if (!label || label === 'Unknown') continue
+    contours.push({ label: String(label), ...nearestOnLine(lat, lon, line) })
+  }
+  if (contours.length === 0) return null
+  const nearest = contours.reduce((a, b) => (b.distanceNm < a.distanceNm ? b : a))
+
+  if (in34ktArea && nearest.distanceNm <= ARRIVAL_MAX_NM) return nearest.label
+  // Between two contours when the nearest points of both lie on opposite sides
+  const between = nearest.distanceNm === 0 || contours.some(c =>
+    c.label !== nearest.label && c.x * nearest.x + c.y * nearest.y < 0)
+  return between ? nearest.label : null
+}
+
+export function surgeAt(fc: ProductFeatureCollection | null, lat: number, lon: number): StormThreat['surge'] {
+  if (!fc) return null
+  const describe = (p: Record<string, any>) => ({
+    feet: Number.isFinite(Number(p.SURGE_FT)) ? Number(p.SURGE_FT) : null,
+    range: String(p.peak_surge_range || p.surgeRange || ''),
+  })
+  const containing = polygonRings(fc).filter(({ ring }) => pointInPolygon(lat, lon, ring)).map(r => describe(r.properties))
+  const lines = fc.features.some(f => f.geometry?.type === 'LineString')
+    ? featureLines(fc).filter(({ line }) => distanceToLineNm(lat, lon, line) <= SURGE_LINE_MAX_NM).map(l => describe(l.properties))
+    : []
+  const all = [...containing, ...lines]
+  if (all.length === 0) return null
+  return all.reduce((a, b) => ((b.feet ?? -1) > (a.feet ?? -1) ? b : a))
+}
+
+/**
+ * Closest point of the storm's advisory track (current position, then the forecast
+ * points) to the location. Null when the storm has no forecast.
+ */
+export function closestApproach(storm: ProcessedStorm, lat: number, lon: number): ClosestApproach | null {
+  const t0 = storm.lastUpdate.getTime()
+  const pts = [
+    { hour: 0, lat: storm.position[0], lon: storm.position[1], winds: storm.maxWinds as number | null },
+    ...storm.forecast.map(p => ({ hour: p.forecastHour, lat: p.latitude, lon: p.longitude, winds: p.maxWinds as number | null })),
+  ].sort((a, b) => a.hour - b.hour)
+  if (pts.length < 2) return null
+
+  let best: ClosestApproach | null = null
+  for (let i = 1; i < pts.length; i++) {
+    const a = pts[i - 1], b = pts[i]
+    const steps = Math.max(1, Math.round((b.hour - a.hour) / APPROACH_STEP_HOURS))
+    for (let s = i === 1 ? 0 : 1; s <= steps; s++) {
+      const t = s / steps
+      const plat = a.lat + (b.lat - a.lat) * t
+      const plon = a.lon + (b.lon - a.lon) * t
+      const distanceNm = haversineNm(lat, lon, plat, plon)
+      if (best && distanceNm >= best.distanceNm) continue
+      const hour = a.hour + (b.hour - a.hour) * t
+      best = {
+        distanceNm,
+        bearingDeg: bearingDeg(lat, lon, plat, plon),
+        forecastHour: Math.round(hour),
+        time: new Date(t0 + hour * HOUR_MS),
+        maxWindsKnots: a.winds != null && b.winds != null ? Math.round(a.winds + (b.winds - a.winds) * t) : null,
+      }
+    }
+  }
+  return best
+}
+
+// ─── Assessment ───────────────────────────────────────────────────────────────
+
+function stormLevel(threat: Omit<StormThreat, 'level'>): ThreatLevel {
+  const cpa = threat.closestApproach?.distanceNm ?? Infinity
+  if ((threat.surge?.feet ?? 0) >= 3 || (threat.inCone && cpa <= 50)) return 'high'
+  if (threat.inCone || threat.surge || threat.arrivalMostLikely || threat.arrivalEarliest || cpa <= 100) return 'moderate'
+  if (cpa <= 300) return 'low'
+  return 'none'
+}
+
+function probabilityLevel(p: Record<WindThreshold, number | null>): ThreatLevel {
+  if ((p['64kt'] ?? 0) >= 10 || (p['50kt'] ?? 0) >= 30) return 'high'
+  if ((p['34kt'] ?? 0) >= 30 || (p['50kt'] ?? 0) >= 10) return 'moderate'
+  if ((p['34kt'] ?? 0) >= 5) return 'low'
+  return 'none'
+}
+
+export function assessLocation(
+  location: SavedLocation,
+  storms: StormProducts[],
+  windProbability: Record<WindThreshold, ProductFeatureCollection | null>,
+): LocationAssessment {
+  const { lat, lon } = location
+  const probability = {
+    '34kt': windProbabilityAt(windProbability['34kt'], lat, lon),
+    '50kt': windProbabilityAt(windProbability['50kt'], lat, lon),
+    '64kt': windProbabilityAt(windProbability['64kt'], lat, lon),
+  }
+  const in34ktArea = (probability['34kt'] ?? 0) > 0
+
+  const threats = storms.map(({ storm, arrivalMostLikely, arrivalEarliest, surge }): StormThreat => {
+    const threat = {
+      stormId: storm.id,
+      stormName: storm.name,
+      advisoryNumber: storm.advisoryNumber,
+      inCone: inCone(storm.cone, lat, lon),
+      closestApproach: closestApproach(storm, lat, lon),
+      arrivalMostLikely: arrivalAt(arrivalMostLikely, lat, lon, in34ktArea),
+      arrivalEarliest: arrivalAt(arrivalEarliest, lat, lon, in34ktArea),
+      surge: surgeAt(surge, lat, lon),
+    }
+    return { ...threat, level: stormLevel(threat) }
+  })
+
+  threats.sort((a, b) => THREAT_LEVELS.indexOf(b.level) - THREAT_LEVELS.indexOf(a.level)
+    || (a.closestApproach?.distanceNm ?? Infinity) - (b.closestApproach?.distanceNm ?? Infinity))
+
+  return {
+    location,
+    windProbability: probability,
+    storms: threats,
+    level: maxLevel([probabilityLevel(probability), ...threats.map(t => t.level)]),
+  }
+}
@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest'
+import {
+  applyLandfallDecay, destinationPoint, kaplanDeMariaFactor, kaplanDeMariaVmax, kdBasinAt,
+  meanRadiusErrorNm, pressureFromVmax, verifyWindRadii, windSpeedKt, KD_VB_KT, WIND_MODELS,
+  type ForecastPoint, type VortexParams,
+} from './windField'
+
+const point = (forecastHour: number, lat: number, lon: number, vmax: number, extra: Partial<ForecastPoint> = {}): ForecastPoint =>
+  ({ label: `+${forecastHour}h`, lat, lon, vmax, r34: [0, 0, 0, 0], r50: null, r64: null, forecastHour, ...extra })
+
+// Everything west of 80°W is land
+const westOf80 = (_lat: number, lon: number) => lon < -80
+
+describe('Kaplan-DeMaria decay', () => {
+  it('decays from the landfall Vmax toward the background wind', () => {
+    expect(kaplanDeMariaVmax(100, 0)).toBe(100)
+    expect(kaplanDeMariaVmax(100, 12)).toBeCloseTo(KD_VB_KT + 73.3 * Math.exp(-0.095 * 12), 6)
+    expect(kaplanDeMariaVmax(100, 200)).toBeCloseTo(KD_VB_KT, 3)
+    expect(kaplanDeMariaVmax(100, 12, 'gulf')).toBeLessThan(kaplanDeMariaVmax(100, 12, 'atlantic'))
+  })
+
+  it('leaves storms at or below the background wind alone', () => {
+    expect(kaplanDeMariaFactor(25, 24)).toBe(1)
+    expect(kaplanDeMariaFactor(100, 12)).toBeCloseTo(kaplanDeMariaVmax(100, 12) / 100, 6)
+  })
+
+  it('uses the Gulf coefficient for Gulf coast landfalls only', () => {
+    expect(kdBasinAt(29.5, -90)).toBe('gulf')
+    expect(kdBasinAt(27, -82.5)).toBe('gulf')
+    expect(kdBasinAt(33, -79)).toBe('atlantic')
+    expect(kdBasinAt(25, -80)).toBe('atlantic')
+  })
+})
+
+describe('applyLandfallDecay', () => {
+  // Moving west at about 16 kt, crossing 80°W at +6 h
+  const track = [
+    point(0, 35, -78, 100, { gustKt: 120 }),
+    point(12, 35, -82, 100, { gustKt: 120 }),
+    point(24, 35, -86, 30, { gustKt: 40 }),
+  ]
+
+  it('resamples hourly and keeps the forecast hours', () => {
+    const out = applyLandfallDecay(track, westOf80)
+    expect(out.map(p => p.forecastHour)).toEqual(Array.from({ length: 25 }, (_, h) => h))
+  })
+
+  it('decays Vmax from the coast crossing', () => {
+    const out = applyLandfallDecay(track, westOf80)
+    expect(out[6].inland).toBeUndefined()
+    expect(out[6].vmax).toBe(100)
+
+    const p = out[12]
+    expect(p.inland).toBe(true)
+    expect(p.basin).toBe('atlantic')
+    expect(p.hoursInland).toBeCloseTo(6, 1)
+    expect(p.vmax).toBe(Math.round(kaplanDeMariaVmax(100, p.hoursInland!)))
+    // The gust keeps the advisory's gust ratio
+    expect(p.gustKt).toBe(Math.round(120 * p.vmax / 100))
+  })
+
+  it('keeps the advisory Vmax where it is already lower than the decay', () => {
+    const out = applyLandfallDecay(track, westOf80)
+    expect(out[24].vmax).toBe(30)
+  })
+
+  it('restarts the decay when the storm re-emerges over water', () => {
+    const out = applyLandfallDecay([...track.slice(0, 2), point(24, 35, -76, 100)], westOf80)
+    const overWater = out.filter(p => p.forecastHour! > 12 && !p.inland)
+    expect(overWater.length).toBeGreaterThan(0)
+    expect(overWater.every(p => p.hoursInland === undefined)).toBe(true)
+  })
+
+  it('backs out the landfall Vmax for a storm already inland at the analysis', () => {
+    const inland = [
+      point(0, 35, -83, 60, { stormSpeedKt: 10, stormHeadingDeg: 270 }),
+      point(12, 35, -85.5, 60),
+    ]
+    const out = applyLandfallDecay(inland, westOf80)
+    // 3° of longitude at 35°N (~147 nm) inland at 10 kt: about 15 h over land already
+    expect(out[0].hoursInland).toBeGreaterThan(14)
+    expect(out[0].hoursInland).toBeLessThan(16)
+    expect(out[0].vmax).toBe(60)
+    expect(out[12].vmax).toBeLessThan(60)
+  })
+})
+
+describe('outer Rankine profile', () => {
+  const r34: [number, number, number, number] = [160, 120, 80, 100]
+  const r50: [number, number, number, number] = [80, 60, 40, 50]
+  const r64: [number, number, number, number] = [40, 30, 20, 25]
+  type Radii = [number, number, number, number] | null
+  const windAlong = (bearing: number, distNm: number, radii50: Radii = r50, radii64: Radii = r64) => {
+    const [lat, lon] = destinationPoint(25, -75, bearing, distNm)
+    return windSpeedKt(lat, lon, 25, -75, 110, 15, r34, radii50, radii64)
+  }
+
+  it('passes through every reported radius on the quadrant centre lines', () => {
+    const bearings = [45, 135, 225, 315]
+    bearings.forEach((bearing, q) => {
+      expect(windAlong(bearing, r64[q])).toBeCloseTo(64, 0)
+      expect(windAlong(bearing, r50[q])).toBeCloseTo(50, 0)
+      expect(windAlong(bearing, r34[q])).toBeCloseTo(34, 0)
+    })
+  })
+
+  it('keeps the r34 asymmetry when the r50/r34 ratio is the same in every quadrant', () => {
+    expect(windAlong(45, 160)).toBeCloseTo(34, 0)
+    expect(windAlong(225, 160)).toBeLessThan(30)
+  })
+
+  it('falls back to r34 alone when r50 and r64 are missing', () => {
+    expect(windAlong(45, 160, null, null)).toBeCloseTo(34, 0)
+    expect(windAlong(45, 10)).toBeCloseTo(110 * 10 / 15, 6)
+  })
+
+  it('skips a zero quadrant rather than anchoring to it', () => {
+    const lopsided: [number, number, number, number] = [40, 0, 0, 0]
+    expect(windAlong(45, 40, r50, lopsided)).toBeCloseTo(64, 0)
+    expect(windAlong(225, r50[2], r50, lopsided)).toBeCloseTo(50, 0)
+  })
+
+  it('verifies to within a mile of the advisory radii', () => {
+    const fc = point(0, 25, -75, 110, { r34, r50, r64, rmw: 15 })
+    const checks = verifyWindRadii(fc)
+    expect(checks).toHaveLength(12)
+    expect(meanRadiusErrorNm(checks)).toBeLessThanOrEqual(1)
+    for (const c of checks) expect(Math.abs(c.windErrorKt!)).toBeLessThan(0.5)
+  })
+})
+
+describe('wind profile models', () => {
+  const vortex: VortexParams = {
+    vmaxKt: 110, rmaxNm: 20, lat: 25, r34: [150, 150, 150, 150], r50: null, r64: null,
+  }
+  const models = Object.values(WIND_MODELS)
+
+  it('inverts the Atkinson-Holliday wind-pressure relationship', () => {
+    const pc = pressureFromVmax(110)
+    expect(6.7 * Math.pow(1010 - pc, 0.644)).toBeCloseTo(110, 6)
+    expect(pressureFromVmax(110, 1015) - pc).toBeCloseTo(5, 6)
+  })
+
+  it.each(models.map(m => [m.id, m] as const))('%s peaks near Rmax and decays outward', (_id, model) => {
+    const at = (d: number) => model.profileKt(d, 45, vortex)
+    expect(at(20)).toBeGreaterThan(95)
+    expect(at(20)).toBeLessThanOrEqual(110.5)
+    expect(at(5)).toBeLessThan(at(20))
+    expect(at(60)).toBeLessThan(at(20))
+    expect(at(300)).toBeLessThan(at(60))
+    expect(at(300)).toBeGreaterThanOrEqual(0)
+  })
+
+  it('reaches 34 kt at r34 with the Holland 2010 outer exponent', () => {
+    expect(WIND_MODELS.holland2010.profileKt(150, 45, vortex)).toBeCloseTo(34, 0)
+  })
+
+  it('widens the Holland 1980 field for a deeper central pressure', () => {
+    const shallow = WIND_MODELS.holland1980.profileKt(100, 45, { ...vortex, pressureMb: 975 })
+    const deep = WIND_MODELS.holland1980.profileKt(100, 45, { ...vortex, pressureMb: 940 })
+    expect(deep).toBeGreaterThan(shallow)
+  })
+})
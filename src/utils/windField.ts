@@ -1,4 +1,5 @@
 // Wind field computation using modified Rankine vortex with quadrant interpolation
+// Motion asymmetry, inflow angle and gust factors on top of the selected profile
 // Post-landfall decay: Kaplan & DeMaria (1995) exponential decay model
 
 const DEG = Math.PI / 180
@@ -18,6 +19,10 @@ export const KD_VB_KT           = 26.7   // kt  — residual background wind
 export const KD_ALPHA_ATLANTIC   = 0.095  // h⁻¹ — Atlantic decay rate
 export const KD_ALPHA_GULF       = 0.169  // h⁻¹ — Gulf of Mexico decay rate
 
+// K-D decays the storm-scale Vmax; local surface roughness is applied separately per
+// land cell. Ratio of open-terrain to marine sustained wind.
+export const LAND_ROUGHNESS_FACTOR = 0.8
+
 export type KDBasin = 'atlantic' | 'gulf'
 
 /**
@@ -52,6 +57,38 @@ export function kaplanDeMariaFactor(
   return kaplanDeMariaVmax(v0Kt, hoursInland, basin) / v0Kt
 }
 
+// ─── Wind field input ─────────────────────────────────────────────────────────
+
+// One storm snapshot the wind field is rendered from (advisory analysis or forecast hour)
+export interface ForecastPoint {
+  label: string
+  lat: number
+  lon: number
+  vmax: number
+  r34: [number, number, number, number]
+  r50: [number, number, number, number] | null
+  r64: [number, number, number, number] | null
+  /** Radius of maximum winds (nm) when the advisory reports it; otherwise derived from Vmax */
+  rmw?: number | null
+  /** Central pressure (mb) when known — only the advisory's initial time carries one */
+  pressureMb?: number | null
+  /** Storm translation speed (kt) — used by K-D decay to convert inland distance to time */
+  stormSpeedKt?: number
+  /** Direction of motion (deg, toward) — drives the motion asymmetry */
+  stormHeadingDeg?: number
+  /** Advisory peak gust (kt) */
+  gustKt?: number
+  /** Basin for Kaplan-DeMaria α coefficient (default: 'atlantic') */
+  basin?: KDBasin
+  inland?: boolean
+  /** Hours since the centre last crossed the coast (set by applyLandfallDecay) */
+  hoursInland?: number
+  /** Hours after the advisory's synoptic time (0 = analysis) */
+  forecastHour?: number
+  /** Valid time (ISO 8601 UTC) */
+  validTime?: string
+}
+
 // ─── Geography ────────────────────────────────────────────────────────────────
 
 export function haversineNm(lat1: number, lon1: number, lat2: number, lon2: number): number {
@@ -74,6 +111,19 @@ export function bearingDeg(fromLat: number, fromLon: number, toLat: number, toLo
   return ((Math.atan2(y, x) / DEG) + 360) % 360
 }
 
+// Point reached travelling distNm from (lat, lon) along an initial bearing
+export function destinationPoint(lat: number, lon: number, bearing: number, distNm: number): [number, number] {
+  const d = distNm / 3440.065
+  const b = bearing * DEG
+  const la1 = lat * DEG
+  const la2 = Math.asin(Math.sin(la1) * Math.cos(d) + Math.cos(la1) * Math.sin(d) * Math.cos(b))
+  const lo2 = lon * DEG + Math.atan2(
+    Math.sin(b) * Math.sin(d) * Math.cos(la1),
+    Math.cos(d) - Math.sin(la1) * Math.sin(la2),
+  )
+  return [la2 / DEG, lo2 / DEG]
+}
+
 // ─── Wind model ───────────────────────────────────────────────────────────────
 
 // Radius of max winds in nm using Willoughby et al. (2006) regression
@@ -84,13 +134,18 @@ export function rmaxFromVmax(vmaxKt: number, lat: number): number {
 }
 
 // Smooth cosine² blending between quadrant radii
-// radii order: [NE, SE, SW, NW]; 0 = not reported
-export function quadrantInterp(bearing: number, radii: [number, number, number, number]): number {
+// radii order: [NE, SE, SW, NW]; 0 = not reported, unless `zeroIsReported` — then a 0
+// quadrant means "threshold not reached there" and pulls the blend toward zero
+export function quadrantInterp(
+  bearing: number,
+  radii: [number, number, number, number],
+  zeroIsReported = false,
+): number {
   const centers = [45, 135, 225, 315]
   let weighted = 0
   let total = 0
   for (let i = 0; i < 4; i++) {
-    if (radii[i] <= 0) continue
+    if (radii[i] <= 0 && !zeroIsReported) continue
     let delta = Math.abs(bearing - centers[i])
     if (delta > 180) delta = 360 - delta
     if (delta >= 90) continue
@@ -101,9 +156,19 @@ export function quadrantInterp(bearing: number, radii: [number, number, number,
   return total > 0 ? weighted / total : 0
 }
 
-// Modified Rankine vortex with per-quadrant outer decay exponent.
+// Outer exponent used beyond the outermost reported radius, and when none is reported
+const DEFAULT_OUTER_N = 0.6
+const MIN_OUTER_N = 0.3
+const MAX_OUTER_N = 2.0
+
+// Modified Rankine vortex with a piecewise power-law outer profile.
 // Inner: linear ramp 0→Vmax over [0, Rmax]
-// Outer: power law Vmax × (Rmax/r)^n, n fitted from available radii
+// Outer: anchors (Rmax, Vmax) → (r64, 64) → (r50, 50) → (r34, 34), each radius blended
+// per bearing from the quadrant values. Between consecutive anchors V = Vi × (ri/r)^ni
+// with ni fitted so the wind equals each NHC threshold exactly at its reported radius;
+// past the outermost anchor the last exponent continues (clamped to a sane range).
+// Fitting every radius keeps r34 asymmetry intact — a single exponent fitted to r50
+// makes the field circular when r50/r34 ratios match across quadrants.
 export function windSpeedKt(
   gridLat: number,
   gridLon: number,
@@ -112,32 +177,552 @@ export function windSpeedKt(
   vmaxKt: number,
   rmaxNm: number,
   r34: [number, number, number, number],
-  _r50: [number, number, number, number] | null,
-  _r64: [number, number, number, number] | null,
+  r50: [number, number, number, number] | null,
+  r64: [number, number, number, number] | null,
+): number {
+  const dist = haversineNm(gridLat, gridLon, cLat, cLon)
+  if (dist > 650) return 0
+  if (dist <= rmaxNm) return vmaxKt * (dist / rmaxNm)
+  return rankineOuterKt(dist, bearingDeg(cLat, cLon, gridLat, gridLon), vmaxKt, rmaxNm, r34, r50, r64)
+}
+
+function rankineOuterKt(
+  dist: number,
+  bearing: number,
+  vmaxKt: number,
+  rmaxNm: number,
+  r34: [number, number, number, number],
+  r50: [number, number, number, number] | null,
+  r64: [number, number, number, number] | null,
+): number {
+  let rIn = rmaxNm
+  let vIn = vmaxKt
+  let n = DEFAULT_OUTER_N
+  for (let i = 0; i < 3; i++) {
+    const radii = i === 0 ? r64 : i === 1 ? r50 : r34
+    const v = i === 0 ? 64 : i === 1 ? 50 : 34
+    // NHC reports 0 in quadrants the threshold doesn't reach
+    const r = radii ? quadrantInterp(bearing, radii, true) : 0
+    // Skip anchors that are unreported or inconsistent with the inner profile
+    if (r <= rIn || v >= vIn) continue
+
+    const nSeg = Math.log(vIn / v) / Math.log(r / rIn)
+    if (dist <= r) return vIn * Math.pow(rIn / dist, nSeg)
+    rIn = r
+    vIn = v
+    n = nSeg
+  }
+  n = Math.max(MIN_OUTER_N, Math.min(MAX_OUTER_N, n))
+
+  return Math.max(0, vIn * Math.pow(rIn / dist, n))
+}
+
+// ─── Wind profile models ──────────────────────────────────────────────────────
+// Radial profiles the field can be drawn with. Each takes the same storm parameters;
+// the pressure-based ones fall back to a wind–pressure relationship when the advisory
+// gives no central pressure (forecast hours never do).
+
+export type WindModelId = 'rankine' | 'holland1980' | 'holland2010' | 'willoughby2006'
+
+export interface VortexParams {
+  vmaxKt: number
+  rmaxNm: number
+  lat: number
+  r34: [number, number, number, number]
+  r50: [number, number, number, number] | null
+  r64: [number, number, number, number] | null
+  /** Central pressure (mb) */
+  pressureMb?: number | null
+  /** Environmental (outer closed isobar) pressure (mb) */
+  envPressureMb?: number
+}
+
+export interface WindProfileModel {
+  id: WindModelId
+  label: string
+  reference: string
+  /** Sustained wind (kt) at distNm from the centre along `bearing` (deg) */
+  profileKt(distNm: number, bearing: number, v: VortexParams): number
+}
+
+export const DEFAULT_ENV_PRESSURE_MB = 1010
+
+const KT_TO_MS = 0.514444
+const NM_TO_M = 1852
+const AIR_DENSITY = 1.15 // kg m⁻³, boundary layer
+
+// Atkinson & Holliday (1977): Vmax = 6.7 (1010 − Pc)^0.644, inverted for Pc
+export function pressureFromVmax(vmaxKt: number, envPressureMb = DEFAULT_ENV_PRESSURE_MB): number {
+  return envPressureMb - Math.pow(Math.max(vmaxKt, 1) / 6.7, 1 / 0.644)
+}
+
+function pressureDeficitPa(v: VortexParams): number {
+  const env = v.envPressureMb ?? DEFAULT_ENV_PRESSURE_MB
+  const pc = v.pressureMb && v.pressureMb > 0 ? v.pressureMb : pressureFromVmax(v.vmaxKt, env)
+  return Math.max(100, (env - pc) * 100)
+}
+
+// Holland B from Vmax and the pressure deficit (cyclostrophic limit), kept in the
+// physically observed range
+function hollandB(v: VortexParams, dpPa: number): number {
+  const vm = v.vmaxKt * KT_TO_MS
+  return Math.max(1, Math.min(2.5, (AIR_DENSITY * Math.E * vm * vm) / dpPa))
+}
+
+function coriolis(lat: number): number {
+  return 2 * 7.292e-5 * Math.sin(Math.abs(lat) * DEG)
+}
+
+export const RANKINE: WindProfileModel = {
+  id: 'rankine',
+  label: 'Modified Rankine',
+  reference: 'Piecewise power law fitted to NHC r64/r50/r34',
+  profileKt(dist, bearing, v) {
+    if (dist <= v.rmaxNm) return v.vmaxKt * (dist / v.rmaxNm)
+    return rankineOuterKt(dist, bearing, v.vmaxKt, v.rmaxNm, v.r34, v.r50, v.r64)
+  },
+}
+
+export const HOLLAND_1980: WindProfileModel = {
+  id: 'holland1980',
+  label: 'Holland 1980',
+  reference: 'Holland (1980), Mon. Wea. Rev. 108 — gradient wind from pressure profile',
+  profileKt(dist, _bearing, v) {
+    if (dist <= 0) return 0
+    const dp = pressureDeficitPa(v)
+    const B = hollandB(v, dp)
+    const r = dist * NM_TO_M
+    const x = Math.pow((v.rmaxNm * NM_TO_M) / r, B)
+    const rf2 = (r * coriolis(v.lat)) / 2
+    const vg = Math.sqrt((B / AIR_DENSITY) * dp * x * Math.exp(-x) + rf2 * rf2) - rf2
+    return Math.max(0, vg / KT_TO_MS)
+  },
+}
+
+export const HOLLAND_2010: WindProfileModel = {
+  id: 'holland2010',
+  label: 'Holland 2010',
+  reference: 'Holland, Belanger & Fritz (2010), Mon. Wea. Rev. 138 — outer exponent fitted to r34',
+  profileKt(dist, bearing, v) {
+    if (dist <= 0) return 0
+    const B = hollandB(v, pressureDeficitPa(v))
+    const shape = (d: number) => {
+      const x = Math.pow(v.rmaxNm / d, B)
+      return x * Math.exp(1 - x)
+    }
+    if (dist <= v.rmaxNm) return v.vmaxKt * Math.sqrt(shape(dist))
+
+    // x rises linearly from 0.5 at Rmax to xn at r34, with xn chosen so V(r34) = 34 kt
+    const rn = quadrantInterp(bearing, v.r34, true)
+    let xn = 0.5
+    if (rn > v.rmaxNm && v.vmaxKt > 34) {
+      xn = Math.max(0.1, Math.min(2, Math.log(34 / v.vmaxKt) / Math.log(shape(rn))))
+    }
+    const span = rn > v.rmaxNm ? rn - v.rmaxNm : 1
+    const xExp = Math.max(0.1, 0.5 + ((dist - v.rmaxNm) * (xn - 0.5)) / span)
+    return v.vmaxKt * Math.pow(shape(dist), xExp)
+  },
+}
+
+export const WILLOUGHBY_2006: WindProfileModel = {
+  id: 'willoughby2006',
+  label: 'Willoughby 2006',
+  reference: 'Willoughby, Darling & Rahn (2006), Mon. Wea. Rev. 134 — dual exponential',
+  profileKt(dist, _bearing, v) {
+    const vm = v.vmaxKt * KT_TO_MS
+    const rmKm = v.rmaxNm * 1.852
+    const lat = Math.abs(v.lat)
+    const lnRm = Math.log(Math.max(rmKm, 1))
+    const n = 2.1340 + 0.0077 * vm - 0.4522 * lnRm - 0.0038 * lat
+    if (dist <= v.rmaxNm) return v.vmaxKt * Math.pow(dist / v.rmaxNm, n)
+
+    const X1 = Math.max(1, 287.6 - 1.942 * vm + 7.799 * lnRm + 1.819 * lat)
+    const X2 = 25
+    const A = Math.max(0, Math.min(1, 0.5913 + 0.0029 * vm - 0.1361 * lnRm - 0.0042 * lat))
+    const rKm = dist * 1.852
+    return v.vmaxKt * ((1 - A) * Math.exp(-(rKm - rmKm) / X1) + A * Math.exp(-(rKm - rmKm) / X2))
+  },
+}
+
+export const WIND_MODELS: Record<WindModelId, WindProfileModel> = {
+  rankine: RANKINE,
+  holland1980: HOLLAND_1980,
+  holland2010: HOLLAND_2010,
+  willoughby2006: WILLOUGHBY_2006,
+}
+
+export function vortexFromForecast(fc: ForecastPoint, rmaxNm: number, envPressureMb?: number): VortexParams {
+  return {
+    vmaxKt: fc.vmax,
+    rmaxNm,
+    lat: fc.lat,
+    r34: fc.r34,
+    r50: fc.r50,
+    r64: fc.r64,
+    pressureMb: fc.pressureMb,
+    envPressureMb,
+  }
+}
+
+/**
+ * Wind (kt) at a grid point from the given profile model, 0 beyond the model's reach.
+ */
+export function modelWindKt(
+  model: WindProfileModel,
+  gridLat: number,
+  gridLon: number,
+  cLat: number,
+  cLon: number,
+  v: VortexParams,
 ): number {
   const dist = haversineNm(gridLat, gridLon, cLat, cLon)
   if (dist > 650) return 0
+  return model.profileKt(dist, bearingDeg(cLat, cLon, gridLat, gridLon), v)
+}
+
+// ─── Motion asymmetry, inflow & gusts ──────────────────────────────────────────
+// The profile models are axisymmetric speeds. The full surface wind adds:
+//  - inflow: the wind is turned toward the centre from the tangential direction, after
+//    Phadke et al. (2003) — 10° inside Rmax, rising to 25° by 1.2 Rmax, more over land;
+//  - motion: a fraction of the translation vector, scaled with the symmetric wind so it
+//    fades with radius (Jelesnianski-style). The symmetric Vmax is reduced by the same
+//    amount so the peak on the right of track still matches the advisory;
+//  - gusts: sustained wind × a gust factor, separate over water and over land.
+
+export interface StormMotion {
+  speedKt: number
+  /** Direction of travel (deg, toward) */
+  headingDeg: number
+}
+
+export interface GustFactors {
+  water: number
+  land: number
+}
+
+// 1-min sustained → peak gust; NHC advisories imply ~1.2 at sea, land roughness raises it
+export const DEFAULT_GUST_FACTORS: GustFactors = { water: 1.22, land: 1.4 }
+
+// Share of the translation speed added on the right of track at Rmax
+export const MOTION_ASYMMETRY_FACTOR = 0.55
+
+const LAND_INFLOW_EXTRA_DEG = 15
+
+export interface WindVector {
+  /** Sustained wind (kt), before land roughness */
+  speedKt: number
+  /** Meteorological direction the wind blows from (deg) */
+  directionDeg: number
+}
 
+export function motionFromForecast(fc: ForecastPoint): StormMotion | null {
+  return fc.stormSpeedKt && fc.stormHeadingDeg != null
+    ? { speedKt: fc.stormSpeedKt, headingDeg: fc.stormHeadingDeg }
+    : null
+}
+
+export function inflowAngleDeg(distNm: number, rmaxNm: number, overLand = false): number {
+  const x = distNm / rmaxNm
+  const base = x < 1 ? 10 : x < 1.2 ? 10 + 75 * (x - 1) : 25
+  return overLand ? base + LAND_INFLOW_EXTRA_DEG : base
+}
+
+/**
+ * Full surface wind vector at a grid point: the model's symmetric profile turned by the
+ * inflow angle plus the motion asymmetry. Speed is 0 beyond the model's reach.
+ */
+export function windVectorAt(
+  model: WindProfileModel,
+  gridLat: number,
+  gridLon: number,
+  cLat: number,
+  cLon: number,
+  v: VortexParams,
+  motion: StormMotion | null,
+  overLand = false,
+): WindVector {
+  const dist = haversineNm(gridLat, gridLon, cLat, cLon)
+  if (dist > 650 || dist === 0) return { speedKt: 0, directionDeg: 0 }
   const bearing = bearingDeg(cLat, cLon, gridLat, gridLon)
 
-  const q34 = quadrantInterp(bearing, r34)
+  const vt = motion ? Math.min(motion.speedKt * MOTION_ASYMMETRY_FACTOR, v.vmaxKt * 0.3) : 0
+  const sym = vt > 0 ? { ...v, vmaxKt: v.vmaxKt - vt } : v
+  const vs = model.profileKt(dist, bearing, sym)
+
+  // Cyclonic flow: counter-clockwise in the northern hemisphere, clockwise in the southern
+  const inflow = inflowAngleDeg(dist, v.rmaxNm, overLand)
+  const toward = (cLat >= 0 ? bearing - 90 - inflow : bearing + 90 + inflow) * DEG
+  let u = vs * Math.sin(toward)
+  let w = vs * Math.cos(toward)
+  if (motion && vt > 0 && sym.vmaxKt > 0) {
+    const scale = vt * Math.min(1, vs / sym.vmaxKt)
+    u += scale * Math.sin(motion.headingDeg * DEG)
+    w += scale * Math.cos(motion.headingDeg * DEG)
+  }
+
+  return {
+    speedKt: Math.hypot(u, w),
+    directionDeg: ((Math.atan2(u, w) / DEG) + 540) % 360,
+  }
+}
+
+/**
+ * Water gust factor implied by the advisory's gust/sustained pairs (median over the
+ * points that report both), or null if none do.
+ */
+export function advisoryGustFactor(points: ForecastPoint[]): number | null {
+  const ratios = points
+    .filter(p => p.gustKt && p.vmax > 0)
+    .map(p => p.gustKt! / p.vmax)
+    .sort((a, b) => a - b)
+  if (ratios.length === 0) return null
+  return Math.round(ratios[Math.floor(ratios.length / 2)] * 100) / 100
+}
+
+const COMPASS = ['N', 'NNE', 'NE', 'ENE', 'E', 'ESE', 'SE', 'SSE', 'S', 'SSW', 'SW', 'WSW', 'W', 'WNW', 'NW', 'NNW']
+
+export function compassPoint(deg: number): string {
+  return COMPASS[Math.round((((deg % 360) + 360) % 360) / 22.5) % 16]
+}
+
+// ─── Radii verification ───────────────────────────────────────────────────────
+// Compares the modelled field with the advisory's own wind radii along each quadrant
+// centre line (45°, 135°, 225°, 315°), over water (no roughness or decay).
+
+export const QUADRANTS = ['NE', 'SE', 'SW', 'NW'] as const
+export type Quadrant = typeof QUADRANTS[number]
+
+export const RADII_THRESHOLDS = [34, 50, 64] as const
+
+export interface RadiusCheck {
+  thresholdKt: typeof RADII_THRESHOLDS[number]
+  quadrant: Quadrant
+  /** NHC radius (nm); 0 = threshold not reached in this quadrant */
+  reportedNm: number
+  /** Outermost model radius (nm) at or above the threshold; 0 = never reached */
+  modelNm: number
+  /** Model wind at the reported radius minus the threshold (kt); null when not reported */
+  windErrorKt: number | null
+}
+
+/**
+ * Evaluate a profile model against every reported radius of a forecast point. Radii
+ * are searched outward in `stepNm` increments.
+ */
+export function verifyWindRadii(
+  fc: ForecastPoint,
+  model: WindProfileModel = RANKINE,
+  envPressureMb?: number,
+  stepNm = 1,
+): RadiusCheck[] {
+  const vortex = vortexFromForecast(fc, fc.rmw ?? rmaxFromVmax(fc.vmax, fc.lat), envPressureMb)
+  const windAt = (bearing: number, distNm: number) => {
+    const [lat, lon] = destinationPoint(fc.lat, fc.lon, bearing, distNm)
+    return modelWindKt(model, lat, lon, fc.lat, fc.lon, vortex)
+  }
+
+  const checks: RadiusCheck[] = []
+  for (const threshold of RADII_THRESHOLDS) {
+    const radii = threshold === 34 ? fc.r34 : threshold === 50 ? fc.r50 : fc.r64
+    QUADRANTS.forEach((quadrant, q) => {
+      const bearing = 45 + q * 90
+      const reportedNm = radii?.[q] ?? 0
+
+      let modelNm = 0
+      for (let d = stepNm; d <= 650; d += stepNm) {
+        if (windAt(bearing, d) >= threshold) modelNm = d
+      }
+
+      checks.push({
+        thresholdKt: threshold,
+        quadrant,
+        reportedNm,
+        modelNm,
+        windErrorKt: reportedNm > 0 ? windAt(bearing, reportedNm) - threshold : null,
+      })
+    })
+  }
+  return checks
+}
+
+/**
+ * Mean absolute radius error (nm) over the reported radii, or null if none were reported.
+ */
+export function meanRadiusErrorNm(checks: RadiusCheck[]): number | null {
+  const reported = checks.filter(c => c.reportedNm > 0)
+  if (reported.length === 0) return null
+  return reported.reduce((sum, c) => sum + Math.abs(c.modelNm - c.reportedNm), 0) / reported.length
+}
+
+// ─── Time interpolation ───────────────────────────────────────────────────────
+
+type Radii = [number, number, number, number]
+
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t
+}
+
+// Quadrant-wise blend; a missing set is treated as all-zero so radii grow/shrink in
+// rather than popping. An all-zero result means "not reported".
+function lerpRadii(a: Radii | null, b: Radii | null, t: number): Radii | null {
+  if (!a && !b) return null
+  const za = a ?? [0, 0, 0, 0]
+  const zb = b ?? [0, 0, 0, 0]
+  const out = za.map((v, i) => Math.round(lerp(v, zb[i], t))) as Radii
+  return out.some(v => v > 0) ? out : null
+}
 
-  // Fit n from r34 so wind = 34 kt exactly at the NHC-reported radius in each direction.
-  // Using r50 to fit n produces similar n values when r50/r34 ratios are equal across
-  // quadrants, which makes the field appear circular even when r34 values differ greatly.
-  let n: number
-  if (q34 > 0 && q34 > rmaxNm) {
-    n = Math.log(vmaxKt / 34) / Math.log(q34 / rmaxNm)
-  } else {
-    n = 0.6
+/**
+ * Storm state at an arbitrary forecast hour, linearly interpolated between the
+ * bracketing points (centre, Vmax, RMW and each quadrant radius). Hours outside the
+ * forecast clamp to the first/last point. Points must carry `forecastHour`.
+ */
+export function interpolateForecast(points: ForecastPoint[], hour: number): ForecastPoint {
+  const first = points[0]
+  const last = points[points.length - 1]
+  if (hour <= (first.forecastHour ?? 0)) return first
+  if (hour >= (last.forecastHour ?? 0)) return last
+
+  let i = 0
+  while (i < points.length - 2 && (points[i + 1].forecastHour ?? 0) <= hour) i++
+  const a = points[i]
+  const b = points[i + 1]
+  const h0 = a.forecastHour ?? 0
+  const h1 = b.forecastHour ?? 0
+  if (hour === h0) return a
+  const t = h1 > h0 ? (hour - h0) / (h1 - h0) : 0
+
+  const rmwA = a.rmw ?? rmaxFromVmax(a.vmax, a.lat)
+  const rmwB = b.rmw ?? rmaxFromVmax(b.vmax, b.lat)
+  // Count back from the later point: forecast hours are synoptic, the analysis time may not be
+  const validTime = b.validTime
+    ? new Date(Math.max(
+        a.validTime ? new Date(a.validTime).getTime() : -Infinity,
+        new Date(b.validTime).getTime() - (h1 - hour) * 3_600_000,
+      )).toISOString()
+    : undefined
+
+  return {
+    label: `+${hour}h${validTime ? `\n${validTime.slice(8, 10)}/${validTime.slice(11, 13)}Z` : ''}`,
+    lat: lerp(a.lat, b.lat, t),
+    lon: lerp(a.lon, b.lon, t),
+    vmax: Math.round(lerp(a.vmax, b.vmax, t)),
+    r34: lerpRadii(a.r34, b.r34, t) ?? [0, 0, 0, 0],
+    r50: lerpRadii(a.r50, b.r50, t),
+    r64: lerpRadii(a.r64, b.r64, t),
+    rmw: lerp(rmwA, rmwB, t),
+    pressureMb: a.pressureMb && b.pressureMb ? lerp(a.pressureMb, b.pressureMb, t) : null,
+    // Motion over the segment belongs to the point it ends at
+    stormSpeedKt: b.stormSpeedKt ?? a.stormSpeedKt,
+    stormHeadingDeg: b.stormHeadingDeg ?? a.stormHeadingDeg,
+    gustKt: a.gustKt && b.gustKt ? Math.round(lerp(a.gustKt, b.gustKt, t)) : undefined,
+    basin: t < 0.5 ? a.basin : b.basin,
+    inland: t < 0.5 ? a.inland : b.inland,
+    forecastHour: hour,
+    validTime,
   }
-  n = Math.max(0.3, Math.min(2.0, n))
+}
 
-  if (dist <= rmaxNm) {
-    return vmaxKt * (dist / rmaxNm)
+// ─── Landfall & decay ─────────────────────────────────────────────────────────
+
+export type LandTest = (lat: number, lon: number) => boolean
+
+// Landfalls on the Gulf of Mexico coast (incl. the Florida west coast and western Cuba)
+// use the Gulf α; everything else the Atlantic α
+export function kdBasinAt(lat: number, lon: number): KDBasin {
+  return lat >= 18 && lat <= 31.5 && lon >= -98 && lon <= -81 ? 'gulf' : 'atlantic'
+}
+
+// Find the coast crossing between a water and a land position by bisection (hours)
+function crossingHour(points: ForecastPoint[], waterHour: number, landHour: number, overLand: LandTest): number {
+  let lo = waterHour
+  let hi = landHour
+  for (let i = 0; i < 8; i++) {
+    const mid = (lo + hi) / 2
+    const p = interpolateForecast(points, mid)
+    if (overLand(p.lat, p.lon)) hi = mid
+    else lo = mid
   }
+  return hi
+}
 
-  return Math.max(0, vmaxKt * Math.pow(rmaxNm / dist, n))
+// Storm already inland at the first point: walk back against its motion to the coast and
+// convert that distance to time with the translation speed
+function hoursSinceLandfall(p: ForecastPoint, next: ForecastPoint | undefined, overLand: LandTest): number {
+  const heading = next ? bearingDeg(p.lat, p.lon, next.lat, next.lon) : 0
+  const speed = p.stormSpeedKt
+    ?? (next && next.forecastHour !== p.forecastHour
+      ? haversineNm(p.lat, p.lon, next.lat, next.lon) / ((next.forecastHour ?? 0) - (p.forecastHour ?? 0))
+      : 0)
+  if (speed <= 0) return 0
+  for (let d = 5; d <= 400; d += 5) {
+    const [lat, lon] = destinationPoint(p.lat, p.lon, (heading + 180) % 360, d)
+    if (!overLand(lat, lon)) return d / speed
+  }
+  return 400 / speed
+}
+
+/**
+ * Resample the track hourly and apply Kaplan–DeMaria decay to Vmax while the centre
+ * is over land. Landfall is where the interpolated track crosses into `overLand`; the
+ * α coefficient comes from the landfall location, and decay restarts after the storm
+ * re-emerges over water. The advisory's own Vmax is kept when it is already lower.
+ * Returned points carry forecastHour, inland, hoursInland and basin.
+ */
+export function applyLandfallDecay(points: ForecastPoint[], overLand: LandTest, stepHours = 1): ForecastPoint[] {
+  if (points.length === 0) return points
+  const start = points[0].forecastHour ?? 0
+  const end = points[points.length - 1].forecastHour ?? 0
+
+  // Node hours are kept exactly so forecast-point tabs line up with the resampled track
+  const hours = new Set<number>(points.map(p => p.forecastHour ?? 0))
+  for (let h = start; h <= end; h += stepHours) hours.add(h)
+  const timeline = Array.from(hours).sort((a, b) => a - b)
+
+  const out: ForecastPoint[] = []
+  let landfall: { hour: number; v0: number; basin: KDBasin } | null = null
+  let prevHour = start
+
+  for (const hour of timeline) {
+    const p = interpolateForecast(points, hour)
+    const onLand = overLand(p.lat, p.lon)
+
+    if (!onLand) {
+      landfall = null
+      out.push({ ...p, inland: undefined, hoursInland: undefined })
+      prevHour = hour
+      continue
+    }
+
+    if (!landfall) {
+      if (hour === start) {
+        // Current intensity already reflects the time inland; back out the landfall Vmax
+        const since = hoursSinceLandfall(p, points[1], overLand)
+        const basin = p.basin ?? kdBasinAt(p.lat, p.lon)
+        const alpha = basin === 'gulf' ? KD_ALPHA_GULF : KD_ALPHA_ATLANTIC
+        const v0 = p.vmax > KD_VB_KT ? KD_VB_KT + (p.vmax - KD_VB_KT) * Math.exp(alpha * since) : p.vmax
+        landfall = { hour: hour - since, v0, basin }
+      } else {
+        const tl = crossingHour(points, prevHour, hour, overLand)
+        const atLandfall = interpolateForecast(points, tl)
+        landfall = { hour: tl, v0: atLandfall.vmax, basin: kdBasinAt(atLandfall.lat, atLandfall.lon) }
+      }
+    }
+
+    const hoursInland = hour - landfall.hour
+    const vmax = Math.round(Math.min(p.vmax, kaplanDeMariaVmax(landfall.v0, hoursInland, landfall.basin)))
+    out.push({
+      ...p,
+      vmax,
+      // Keep the advisory's gust ratio as the sustained wind decays
+      gustKt: p.gustKt && p.vmax > 0 ? Math.round(p.gustKt * vmax / p.vmax) : p.gustKt,
+      inland: true,
+      hoursInland,
+      basin: landfall.basin,
+    })
+    prevHour = hour
+  }
+  return out
 }
 
 // ─── Color mapping ────────────────────────────────────────────────────────────
@@ -0,0 +1,139 @@
+// Wind flow overlay helpers
+// Screen-space sampling of a rendered wind grid for wind barbs and streamline particles.
+// The grid is Mercator-regular, so its cells map linearly onto container pixels, and
+// Mercator being conformal, the wind direction carries over to the screen unchanged.
+
+import type { WindGrid } from './windGrid'
+
+const DEG = Math.PI / 180
+
+// Below this the flow is not drawn (matches the raster's cut-off)
+export const FLOW_MIN_KT = 16
+
+// Container-pixel position of the grid's north-west and south-east corners
+export interface ScreenRect {
+  x0: number
+  y0: number
+  x1: number
+  y1: number
+}
+
+export interface ScreenWind {
+  speedKt: number
+  /** Unit vector the wind blows toward, screen axes (y down) */
+  dx: number
+  dy: number
+}
+
+// ─── Sampling ─────────────────────────────────────────────────────────────────
+
+/**
+ * Bilinearly interpolated wind at a container pixel, or null outside the grid. The
+ * components are blended rather than the direction so the flow turns smoothly.
+ */
+export function sampleScreenWind(grid: WindGrid, rect: ScreenRect, x: number, y: number): ScreenWind | null {
+  const fc = ((x - rect.x0) / (rect.x1 - rect.x0)) * grid.cols - 0.5
+  const fr = ((y - rect.y0) / (rect.y1 - rect.y0)) * grid.rows - 0.5
+  if (fc < -0.5 || fr < -0.5 || fc > grid.cols - 0.5 || fr > grid.rows - 0.5) return null
+
+  const c0 = Math.max(0, Math.min(grid.cols - 1, Math.floor(fc)))
+  const r0 = Math.max(0, Math.min(grid.rows - 1, Math.floor(fr)))
+  const c1 = Math.min(grid.cols - 1, c0 + 1)
+  const r1 = Math.min(grid.rows - 1, r0 + 1)
+  const tc = Math.max(0, Math.min(1, fc - c0))
+  const tr = Math.max(0, Math.min(1, fr - r0))
+
+  let u = 0
+  let v = 0
+  let speed = 0
+  const corners: [number, number, number][] = [
+    [r0, c0, (1 - tr) * (1 - tc)],
+    [r0, c1, (1 - tr) * tc],
+    [r1, c0, tr * (1 - tc)],
+    [r1, c1, tr * tc],
+  ]
+  for (const [r, c, w] of corners) {
+    const i = r * grid.cols + c
+    const s = grid.speed[i]
+    // Direction is "from"; flip to the heading the air moves toward
+    const toward = (grid.direction[i] + 180) * DEG
+    u += w * s * Math.sin(toward)
+    v += w * s * Math.cos(toward)
+    speed += w * s
+  }
+
+  const mag = Math.hypot(u, v)
+  if (mag === 0) return { speedKt: 0, dx: 0, dy: 0 }
+  return { speedKt: speed, dx: u / mag, dy: -v / mag }
+}
+
+// ─── Density ──────────────────────────────────────────────────────────────────
+
+// Pixel spacing between barbs: tight when zoomed out (the storm is small on screen),
+// looser when zoomed in so the glyphs stay legible
+export function flowSpacingPx(zoom: number): number {
+  return Math.max(26, Math.min(56, 26 + (zoom - 4) * 7))
+}
+
+// Particle population for a viewport, scaled with the barb spacing
+export function particleCount(width: number, height: number, zoom: number): number {
+  const spacing = flowSpacingPx(zoom) / 2.5
+  return Math.min(4000, Math.round((width * height) / (spacing * spacing)))
+}
+
+// ─── Barbs ────────────────────────────────────────────────────────────────────
+
+export interface BarbFeathers {
+  /** 50 kt flags */
+  pennants: number
+  /** 10 kt barbs */
+  full: number
+  /** 5 kt half barbs */
+  half: number
+}
+
+// Standard barb glyph for a speed rounded to the nearest 5 kt
+export function barbFeathers(speedKt: number): BarbFeathers {
+  let rest = Math.round(speedKt / 5) * 5
+  const pennants = Math.floor(rest / 50)
+  rest -= pennants * 50
+  const full = Math.floor(rest / 10)
+  rest -= full * 10
+  return { pennants, full, half: rest >= 5 ? 1 : 0 }
+}
+
+// ─── Particles ────────────────────────────────────────────────────────────────
+
+export interface FlowParticle {
+  x: number
+  y: number
+  age: number
+  /** Frames before the particle is respawned */
+  life: number
+}
+
+const MAX_LIFE = 90
+const SPAWN_TRIES = 6
+
+/**
+ * Place a particle at a random point, preferring spots with drawable wind, and give it
+ * a staggered lifetime so respawns don't happen in waves.
+ */
+export function respawnParticle(
+  p: FlowParticle,
+  width: number,
+  height: number,
+  windAt: (x: number, y: number) => ScreenWind | null,
+): void {
+  for (let i = 0; i < SPAWN_TRIES; i++) {
+    p.x = Math.random() * width
+    p.y = Math.random() * height
+    const w = windAt(p.x, p.y)
+    if (w && w.speedKt >= FLOW_MIN_KT) break
+  }
+  p.age = 0
+  p.life = MAX_LIFE / 3 + Math.random() * (MAX_LIFE * 2 / 3)
+}
+
+// Screen pixels travelled per frame per knot
+export const PARTICLE_PX_PER_KT = 0.035
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import type { ForecastPoint } from './windField'
+import { computeWindSwath, sampleWindSwath, swathView } from './windGrid'
+
+const point = (forecastHour: number, lat: number, lon: number, vmax: number): ForecastPoint => ({
+  label: `+${forecastHour}h`, lat, lon, vmax, rmw: 15, forecastHour,
+  r34: [120, 120, 120, 120], r50: [60, 60, 60, 60], r64: [30, 30, 30, 30],
+})
+
+// Due west along 25°N at 15° of longitude a day
+const track = [point(0, 25, -70, 100), point(12, 25, -77.5, 100), point(24, 25, -85, 100)]
+
+describe('swathView', () => {
+  it('pads the track by the wind model reach', () => {
+    const view = swathView(track, 0.25)
+    expect(view.south).toBeCloseTo(25 - 650 / 60, 6)
+    expect(view.north).toBeCloseTo(25 + 650 / 60, 6)
+    expect(view.west).toBeLessThan(-85 - 650 / 60)
+    expect(view.east).toBeGreaterThan(-70 + 650 / 60)
+    expect(view.cols).toBe(Math.ceil((view.east - view.west) / 0.25))
+  })
+})
+
+describe('computeWindSwath', () => {
+  const swath = computeWindSwath(track, swathView(track, 0.25), null, 1, 'rankine', undefined, false)
+  const at = (lat: number, lon: number) => sampleWindSwath(swath, lat, lon)!
+
+  it('keeps the peak wind along the whole track', () => {
+    expect(swath).toMatchObject({ startHour: 0, endHour: 24, stepHours: 1 })
+    for (const lon of [-72, -77.5, -83]) {
+      expect(at(25.2, lon).maxWind).toBeGreaterThan(64)
+    }
+    // Beyond r34 north of the track
+    expect(at(28, -77.5).maxWind).toBeLessThan(34)
+  })
+
+  it('records the first hour each threshold is reached, in track order', () => {
+    const east = at(25.2, -72).arrival
+    const west = at(25.2, -83).arrival
+    expect(east.every(h => h !== null)).toBe(true)
+    expect(west[2]!).toBeGreaterThan(east[2]!)
+    // Tropical-storm winds arrive before hurricane-force winds
+    expect(west[0]!).toBeLessThan(west[2]!)
+    expect(at(28, -77.5).arrival).toEqual([null, null, null])
+  })
+
+  it('counts the hours spent above each threshold', () => {
+    const [d34, d50, d64] = at(25.2, -77.5).duration
+    expect(d34).toBeGreaterThan(d50)
+    expect(d50).toBeGreaterThan(d64)
+    // r34 is 240 nm across; at about 34 kt the storm takes roughly 7 h to pass
+    expect(d34).toBeGreaterThanOrEqual(5)
+    expect(d34).toBeLessThanOrEqual(8)
+  })
+
+  it('returns null outside the domain', () => {
+    expect(sampleWindSwath(swath, 45, -77.5)).toBeNull()
+  })
+})
@@ -0,0 +1,341 @@
+// Gridded wind field on a Web Mercator-regular lattice
+// Cells are evenly spaced in projected (screen) space so the raster can be stretched
+// over the viewport as a single image overlay without per-cell reprojection.
+
+import {
+  windToRGBA,
+  interpolateForecast,
+  rmaxFromVmax,
+  windVectorAt,
+  vortexFromForecast,
+  motionFromForecast,
+  LAND_ROUGHNESS_FACTOR,
+  DEFAULT_GUST_FACTORS,
+  WIND_MODELS,
+  type ForecastPoint,
+  type WindModelId,
+  type GustFactors,
+} from './windField'
+import { isLand, type LandMask } from './landMask'
+
+const DEG = Math.PI / 180
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+// Geographic extent + resolution of a grid; rows run north → south, cols west → east
+export interface WindGridView {
+  south: number
+  west: number
+  north: number
+  east: number
+  rows: number
+  cols: number
+}
+
+export interface WindGrid extends WindGridView {
+  /** Sustained wind (kt) per cell, row-major, land roughness applied */
+  speed: Float32Array
+  /** Peak gust (kt) per cell */
+  gust: Float32Array
+  /** Direction the wind blows from (deg) per cell */
+  direction: Float32Array
+  /** Same field from the comparison model, when a difference view was requested */
+  compare?: Float32Array
+}
+
+// What to draw: storm state plus the profile model(s) to evaluate it with
+export interface WindFieldSpec {
+  fc: ForecastPoint
+  rmaxNm: number
+  model: WindModelId
+  /** Second model for a difference view (speed − compare) */
+  compareModel?: WindModelId | null
+  envPressureMb?: number
+  /** Add the storm-motion asymmetry (default true) */
+  asymmetry?: boolean
+  gustFactors?: GustFactors
+}
+
+// ─── Projection ───────────────────────────────────────────────────────────────
+
+function mercY(lat: number): number {
+  return Math.log(Math.tan(Math.PI / 4 + (lat * DEG) / 2))
+}
+
+function invMercY(y: number): number {
+  return (2 * Math.atan(Math.exp(y)) - Math.PI / 2) / DEG
+}
+
+// Latitude at the centre of each row
+export function rowLatitudes(view: WindGridView): Float64Array {
+  const yN = mercY(view.north)
+  const dy = (yN - mercY(view.south)) / view.rows
+  const lats = new Float64Array(view.rows)
+  for (let r = 0; r < view.rows; r++) lats[r] = invMercY(yN - (r + 0.5) * dy)
+  return lats
+}
+
+// ─── Compute ──────────────────────────────────────────────────────────────────
+
+/**
+ * Evaluate the wind model over rows [rowStart, rowEnd) of the grid, writing speed, gust
+ * and direction. Split into row ranges so a worker can yield between chunks and honour cancellation.
+ */
+export function fillWindGridRows(
+  grid: WindGrid,
+  spec: WindFieldSpec,
+  mask: LandMask | null,
+  rowStart: number,
+  rowEnd: number,
+  lats: Float64Array = rowLatitudes(grid),
+): void {
+  const { fc } = spec
+  const vortex = vortexFromForecast(fc, spec.rmaxNm, spec.envPressureMb)
+  const model = WIND_MODELS[spec.model]
+  const compareModel = spec.compareModel && grid.compare ? WIND_MODELS[spec.compareModel] : null
+  const motion = spec.asymmetry === false ? null : motionFromForecast(fc)
+  const gusts = spec.gustFactors ?? DEFAULT_GUST_FACTORS
+  const dLon = (grid.east - grid.west) / grid.cols
+  for (let r = rowStart; r < Math.min(rowEnd, grid.rows); r++) {
+    const lat = lats[r]
+    const offset = r * grid.cols
+    for (let c = 0; c < grid.cols; c++) {
+      const lon = grid.west + (c + 0.5) * dLon
+      const land = mask !== null && isLand(lat, lon, mask)
+      const wind = windVectorAt(model, lat, lon, fc.lat, fc.lon, vortex, motion, land)
+      const kt = land ? wind.speedKt * LAND_ROUGHNESS_FACTOR : wind.speedKt
+      grid.speed[offset + c] = kt
+      grid.gust[offset + c] = kt * (land ? gusts.land : gusts.water)
+      grid.direction[offset + c] = wind.directionDeg
+      if (compareModel) {
+        const kt2 = windVectorAt(compareModel, lat, lon, fc.lat, fc.lon, vortex, motion, land).speedKt
+        grid.compare![offset + c] = land ? kt2 * LAND_ROUGHNESS_FACTOR : kt2
+      }
+    }
+  }
+}
+
+export function createWindGrid(view: WindGridView, withCompare = false): WindGrid {
+  const n = view.rows * view.cols
+  return {
+    ...view,
+    speed: new Float32Array(n),
+    gust: new Float32Array(n),
+    direction: new Float32Array(n),
+    ...(withCompare ? { compare: new Float32Array(n) } : {}),
+  }
+}
+
+// ─── Render / query ───────────────────────────────────────────────────────────
+
+/**
+ * Colour per-cell wind speeds into RGBA bytes ready for `new ImageData(rgba, cols, rows)`.
+ */
+export function colorizeWindSpeeds(speed: Float32Array): Uint8ClampedArray {
+  const rgba = new Uint8ClampedArray(speed.length * 4)
+  for (let i = 0; i < speed.length; i++) {
+    const kt = speed[i]
+    if (kt < 16) continue
+    const [r, g, b, a] = windToRGBA(kt)
+    const o = i * 4
+    rgba[o] = r
+    rgba[o + 1] = g
+    rgba[o + 2] = b
+    rgba[o + 3] = a
+  }
+  return rgba
+}
+
+// Diverging palette for model differences: blue where the primary model is weaker,
+// red where it is stronger; saturates at ±DIFF_RANGE_KT
+export const DIFF_RANGE_KT = 30
+
+export function diffToRGBA(diffKt: number): [number, number, number, number] {
+  const t = Math.max(-1, Math.min(1, diffKt / DIFF_RANGE_KT))
+  const a = Math.round(Math.min(1, Math.abs(t) * 1.5) * 210)
+  return t >= 0
+    ? [255, Math.round(235 - 185 * t), Math.round(60 - 60 * t), a]
+    : [Math.round(60 + 60 * t), Math.round(170 + 50 * t), 255, a]
+}
+
+export function colorizeWindDiff(grid: WindGrid): Uint8ClampedArray {
+  const rgba = new Uint8ClampedArray(grid.speed.length * 4)
+  if (!grid.compare) return rgba
+  for (let i = 0; i < grid.speed.length; i++) {
+    // Ignore cells where neither model has meaningful wind
+    if (grid.speed[i] < 16 && grid.compare[i] < 16) continue
+    const d = grid.speed[i] - grid.compare[i]
+    if (Math.abs(d) < 1) continue
+    const [r, g, b, a] = diffToRGBA(d)
+    const o = i * 4
+    rgba[o] = r
+    rgba[o + 1] = g
+    rgba[o + 2] = b
+    rgba[o + 3] = a
+  }
+  return rgba
+}
+
+export function colorizeWindGrid(grid: WindGrid): Uint8ClampedArray {
+  return grid.compare ? colorizeWindDiff(grid) : colorizeWindSpeeds(grid.speed)
+}
+
+// Row-major index of the cell containing a point, or -1 outside the grid
+export function gridCellIndex(view: WindGridView, lat: number, lon: number): number {
+  if (lat < view.south || lat > view.north || lon < view.west || lon > view.east) return -1
+  const yN = mercY(view.north)
+  const r = Math.floor(((yN - mercY(lat)) / (yN - mercY(view.south))) * view.rows)
+  const c = Math.floor(((lon - view.west) / (view.east - view.west)) * view.cols)
+  if (r < 0 || r >= view.rows || c < 0 || c >= view.cols) return -1
+  return r * view.cols + c
+}
+
+/**
+ * Wind speed (kt) of the cell containing a point, or null when it falls outside the grid.
+ */
+export function sampleWindGrid(grid: WindGrid, lat: number, lon: number): number | null {
+  const i = gridCellIndex(grid, lat, lon)
+  return i < 0 ? null : grid.speed[i]
+}
+
+export interface WindSample {
+  speedKt: number
+  gustKt: number
+  directionDeg: number
+}
+
+// Sustained, gust and direction of the cell containing a point
+export function sampleWindGridVector(grid: WindGrid, lat: number, lon: number): WindSample | null {
+  const i = gridCellIndex(grid, lat, lon)
+  return i < 0 ? null : { speedKt: grid.speed[i], gustKt: grid.gust[i], directionDeg: grid.direction[i] }
+}
+
+// Primary and comparison model winds at a point (difference view)
+export function sampleWindGridPair(grid: WindGrid, lat: number, lon: number): [number, number] | null {
+  const i = gridCellIndex(grid, lat, lon)
+  return i < 0 || !grid.compare ? null : [grid.speed[i], grid.compare[i]]
+}
+
+// ─── Maximum wind swath ───────────────────────────────────────────────────────
+// Sweeps the interpolated storm along its forecast track and keeps, per cell, the
+// peak sustained wind plus first arrival and time spent above 34/50/64 kt.
+
+export const SWATH_THRESHOLDS = [34, 50, 64] as const
+
+type PerThreshold<T> = [T, T, T]
+
+export interface WindSwath extends WindGridView {
+  startHour: number
+  endHour: number
+  stepHours: number
+  /** Peak sustained wind (kt) over the forecast, land roughness applied */
+  maxWind: Float32Array
+  /** Forecast hour each threshold is first reached (NaN = never); order of SWATH_THRESHOLDS */
+  arrival: PerThreshold<Float32Array>
+  /** Hours at or above each threshold: the steps between consecutive samples that both reach it */
+  duration: PerThreshold<Float32Array>
+}
+
+export interface SwathSample {
+  maxWind: number
+  arrival: PerThreshold<number | null>
+  duration: PerThreshold<number>
+}
+
+// Winds never reach 16 kt beyond this (see windVectorAt cut-off)
+const SWATH_REACH_NM = 650
+
+/**
+ * Swath domain: the forecast track padded by the model's reach, at `resDeg` longitude
+ * spacing with Mercator rows of matching on-screen height.
+ */
+export function swathView(points: ForecastPoint[], resDeg = 0.1): WindGridView {
+  const padLat = SWATH_REACH_NM / 60
+  const lats = points.map(p => p.lat)
+  const south = Math.max(-80, Math.min(...lats) - padLat)
+  const north = Math.min(80, Math.max(...lats) + padLat)
+  const padLon = padLat / Math.cos(Math.max(Math.abs(south), Math.abs(north)) * DEG)
+  const west = Math.min(...points.map(p => p.lon)) - padLon
+  const east = Math.max(...points.map(p => p.lon)) + padLon
+  return {
+    south, west, north, east,
+    cols: Math.ceil((east - west) / resDeg),
+    rows: Math.ceil((mercY(north) - mercY(south)) / (resDeg * DEG)),
+  }
+}
+
+export function computeWindSwath(
+  points: ForecastPoint[],
+  view: WindGridView,
+  mask: LandMask | null,
+  stepHours = 1,
+  modelId: WindModelId = 'rankine',
+  envPressureMb?: number,
+  asymmetry = true,
+): WindSwath {
+  const model = WIND_MODELS[modelId]
+  const n = view.rows * view.cols
+  const maxWind = new Float32Array(n)
+  const arrival: PerThreshold<Float32Array> = [
+    new Float32Array(n).fill(NaN), new Float32Array(n).fill(NaN), new Float32Array(n).fill(NaN),
+  ]
+  const duration: PerThreshold<Float32Array> = [new Float32Array(n), new Float32Array(n), new Float32Array(n)]
+  // Index of the last sample each cell reached each threshold at (-1 = not yet)
+  const lastReached: PerThreshold<Int32Array> = [
+    new Int32Array(n).fill(-1), new Int32Array(n).fill(-1), new Int32Array(n).fill(-1),
+  ]
+
+  const startHour = points[0].forecastHour ?? 0
+  const endHour = points[points.length - 1].forecastHour ?? 0
+  const lats = rowLatitudes(view)
+  const dLon = (view.east - view.west) / view.cols
+  const yN = mercY(view.north)
+  const dy = (yN - mercY(view.south)) / view.rows
+  const reachLat = SWATH_REACH_NM / 60
+
+  for (let step = 0, hour = startHour; hour <= endHour; step++, hour += stepHours) {
+    const fc = interpolateForecast(points, hour)
+    const vortex = vortexFromForecast(fc, fc.rmw ?? rmaxFromVmax(fc.vmax, fc.lat), envPressureMb)
+    const motion = asymmetry ? motionFromForecast(fc) : null
+    const reachLon = reachLat / Math.max(0.1, Math.cos(Math.min(89, Math.abs(fc.lat) + reachLat) * DEG))
+
+    // Only visit cells the storm can reach at this step
+    const r0 = Math.max(0, Math.floor((yN - mercY(Math.min(85, fc.lat + reachLat))) / dy))
+    const r1 = Math.min(view.rows - 1, Math.ceil((yN - mercY(Math.max(-85, fc.lat - reachLat))) / dy))
+    const c0 = Math.max(0, Math.floor((fc.lon - reachLon - view.west) / dLon))
+    const c1 = Math.min(view.cols - 1, Math.ceil((fc.lon + reachLon - view.west) / dLon))
+
+    for (let r = r0; r <= r1; r++) {
+      const lat = lats[r]
+      for (let c = c0; c <= c1; c++) {
+        const lon = view.west + (c + 0.5) * dLon
+        const land = mask !== null && isLand(lat, lon, mask)
+        let kt = windVectorAt(model, lat, lon, fc.lat, fc.lon, vortex, motion, land).speedKt
+        if (kt <= 0) continue
+        if (land) kt *= LAND_ROUGHNESS_FACTOR
+
+        const i = r * view.cols + c
+        if (kt > maxWind[i]) maxWind[i] = kt
+        for (let t = 0; t < SWATH_THRESHOLDS.length; t++) {
+          if (kt < SWATH_THRESHOLDS[t]) break
+          if (isNaN(arrival[t][i])) arrival[t][i] = hour
+          if (step > 0 && lastReached[t][i] === step - 1) duration[t][i] += stepHours
+          lastReached[t][i] = step
+        }
+      }
+    }
+  }
+
+  return { ...view, startHour, endHour, stepHours, maxWind, arrival, duration }
+}
+
+export function sampleWindSwath(swath: WindSwath, lat: number, lon: number): SwathSample | null {
+  const i = gridCellIndex(swath, lat, lon)
+  if (i < 0) return null
+  const arrivalAt = (t: number) => isNaN(swath.arrival[t][i]) ? null : swath.arrival[t][i]
+  return {
+    maxWind: swath.maxWind[i],
+    arrival: [arrivalAt(0), arrivalAt(1), arrivalAt(2)],
+    duration: [swath.duration[0][i], swath.duration[1][i], swath.duration[2][i]],
+  }
+}
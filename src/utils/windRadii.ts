@@ -0,0 +1,123 @@
+// NHC published wind radii vs the parametric wind field
+// The Lambda's wind-radii product carries NHC's quadrant-shaped 34/50/64-kt polygons for
+// the initial wind extent and each forecast hour. Each hour is compared with the radii a
+// profile model from windField.ts reaches when run from the forecast advisory's point for
+// that hour, so the tracker can show where the model and NHC disagree.
+
+import type { QuadrantRadii, WindRadiiFeature } from '../types/nhc'
+import {
+  bearingDeg, destinationPoint, haversineNm, verifyWindRadii, QUADRANTS, RADII_THRESHOLDS,
+  type ForecastPoint, type WindProfileModel,
+} from './windField'
+
+export type RadiiThreshold = typeof RADII_THRESHOLDS[number]
+
+// Only vertices within this many degrees of a quadrant's centre line measure its radius
+const QUADRANT_EDGE_DEG = 40
+
+/**
+ * NHC radius (nm) per quadrant (NE, SE, SW, NW) of one polygon: the shapefile attributes
+ * when present, otherwise the distance of the vertex closest in bearing to each quadrant's
+ * centre line (vertices near the quadrant edges belong to the radial joins).
+ */
+export function publishedRadii(feature: WindRadiiFeature, centre: [number, number]): QuadrantRadii {
+  if (feature.properties.radii) return feature.properties.radii
+  const radii: QuadrantRadii = [0, 0, 0, 0]
+  const offsets = [QUADRANT_EDGE_DEG, QUADRANT_EDGE_DEG, QUADRANT_EDGE_DEG, QUADRANT_EDGE_DEG]
+  for (const [lon, lat] of feature.geometry.coordinates[0] ?? []) {
+    const distance = haversineNm(centre[0], centre[1], lat, lon)
+    if (distance < 1) continue
+    const bearing = bearingDeg(centre[0], centre[1], lat, lon)
+    const q = Math.min(3, Math.floor(bearing / 90))
+    const offset = Math.abs(bearing - (q * 90 + 45))
+    if (offset < offsets[q]) {
+      offsets[q] = offset
+      radii[q] = Math.round(distance)
+    }
+  }
+  return radii
+}
+
+/**
+ * Outline [lat, lon] of quadrant radii drawn the way NHC does: a 90° arc per quadrant,
+ * with the arcs joined radially where neighbouring quadrants differ.
+ */
+export function quadrantOutline(lat: number, lon: number, radii: QuadrantRadii, stepDeg = 5): [number, number][] {
+  const outline: [number, number][] = []
+  radii.forEach((r, q) => {
+    if (r <= 0) {
+      outline.push([lat, lon])
+      return
+    }
+    for (let b = q * 90; b <= (q + 1) * 90; b += stepDeg) outline.push(destinationPoint(lat, lon, b, r))
+  })
+  return outline
+}
+
+export interface ThresholdComparison {
+  thresholdKt: RadiiThreshold
+  nhc: QuadrantRadii
+  model: QuadrantRadii
+}
+
+export interface HourComparison {
+  forecastHour: number
+  validTime: string | null
+  /** Storm centre of the advisory point the model ran from */
+  centre: [number, number]
+  thresholds: ThresholdComparison[]
+  /** Mean |model − NHC| (nm) over the quadrants either one reaches; null when neither does */
+  meanErrorNm: number | null
+}
+
+// The advisory point a radii polygon belongs to: same forecast hour, or same valid time
+// when the KML carried no hour
+function pointFor(feature: WindRadiiFeature, points: ForecastPoint[]): ForecastPoint | undefined {
+  const { forecastHour, validTime } = feature.properties
+  if (forecastHour != null) return points.find(p => p.forecastHour === forecastHour)
+  if (validTime) return points.find(p => p.validTime && Date.parse(p.validTime) === Date.parse(validTime))
+  return undefined
+}
+
+/**
+ * Compare NHC's radii with the model's, hour by hour. Hours the advisory has no point
+ * for are skipped.
+ */
+export function compareWindRadii(
+  features: WindRadiiFeature[],
+  points: ForecastPoint[],
+  model: WindProfileModel,
+): HourComparison[] {
+  const byPoint = new Map<ForecastPoint, WindRadiiFeature[]>()
+  for (const f of features) {
+    const point = pointFor(f, points)
+    if (point) byPoint.set(point, [...(byPoint.get(point) ?? []), f])
+  }
+
+  return [...byPoint.entries()]
+    .map(([point, polygons]) => {
+      const centre: [number, number] = [point.lat, point.lon]
+      const checks = verifyWindRadii(point, model)
+      const thresholds = RADII_THRESHOLDS.map(kt => {
+        const nhc: QuadrantRadii = [0, 0, 0, 0]
+        for (const f of polygons.filter(f => f.properties.thresholdKt === kt)) {
+          publishedRadii(f, centre).forEach((r, q) => { nhc[q] = Math.max(nhc[q], r) })
+        }
+        const model = QUADRANTS.map(q => checks.find(c => c.thresholdKt === kt && c.quadrant === q)?.modelNm ?? 0) as QuadrantRadii
+        return { thresholdKt: kt, nhc, model }
+      }).filter(t => t.nhc.some(r => r > 0) || t.model.some(r => r > 0))
+
+      const errors = thresholds.flatMap(t => t.nhc
+        .map((r, q) => (r > 0 || t.model[q] > 0 ? Math.abs(t.model[q] - r) : null))
+        .filter((e): e is number => e !== null))
+
+      return {
+        forecastHour: point.forecastHour ?? 0,
+        validTime: point.validTime ?? null,
+        centre,
+        thresholds,
+        meanErrorNm: errors.length > 0 ? errors.reduce((a, b) => a + b, 0) / errors.length : null,
+      }
+    })
+    .sort((a, b) => a.forecastHour - b.forecastHour)
+}
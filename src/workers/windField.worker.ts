@@ -0,0 +1,146 @@
+// Wind field rasterization worker
+// Computes the gridded wind field off the main thread in coarse → fine passes and
+// posts each pass back as transferable typed arrays. A newer render (or an explicit
+// cancel) supersedes any job still in progress. Also builds the max wind swath.
+
+import type { ForecastPoint, WindModelId } from '../utils/windField'
+import type { LandMask } from '../utils/landMask'
+import {
+  createWindGrid,
+  fillWindGridRows,
+  colorizeWindGrid,
+  colorizeWindSpeeds,
+  rowLatitudes,
+  swathView,
+  computeWindSwath,
+  type WindGrid,
+  type WindSwath,
+  type WindFieldSpec,
+} from '../utils/windGrid'
+
+// ─── Protocol ─────────────────────────────────────────────────────────────────
+
+export interface WindRenderJob extends WindFieldSpec {
+  type: 'render'
+  id: number
+  bounds: { south: number; west: number; north: number; east: number }
+  /** Viewport size in CSS pixels */
+  width: number
+  height: number
+  /** Cell size in pixels for each pass, coarsest first */
+  passes: number[]
+}
+
+export interface WindSwathJob {
+  type: 'swath'
+  id: number
+  /** Forecast points carrying forecastHour, in time order */
+  points: ForecastPoint[]
+  stepHours: number
+  model: WindModelId
+  envPressureMb?: number
+  asymmetry: boolean
+}
+
+export type WindWorkerRequest =
+  | { type: 'mask'; mask: LandMask | null }
+  | { type: 'cancel'; id: number }
+  | WindRenderJob
+  | WindSwathJob
+
+export interface WindFieldResponse {
+  type: 'field'
+  id: number
+  /** True for the last (finest) pass of the job */
+  final: boolean
+  grid: WindGrid
+  /** RGBA bytes, grid.cols × grid.rows */
+  rgba: Uint8ClampedArray
+}
+
+export interface WindSwathResponse {
+  type: 'swath'
+  id: number
+  swath: WindSwath
+  /** RGBA bytes of the peak wind, swath.cols × swath.rows */
+  rgba: Uint8ClampedArray
+}
+
+export type WindWorkerResponse = WindFieldResponse | WindSwathResponse
+
+// ─── Worker state ─────────────────────────────────────────────────────────────
+
+const ROWS_PER_CHUNK = 24
+
+let mask: LandMask | null = null
+let latestId = 0
+
+// Let queued messages (new renders, cancels) land between chunks
+const yieldToQueue = () => new Promise<void>(resolve => setTimeout(resolve, 0))
+
+async function render(job: WindRenderJob) {
+  for (let p = 0; p < job.passes.length; p++) {
+    const cell = job.passes[p]
+    const grid = createWindGrid({
+      ...job.bounds,
+      rows: Math.max(1, Math.ceil(job.height / cell)),
+      cols: Math.max(1, Math.ceil(job.width / cell)),
+    }, !!job.compareModel)
+    const lats = rowLatitudes(grid)
+
+    for (let r = 0; r < grid.rows; r += ROWS_PER_CHUNK) {
+      if (job.id !== latestId) return
+      fillWindGridRows(grid, job, mask, r, r + ROWS_PER_CHUNK, lats)
+      await yieldToQueue()
+    }
+    if (job.id !== latestId) return
+
+    const rgba = colorizeWindGrid(grid)
+    const response: WindFieldResponse = {
+      type: 'field',
+      id: job.id,
+      final: p === job.passes.length - 1,
+      grid,
+      rgba,
+    }
+    const transfer = [grid.speed.buffer, grid.gust.buffer, grid.direction.buffer, rgba.buffer]
+    if (grid.compare) transfer.push(grid.compare.buffer)
+    self.postMessage(response, { transfer })
+  }
+}
+
+function buildSwath(job: WindSwathJob) {
+  if (job.points.length === 0) return
+  const swath = computeWindSwath(
+    job.points, swathView(job.points), mask, job.stepHours, job.model, job.envPressureMb, job.asymmetry,
+  )
+  const rgba = colorizeWindSpeeds(swath.maxWind)
+  const response: WindSwathResponse = { type: 'swath', id: job.id, swath, rgba }
+  self.postMessage(response, {
+    transfer: [
+      swath.maxWind.buffer,
+      ...swath.arrival.map(a => a.buffer),
+      ...swath.duration.map(d => d.buffer),
+      rgba.buffer,
+    ],
+  })
+}
+
+self.addEventListener('message', (e: MessageEvent<WindWorkerRequest>) => {
+  const msg = e.data
+  switch (msg.type) {
+    case 'mask':
+      mask = msg.mask
+      break
+    case 'cancel':
+      latestId = Math.max(latestId, msg.id)
+      break
+    case 'render':
+      latestId = msg.id
+      void render(msg)
+      break
+    case 'swath':
+      buildSwath(msg)
+      break
+  }
+})